@@ -30,6 +30,35 @@ module.exports = {
     'no-console': 'warn',
     'no-debugger': 'error',
   },
+  overrides: [
+    {
+      // Paths come from the route registry (config/routes.ts) so renaming a
+      // route can't leave links pointing at the old path
+      files: [
+        'apps/web/src/**/*.{ts,tsx}',
+        'packages/shared/src/**/*.{ts,tsx}',
+      ],
+      excludedFiles: [
+        'packages/shared/src/config/routes.ts',
+        '**/__tests__/**',
+        '**/*.test.{ts,tsx}',
+      ],
+      rules: {
+        'no-restricted-syntax': [
+          'error',
+          {
+            selector: "JSXAttribute[name.name='to'] > Literal[value=/^\\x2F/]",
+            message: "Use routePath('<Name>') instead of a literal path.",
+          },
+          {
+            selector:
+              'CallExpression[callee.name=/^(navigate|getRedirectUrl)$/] > Literal[value=/^\\x2F/]',
+            message: "Use routePath('<Name>') instead of a literal path.",
+          },
+        ],
+      },
+    },
+  ],
   ignorePatterns: [
     'node_modules/',
     'dist/',
@@ -3,11 +3,17 @@ import { StatusBar } from 'expo-status-bar';
 import Constants from 'expo-constants';
 import { AuthProvider } from '@shared/contexts/AuthContext';
 import { ProfileProvider } from '@shared/contexts/ProfileContext';
+import { IdleTimeout } from '@shared/components/auth/IdleTimeout.native';
 // Import from native-specific file for correct types
-import { configureGoogleSignIn } from '@shared/hooks/useAuth.native';
+import {
+  configureAppleSignIn,
+  configureGoogleSignIn,
+} from '@shared/hooks/useAuth.native';
 import { Logger } from '@shared/utils/logger';
 import { supabase } from './src/lib/supabase';
 import { AppNavigator } from './src/navigation/AppNavigator';
+import { featureFlags } from './src/config/featureFlags';
+import { idleTimeoutMs } from './src/config/session';
 
 export default function App() {
   useEffect(() => {
@@ -54,12 +60,18 @@ export default function App() {
       iosClientId,
       androidClientId,
     });
+
+    configureAppleSignIn({
+      useNativeSignIn: featureFlags.appleNativeSignIn,
+    });
   }, []);
 
   return (
     <AuthProvider supabaseClient={supabase}>
       <ProfileProvider supabaseClient={supabase}>
-        <AppNavigator />
+        <IdleTimeout timeoutMs={idleTimeoutMs}>
+          <AppNavigator />
+        </IdleTimeout>
         <StatusBar style='auto' />
       </ProfileProvider>
     </AuthProvider>
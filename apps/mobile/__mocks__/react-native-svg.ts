@@ -27,5 +27,6 @@ export const Stop = (props: any) => React.createElement('Stop', props);
 export const Pattern = (props: any) => React.createElement('Pattern', props);
 export const Mask = (props: any) => React.createElement('Mask', props);
 export const Marker = (props: any) => React.createElement('Marker', props);
+export const SvgXml = (props: any) => React.createElement('SvgXml', props);
 
 export default Svg;
@@ -19,10 +19,13 @@ jest.mock('expo-constants', () => ({
   },
 }));
 
-// Mock configureGoogleSignIn (added in our auth changes)
+// Mock the social sign-in configuration called on app startup
 jest.mock('@shared/hooks/useAuth', () => ({
   configureGoogleSignIn: jest.fn(),
+  configureAppleSignIn: jest.fn(),
   useAuth: jest.fn(),
+  // Keep the auth callback screen waiting; no deep link is being handled
+  completeSessionFromCallback: jest.fn(() => new Promise(() => {})),
 }));
 
 // Mock the Supabase client module entirely
@@ -66,6 +69,7 @@ jest.mock('@shared/contexts/AuthContext', () => ({
     signUp: jest.fn(),
     signOut: jest.fn(),
     signInWithGoogle: jest.fn(),
+    signInWithApple: jest.fn(),
   }),
 }));
 
@@ -91,6 +95,7 @@ jest.mock('@react-navigation/native', () => ({
     replace: jest.fn(),
     goBack: jest.fn(),
   }),
+  useRoute: () => ({ name: 'Test', params: undefined }),
 }));
 
 jest.mock('@react-navigation/native-stack', () => {
@@ -106,7 +111,14 @@ jest.mock('@react-navigation/native-stack', () => {
             replace: jest.fn(),
             goBack: jest.fn(),
           };
-          return <Component navigation={mockNavigation} {...props} />;
+          const mockRoute = { name: props.name, params: undefined };
+          return (
+            <Component
+              navigation={mockNavigation}
+              route={mockRoute}
+              {...props}
+            />
+          );
         }
         return null;
       },
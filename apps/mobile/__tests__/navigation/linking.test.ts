@@ -0,0 +1,23 @@
+import { foldFragmentIntoQuery } from '../../src/navigation/linking';
+
+describe('foldFragmentIntoQuery', () => {
+  it('moves implicit-flow tokens from the fragment into the query', () => {
+    expect(
+      foldFragmentIntoQuery(
+        'beaker-stack://auth/callback#access_token=abc&refresh_token=def'
+      )
+    ).toBe('beaker-stack://auth/callback?access_token=abc&refresh_token=def');
+  });
+
+  it('keeps existing query params', () => {
+    expect(
+      foldFragmentIntoQuery('beaker-stack://auth/callback?type=signup#code=xyz')
+    ).toBe('beaker-stack://auth/callback?type=signup&code=xyz');
+  });
+
+  it('leaves links without a fragment unchanged', () => {
+    expect(foldFragmentIntoQuery('beaker-stack://profile')).toBe(
+      'beaker-stack://profile'
+    );
+  });
+});
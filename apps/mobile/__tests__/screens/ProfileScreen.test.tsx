@@ -202,7 +202,7 @@ describe('ProfileScreen', () => {
     );
   });
 
-  it('redirects to home when not authenticated', async () => {
+  it('redirects to login and back to profile when not authenticated', async () => {
     mockSupabaseClient.auth!.getSession = jest.fn().mockResolvedValue({
       data: {
         session: null,
@@ -213,7 +213,9 @@ describe('ProfileScreen', () => {
 
     await waitFor(
       () => {
-        expect(mockReplace).toHaveBeenCalledWith('Home');
+        expect(mockReplace).toHaveBeenCalledWith('Login', {
+          redirectTo: { name: 'Profile' },
+        });
       },
       { timeout: 2000 }
     );
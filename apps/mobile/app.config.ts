@@ -77,6 +77,7 @@ const config = {
   },
   ios: {
     supportsTablet: true,
+    usesAppleSignIn: true,
     bundleIdentifier: 'com.anonymous.beakerstack',
     infoPlist: {
       LSApplicationQueriesSchemes: [
@@ -125,6 +126,7 @@ const config = {
     googleWebClientId: process.env.EXPO_PUBLIC_GOOGLE_WEB_CLIENT_ID,
     googleIosClientId: process.env.EXPO_PUBLIC_GOOGLE_IOS_CLIENT_ID,
     googleAndroidClientId: process.env.EXPO_PUBLIC_GOOGLE_ANDROID_CLIENT_ID,
+    idleTimeoutMinutes: process.env.EXPO_PUBLIC_IDLE_TIMEOUT_MINUTES,
   },
 };
 
@@ -38,6 +38,14 @@ describe('SocialLoginButton', () => {
     expect(getByText('Sign up with Google')).toBeTruthy();
   });
 
+  it('renders Apple copy when provider is apple', () => {
+    const { getByText } = render(
+      <SocialLoginButton onPress={mockOnPress} provider='apple' />
+    );
+
+    expect(getByText('Sign in with Apple')).toBeTruthy();
+  });
+
   it('invokes onPress exactly once per tap and shows loading state', async () => {
     const { promise: pressPromise, resolve: resolvePress } = createDeferred();
     mockOnPress.mockReturnValueOnce(pressPromise);
@@ -1,5 +1,8 @@
 export const featureFlags = {
   oauthGoogle: true,
+  oauthApple: true,
+  guestMode: true, // "Continue as guest" on the login screen (anonymous sign-in)
+  appleNativeSignIn: true, // iOS only; when false (and always on Android) Apple uses the OAuth redirect
   showNativeHeader: false, // Controls whether React Navigation's native header/back button is shown
 } as const;
 
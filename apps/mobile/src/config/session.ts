@@ -0,0 +1,25 @@
+import Constants from 'expo-constants';
+import { parseIdleTimeoutMinutes } from '@shared/utils/idleTimeout';
+
+// Inactivity before signing the user out. Set per environment with
+// EXPO_PUBLIC_IDLE_TIMEOUT_MINUTES (passed through app.config.ts extra);
+// 0 disables the timeout.
+const DEFAULT_IDLE_TIMEOUT_MINUTES = 30;
+
+// Handle both expoConfig (SDK 49+) and manifest (older SDKs)
+const config = Constants.expoConfig ?? Constants.manifest;
+const extra = (
+  config && 'extra' in config
+    ? (config as { extra?: Record<string, unknown> }).extra
+    : undefined
+) as { idleTimeoutMinutes?: string } | undefined;
+
+// Filter out an unsubstituted env var pattern ("${EXPO_PUBLIC_IDLE_TIMEOUT_MINUTES}")
+const idleTimeoutMinutes = extra?.idleTimeoutMinutes?.startsWith('${')
+  ? undefined
+  : extra?.idleTimeoutMinutes;
+
+export const idleTimeoutMs =
+  parseIdleTimeoutMinutes(idleTimeoutMinutes, DEFAULT_IDLE_TIMEOUT_MINUTES) *
+  60 *
+  1000;
@@ -0,0 +1,34 @@
+import { Alert, type AlertButton } from 'react-native';
+import type { AuthErrorCode } from '@shared/types/auth';
+import { formatAuthError, toAuthError } from '@shared/utils/authErrors';
+
+// Extra alert buttons for particular errors, e.g. "Reset password" after
+// invalid_credentials. Android shows at most two next to OK.
+export type AuthErrorActions = Partial<
+  Record<AuthErrorCode, AlertButton | AlertButton[]>
+>;
+
+/**
+ * Shows a failed auth action as an alert with guidance for its error code
+ * Cancelled sign-ins are the user's own choice and aren't reported.
+ */
+export function alertAuthError(
+  title: string,
+  error: unknown,
+  actions: AuthErrorActions = {}
+): void {
+  const authError = toAuthError(error);
+  if (authError.code === 'cancelled') {
+    return;
+  }
+
+  const action = actions[authError.code];
+  const buttons = Array.isArray(action) ? action : action ? [action] : [];
+  Alert.alert(
+    title,
+    formatAuthError(authError),
+    buttons.length > 0
+      ? [{ text: 'OK', style: 'cancel' }, ...buttons]
+      : undefined
+  );
+}
@@ -3,24 +3,45 @@ import {
   NavigationContainer,
   type NavigationContainerRef,
 } from '@react-navigation/native';
-import { createNativeStackNavigator } from '@react-navigation/native-stack';
 import HomeScreen from '../screens/HomeScreen';
 import LoginScreen from '../screens/LoginScreen';
 import SignupScreen from '../screens/SignupScreen';
 import DashboardScreen from '../screens/DashboardScreen';
 import ProfileScreen from '../screens/ProfileScreen';
+import ResetPasswordScreen from '../screens/ResetPasswordScreen';
+import VerifyEmailScreen from '../screens/VerifyEmailScreen';
+import MfaChallengeScreen from '../screens/MfaChallengeScreen';
+import SecurityScreen from '../screens/SecurityScreen';
+import SessionsScreen from '../screens/SessionsScreen';
+import PeopleScreen from '../screens/PeopleScreen';
+import ModerationScreen from '../screens/ModerationScreen';
+import PublicProfileScreen from '../screens/PublicProfileScreen';
+import AuthCallbackScreen from '../screens/AuthCallbackScreen';
+import {
+  AppStack,
+  type AppScreens,
+} from '@shared/components/navigation/AppStack.native';
+import type { RootStackParamList } from '@shared/config/routes';
 import { useFeatureFlags } from '../config/featureFlags';
+import { linking } from './linking';
 
-type RootStackParamList = {
-  Home: undefined;
-  Login: undefined;
-  Signup: undefined;
-  Dashboard: undefined;
-  Profile: undefined;
+const SCREENS: AppScreens = {
+  Home: HomeScreen,
+  Login: LoginScreen,
+  Signup: SignupScreen,
+  ResetPassword: ResetPasswordScreen,
+  VerifyEmail: VerifyEmailScreen,
+  Dashboard: DashboardScreen,
+  Profile: ProfileScreen,
+  Security: SecurityScreen,
+  Sessions: SessionsScreen,
+  People: PeopleScreen,
+  PublicProfile: PublicProfileScreen,
+  Moderation: ModerationScreen,
+  MfaChallenge: MfaChallengeScreen,
+  AuthCallback: AuthCallbackScreen,
 };
 
-const Stack = createNativeStackNavigator<RootStackParamList>();
-
 export const AppNavigator = () => {
   const navigationRef =
     React.useRef<NavigationContainerRef<RootStackParamList>>(null);
@@ -35,25 +56,20 @@ export const AppNavigator = () => {
   }
 
   return (
-    <NavigationContainer ref={navigationRef}>
-      <Stack.Navigator
+    <NavigationContainer ref={navigationRef} linking={linking}>
+      <AppStack
+        screens={SCREENS}
         screenOptions={{
           gestureEnabled: false, // Disable swipe-back gestures
           animation: 'none', // Disable screen transition animations
           headerShown: showNativeHeader, // Control native header visibility via feature flag
           headerBackVisible: showNativeHeader, // Control back button visibility
         }}
-      >
-        <Stack.Screen
-          name='Home'
-          component={HomeScreen}
-          options={{ headerShown: false }} // Home always uses custom header
-        />
-        <Stack.Screen name='Login' component={LoginScreen} />
-        <Stack.Screen name='Signup' component={SignupScreen} />
-        <Stack.Screen name='Dashboard' component={DashboardScreen} />
-        <Stack.Screen name='Profile' component={ProfileScreen} />
-      </Stack.Navigator>
+        options={{
+          Home: { headerShown: false }, // Home always uses custom header
+          AuthCallback: { headerShown: false },
+        }}
+      />
     </NavigationContainer>
   );
 };
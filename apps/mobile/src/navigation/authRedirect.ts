@@ -0,0 +1,25 @@
+import {
+  CommonActions,
+  type NavigationProp,
+  type ParamListBase,
+} from '@react-navigation/native';
+import type { AuthRedirectTarget } from '@shared/types/auth';
+
+/**
+ * Leave the auth screens once the user is signed in
+ * Returns to the screen ProtectedRoute sent them from (the redirectTo param),
+ * stacked on the dashboard so back still has somewhere to go.
+ */
+export function resetToAuthRedirect(
+  navigation: Pick<NavigationProp<ParamListBase>, 'dispatch'>,
+  redirectTo: AuthRedirectTarget | undefined
+) {
+  const routes =
+    redirectTo && redirectTo.name !== 'Dashboard'
+      ? [{ name: 'Dashboard' }, redirectTo]
+      : [{ name: 'Dashboard' }];
+
+  navigation.dispatch(
+    CommonActions.reset({ index: routes.length - 1, routes })
+  );
+}
@@ -0,0 +1,48 @@
+import { Linking } from 'react-native';
+import type { LinkingOptions } from '@react-navigation/native';
+import {
+  getLinkingScreens,
+  type RootStackParamList,
+} from '@shared/config/routes';
+
+// Custom scheme registered in app.config.ts (and as a Supabase redirect URL)
+export const APP_URL_PREFIX = 'beaker-stack://';
+
+/**
+ * Move fragment params into the query string
+ * Supabase auth callbacks carry implicit-flow tokens in the fragment, which
+ * React Navigation drops; in the query they reach the AuthCallback screen as
+ * route params.
+ */
+export function foldFragmentIntoQuery(url: string): string {
+  const [withoutHash = '', hash = ''] = url.split('#');
+  if (!hash) {
+    return withoutHash;
+  }
+
+  const [base = '', query = ''] = withoutHash.split('?');
+  const params = new URLSearchParams(query);
+  new URLSearchParams(hash).forEach((value, key) => params.set(key, value));
+  return `${base}?${params.toString()}`;
+}
+
+/**
+ * Deep links for the root stack: beaker-stack://profile opens Profile just as
+ * /profile does on web (paths come from the shared route registry)
+ */
+export const linking: LinkingOptions<RootStackParamList> = {
+  prefixes: [APP_URL_PREFIX],
+  config: {
+    screens: getLinkingScreens(),
+  },
+  async getInitialURL() {
+    const url = await Linking.getInitialURL();
+    return url ? foldFragmentIntoQuery(url) : null;
+  },
+  subscribe(listener) {
+    const subscription = Linking.addEventListener('url', ({ url }) =>
+      listener(foldFragmentIntoQuery(url))
+    );
+    return () => subscription.remove();
+  },
+};
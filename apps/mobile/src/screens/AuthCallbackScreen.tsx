@@ -0,0 +1,139 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  SafeAreaView,
+  ActivityIndicator,
+} from 'react-native';
+import type { RouteProp } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import type { RootStackParamList } from '@shared/config/routes';
+import { completeSessionFromCallback } from '@shared/hooks/useAuth.native';
+import { toAuthError } from '@shared/utils/authErrors';
+import { Logger } from '@shared/utils/logger';
+import { supabase } from '../lib/supabase';
+import { resetToAuthRedirect } from '../navigation/authRedirect';
+
+type AuthCallbackScreenNavigationProp = NativeStackNavigationProp<
+  RootStackParamList,
+  'AuthCallback'
+>;
+
+interface Props {
+  navigation: AuthCallbackScreenNavigationProp;
+  route: RouteProp<RootStackParamList, 'AuthCallback'>;
+}
+
+/**
+ * Landing screen for beaker-stack://auth/callback deep links
+ * Email confirmation links and OAuth redirects that reach the app outside an
+ * in-app auth session end up here; the session they carry is stored and the
+ * user continues to the dashboard, or back to login if the link is bad.
+ * Bad signup confirmation links go to VerifyEmail instead to send a new one.
+ */
+export default function AuthCallbackScreen({ navigation, route }: Props) {
+  const [error, setError] = useState<string | null>(null);
+  const callbackStarted = useRef(false);
+  const params = route.params;
+  // Signup confirmation links carry type=signup (type=email for token_hash links)
+  const isConfirmation =
+    params?.['type'] === 'signup' || params?.['type'] === 'email';
+
+  useEffect(() => {
+    if (callbackStarted.current) {
+      return undefined;
+    }
+    callbackStarted.current = true;
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    completeSessionFromCallback(supabase, new URLSearchParams(params ?? {}))
+      .then(() => resetToAuthRedirect(navigation, undefined))
+      .catch(async (callbackError: unknown) => {
+        // On Android the OAuth redirect also arrives here after the in-app
+        // auth session has already stored it; a session means we're done
+        const {
+          data: { session },
+        } = await supabase.auth.getSession();
+        if (session) {
+          resetToAuthRedirect(navigation, undefined);
+          return;
+        }
+
+        Logger.warn('[AuthCallbackScreen] Callback failed:', callbackError);
+        setError(toAuthError(callbackError).message);
+        timer = setTimeout(() => {
+          navigation.replace(isConfirmation ? 'VerifyEmail' : 'Login');
+        }, 3000);
+      });
+
+    return () => {
+      if (timer) {
+        clearTimeout(timer);
+      }
+    };
+  }, [navigation, params, isConfirmation]);
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.content}>
+        {error ? (
+          <>
+            <Text style={styles.title}>
+              {isConfirmation
+                ? "We couldn't confirm your email"
+                : 'Authentication Error'}
+            </Text>
+            <Text style={styles.errorText}>{error}</Text>
+            <Text style={styles.subtitle}>
+              {isConfirmation
+                ? 'Taking you to send a new link...'
+                : 'Redirecting to login...'}
+            </Text>
+          </>
+        ) : (
+          <>
+            <Text style={styles.title}>
+              {isConfirmation
+                ? 'Confirming your email...'
+                : 'Completing sign in...'}
+            </Text>
+            <ActivityIndicator size='large' color='#3b82f6' />
+          </>
+        )}
+      </View>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f9fafb',
+  },
+  content: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#111827',
+    textAlign: 'center',
+    marginBottom: 24,
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#6b7280',
+    textAlign: 'center',
+  },
+  errorText: {
+    fontSize: 14,
+    color: '#b91c1c',
+    textAlign: 'center',
+    marginBottom: 12,
+  },
+});
@@ -2,25 +2,19 @@ import React, { useEffect } from 'react';
 import {
   View,
   Text,
+  TouchableOpacity,
   StyleSheet,
   SafeAreaView,
   ActivityIndicator,
   ScrollView,
 } from 'react-native';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import type { RootStackParamList } from '@shared/config/routes';
 import { useAuthContext } from '@shared/contexts/AuthContext';
 import { DASHBOARD_TITLE, DASHBOARD_SUBTITLE } from '@shared/utils/strings';
 import { AppHeader } from '@shared/components/navigation/AppHeader.native';
 import { supabase } from '../lib/supabase';
 
-type RootStackParamList = {
-  Home: undefined;
-  Login: undefined;
-  Signup: undefined;
-  Dashboard: undefined;
-  Profile: undefined;
-};
-
 type DashboardScreenNavigationProp = NativeStackNavigationProp<
   RootStackParamList,
   'Dashboard'
@@ -44,6 +38,16 @@ export default function DashboardScreen({ navigation }: Props) {
     }
   }, [auth.loading, auth.user, navigation]);
 
+  // Users with two-factor authentication must finish the challenge first
+  useEffect(() => {
+    if (!auth.loading && auth.user && auth.needsSecondFactor) {
+      const timer = setTimeout(() => {
+        navigation.replace('MfaChallenge');
+      }, 100);
+      return () => clearTimeout(timer);
+    }
+  }, [auth.loading, auth.user, auth.needsSecondFactor, navigation]);
+
   // Show loading state while checking authentication
   if (auth.loading) {
     return (
@@ -55,7 +59,7 @@ export default function DashboardScreen({ navigation }: Props) {
   }
 
   // Show loading state while redirecting (to avoid blank screen)
-  if (!auth.user) {
+  if (!auth.user || auth.needsSecondFactor) {
     return (
       <View style={styles.loadingContainer}>
         <ActivityIndicator size='large' color='#4F46E5' />
@@ -68,7 +72,9 @@ export default function DashboardScreen({ navigation }: Props) {
   return <DashboardScreenContent navigation={navigation} />;
 }
 
-function DashboardScreenContent({ navigation: _navigation }: Props) {
+function DashboardScreenContent({ navigation }: Props) {
+  const auth = useAuthContext();
+
   return (
     <SafeAreaView style={styles.container}>
       <AppHeader supabaseClient={supabase} />
@@ -76,6 +82,28 @@ function DashboardScreenContent({ navigation: _navigation }: Props) {
         style={styles.scrollView}
         contentContainerStyle={styles.content}
       >
+        {/* Guest Banner */}
+        {auth.isGuest && (
+          <View style={styles.guestBanner}>
+            {auth.pendingEmailChange ? (
+              <Text style={styles.guestBannerText}>
+                Check {auth.pendingEmailChange.newEmail} for a confirmation link
+                to finish creating your account.
+              </Text>
+            ) : (
+              <>
+                <Text style={styles.guestBannerText}>
+                  You're using a guest account. Create an account to keep your
+                  data.
+                </Text>
+                <TouchableOpacity onPress={() => navigation.navigate('Signup')}>
+                  <Text style={styles.guestBannerLink}>Create an account</Text>
+                </TouchableOpacity>
+              </>
+            )}
+          </View>
+        )}
+
         <View style={styles.dashboardArea}>
           <Text style={styles.title}>{DASHBOARD_TITLE}</Text>
           <Text style={styles.subtitle}>{DASHBOARD_SUBTITLE}</Text>
@@ -97,6 +125,23 @@ const styles = StyleSheet.create({
     padding: 20,
     paddingBottom: 40,
   },
+  guestBanner: {
+    backgroundColor: '#fefce8',
+    borderRadius: 8,
+    padding: 16,
+    marginBottom: 20,
+  },
+  guestBannerText: {
+    fontSize: 14,
+    color: '#854d0e',
+  },
+  guestBannerLink: {
+    marginTop: 8,
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#854d0e',
+    textDecorationLine: 'underline',
+  },
   dashboardArea: {
     borderWidth: 4,
     borderStyle: 'dashed',
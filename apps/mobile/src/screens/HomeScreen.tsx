@@ -7,20 +7,13 @@ import {
   SafeAreaView,
 } from 'react-native';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import type { RootStackParamList } from '@shared/config/routes';
 import { HOME_TITLE, HOME_SUBTITLE } from '@shared/utils/strings';
 import { useAuthContext } from '@shared/contexts/AuthContext';
 import { AppHeader } from '@shared/components/navigation/AppHeader.native';
 import { supabase } from '../lib/supabase';
 import { DebugTools } from '../components/DebugTools';
 
-type RootStackParamList = {
-  Home: undefined;
-  Login: undefined;
-  Signup: undefined;
-  Dashboard: undefined;
-  Profile: undefined;
-};
-
 type HomeScreenNavigationProp = NativeStackNavigationProp<
   RootStackParamList,
   'Home'
@@ -10,19 +10,16 @@ import {
   ActivityIndicator,
   ScrollView,
 } from 'react-native';
+import type { RouteProp } from '@react-navigation/native';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import type { RootStackParamList } from '@shared/config/routes';
 import { useAuthContext } from '@shared/contexts/AuthContext';
 import { AppHeader } from '@shared/components/navigation/AppHeader.native';
 import { supabase } from '../lib/supabase';
 import { SocialLoginButton } from '../components/SocialLoginButton';
 import { useFeatureFlags } from '../config/featureFlags';
-
-type RootStackParamList = {
-  Home: undefined;
-  Login: undefined;
-  Signup: undefined;
-  Dashboard: undefined;
-};
+import { resetToAuthRedirect } from '../navigation/authRedirect';
+import { alertAuthError } from '../lib/authErrorAlert';
 
 type LoginScreenNavigationProp = NativeStackNavigationProp<
   RootStackParamList,
@@ -31,23 +28,29 @@ type LoginScreenNavigationProp = NativeStackNavigationProp<
 
 interface Props {
   navigation: LoginScreenNavigationProp;
+  route: RouteProp<RootStackParamList, 'Login'>;
 }
 
-export default function LoginScreen({ navigation }: Props) {
-  const { oauthGoogle } = useFeatureFlags();
+type LoginMode = 'password' | 'magicLink';
+
+export default function LoginScreen({ navigation, route }: Props) {
+  const { oauthGoogle, oauthApple, guestMode } = useFeatureFlags();
+  const [mode, setMode] = useState<LoginMode>('password');
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
+  const [otpCode, setOtpCode] = useState('');
+  const [codeSent, setCodeSent] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const auth = useAuthContext();
+  // The screen ProtectedRoute sent the user here from, if any
+  const redirectTo = route.params?.redirectTo;
 
+  // Guests may come here to sign in to an existing account instead
   useEffect(() => {
-    if (!auth.loading && auth.user) {
-      navigation.reset({
-        index: 0,
-        routes: [{ name: 'Dashboard' }],
-      });
+    if (!auth.loading && auth.user && !auth.isGuest) {
+      resetToAuthRedirect(navigation, redirectTo);
     }
-  }, [auth.loading, auth.user, navigation]);
+  }, [auth.loading, auth.user, auth.isGuest, navigation, redirectTo]);
 
   const handleLogin = async () => {
     if (!email || !password) {
@@ -59,12 +62,91 @@ export default function LoginScreen({ navigation }: Props) {
 
     try {
       await auth.signIn(email, password);
+      resetToAuthRedirect(navigation, redirectTo);
+    } catch (error) {
+      alertAuthError('Sign In Failed', error, {
+        invalid_credentials: {
+          text: 'Reset Password',
+          onPress: () => navigation.navigate('ResetPassword'),
+        },
+        email_not_confirmed: [
+          {
+            text: 'Resend Email',
+            onPress: () =>
+              navigation.navigate(
+                'VerifyEmail',
+                redirectTo ? { email, redirectTo } : { email }
+              ),
+          },
+          {
+            text: 'Use a Sign-In Code',
+            onPress: () => setMode('magicLink'),
+          },
+        ],
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleSendCode = async () => {
+    if (!email) {
+      Alert.alert('Error', 'Please enter your email address');
+      return;
+    }
+
+    setIsLoading(true);
+
+    try {
+      await auth.signInWithMagicLink(email);
+      setCodeSent(true);
+    } catch (error) {
+      alertAuthError('Sign In Failed', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleVerifyCode = async () => {
+    if (!otpCode) {
+      Alert.alert('Error', 'Please enter the code from your email');
+      return;
+    }
+
+    setIsLoading(true);
+
+    try {
+      await auth.verifyOtp(email, otpCode.trim());
+      resetToAuthRedirect(navigation, redirectTo);
+    } catch (error) {
+      alertAuthError('Sign In Failed', error, {
+        otp_expired: {
+          text: 'Send a New Code',
+          onPress: () => {
+            setCodeSent(false);
+            setOtpCode('');
+          },
+        },
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const switchMode = () => {
+    setMode(mode === 'password' ? 'magicLink' : 'password');
+    setCodeSent(false);
+    setOtpCode('');
+  };
+
+  const handleContinueAsGuest = async () => {
+    setIsLoading(true);
+
+    try {
+      await auth.signInAsGuest();
       navigation.navigate('Dashboard');
     } catch (error) {
-      Alert.alert(
-        'Sign In Failed',
-        error instanceof Error ? error.message : 'Failed to sign in'
-      );
+      alertAuthError('Sign In Failed', error);
     } finally {
       setIsLoading(false);
     }
@@ -74,10 +156,15 @@ export default function LoginScreen({ navigation }: Props) {
     try {
       await auth.signInWithGoogle();
     } catch (error) {
-      Alert.alert(
-        'Google Sign In Failed',
-        error instanceof Error ? error.message : 'Failed to sign in with Google'
-      );
+      alertAuthError('Google Sign In Failed', error);
+    }
+  };
+
+  const handleAppleLogin = async () => {
+    try {
+      await auth.signInWithApple();
+    } catch (error) {
+      alertAuthError('Apple Sign In Failed', error);
     }
   };
 
@@ -96,10 +183,17 @@ export default function LoginScreen({ navigation }: Props) {
             {oauthGoogle && (
               <SocialLoginButton onPress={handleGoogleLogin} mode='signin' />
             )}
+            {oauthApple && (
+              <SocialLoginButton
+                onPress={handleAppleLogin}
+                mode='signin'
+                provider='apple'
+              />
+            )}
           </View>
 
           {/* Divider */}
-          {oauthGoogle && (
+          {(oauthGoogle || oauthApple) && (
             <View style={styles.divider}>
               <View style={styles.dividerLine} />
               <Text style={styles.dividerText}>Or continue with email</Text>
@@ -116,37 +210,115 @@ export default function LoginScreen({ navigation }: Props) {
             autoCorrect={false}
           />
 
-          <TextInput
-            style={styles.input}
-            placeholder='Password'
-            value={password}
-            onChangeText={setPassword}
-            secureTextEntry
-            autoCapitalize='none'
-            autoCorrect={false}
-          />
+          {mode === 'password' ? (
+            <>
+              <TextInput
+                style={styles.input}
+                placeholder='Password'
+                value={password}
+                onChangeText={setPassword}
+                secureTextEntry
+                autoCapitalize='none'
+                autoCorrect={false}
+              />
+
+              <TouchableOpacity
+                style={styles.forgotPasswordButton}
+                onPress={() => navigation.navigate('ResetPassword')}
+              >
+                <Text style={styles.linkText}>Forgot your password?</Text>
+              </TouchableOpacity>
+
+              <TouchableOpacity
+                style={[
+                  styles.loginButton,
+                  isLoading && styles.loginButtonDisabled,
+                ]}
+                onPress={handleLogin}
+                disabled={isLoading}
+              >
+                {isLoading ? (
+                  <ActivityIndicator color='#ffffff' />
+                ) : (
+                  <Text style={styles.loginButtonText}>Sign In</Text>
+                )}
+              </TouchableOpacity>
+            </>
+          ) : codeSent ? (
+            <>
+              <Text style={styles.helperText}>
+                Enter the 6-digit code we sent to {email}.
+              </Text>
+              <TextInput
+                style={styles.input}
+                placeholder='6-digit code'
+                value={otpCode}
+                onChangeText={setOtpCode}
+                keyboardType='number-pad'
+                autoCapitalize='none'
+                autoCorrect={false}
+                maxLength={6}
+              />
+
+              <TouchableOpacity
+                style={[
+                  styles.loginButton,
+                  isLoading && styles.loginButtonDisabled,
+                ]}
+                onPress={handleVerifyCode}
+                disabled={isLoading}
+              >
+                {isLoading ? (
+                  <ActivityIndicator color='#ffffff' />
+                ) : (
+                  <Text style={styles.loginButtonText}>Verify Code</Text>
+                )}
+              </TouchableOpacity>
+            </>
+          ) : (
+            <TouchableOpacity
+              style={[
+                styles.loginButton,
+                isLoading && styles.loginButtonDisabled,
+              ]}
+              onPress={handleSendCode}
+              disabled={isLoading}
+            >
+              {isLoading ? (
+                <ActivityIndicator color='#ffffff' />
+              ) : (
+                <Text style={styles.loginButtonText}>Email Me a Code</Text>
+              )}
+            </TouchableOpacity>
+          )}
 
           <TouchableOpacity
-            style={[
-              styles.loginButton,
-              isLoading && styles.loginButtonDisabled,
-            ]}
-            onPress={handleLogin}
-            disabled={isLoading}
+            style={styles.modeToggleButton}
+            onPress={switchMode}
           >
-            {isLoading ? (
-              <ActivityIndicator color='#ffffff' />
-            ) : (
-              <Text style={styles.loginButtonText}>Sign In</Text>
-            )}
+            <Text style={styles.linkText}>
+              {mode === 'password'
+                ? 'Sign in without a password'
+                : 'Sign in with your password instead'}
+            </Text>
           </TouchableOpacity>
 
           <TouchableOpacity
             style={styles.linkButton}
-            onPress={() => navigation.navigate('Signup')}
+            onPress={() => navigation.navigate('Signup', route.params)}
           >
             <Text style={styles.linkText}>Don't have an account? Sign up</Text>
           </TouchableOpacity>
+
+          {guestMode && (
+            <TouchableOpacity
+              style={[styles.linkButton, styles.guestButton]}
+              onPress={handleContinueAsGuest}
+              disabled={isLoading}
+            >
+              <Text style={styles.guestText}>Continue as guest</Text>
+            </TouchableOpacity>
+          )}
         </View>
       </ScrollView>
     </SafeAreaView>
@@ -221,6 +393,21 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: '600',
   },
+  helperText: {
+    fontSize: 14,
+    color: '#6b7280',
+    textAlign: 'center',
+    marginBottom: 16,
+  },
+  modeToggleButton: {
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  forgotPasswordButton: {
+    alignSelf: 'flex-end',
+    marginTop: -8,
+    marginBottom: 16,
+  },
   linkButton: {
     alignItems: 'center',
   },
@@ -228,4 +415,11 @@ const styles = StyleSheet.create({
     color: '#3b82f6',
     fontSize: 14,
   },
+  guestButton: {
+    marginTop: 16,
+  },
+  guestText: {
+    color: '#6b7280',
+    fontSize: 14,
+  },
 });
@@ -0,0 +1,193 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  SafeAreaView,
+  Alert,
+  ActivityIndicator,
+  ScrollView,
+} from 'react-native';
+import type { RouteProp } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import type { RootStackParamList } from '@shared/config/routes';
+import { useAuthContext } from '@shared/contexts/AuthContext';
+import { useMfa } from '@shared/hooks/useMfa';
+import { AppHeader } from '@shared/components/navigation/AppHeader.native';
+import { supabase } from '../lib/supabase';
+import { resetToAuthRedirect } from '../navigation/authRedirect';
+
+type MfaChallengeScreenNavigationProp = NativeStackNavigationProp<
+  RootStackParamList,
+  'MfaChallenge'
+>;
+
+interface Props {
+  navigation: MfaChallengeScreenNavigationProp;
+  route: RouteProp<RootStackParamList, 'MfaChallenge'>;
+}
+
+/**
+ * Second-factor challenge screen
+ * Shown while a user with a verified TOTP factor is still on an aal1 session.
+ * A valid code upgrades the session to aal2.
+ */
+export default function MfaChallengeScreen({ navigation, route }: Props) {
+  const [code, setCode] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const auth = useAuthContext();
+  const mfa = useMfa(supabase);
+  const redirectTo = route.params?.redirectTo;
+
+  useEffect(() => {
+    if (auth.loading) {
+      return;
+    }
+    if (!auth.user) {
+      navigation.replace('Login');
+    } else if (!auth.needsSecondFactor) {
+      // Back to the screen that asked for the second factor
+      resetToAuthRedirect(navigation, redirectTo);
+    }
+  }, [auth.loading, auth.user, auth.needsSecondFactor, navigation, redirectTo]);
+
+  const handleVerify = async () => {
+    const [factor] = mfa.factors;
+    if (!factor) {
+      Alert.alert('Error', 'No authenticator app is set up for this account');
+      return;
+    }
+
+    if (!code) {
+      Alert.alert('Error', 'Please enter the code from your authenticator app');
+      return;
+    }
+
+    setIsLoading(true);
+
+    try {
+      await mfa.verify(factor.id, code.trim());
+    } catch (error) {
+      Alert.alert(
+        'Verification Failed',
+        error instanceof Error ? error.message : 'Failed to verify code'
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <AppHeader supabaseClient={supabase} />
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={styles.content}
+      >
+        <View style={styles.form}>
+          <Text style={styles.title}>Two-factor authentication</Text>
+          <Text style={styles.subtitle}>
+            Enter the 6-digit code from your authenticator app.
+          </Text>
+
+          <TextInput
+            style={styles.input}
+            placeholder='6-digit code'
+            value={code}
+            onChangeText={setCode}
+            keyboardType='number-pad'
+            autoCapitalize='none'
+            autoCorrect={false}
+            maxLength={6}
+          />
+
+          <TouchableOpacity
+            style={[
+              styles.primaryButton,
+              (isLoading || mfa.loading) && styles.primaryButtonDisabled,
+            ]}
+            onPress={handleVerify}
+            disabled={isLoading || mfa.loading}
+          >
+            {isLoading ? (
+              <ActivityIndicator color='#ffffff' />
+            ) : (
+              <Text style={styles.primaryButtonText}>Verify</Text>
+            )}
+          </TouchableOpacity>
+
+          <TouchableOpacity style={styles.linkButton} onPress={auth.signOut}>
+            <Text style={styles.linkText}>Sign out</Text>
+          </TouchableOpacity>
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f9fafb',
+  },
+  scrollView: {
+    flex: 1,
+  },
+  content: {
+    flexGrow: 1,
+    justifyContent: 'center',
+    padding: 20,
+  },
+  form: {
+    maxWidth: 400,
+    alignSelf: 'center',
+    width: '100%',
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#111827',
+    textAlign: 'center',
+    marginBottom: 12,
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#6b7280',
+    textAlign: 'center',
+    marginBottom: 24,
+  },
+  input: {
+    backgroundColor: '#ffffff',
+    borderWidth: 1,
+    borderColor: '#d1d5db',
+    borderRadius: 8,
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    fontSize: 16,
+    marginBottom: 16,
+  },
+  primaryButton: {
+    backgroundColor: '#3b82f6',
+    paddingVertical: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  primaryButtonDisabled: {
+    opacity: 0.5,
+  },
+  primaryButtonText: {
+    color: '#ffffff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  linkButton: {
+    alignItems: 'center',
+  },
+  linkText: {
+    color: '#3b82f6',
+    fontSize: 14,
+  },
+});
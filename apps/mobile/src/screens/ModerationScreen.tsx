@@ -0,0 +1,321 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  SafeAreaView,
+  FlatList,
+  ActivityIndicator,
+} from 'react-native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import type { RootStackParamList } from '@shared/config/routes';
+import { useModerationQueue } from '@shared/hooks/useModerationQueue';
+import type { ReportStatus } from '@shared/types/moderation';
+import {
+  REPORT_REASON_OPTIONS,
+  REPORT_STATUS_LABELS,
+} from '@shared/validation/reportSchema';
+import { Logger } from '@shared/utils/logger';
+import { supabase } from '../lib/supabase';
+import { AppHeader } from '@shared/components/navigation/AppHeader.native';
+
+type ModerationScreenNavigationProp = NativeStackNavigationProp<
+  RootStackParamList,
+  'Moderation'
+>;
+
+interface Props {
+  navigation: ModerationScreenNavigationProp;
+}
+
+const STATUSES: ReportStatus[] = ['pending', 'resolved', 'dismissed'];
+
+const getReasonLabel = (reason: string): string =>
+  REPORT_REASON_OPTIONS.find(option => option.value === reason)?.label ??
+  reason;
+
+/**
+ * Review queue of reported users (admins only, gated by the route's role)
+ * Pending reports are listed oldest first; resolving or dismissing one moves
+ * it to that tab, where it can be reopened.
+ */
+export default function ModerationScreen({ navigation }: Props) {
+  const [status, setStatus] = useState<ReportStatus>('pending');
+  const queue = useModerationQueue(supabase, status);
+
+  const handleReview = (reportId: string, newStatus: ReportStatus) => {
+    queue.reviewReport(reportId, newStatus).catch(err => {
+      Logger.error('[ModerationScreen] Reviewing report failed:', err);
+    });
+  };
+
+  const renderUser = (username: string | null) =>
+    username ? (
+      <Text
+        style={styles.userLink}
+        onPress={() => navigation.navigate('PublicProfile', { username })}
+      >
+        @{username}
+      </Text>
+    ) : (
+      <Text style={styles.deletedUser}>a deleted user</Text>
+    );
+
+  const renderEmpty = () => {
+    if (queue.loading) {
+      return (
+        <View style={styles.loadingSection}>
+          <ActivityIndicator size='large' color='#4F46E5' />
+          <Text style={styles.loadingText}>Loading reports...</Text>
+        </View>
+      );
+    }
+    if (queue.error) {
+      return null;
+    }
+    return (
+      <Text style={styles.emptyText}>
+        No {REPORT_STATUS_LABELS[status].toLowerCase()} reports.
+      </Text>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <AppHeader supabaseClient={supabase} />
+
+      <View style={styles.tabs}>
+        {STATUSES.map(option => (
+          <TouchableOpacity
+            key={option}
+            style={[styles.tab, status === option && styles.tabSelected]}
+            onPress={() => setStatus(option)}
+            accessibilityRole='tab'
+            accessibilityState={{ selected: status === option }}
+          >
+            <Text
+              style={[
+                styles.tabText,
+                status === option && styles.tabTextSelected,
+              ]}
+            >
+              {REPORT_STATUS_LABELS[option]}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {queue.error && !queue.loading && (
+        <View style={styles.errorCard}>
+          <Text style={styles.errorTitle}>Something went wrong</Text>
+          <Text style={styles.errorMessage}>{queue.error.message}</Text>
+        </View>
+      )}
+
+      <FlatList
+        data={queue.loading ? [] : queue.reports}
+        keyExtractor={item => item.id}
+        renderItem={({ item }) => {
+          const reviewing = queue.reviewingId === item.id;
+          return (
+            <View style={styles.card}>
+              <Text style={styles.summary}>
+                {renderUser(item.reported_username)} reported by{' '}
+                {renderUser(item.reporter_username)}
+              </Text>
+              <Text style={styles.details}>
+                <Text style={styles.reason}>{getReasonLabel(item.reason)}</Text>
+                {` · ${new Date(item.created_at).toLocaleString()}`}
+              </Text>
+              {item.details ? (
+                <Text style={styles.reportDetails}>{item.details}</Text>
+              ) : null}
+              <View style={styles.actions}>
+                {item.status === 'pending' ? (
+                  <>
+                    <TouchableOpacity
+                      style={[
+                        styles.primaryButton,
+                        reviewing && styles.buttonDisabled,
+                      ]}
+                      onPress={() => handleReview(item.id, 'resolved')}
+                      disabled={reviewing}
+                    >
+                      <Text style={styles.primaryButtonText}>Resolve</Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity
+                      style={[
+                        styles.secondaryButton,
+                        reviewing && styles.buttonDisabled,
+                      ]}
+                      onPress={() => handleReview(item.id, 'dismissed')}
+                      disabled={reviewing}
+                    >
+                      <Text style={styles.secondaryButtonText}>Dismiss</Text>
+                    </TouchableOpacity>
+                  </>
+                ) : (
+                  <TouchableOpacity
+                    style={[
+                      styles.secondaryButton,
+                      reviewing && styles.buttonDisabled,
+                    ]}
+                    onPress={() => handleReview(item.id, 'pending')}
+                    disabled={reviewing}
+                  >
+                    <Text style={styles.secondaryButtonText}>Reopen</Text>
+                  </TouchableOpacity>
+                )}
+              </View>
+            </View>
+          );
+        }}
+        ItemSeparatorComponent={() => <View style={styles.separator} />}
+        ListEmptyComponent={renderEmpty}
+        contentContainerStyle={styles.listContent}
+      />
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f9fafb',
+  },
+  tabs: {
+    flexDirection: 'row',
+    gap: 8,
+    padding: 16,
+    paddingBottom: 8,
+  },
+  tab: {
+    borderWidth: 1,
+    borderColor: '#d1d5db',
+    borderRadius: 8,
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    backgroundColor: '#ffffff',
+  },
+  tabSelected: {
+    backgroundColor: '#3b82f6',
+    borderColor: '#3b82f6',
+  },
+  tabText: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#374151',
+  },
+  tabTextSelected: {
+    color: '#ffffff',
+  },
+  listContent: {
+    padding: 16,
+    paddingTop: 8,
+    paddingBottom: 32,
+  },
+  card: {
+    backgroundColor: '#ffffff',
+    borderRadius: 8,
+    padding: 16,
+    gap: 8,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.05,
+    shadowRadius: 2,
+    elevation: 1,
+  },
+  summary: {
+    fontSize: 14,
+    color: '#111827',
+  },
+  userLink: {
+    fontWeight: '600',
+    color: '#3b82f6',
+  },
+  deletedUser: {
+    fontWeight: '600',
+    color: '#6b7280',
+  },
+  details: {
+    fontSize: 14,
+    color: '#6b7280',
+  },
+  reason: {
+    fontWeight: '600',
+  },
+  reportDetails: {
+    fontSize: 14,
+    color: '#374151',
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 4,
+  },
+  primaryButton: {
+    backgroundColor: '#3b82f6',
+    borderRadius: 6,
+    paddingVertical: 8,
+    paddingHorizontal: 16,
+  },
+  primaryButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#ffffff',
+  },
+  secondaryButton: {
+    borderWidth: 1,
+    borderColor: '#d1d5db',
+    borderRadius: 6,
+    paddingVertical: 8,
+    paddingHorizontal: 16,
+  },
+  secondaryButtonText: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#374151',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  separator: {
+    height: 12,
+  },
+  loadingSection: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 48,
+  },
+  loadingText: {
+    marginTop: 12,
+    fontSize: 16,
+    color: '#6b7280',
+  },
+  emptyText: {
+    paddingVertical: 48,
+    fontSize: 14,
+    color: '#6b7280',
+    textAlign: 'center',
+  },
+  errorCard: {
+    backgroundColor: '#fef2f2',
+    borderColor: '#fecaca',
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 16,
+    marginHorizontal: 16,
+    marginBottom: 8,
+  },
+  errorTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#991b1b',
+    marginBottom: 8,
+  },
+  errorMessage: {
+    fontSize: 14,
+    color: '#b91c1c',
+  },
+});
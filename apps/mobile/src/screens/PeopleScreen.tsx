@@ -0,0 +1,212 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  SafeAreaView,
+  FlatList,
+  ActivityIndicator,
+} from 'react-native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import type { RootStackParamList } from '@shared/config/routes';
+import { useProfileSearch } from '@shared/hooks/useProfileSearch';
+import { Logger } from '@shared/utils/logger';
+import { supabase } from '../lib/supabase';
+import { AppHeader } from '@shared/components/navigation/AppHeader.native';
+import { ProfileAvatar } from '@shared/components/profile/ProfileAvatar.native';
+
+type PeopleScreenNavigationProp = NativeStackNavigationProp<
+  RootStackParamList,
+  'People'
+>;
+
+interface Props {
+  navigation: PeopleScreenNavigationProp;
+}
+
+/**
+ * Member directory
+ * Searches usernames, display names, bios and locations as the user types and
+ * loads further pages as the list is scrolled.
+ */
+export default function PeopleScreen({ navigation }: Props) {
+  const [query, setQuery] = useState('');
+  const search = useProfileSearch(supabase, query);
+
+  const handleEndReached = () => {
+    search.loadMore().catch(err => {
+      Logger.error('[PeopleScreen] Loading more results failed:', err);
+    });
+  };
+
+  const renderEmpty = () => {
+    if (search.loading) {
+      return (
+        <View style={styles.loadingSection}>
+          <ActivityIndicator size='large' color='#4F46E5' />
+          <Text style={styles.loadingText}>Searching...</Text>
+        </View>
+      );
+    }
+    if (search.error) {
+      return null;
+    }
+    return (
+      <Text style={styles.emptyText}>
+        {query.trim() ? `Nobody matches "${query.trim()}".` : 'No members yet.'}
+      </Text>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <AppHeader supabaseClient={supabase} />
+
+      <View style={styles.searchSection}>
+        <TextInput
+          style={styles.input}
+          placeholder='Search by name, username, bio or location'
+          value={query}
+          onChangeText={setQuery}
+          autoCapitalize='none'
+          autoCorrect={false}
+          clearButtonMode='while-editing'
+          returnKeyType='search'
+        />
+      </View>
+
+      {search.error && !search.loading && (
+        <View style={styles.errorCard}>
+          <Text style={styles.errorTitle}>Search failed</Text>
+          <Text style={styles.errorMessage}>{search.error.message}</Text>
+        </View>
+      )}
+
+      <FlatList
+        data={search.loading ? [] : search.results}
+        keyExtractor={item => item.id ?? item.username ?? ''}
+        renderItem={({ item }) => (
+          <TouchableOpacity
+            style={styles.row}
+            onPress={() =>
+              item.username &&
+              navigation.navigate('PublicProfile', { username: item.username })
+            }
+            activeOpacity={0.7}
+          >
+            <ProfileAvatar profile={item} size='small' />
+            <View style={styles.rowText}>
+              <Text style={styles.name} numberOfLines={1}>
+                {item.display_name || item.username}
+              </Text>
+              <Text style={styles.details} numberOfLines={1}>
+                @{item.username}
+                {item.location ? ` · ${item.location}` : ''}
+              </Text>
+            </View>
+          </TouchableOpacity>
+        )}
+        ItemSeparatorComponent={() => <View style={styles.separator} />}
+        ListEmptyComponent={renderEmpty}
+        ListFooterComponent={
+          search.loadingMore ? (
+            <ActivityIndicator style={styles.footer} color='#4F46E5' />
+          ) : null
+        }
+        onEndReached={handleEndReached}
+        onEndReachedThreshold={0.5}
+        keyboardShouldPersistTaps='handled'
+        contentContainerStyle={styles.listContent}
+      />
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f9fafb',
+  },
+  searchSection: {
+    padding: 16,
+    paddingBottom: 8,
+  },
+  input: {
+    backgroundColor: '#ffffff',
+    borderWidth: 1,
+    borderColor: '#d1d5db',
+    borderRadius: 8,
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    fontSize: 16,
+  },
+  listContent: {
+    padding: 16,
+    paddingTop: 8,
+    paddingBottom: 32,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    backgroundColor: '#ffffff',
+    borderRadius: 8,
+    padding: 12,
+  },
+  rowText: {
+    flex: 1,
+  },
+  name: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  details: {
+    marginTop: 2,
+    fontSize: 14,
+    color: '#6b7280',
+  },
+  separator: {
+    height: 8,
+  },
+  loadingSection: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 48,
+  },
+  loadingText: {
+    marginTop: 12,
+    fontSize: 16,
+    color: '#6b7280',
+  },
+  emptyText: {
+    paddingVertical: 48,
+    fontSize: 14,
+    color: '#6b7280',
+    textAlign: 'center',
+  },
+  errorCard: {
+    backgroundColor: '#fef2f2',
+    borderColor: '#fecaca',
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 16,
+    marginHorizontal: 16,
+    marginBottom: 8,
+  },
+  errorTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#991b1b',
+    marginBottom: 8,
+  },
+  errorMessage: {
+    fontSize: 14,
+    color: '#b91c1c',
+  },
+  footer: {
+    paddingVertical: 16,
+  },
+});
@@ -9,14 +9,27 @@ import {
   ActivityIndicator,
 } from 'react-native';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import type { RootStackParamList } from '@shared/config/routes';
 import { useAuthContext } from '@shared/contexts/AuthContext';
 import { useProfileContext } from '@shared/contexts/ProfileContext';
+import { useBlocks } from '@shared/hooks/useBlocks';
+import { useFollow } from '@shared/hooks/useFollow';
+import {
+  useFollowList,
+  type FollowListKind,
+} from '@shared/hooks/useFollowList';
 import { Logger } from '@shared/utils/logger';
 import { supabase } from '../lib/supabase';
 import { AppHeader } from '@shared/components/navigation/AppHeader.native';
 // Import Profile Display Components - Metro will automatically resolve .native.tsx files
 import { ProfileHeader } from '@shared/components/profile/ProfileHeader.native';
 import { ProfileStats } from '@shared/components/profile/ProfileStats.native';
+import { FollowList } from '@shared/components/profile/FollowList.native';
+import { ConnectedAccounts } from '@shared/components/profile/ConnectedAccounts.native';
+import { AccountSecurity } from '@shared/components/profile/AccountSecurity.native';
+import { DeleteAccount } from '@shared/components/profile/DeleteAccount.native';
+import { BlockedUsers } from '@shared/components/profile/BlockedUsers.native';
+import { useFeatureFlags } from '../config/featureFlags';
 // ProfileEditor imported lazily to avoid StyleSheet.create() native bridge errors
 // Dynamic import is used here, which is supported by Metro bundler
 // eslint-disable-next-line @typescript-eslint/ban-ts-comment
@@ -24,14 +37,6 @@ import { ProfileStats } from '@shared/components/profile/ProfileStats.native';
 import type { ProfileEditorProps } from '@shared/components/profile/ProfileEditor.native';
 let ProfileEditor: React.ComponentType<ProfileEditorProps> | null = null;
 
-type RootStackParamList = {
-  Home: undefined;
-  Login: undefined;
-  Signup: undefined;
-  Dashboard: undefined;
-  Profile: undefined;
-};
-
 type ProfileScreenNavigationProp = NativeStackNavigationProp<
   RootStackParamList,
   'Profile'
@@ -44,17 +49,38 @@ interface Props {
 export default function ProfileScreen({ navigation }: Props) {
   const auth = useAuthContext();
 
-  // Handle route protection - redirect if not authenticated
+  // Handle route protection - redirect if not authenticated, coming back here
+  // after signing in
   useEffect(() => {
     if (!auth.loading && !auth.user) {
       // Small delay to ensure navigation is ready
       const timer = setTimeout(() => {
-        navigation.replace('Home');
+        navigation.replace('Login', { redirectTo: { name: 'Profile' } });
       }, 100);
       return () => clearTimeout(timer);
     }
   }, [auth.loading, auth.user, navigation]);
 
+  // Guests have no account to manage yet; offer to create one instead
+  useEffect(() => {
+    if (!auth.loading && auth.isGuest) {
+      const timer = setTimeout(() => {
+        navigation.replace('Signup');
+      }, 100);
+      return () => clearTimeout(timer);
+    }
+  }, [auth.loading, auth.isGuest, navigation]);
+
+  // Users with two-factor authentication must finish the challenge first
+  useEffect(() => {
+    if (!auth.loading && auth.user && auth.needsSecondFactor) {
+      const timer = setTimeout(() => {
+        navigation.replace('MfaChallenge', { redirectTo: { name: 'Profile' } });
+      }, 100);
+      return () => clearTimeout(timer);
+    }
+  }, [auth.loading, auth.user, auth.needsSecondFactor, navigation]);
+
   // Show loading state while checking authentication
   if (auth.loading) {
     return (
@@ -66,7 +92,7 @@ export default function ProfileScreen({ navigation }: Props) {
   }
 
   // Show loading state while redirecting (to avoid blank screen)
-  if (!auth.user) {
+  if (!auth.user || auth.isGuest || auth.needsSecondFactor) {
     return (
       <View style={styles.loadingContainer}>
         <ActivityIndicator size='large' color='#4F46E5' />
@@ -79,11 +105,30 @@ export default function ProfileScreen({ navigation }: Props) {
   return <ProfileScreenContent navigation={navigation} />;
 }
 
-function ProfileScreenContent({ navigation: _navigation }: Props) {
+function ProfileScreenContent({ navigation }: Props) {
   const [isEditing, setIsEditing] = useState(false);
   const [componentsLoaded, setComponentsLoaded] = useState(false);
   const auth = useAuthContext();
   const profile = useProfileContext();
+  const { oauthGoogle, oauthApple } = useFeatureFlags();
+  const userId = profile.profile?.user_id ?? null;
+  const follow = useFollow(supabase, userId);
+  const blocks = useBlocks(supabase, auth.user?.id ?? null);
+  const [openList, setOpenList] = useState<FollowListKind | null>(null);
+  const followList = useFollowList(
+    supabase,
+    openList ? userId : null,
+    openList ?? 'followers'
+  );
+
+  const handleLoadMore = () => {
+    followList.loadMore().catch(err => {
+      Logger.error('[ProfileScreen] Loading more follows failed:', err);
+    });
+  };
+
+  const toggleList = (kind: FollowListKind) =>
+    setOpenList(current => (current === kind ? null : kind));
 
   // Lazy load ProfileEditor only when editing
   useEffect(() => {
@@ -141,7 +186,74 @@ function ProfileScreenContent({ navigation: _navigation }: Props) {
             {/* Profile Stats Section */}
             {profile.profile && (
               <View style={styles.card}>
-                <ProfileStats profile={profile.profile} />
+                <ProfileStats
+                  profile={profile.profile}
+                  followCounts={{
+                    followers: follow.followerCount,
+                    following: follow.followingCount,
+                  }}
+                  onShowFollowers={() => toggleList('followers')}
+                  onShowFollowing={() => toggleList('following')}
+                />
+              </View>
+            )}
+
+            {/* Followers / Following Section */}
+            {openList && (
+              <View style={styles.card}>
+                <FollowList
+                  title={openList === 'followers' ? 'Followers' : 'Following'}
+                  profiles={followList.profiles}
+                  loading={followList.loading}
+                  loadingMore={followList.loadingMore}
+                  error={followList.error}
+                  hasMore={followList.hasMore}
+                  onLoadMore={handleLoadMore}
+                  onSelect={username =>
+                    navigation.navigate('PublicProfile', { username })
+                  }
+                  emptyMessage={
+                    openList === 'followers'
+                      ? 'No followers yet.'
+                      : "You aren't following anyone yet."
+                  }
+                />
+              </View>
+            )}
+
+            {/* Connected Accounts Section */}
+            <View style={styles.card}>
+              <ConnectedAccounts
+                identities={auth.identities}
+                providers={[
+                  ...(oauthGoogle ? (['google'] as const) : []),
+                  ...(oauthApple ? (['apple'] as const) : []),
+                ]}
+                onLink={auth.linkIdentity}
+                onUnlink={auth.unlinkIdentity}
+              />
+            </View>
+
+            {/* Account Security Section */}
+            <View style={styles.card}>
+              <AccountSecurity
+                email={auth.user?.email}
+                pendingEmailChange={auth.pendingEmailChange}
+                hasPassword={auth.identities.some(
+                  identity => identity.provider === 'email'
+                )}
+                onChangeEmail={auth.changeEmail}
+                onChangePassword={auth.changePassword}
+              />
+            </View>
+
+            {/* Blocked Users Section */}
+            {!blocks.loading && (
+              <View style={styles.card}>
+                <BlockedUsers
+                  blockedUsers={blocks.blockedUsers}
+                  onUnblock={blocks.unblockUser}
+                />
               </View>
             )}
 
@@ -178,6 +290,17 @@ function ProfileScreenContent({ navigation: _navigation }: Props) {
                 )}
               </View>
             )}
+
+            {/* Delete Account Section */}
+            <View style={styles.card}>
+              <DeleteAccount
+                confirmationText={
+                  profile.profile?.username ?? auth.user?.email ?? ''
+                }
+                // Signing out afterwards sends the user Home via the guard above
+                onDelete={auth.deleteAccount}
+              />
+            </View>
           </View>
         )}
       </ScrollView>
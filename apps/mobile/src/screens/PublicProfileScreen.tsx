@@ -0,0 +1,341 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  SafeAreaView,
+  ScrollView,
+  ActivityIndicator,
+} from 'react-native';
+import type { RouteProp } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import type { RootStackParamList } from '@shared/config/routes';
+import { useAuthContext } from '@shared/contexts/AuthContext';
+import { useBlocks } from '@shared/hooks/useBlocks';
+import { useFollow } from '@shared/hooks/useFollow';
+import {
+  useFollowList,
+  type FollowListKind,
+} from '@shared/hooks/useFollowList';
+import { usePublicProfile } from '@shared/hooks/usePublicProfile';
+import { useReportUser } from '@shared/hooks/useReportUser';
+import { Logger } from '@shared/utils/logger';
+import { supabase } from '../lib/supabase';
+import { AppHeader } from '@shared/components/navigation/AppHeader.native';
+import { FollowList } from '@shared/components/profile/FollowList.native';
+import { ProfileActions } from '@shared/components/profile/ProfileActions.native';
+import { ProfileHeader } from '@shared/components/profile/ProfileHeader.native';
+import { ProfileStats } from '@shared/components/profile/ProfileStats.native';
+
+type PublicProfileScreenNavigationProp = NativeStackNavigationProp<
+  RootStackParamList,
+  'PublicProfile'
+>;
+
+interface Props {
+  navigation: PublicProfileScreenNavigationProp;
+  route: RouteProp<RootStackParamList, 'PublicProfile'>;
+}
+
+/**
+ * Someone's profile as everyone sees it
+ * Opened from links like beaker-stack://u/ada; read-only, with no email,
+ * editing or owner-only stats. Signed-in members (not guests) can follow,
+ * block or report the user from here.
+ */
+export default function PublicProfileScreen({ navigation, route }: Props) {
+  const username = route.params?.username;
+  const auth = useAuthContext();
+  const publicProfile = usePublicProfile(supabase, username);
+  const userId = publicProfile.profile?.user_id ?? null;
+  const currentUserId = auth.user && !auth.isGuest ? auth.user.id : null;
+  const follow = useFollow(supabase, userId, currentUserId);
+  const blocks = useBlocks(supabase, currentUserId);
+  const report = useReportUser(supabase, currentUserId);
+  // Blocked profiles stay on screen until it is left, so the block can be
+  // undone
+  const isBlocked = !!userId && blocks.isBlocked(userId);
+  const [openList, setOpenList] = useState<FollowListKind | null>(null);
+  const followList = useFollowList(
+    supabase,
+    openList ? userId : null,
+    openList ?? 'followers'
+  );
+
+  const handleToggleFollow = () => {
+    follow.toggleFollow().catch(err => {
+      Logger.error('[PublicProfileScreen] Follow toggle failed:', err);
+    });
+  };
+
+  const handleLoadMore = () => {
+    followList.loadMore().catch(err => {
+      Logger.error('[PublicProfileScreen] Loading more follows failed:', err);
+    });
+  };
+
+  const toggleList = (kind: FollowListKind) =>
+    setOpenList(current => (current === kind ? null : kind));
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <AppHeader supabaseClient={supabase} />
+
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={styles.content}
+      >
+        {publicProfile.loading && (
+          <View style={styles.loadingSection}>
+            <ActivityIndicator size='large' color='#4F46E5' />
+            <Text style={styles.loadingText}>Loading profile...</Text>
+          </View>
+        )}
+
+        {publicProfile.error && !publicProfile.loading && (
+          <View style={styles.errorCard}>
+            <Text style={styles.errorTitle}>Error loading profile</Text>
+            <Text style={styles.errorMessage}>
+              {publicProfile.error.message}
+            </Text>
+            <TouchableOpacity
+              onPress={() => publicProfile.refresh().catch(() => {})}
+            >
+              <Text style={styles.retryText}>Try again</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+
+        {publicProfile.notFound && !publicProfile.loading && (
+          <View style={styles.notFoundSection}>
+            <Text style={styles.notFoundCode}>404</Text>
+            <Text style={styles.notFoundTitle}>User not found</Text>
+            <Text style={styles.notFoundText}>
+              Nobody goes by @{username} here. Check the link and try again.
+            </Text>
+            <TouchableOpacity
+              style={styles.linkButton}
+              onPress={() => navigation.navigate('Home')}
+            >
+              <Text style={styles.linkText}>Go to the home screen</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+
+        {publicProfile.profile && !publicProfile.loading && (
+          <View style={styles.profileContent}>
+            <View style={styles.card}>
+              <ProfileHeader profile={publicProfile.profile} />
+              {isBlocked && (
+                <Text style={styles.blockedText}>
+                  You blocked @{publicProfile.profile.username}. Their profile
+                  is hidden from you everywhere else.
+                </Text>
+              )}
+              {follow.canFollow && !isBlocked && (
+                <TouchableOpacity
+                  style={[
+                    styles.followButton,
+                    follow.isFollowing && styles.followingButton,
+                    (follow.loading || follow.toggling) &&
+                      styles.buttonDisabled,
+                  ]}
+                  onPress={handleToggleFollow}
+                  disabled={follow.loading || follow.toggling}
+                  accessibilityRole='button'
+                  accessibilityState={{ selected: follow.isFollowing }}
+                >
+                  <Text
+                    style={[
+                      styles.followButtonText,
+                      follow.isFollowing && styles.followingButtonText,
+                    ]}
+                  >
+                    {follow.isFollowing ? 'Following' : 'Follow'}
+                  </Text>
+                </TouchableOpacity>
+              )}
+              {follow.error && (
+                <Text style={styles.followError}>{follow.error.message}</Text>
+              )}
+              {follow.canFollow && userId && (
+                <ProfileActions
+                  style={styles.actions}
+                  username={publicProfile.profile.username ?? ''}
+                  isBlocked={isBlocked}
+                  onBlock={() => blocks.blockUser(userId)}
+                  onUnblock={() => blocks.unblockUser(userId)}
+                  onReport={input => report.reportUser(userId, input)}
+                />
+              )}
+            </View>
+
+            {!isBlocked && (
+              <View style={styles.card}>
+                <ProfileStats
+                  profile={publicProfile.profile}
+                  readOnly
+                  followCounts={{
+                    followers: follow.followerCount,
+                    following: follow.followingCount,
+                  }}
+                  onShowFollowers={() => toggleList('followers')}
+                  onShowFollowing={() => toggleList('following')}
+                />
+              </View>
+            )}
+
+            {openList && !isBlocked && (
+              <View style={styles.card}>
+                <FollowList
+                  title={openList === 'followers' ? 'Followers' : 'Following'}
+                  profiles={followList.profiles}
+                  loading={followList.loading}
+                  loadingMore={followList.loadingMore}
+                  error={followList.error}
+                  hasMore={followList.hasMore}
+                  onLoadMore={handleLoadMore}
+                  onSelect={selected =>
+                    navigation.push('PublicProfile', { username: selected })
+                  }
+                  emptyMessage={
+                    openList === 'followers'
+                      ? 'No followers yet.'
+                      : 'Not following anyone yet.'
+                  }
+                />
+              </View>
+            )}
+          </View>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f9fafb',
+  },
+  loadingText: {
+    marginTop: 12,
+    fontSize: 16,
+    color: '#6b7280',
+  },
+  scrollView: {
+    flex: 1,
+  },
+  content: {
+    padding: 16,
+    paddingBottom: 32,
+  },
+  loadingSection: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 48,
+  },
+  errorCard: {
+    backgroundColor: '#fef2f2',
+    borderColor: '#fecaca',
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 16,
+    marginBottom: 16,
+  },
+  errorTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#991b1b',
+    marginBottom: 8,
+  },
+  errorMessage: {
+    fontSize: 14,
+    color: '#b91c1c',
+  },
+  retryText: {
+    marginTop: 12,
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#991b1b',
+    textDecorationLine: 'underline',
+  },
+  notFoundSection: {
+    alignItems: 'center',
+    paddingVertical: 48,
+  },
+  notFoundCode: {
+    fontSize: 48,
+    fontWeight: 'bold',
+    color: '#d1d5db',
+  },
+  notFoundTitle: {
+    marginTop: 16,
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#111827',
+  },
+  notFoundText: {
+    marginTop: 8,
+    fontSize: 14,
+    color: '#6b7280',
+    textAlign: 'center',
+  },
+  linkButton: {
+    marginTop: 24,
+  },
+  linkText: {
+    color: '#3b82f6',
+    fontSize: 14,
+  },
+  profileContent: {
+    gap: 16,
+  },
+  card: {
+    backgroundColor: '#ffffff',
+    borderRadius: 8,
+    padding: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.05,
+    shadowRadius: 2,
+    elevation: 1,
+  },
+  followButton: {
+    marginTop: 16,
+    backgroundColor: '#3b82f6',
+    borderRadius: 8,
+    paddingVertical: 10,
+    alignItems: 'center',
+  },
+  followingButton: {
+    backgroundColor: '#ffffff',
+    borderWidth: 1,
+    borderColor: '#d1d5db',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  followButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#ffffff',
+  },
+  followingButtonText: {
+    color: '#374151',
+  },
+  blockedText: {
+    marginTop: 12,
+    fontSize: 14,
+    color: '#6b7280',
+  },
+  actions: {
+    marginTop: 12,
+  },
+  followError: {
+    marginTop: 8,
+    fontSize: 14,
+    color: '#b91c1c',
+  },
+});
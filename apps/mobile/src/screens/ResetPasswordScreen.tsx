@@ -0,0 +1,275 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  SafeAreaView,
+  Alert,
+  ActivityIndicator,
+  ScrollView,
+} from 'react-native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import type { RootStackParamList } from '@shared/config/routes';
+import { useAuthContext } from '@shared/contexts/AuthContext';
+import { AppHeader } from '@shared/components/navigation/AppHeader.native';
+import { supabase } from '../lib/supabase';
+import { alertAuthError } from '../lib/authErrorAlert';
+
+type ResetPasswordScreenNavigationProp = NativeStackNavigationProp<
+  RootStackParamList,
+  'ResetPassword'
+>;
+
+interface Props {
+  navigation: ResetPasswordScreenNavigationProp;
+}
+
+/**
+ * Password reset screen
+ * Step 1 sends the recovery email. Step 2 takes the 6-digit code from that
+ * email together with the new password; verifying the code starts a recovery
+ * session, after which the password can be updated.
+ */
+export default function ResetPasswordScreen({ navigation }: Props) {
+  const [email, setEmail] = useState('');
+  const [code, setCode] = useState('');
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [codeSent, setCodeSent] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const auth = useAuthContext();
+
+  // A recovery session may already exist (e.g. code verified but update failed)
+  const isRecovering = auth.passwordRecovery && !!auth.user;
+
+  const handleRequestReset = async () => {
+    if (!email) {
+      Alert.alert('Error', 'Please enter your email address');
+      return;
+    }
+
+    setIsLoading(true);
+
+    try {
+      await auth.requestPasswordReset(email);
+      setCodeSent(true);
+    } catch (error) {
+      alertAuthError('Reset Failed', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleUpdatePassword = async () => {
+    if ((!isRecovering && !code) || !password || !confirmPassword) {
+      Alert.alert('Error', 'Please fill in all fields');
+      return;
+    }
+
+    if (password !== confirmPassword) {
+      Alert.alert('Error', 'Passwords do not match');
+      return;
+    }
+
+    setIsLoading(true);
+
+    try {
+      if (!isRecovering) {
+        await auth.verifyPasswordResetCode(email, code.trim());
+      }
+      await auth.updatePassword(password);
+      navigation.reset({
+        index: 0,
+        routes: [{ name: 'Dashboard' }],
+      });
+    } catch (error) {
+      alertAuthError('Reset Failed', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const showPasswordStep = codeSent || isRecovering;
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <AppHeader supabaseClient={supabase} />
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={styles.content}
+      >
+        <View style={styles.form}>
+          <Text style={styles.title}>
+            {showPasswordStep ? 'Choose a new password' : 'Reset your password'}
+          </Text>
+
+          {!showPasswordStep && (
+            <>
+              <Text style={styles.subtitle}>
+                Enter your email and we'll send you a code to reset your
+                password.
+              </Text>
+              <TextInput
+                style={styles.input}
+                placeholder='Email address'
+                value={email}
+                onChangeText={setEmail}
+                keyboardType='email-address'
+                autoCapitalize='none'
+                autoCorrect={false}
+              />
+
+              <TouchableOpacity
+                style={[
+                  styles.primaryButton,
+                  isLoading && styles.primaryButtonDisabled,
+                ]}
+                onPress={handleRequestReset}
+                disabled={isLoading}
+              >
+                {isLoading ? (
+                  <ActivityIndicator color='#ffffff' />
+                ) : (
+                  <Text style={styles.primaryButtonText}>Send Reset Code</Text>
+                )}
+              </TouchableOpacity>
+            </>
+          )}
+
+          {showPasswordStep && (
+            <>
+              {!isRecovering && (
+                <>
+                  <Text style={styles.subtitle}>
+                    Enter the code we sent to {email}.
+                  </Text>
+                  <TextInput
+                    style={styles.input}
+                    placeholder='6-digit code'
+                    value={code}
+                    onChangeText={setCode}
+                    keyboardType='number-pad'
+                    autoCapitalize='none'
+                    autoCorrect={false}
+                    maxLength={6}
+                  />
+                </>
+              )}
+
+              <TextInput
+                style={styles.input}
+                placeholder='New password'
+                value={password}
+                onChangeText={setPassword}
+                secureTextEntry
+                autoCapitalize='none'
+                autoCorrect={false}
+              />
+
+              <TextInput
+                style={styles.input}
+                placeholder='Confirm new password'
+                value={confirmPassword}
+                onChangeText={setConfirmPassword}
+                secureTextEntry
+                autoCapitalize='none'
+                autoCorrect={false}
+              />
+
+              <TouchableOpacity
+                style={[
+                  styles.primaryButton,
+                  isLoading && styles.primaryButtonDisabled,
+                ]}
+                onPress={handleUpdatePassword}
+                disabled={isLoading}
+              >
+                {isLoading ? (
+                  <ActivityIndicator color='#ffffff' />
+                ) : (
+                  <Text style={styles.primaryButtonText}>Update Password</Text>
+                )}
+              </TouchableOpacity>
+            </>
+          )}
+
+          {!isRecovering && (
+            <TouchableOpacity
+              style={styles.linkButton}
+              onPress={() => navigation.navigate('Login')}
+            >
+              <Text style={styles.linkText}>Back to sign in</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f9fafb',
+  },
+  scrollView: {
+    flex: 1,
+  },
+  content: {
+    flexGrow: 1,
+    justifyContent: 'center',
+    padding: 20,
+  },
+  form: {
+    maxWidth: 400,
+    alignSelf: 'center',
+    width: '100%',
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#111827',
+    textAlign: 'center',
+    marginBottom: 12,
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#6b7280',
+    textAlign: 'center',
+    marginBottom: 24,
+  },
+  input: {
+    backgroundColor: '#ffffff',
+    borderWidth: 1,
+    borderColor: '#d1d5db',
+    borderRadius: 8,
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    fontSize: 16,
+    marginBottom: 16,
+  },
+  primaryButton: {
+    backgroundColor: '#3b82f6',
+    paddingVertical: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  primaryButtonDisabled: {
+    opacity: 0.5,
+  },
+  primaryButtonText: {
+    color: '#ffffff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  linkButton: {
+    alignItems: 'center',
+  },
+  linkText: {
+    color: '#3b82f6',
+    fontSize: 14,
+  },
+});
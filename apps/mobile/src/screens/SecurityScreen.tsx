@@ -0,0 +1,335 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  SafeAreaView,
+  Alert,
+  ActivityIndicator,
+  ScrollView,
+} from 'react-native';
+import { SvgXml } from 'react-native-svg';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import type { RootStackParamList } from '@shared/config/routes';
+import { useMfa } from '@shared/hooks/useMfa';
+import type { TotpEnrollment } from '@shared/types/mfa';
+import { AppHeader } from '@shared/components/navigation/AppHeader.native';
+import { supabase } from '../lib/supabase';
+
+type SecurityScreenNavigationProp = NativeStackNavigationProp<
+  RootStackParamList,
+  'Security'
+>;
+
+interface Props {
+  navigation: SecurityScreenNavigationProp;
+}
+
+// Supabase returns the TOTP QR code as an SVG data URI
+const getQrCodeXml = (qrCode: string) =>
+  decodeURIComponent(qrCode.replace(/^data:image\/svg\+xml;[^,]*,/, ''));
+
+/**
+ * Security settings screen
+ * Turns two-factor authentication on (scan the QR code or enter the key,
+ * confirm with a first code) or off. Removing a factor needs an aal2 session,
+ * so the screen requires one from users who have a factor.
+ */
+export default function SecurityScreen(_props: Props) {
+  const [enrollment, setEnrollment] = useState<TotpEnrollment | null>(null);
+  const [code, setCode] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const mfa = useMfa(supabase);
+
+  const handleStartEnrollment = async () => {
+    setIsLoading(true);
+
+    try {
+      setEnrollment(await mfa.enroll());
+    } catch (error) {
+      Alert.alert(
+        'Setup Failed',
+        error instanceof Error ? error.message : 'Failed to start enrollment'
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleConfirmEnrollment = async () => {
+    if (!enrollment) {
+      return;
+    }
+
+    if (!code) {
+      Alert.alert('Error', 'Please enter the code from your authenticator app');
+      return;
+    }
+
+    setIsLoading(true);
+
+    try {
+      await mfa.verify(enrollment.factorId, code.trim());
+      setEnrollment(null);
+      setCode('');
+    } catch (error) {
+      Alert.alert(
+        'Verification Failed',
+        error instanceof Error ? error.message : 'Failed to verify code'
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleUnenroll = (factorId: string) => {
+    Alert.alert(
+      'Turn Off Two-Factor Authentication',
+      'You will only need your password to sign in.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Turn Off',
+          style: 'destructive',
+          onPress: async () => {
+            setIsLoading(true);
+            try {
+              await mfa.unenroll(factorId);
+            } catch (error) {
+              Alert.alert(
+                'Error',
+                error instanceof Error
+                  ? error.message
+                  : 'Failed to turn off two-factor authentication'
+              );
+            } finally {
+              setIsLoading(false);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <AppHeader supabaseClient={supabase} />
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={styles.content}
+      >
+        <View style={styles.card}>
+          <Text style={styles.title}>Two-factor authentication</Text>
+          <Text style={styles.subtitle}>
+            Require a code from an authenticator app in addition to your
+            password when you sign in.
+          </Text>
+
+          {mfa.loading && !enrollment && mfa.factors.length === 0 ? (
+            <ActivityIndicator size='large' color='#4F46E5' />
+          ) : enrollment ? (
+            <>
+              <Text style={styles.bodyText}>
+                Scan this QR code with your authenticator app, then enter the
+                6-digit code it shows.
+              </Text>
+              <View style={styles.qrCode}>
+                <SvgXml
+                  xml={getQrCodeXml(enrollment.qrCode)}
+                  width={192}
+                  height={192}
+                />
+              </View>
+              <Text style={styles.bodyText}>
+                Can't scan it? Enter this key instead:
+              </Text>
+              <Text style={styles.secret} selectable>
+                {enrollment.secret}
+              </Text>
+              <TextInput
+                style={styles.input}
+                placeholder='6-digit code'
+                value={code}
+                onChangeText={setCode}
+                keyboardType='number-pad'
+                autoCapitalize='none'
+                autoCorrect={false}
+                maxLength={6}
+              />
+              <TouchableOpacity
+                style={[
+                  styles.primaryButton,
+                  isLoading && styles.primaryButtonDisabled,
+                ]}
+                onPress={handleConfirmEnrollment}
+                disabled={isLoading}
+              >
+                {isLoading ? (
+                  <ActivityIndicator color='#ffffff' />
+                ) : (
+                  <Text style={styles.primaryButtonText}>Turn On</Text>
+                )}
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.linkButton}
+                onPress={() => {
+                  setEnrollment(null);
+                  setCode('');
+                }}
+                disabled={isLoading}
+              >
+                <Text style={styles.linkText}>Cancel</Text>
+              </TouchableOpacity>
+            </>
+          ) : mfa.factors.length > 0 ? (
+            mfa.factors.map(factor => (
+              <View key={factor.id} style={styles.factorRow}>
+                <View>
+                  <Text style={styles.factorName}>
+                    {factor.friendly_name || 'Authenticator app'}
+                  </Text>
+                  <Text style={styles.factorDate}>
+                    Added {new Date(factor.created_at).toLocaleDateString()}
+                  </Text>
+                </View>
+                <TouchableOpacity
+                  style={styles.removeButton}
+                  onPress={() => handleUnenroll(factor.id)}
+                  disabled={isLoading}
+                >
+                  <Text style={styles.removeButtonText}>Remove</Text>
+                </TouchableOpacity>
+              </View>
+            ))
+          ) : (
+            <TouchableOpacity
+              style={[
+                styles.primaryButton,
+                isLoading && styles.primaryButtonDisabled,
+              ]}
+              onPress={handleStartEnrollment}
+              disabled={isLoading}
+            >
+              {isLoading ? (
+                <ActivityIndicator color='#ffffff' />
+              ) : (
+                <Text style={styles.primaryButtonText}>
+                  Set Up Authenticator App
+                </Text>
+              )}
+            </TouchableOpacity>
+          )}
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f9fafb',
+  },
+  scrollView: {
+    flex: 1,
+  },
+  content: {
+    padding: 20,
+  },
+  card: {
+    backgroundColor: '#ffffff',
+    borderRadius: 8,
+    padding: 20,
+    maxWidth: 400,
+    alignSelf: 'center',
+    width: '100%',
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#111827',
+    marginBottom: 8,
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#6b7280',
+    marginBottom: 20,
+  },
+  bodyText: {
+    fontSize: 14,
+    color: '#374151',
+    marginBottom: 12,
+  },
+  qrCode: {
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  secret: {
+    fontFamily: 'Courier',
+    fontSize: 14,
+    color: '#111827',
+    marginBottom: 16,
+  },
+  input: {
+    backgroundColor: '#ffffff',
+    borderWidth: 1,
+    borderColor: '#d1d5db',
+    borderRadius: 8,
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    fontSize: 16,
+    marginBottom: 16,
+  },
+  primaryButton: {
+    backgroundColor: '#3b82f6',
+    paddingVertical: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  primaryButtonDisabled: {
+    opacity: 0.5,
+  },
+  primaryButtonText: {
+    color: '#ffffff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  linkButton: {
+    alignItems: 'center',
+  },
+  linkText: {
+    color: '#3b82f6',
+    fontSize: 14,
+  },
+  factorRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 12,
+  },
+  factorName: {
+    fontSize: 16,
+    fontWeight: '500',
+    color: '#111827',
+  },
+  factorDate: {
+    fontSize: 12,
+    color: '#6b7280',
+    marginTop: 2,
+  },
+  removeButton: {
+    borderWidth: 1,
+    borderColor: '#fca5a5',
+    borderRadius: 6,
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+  },
+  removeButtonText: {
+    color: '#b91c1c',
+    fontSize: 14,
+    fontWeight: '500',
+  },
+});
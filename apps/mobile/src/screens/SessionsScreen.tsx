@@ -0,0 +1,251 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  SafeAreaView,
+  Alert,
+  ActivityIndicator,
+  ScrollView,
+} from 'react-native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import type { RootStackParamList } from '@shared/config/routes';
+import { useAuthContext } from '@shared/contexts/AuthContext';
+import { useSessions } from '@shared/hooks/useSessions';
+import { AppHeader } from '@shared/components/navigation/AppHeader.native';
+import { supabase } from '../lib/supabase';
+
+type SessionsScreenNavigationProp = NativeStackNavigationProp<
+  RootStackParamList,
+  'Sessions'
+>;
+
+interface Props {
+  navigation: SessionsScreenNavigationProp;
+}
+
+const PLATFORM_LABELS = {
+  web: 'Web',
+  ios: 'iOS app',
+  android: 'Android app',
+};
+
+/**
+ * Signed-in devices screen
+ * Lists every session of the user with its last activity and lets them sign
+ * out all other devices, or every device including this one. Signing out
+ * everywhere clears the user, so ProtectedRoute (applied from the route
+ * registry) takes care of leaving.
+ */
+export default function SessionsScreen(_props: Props) {
+  const [isLoading, setIsLoading] = useState(false);
+  const auth = useAuthContext();
+  const sessions = useSessions(supabase, auth.session);
+
+  const otherSessionCount = sessions.sessions.filter(
+    session => !session.isCurrent
+  ).length;
+
+  const handleSignOutOthers = async () => {
+    setIsLoading(true);
+
+    try {
+      await auth.signOutOtherDevices();
+      await sessions.refreshSessions();
+    } catch (error) {
+      Alert.alert(
+        'Sign Out Failed',
+        error instanceof Error
+          ? error.message
+          : 'Failed to sign out other devices'
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleSignOutEverywhere = () => {
+    Alert.alert(
+      'Sign out everywhere',
+      'This signs out every device, including this one.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Sign Out',
+          style: 'destructive',
+          onPress: async () => {
+            setIsLoading(true);
+            try {
+              await auth.signOutEverywhere();
+            } catch (error) {
+              Alert.alert(
+                'Sign Out Failed',
+                error instanceof Error ? error.message : 'Failed to sign out'
+              );
+              setIsLoading(false);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <AppHeader supabaseClient={supabase} />
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={styles.content}
+      >
+        <View style={styles.card}>
+          <Text style={styles.title}>Signed-in devices</Text>
+          <Text style={styles.subtitle}>
+            If you don't recognize a device, sign it out and change your
+            password.
+          </Text>
+
+          {sessions.error && (
+            <Text style={styles.errorText}>{sessions.error.message}</Text>
+          )}
+
+          {sessions.loading && sessions.sessions.length === 0 ? (
+            <ActivityIndicator color='#3b82f6' />
+          ) : (
+            sessions.sessions.map(session => (
+              <View key={session.id} style={styles.sessionRow}>
+                <View style={styles.sessionHeader}>
+                  <Text style={styles.deviceName}>{session.deviceName}</Text>
+                  {session.isCurrent && (
+                    <Text style={styles.currentBadge}>This device</Text>
+                  )}
+                </View>
+                <Text style={styles.sessionDetails}>
+                  {PLATFORM_LABELS[session.platform]} · Last active{' '}
+                  {new Date(session.lastSeenAt).toLocaleString()}
+                </Text>
+              </View>
+            ))
+          )}
+
+          <TouchableOpacity
+            style={[
+              styles.secondaryButton,
+              (isLoading || otherSessionCount === 0) && styles.buttonDisabled,
+            ]}
+            onPress={handleSignOutOthers}
+            disabled={isLoading || otherSessionCount === 0}
+          >
+            <Text style={styles.secondaryButtonText}>
+              Sign Out Other Devices
+            </Text>
+          </TouchableOpacity>
+
+          <TouchableOpacity
+            style={[styles.dangerButton, isLoading && styles.buttonDisabled]}
+            onPress={handleSignOutEverywhere}
+            disabled={isLoading}
+          >
+            <Text style={styles.dangerButtonText}>Sign Out Everywhere</Text>
+          </TouchableOpacity>
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f9fafb',
+  },
+  scrollView: {
+    flex: 1,
+  },
+  content: {
+    padding: 20,
+  },
+  card: {
+    backgroundColor: '#ffffff',
+    borderRadius: 8,
+    padding: 20,
+    maxWidth: 400,
+    alignSelf: 'center',
+    width: '100%',
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#111827',
+    marginBottom: 8,
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#6b7280',
+    marginBottom: 20,
+  },
+  errorText: {
+    fontSize: 14,
+    color: '#991b1b',
+    marginBottom: 12,
+  },
+  sessionRow: {
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e7eb',
+  },
+  sessionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  deviceName: {
+    fontSize: 16,
+    fontWeight: '500',
+    color: '#111827',
+  },
+  currentBadge: {
+    marginLeft: 8,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 4,
+    overflow: 'hidden',
+    backgroundColor: '#dcfce7',
+    color: '#166534',
+    fontSize: 12,
+    fontWeight: '500',
+  },
+  sessionDetails: {
+    fontSize: 12,
+    color: '#6b7280',
+    marginTop: 2,
+  },
+  secondaryButton: {
+    borderWidth: 1,
+    borderColor: '#d1d5db',
+    paddingVertical: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+    marginTop: 20,
+    marginBottom: 12,
+  },
+  secondaryButtonText: {
+    color: '#374151',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  dangerButton: {
+    borderWidth: 1,
+    borderColor: '#fca5a5',
+    paddingVertical: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  dangerButtonText: {
+    color: '#b91c1c',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+});
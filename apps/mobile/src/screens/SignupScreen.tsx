@@ -10,19 +10,19 @@ import {
   ActivityIndicator,
   ScrollView,
 } from 'react-native';
+import type { RouteProp } from '@react-navigation/native';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import type { RootStackParamList } from '@shared/config/routes';
 import { useAuthContext } from '@shared/contexts/AuthContext';
 import { AppHeader } from '@shared/components/navigation/AppHeader.native';
+import { FormInput } from '@shared/components/forms/FormInput.native';
+import { useUsernameAvailability } from '@shared/hooks/useUsernameAvailability';
+import { getSignupProfileFieldError } from '@shared/validation/profileSchema';
 import { supabase } from '../lib/supabase';
 import { SocialLoginButton } from '../components/SocialLoginButton';
 import { useFeatureFlags } from '../config/featureFlags';
-
-type RootStackParamList = {
-  Home: undefined;
-  Login: undefined;
-  Signup: undefined;
-  Dashboard: undefined;
-};
+import { resetToAuthRedirect } from '../navigation/authRedirect';
+import { alertAuthError } from '../lib/authErrorAlert';
 
 type SignupScreenNavigationProp = NativeStackNavigationProp<
   RootStackParamList,
@@ -31,24 +31,43 @@ type SignupScreenNavigationProp = NativeStackNavigationProp<
 
 interface Props {
   navigation: SignupScreenNavigationProp;
+  route: RouteProp<RootStackParamList, 'Signup'>;
 }
 
-export default function SignupScreen({ navigation }: Props) {
-  const { oauthGoogle } = useFeatureFlags();
+export default function SignupScreen({ navigation, route }: Props) {
+  const { oauthGoogle, oauthApple } = useFeatureFlags();
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [confirmPassword, setConfirmPassword] = useState('');
+  const [username, setUsername] = useState('');
+  const [displayName, setDisplayName] = useState('');
+  // Fields are validated as the user types once they've been touched
+  const [touched, setTouched] = useState({
+    username: false,
+    displayName: false,
+  });
   const [isLoading, setIsLoading] = useState(false);
   const auth = useAuthContext();
+  const redirectTo = route.params?.redirectTo;
+  // Guests already have a profile; they can rename themselves later
+  const collectProfile = !auth.isGuest;
+  const usernameAvailability = useUsernameAvailability(supabase, username, {
+    enabled: collectProfile,
+  });
+  const usernameError =
+    getSignupProfileFieldError('username', username) ??
+    (usernameAvailability.isUnavailable ? usernameAvailability.message : null);
+  const displayNameError = getSignupProfileFieldError(
+    'display_name',
+    displayName
+  );
 
+  // Guests stay here to turn their guest account into a real one
   useEffect(() => {
-    if (!auth.loading && auth.user) {
-      navigation.reset({
-        index: 0,
-        routes: [{ name: 'Dashboard' }],
-      });
+    if (!auth.loading && auth.user && !auth.isGuest) {
+      resetToAuthRedirect(navigation, redirectTo);
     }
-  }, [auth.loading, auth.user, navigation]);
+  }, [auth.loading, auth.user, auth.isGuest, navigation, redirectTo]);
 
   const handleSignup = async () => {
     if (!email || !password || !confirmPassword) {
@@ -61,16 +80,39 @@ export default function SignupScreen({ navigation }: Props) {
       return;
     }
 
+    if (collectProfile && (usernameError || displayNameError)) {
+      setTouched({ username: true, displayName: true });
+      Alert.alert('Error', 'Please fix the highlighted fields');
+      return;
+    }
+
     setIsLoading(true);
 
     try {
-      await auth.signUp(email, password);
-      navigation.navigate('Dashboard');
+      if (auth.isGuest) {
+        await auth.convertGuestToAccount(email, password);
+      } else {
+        const { emailVerificationRequired } = await auth.signUp(
+          email,
+          password,
+          { username, displayName }
+        );
+        if (emailVerificationRequired) {
+          navigation.replace(
+            'VerifyEmail',
+            redirectTo ? { email, redirectTo } : { email }
+          );
+          return;
+        }
+      }
+      resetToAuthRedirect(navigation, redirectTo);
     } catch (error) {
-      Alert.alert(
-        'Sign Up Failed',
-        error instanceof Error ? error.message : 'Failed to create account'
-      );
+      alertAuthError('Sign Up Failed', error, {
+        user_already_exists: {
+          text: 'Sign In',
+          onPress: () => navigation.navigate('Login', route.params),
+        },
+      });
     } finally {
       setIsLoading(false);
     }
@@ -78,12 +120,22 @@ export default function SignupScreen({ navigation }: Props) {
 
   const handleGoogleSignup = async () => {
     try {
-      await auth.signInWithGoogle();
+      // Guests keep their account by linking the provider to it
+      await (auth.isGuest
+        ? auth.linkIdentity('google')
+        : auth.signInWithGoogle());
+    } catch (error) {
+      alertAuthError('Google Sign Up Failed', error);
+    }
+  };
+
+  const handleAppleSignup = async () => {
+    try {
+      await (auth.isGuest
+        ? auth.linkIdentity('apple')
+        : auth.signInWithApple());
     } catch (error) {
-      Alert.alert(
-        'Google Sign Up Failed',
-        error instanceof Error ? error.message : 'Failed to sign up with Google'
-      );
+      alertAuthError('Apple Sign Up Failed', error);
     }
   };
 
@@ -95,23 +147,75 @@ export default function SignupScreen({ navigation }: Props) {
         contentContainerStyle={styles.content}
       >
         <View style={styles.form}>
-          <Text style={styles.title}>Create your account</Text>
+          <Text style={styles.title}>
+            {auth.isGuest ? 'Save your guest account' : 'Create your account'}
+          </Text>
+          {auth.isGuest && (
+            <Text style={styles.subtitle}>
+              Add a sign-in method to keep your profile and everything you've
+              done so far.
+            </Text>
+          )}
 
           {/* OAuth Buttons */}
           <View style={styles.oauthContainer}>
             {oauthGoogle && (
               <SocialLoginButton onPress={handleGoogleSignup} mode='signup' />
             )}
+            {oauthApple && (
+              <SocialLoginButton
+                onPress={handleAppleSignup}
+                mode='signup'
+                provider='apple'
+              />
+            )}
           </View>
 
           {/* Divider */}
-          {oauthGoogle && (
+          {(oauthGoogle || oauthApple) && (
             <View style={styles.divider}>
               <View style={styles.dividerLine} />
               <Text style={styles.dividerText}>Or continue with email</Text>
               <View style={styles.dividerLine} />
             </View>
           )}
+          {collectProfile && (
+            <>
+              <FormInput
+                label='Username'
+                value={username}
+                onChange={value => {
+                  setUsername(value);
+                  setTouched(prev => ({ ...prev, username: true }));
+                }}
+                {...(touched.username && usernameError
+                  ? { error: usernameError }
+                  : {})}
+                {...(usernameAvailability.message
+                  ? { hint: usernameAvailability.message }
+                  : {})}
+                placeholder='Letters, numbers and underscores'
+                disabled={isLoading}
+                autoCapitalize='none'
+                autoCorrect={false}
+              />
+              <FormInput
+                label='Display name'
+                value={displayName}
+                onChange={value => {
+                  setDisplayName(value);
+                  setTouched(prev => ({ ...prev, displayName: true }));
+                }}
+                {...(touched.displayName && displayNameError
+                  ? { error: displayNameError }
+                  : {})}
+                placeholder='How your name is shown (optional)'
+                disabled={isLoading}
+                autoCapitalize='words'
+              />
+            </>
+          )}
+
           <TextInput
             style={styles.input}
             placeholder='Email address'
@@ -159,7 +263,7 @@ export default function SignupScreen({ navigation }: Props) {
 
           <TouchableOpacity
             style={styles.linkButton}
-            onPress={() => navigation.navigate('Login')}
+            onPress={() => navigation.navigate('Login', route.params)}
           >
             <Text style={styles.linkText}>
               Already have an account? Sign in
@@ -196,6 +300,12 @@ const styles = StyleSheet.create({
     textAlign: 'center',
     marginBottom: 24,
   },
+  subtitle: {
+    fontSize: 14,
+    color: '#6b7280',
+    textAlign: 'center',
+    marginBottom: 24,
+  },
   oauthContainer: {
     marginBottom: 16,
   },
@@ -0,0 +1,215 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  SafeAreaView,
+  Alert,
+  ActivityIndicator,
+  ScrollView,
+} from 'react-native';
+import type { RouteProp } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import type { RootStackParamList } from '@shared/config/routes';
+import { useAuthContext } from '@shared/contexts/AuthContext';
+import { AppHeader } from '@shared/components/navigation/AppHeader.native';
+import { useResendCooldown } from '@shared/hooks/useResendCooldown';
+import { toAuthError } from '@shared/utils/authErrors';
+import { supabase } from '../lib/supabase';
+import { resetToAuthRedirect } from '../navigation/authRedirect';
+import { alertAuthError } from '../lib/authErrorAlert';
+
+type VerifyEmailScreenNavigationProp = NativeStackNavigationProp<
+  RootStackParamList,
+  'VerifyEmail'
+>;
+
+interface Props {
+  navigation: VerifyEmailScreenNavigationProp;
+  route: RouteProp<RootStackParamList, 'VerifyEmail'>;
+}
+
+/**
+ * "Check your inbox" screen
+ * Shown after signing up while email confirmations are on, and by
+ * ProtectedRoute for screens that require a verified email. The link in the
+ * email opens the app on AuthCallback, which signs the user in.
+ */
+export default function VerifyEmailScreen({ navigation, route }: Props) {
+  const auth = useAuthContext();
+  const redirectTo = route.params?.redirectTo;
+  const knownEmail = route.params?.email ?? auth.user?.email;
+  const [email, setEmail] = useState(knownEmail ?? '');
+  const [isSending, setIsSending] = useState(false);
+  const cooldown = useResendCooldown();
+
+  const isVerified = !!auth.user && !auth.isGuest && auth.emailVerified;
+
+  useEffect(() => {
+    if (isVerified) {
+      resetToAuthRedirect(navigation, redirectTo);
+    }
+  }, [isVerified, navigation, redirectTo]);
+
+  const handleResend = async () => {
+    if (!email) {
+      Alert.alert('Error', 'Please enter your email address');
+      return;
+    }
+
+    setIsSending(true);
+
+    try {
+      await auth.resendVerificationEmail(email);
+      cooldown.start();
+      Alert.alert('Email Sent', 'We sent you a new confirmation link.');
+    } catch (error) {
+      if (toAuthError(error).code === 'rate_limited') {
+        cooldown.start();
+      }
+      alertAuthError('Resend Failed', error);
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const isCoolingDown = cooldown.remainingSeconds > 0;
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <AppHeader supabaseClient={supabase} />
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={styles.content}
+      >
+        <View style={styles.form}>
+          <Text style={styles.title}>Check your inbox</Text>
+          <Text style={styles.subtitle}>
+            {knownEmail
+              ? `We sent a confirmation link to ${knownEmail}.`
+              : 'We sent you a confirmation link.'}{' '}
+            Open it on this device to confirm your email address and finish
+            signing up.
+          </Text>
+
+          {!knownEmail && (
+            <TextInput
+              style={styles.input}
+              placeholder='Email address'
+              value={email}
+              onChangeText={setEmail}
+              keyboardType='email-address'
+              autoCapitalize='none'
+              autoCorrect={false}
+            />
+          )}
+
+          <Text style={styles.hint}>
+            Didn't get it? Check your spam folder, or send it again.
+          </Text>
+
+          <TouchableOpacity
+            style={[
+              styles.resendButton,
+              (isSending || isCoolingDown) && styles.resendButtonDisabled,
+            ]}
+            onPress={handleResend}
+            disabled={isSending || isCoolingDown}
+          >
+            {isSending ? (
+              <ActivityIndicator color='#ffffff' />
+            ) : (
+              <Text style={styles.resendButtonText}>
+                {isCoolingDown
+                  ? `Resend in ${cooldown.remainingSeconds}s`
+                  : 'Resend Confirmation Email'}
+              </Text>
+            )}
+          </TouchableOpacity>
+
+          <TouchableOpacity
+            style={styles.linkButton}
+            onPress={() =>
+              navigation.navigate('Login', redirectTo ? { redirectTo } : {})
+            }
+          >
+            <Text style={styles.linkText}>Already confirmed? Sign in</Text>
+          </TouchableOpacity>
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f9fafb',
+  },
+  scrollView: {
+    flex: 1,
+  },
+  content: {
+    flexGrow: 1,
+    justifyContent: 'center',
+    padding: 20,
+  },
+  form: {
+    maxWidth: 400,
+    alignSelf: 'center',
+    width: '100%',
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#111827',
+    textAlign: 'center',
+    marginBottom: 12,
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#6b7280',
+    textAlign: 'center',
+    marginBottom: 24,
+  },
+  input: {
+    backgroundColor: '#ffffff',
+    borderWidth: 1,
+    borderColor: '#d1d5db',
+    borderRadius: 8,
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    fontSize: 16,
+    marginBottom: 16,
+  },
+  hint: {
+    fontSize: 14,
+    color: '#6b7280',
+    textAlign: 'center',
+    marginBottom: 12,
+  },
+  resendButton: {
+    backgroundColor: '#3b82f6',
+    paddingVertical: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  resendButtonDisabled: {
+    opacity: 0.5,
+  },
+  resendButtonText: {
+    color: '#ffffff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  linkButton: {
+    alignItems: 'center',
+  },
+  linkText: {
+    color: '#3b82f6',
+    fontSize: 14,
+  },
+});
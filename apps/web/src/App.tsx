@@ -1,37 +1,43 @@
-import { Routes, Route } from 'react-router-dom';
-import { ProtectedRoute } from '@shared/components/auth/ProtectedRoute.web';
+import type { ComponentType } from 'react';
+import { AppRoutes } from '@shared/components/navigation/AppRoutes.web';
+import type { RouteName } from '@shared/config/routes';
 import HomePage from './pages/HomePage';
 import LoginPage from './pages/LoginPage';
 import SignupPage from './pages/SignupPage';
 import DashboardPage from './pages/DashboardPage';
 import ProfilePage from './pages/ProfilePage';
 import AuthCallbackPage from './pages/AuthCallbackPage';
+import ResetPasswordPage from './pages/ResetPasswordPage';
+import VerifyEmailPage from './pages/VerifyEmailPage';
+import MfaChallengePage from './pages/MfaChallengePage';
+import SecurityPage from './pages/SecurityPage';
+import SessionsPage from './pages/SessionsPage';
+import PeoplePage from './pages/PeoplePage';
+import ModerationPage from './pages/ModerationPage';
+import PublicProfilePage from './pages/PublicProfilePage';
+
+// Paths, auth requirements and titles come from the shared route registry
+const PAGES: Record<RouteName, ComponentType> = {
+  Home: HomePage,
+  Login: LoginPage,
+  Signup: SignupPage,
+  ResetPassword: ResetPasswordPage,
+  VerifyEmail: VerifyEmailPage,
+  Dashboard: DashboardPage,
+  Profile: ProfilePage,
+  Security: SecurityPage,
+  Sessions: SessionsPage,
+  People: PeoplePage,
+  PublicProfile: PublicProfilePage,
+  Moderation: ModerationPage,
+  MfaChallenge: MfaChallengePage,
+  AuthCallback: AuthCallbackPage,
+};
 
 function App() {
   return (
     <div className='min-h-screen bg-gray-50'>
-      <Routes>
-        <Route path='/' element={<HomePage />} />
-        <Route path='/login' element={<LoginPage />} />
-        <Route path='/signup' element={<SignupPage />} />
-        <Route
-          path='/dashboard'
-          element={
-            <ProtectedRoute>
-              <DashboardPage />
-            </ProtectedRoute>
-          }
-        />
-        <Route
-          path='/profile'
-          element={
-            <ProtectedRoute>
-              <ProfilePage />
-            </ProtectedRoute>
-          }
-        />
-        <Route path='/auth/callback' element={<AuthCallbackPage />} />
-      </Routes>
+      <AppRoutes pages={PAGES} />
     </div>
   );
 }
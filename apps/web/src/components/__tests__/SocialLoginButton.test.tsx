@@ -35,6 +35,16 @@ describe('SocialLoginButton', () => {
     expect(screen.getByText('Sign up with Google')).toBeInTheDocument();
   });
 
+  it('renders Apple copy when provider is apple', () => {
+    const mockOnPress = vi.fn();
+
+    render(
+      <SocialLoginButton onPress={mockOnPress} provider='apple' mode='signup' />
+    );
+
+    expect(screen.getByText('Sign up with Apple')).toBeInTheDocument();
+  });
+
   it('calls onPress once per click and displays loading state', async () => {
     const user = userEvent.setup();
     const { promise: pressPromise, resolve: resolvePress } = createDeferred();
@@ -0,0 +1,11 @@
+export const featureFlags = {
+  oauthGoogle: true,
+  oauthApple: true,
+  guestMode: true, // "Continue as guest" on the login page (anonymous sign-in)
+} as const;
+
+export type FeatureFlags = typeof featureFlags;
+
+export function useFeatureFlags(): FeatureFlags {
+  return featureFlags;
+}
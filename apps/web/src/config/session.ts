@@ -0,0 +1,13 @@
+import { parseIdleTimeoutMinutes } from '@shared/utils/idleTimeout';
+
+// Inactivity before signing the user out. Set per environment with
+// VITE_IDLE_TIMEOUT_MINUTES; 0 disables the timeout.
+const DEFAULT_IDLE_TIMEOUT_MINUTES = 30;
+
+export const idleTimeoutMs =
+  parseIdleTimeoutMinutes(
+    import.meta.env.VITE_IDLE_TIMEOUT_MINUTES,
+    DEFAULT_IDLE_TIMEOUT_MINUTES
+  ) *
+  60 *
+  1000;
@@ -0,0 +1,40 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  DEFAULT_AUTH_REDIRECT,
+  consumeAuthRedirect,
+  getRedirectFromState,
+  rememberAuthRedirect,
+} from './authRedirect';
+
+describe('authRedirect', () => {
+  beforeEach(() => {
+    window.sessionStorage.clear();
+  });
+
+  it('reads the requested page from router state', () => {
+    expect(getRedirectFromState({ from: '/profile?tab=security' })).toBe(
+      '/profile?tab=security'
+    );
+  });
+
+  it('falls back to the dashboard without a usable target', () => {
+    expect(getRedirectFromState(null)).toBe(DEFAULT_AUTH_REDIRECT);
+    expect(getRedirectFromState({ from: 42 })).toBe(DEFAULT_AUTH_REDIRECT);
+  });
+
+  it('rejects targets outside the app', () => {
+    expect(getRedirectFromState({ from: 'https://evil.example' })).toBe(
+      DEFAULT_AUTH_REDIRECT
+    );
+    expect(getRedirectFromState({ from: '//evil.example' })).toBe(
+      DEFAULT_AUTH_REDIRECT
+    );
+  });
+
+  it('keeps the target across a redirect round trip only once', () => {
+    rememberAuthRedirect('/profile');
+
+    expect(consumeAuthRedirect()).toBe('/profile');
+    expect(consumeAuthRedirect()).toBe(DEFAULT_AUTH_REDIRECT);
+  });
+});
@@ -0,0 +1,48 @@
+import { routePath } from '@shared/config/routes';
+
+// Where to send the user after signing in.
+// ProtectedRoute passes the page it bounced the user from as location.state.from.
+// OAuth (and email links opened in the same tab) leave the app, so the target is
+// parked in sessionStorage until AuthCallbackPage picks it up. Paths are router
+// paths, relative to the basename, so PR previews served from /pr-<N>/ work as is.
+
+export const DEFAULT_AUTH_REDIRECT = routePath('Dashboard');
+
+const STORAGE_KEY = 'auth.redirectTo';
+
+// Only accept in-app paths; anything else (https://..., //evil.com) would be an
+// open redirect
+function toSafePath(value: unknown): string | null {
+  return typeof value === 'string' &&
+    value.startsWith('/') &&
+    !value.startsWith('//') &&
+    !value.startsWith('/\\')
+    ? value
+    : null;
+}
+
+export function getRedirectFromState(state: unknown): string {
+  const from =
+    state && typeof state === 'object'
+      ? (state as { from?: unknown }).from
+      : undefined;
+  return toSafePath(from) ?? DEFAULT_AUTH_REDIRECT;
+}
+
+export function rememberAuthRedirect(path: string): void {
+  try {
+    window.sessionStorage.setItem(STORAGE_KEY, path);
+  } catch {
+    // Storage can be unavailable (e.g. Safari private mode); fall back to the default
+  }
+}
+
+export function consumeAuthRedirect(): string {
+  try {
+    const stored = window.sessionStorage.getItem(STORAGE_KEY);
+    window.sessionStorage.removeItem(STORAGE_KEY);
+    return toSafePath(stored) ?? DEFAULT_AUTH_REDIRECT;
+  } catch {
+    return DEFAULT_AUTH_REDIRECT;
+  }
+}
@@ -2,8 +2,10 @@ import React from 'react';
 import ReactDOM from 'react-dom/client';
 import { BrowserRouter } from 'react-router-dom';
 import { AuthProvider } from '@shared/contexts/AuthContext';
+import { IdleTimeout } from '@shared/components/auth/IdleTimeout.web';
 import { ProfileProvider } from '@shared/contexts/ProfileContext';
 import { supabase } from './lib/supabase';
+import { idleTimeoutMs } from './config/session';
 import App from './App';
 import './index.css';
 
@@ -21,7 +23,9 @@ ReactDOM.createRoot(rootElement).render(
     <AuthProvider supabaseClient={supabase}>
       <ProfileProvider supabaseClient={supabase}>
         <BrowserRouter basename={basePath}>
-          <App />
+          <IdleTimeout timeoutMs={idleTimeoutMs}>
+            <App />
+          </IdleTimeout>
         </BrowserRouter>
       </ProfileProvider>
     </AuthProvider>
@@ -1,11 +1,100 @@
-import { useEffect, useState } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useEffect, useRef, useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import type { EmailOtpType } from '@supabase/supabase-js';
 import { useAuthContext } from '@shared/contexts/AuthContext';
+import type { AuthError } from '@shared/types/auth';
+import { toAuthError } from '@shared/utils/authErrors';
+import { supabase } from '@/lib/supabase';
+import { consumeAuthRedirect } from '@/lib/authRedirect';
+import { routePath } from '@shared/config/routes';
+
+// How long "Email confirmed" shows before moving on
+const CONFIRMED_REDIRECT_DELAY_MS = 1500;
+
+// Signup confirmation links carry type=signup (type=email for token_hash links)
+function isEmailConfirmation(): boolean {
+  const queryParams = new URLSearchParams(window.location.search);
+  const hashParams = new URLSearchParams(window.location.hash.substring(1));
+  const type = queryParams.get('type') ?? hashParams.get('type');
+  return type === 'signup' || type === 'email';
+}
 
 export default function AuthCallbackPage() {
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<AuthError | null>(null);
+  const [isConfirmation] = useState(isEmailConfirmation);
   const navigate = useNavigate();
   const auth = useAuthContext();
+  const exchangeStarted = useRef(false);
+  const finished = useRef(false);
+  const redirectTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  // Expired confirmation links stay on the error so the user can ask for a
+  // new one; other failures go back to login
+  const failWith = (authError: AuthError) => {
+    setError(authError);
+    if (!(isConfirmation && authError.code === 'otp_expired')) {
+      setTimeout(() => {
+        navigate(routePath('Login'), { replace: true });
+      }, 3000);
+    }
+  };
+
+  // Signed in from the link; confirmations say so before moving on. Auth
+  // events during the delay re-run the effect below, so this only runs once.
+  const finish = () => {
+    if (finished.current) {
+      return;
+    }
+    finished.current = true;
+
+    const redirectTo = consumeAuthRedirect();
+    if (isConfirmation) {
+      redirectTimer.current = setTimeout(() => {
+        navigate(redirectTo, { replace: true });
+      }, CONFIRMED_REDIRECT_DELAY_MS);
+    } else {
+      navigate(redirectTo, { replace: true });
+    }
+  };
+
+  useEffect(() => {
+    return () => {
+      if (redirectTimer.current) {
+        clearTimeout(redirectTimer.current);
+      }
+    };
+  }, []);
+
+  // Email links (magic link, signup confirmation) can arrive either with tokens in
+  // the hash (handled by the Supabase client) or as ?token_hash=...&type=... when the
+  // email template links straight to the app, and PKCE redirects carry ?code=...
+  // Those two need an explicit exchange; onAuthStateChange then updates auth.user.
+  useEffect(() => {
+    if (exchangeStarted.current) {
+      return;
+    }
+
+    const queryParams = new URLSearchParams(window.location.search);
+    const tokenHash = queryParams.get('token_hash');
+    const type = queryParams.get('type') as EmailOtpType | null;
+    const code = queryParams.get('code');
+
+    if (!tokenHash && !code) {
+      return;
+    }
+    exchangeStarted.current = true;
+
+    const exchange =
+      tokenHash && type
+        ? supabase.auth.verifyOtp({ token_hash: tokenHash, type })
+        : supabase.auth.exchangeCodeForSession(code ?? '');
+
+    exchange.then(({ error: exchangeError }) => {
+      if (exchangeError) {
+        failWith(toAuthError(exchangeError));
+      }
+    });
+  }, [navigate]);
 
   useEffect(() => {
     // Supabase OAuth callbacks can come as hash fragments (#access_token=...) or query params (?error=...)
@@ -16,34 +105,38 @@ export default function AuthCallbackPage() {
     // Check query params for errors
     const queryParams = new URLSearchParams(window.location.search);
     const errorParam = queryParams.get('error') || hashParams.get('error');
+    const errorCode =
+      queryParams.get('error_code') || hashParams.get('error_code');
     const errorDescription =
       queryParams.get('error_description') ||
       hashParams.get('error_description');
 
     if (errorParam) {
-      setError(errorDescription || 'Authentication failed. Please try again.');
-      // Redirect to login after showing error
-      setTimeout(() => {
-        navigate('/login', { replace: true });
-      }, 3000);
+      failWith(
+        toAuthError({
+          code: errorCode,
+          message:
+            errorDescription || 'Authentication failed. Please try again.',
+        })
+      );
       return;
     }
 
+    // Magic-link and OAuth redirects put the session in the hash (type=magiclink for email links)
     // If we have an access token in the hash, Supabase client will pick it up automatically
     // Wait for auth state to update, then redirect
     if (accessToken) {
       // Give Supabase client time to process the token
       const timer = setTimeout(() => {
         if (auth.user && !auth.loading) {
-          navigate('/dashboard', { replace: true });
+          finish();
         } else if (!auth.loading) {
           // If we got a token but no user after loading completes, there might be an issue
-          setError(
-            'Authentication completed but session not established. Please try again.'
+          failWith(
+            toAuthError(
+              'Authentication completed but session not established. Please try again.'
+            )
           );
-          setTimeout(() => {
-            navigate('/login', { replace: true });
-          }, 3000);
         }
       }, 1000);
 
@@ -52,8 +145,8 @@ export default function AuthCallbackPage() {
 
     // If user is already authenticated (OAuth callback completed)
     if (auth.user && !auth.loading) {
-      // Successful OAuth login, redirect to dashboard
-      navigate('/dashboard', { replace: true });
+      // Successful OAuth login, return to the page the user started from
+      finish();
     }
   }, [auth.user, auth.loading, navigate]);
 
@@ -65,11 +158,26 @@ export default function AuthCallbackPage() {
             <div className='flex'>
               <div className='ml-3'>
                 <h3 className='text-sm font-medium text-red-800'>
-                  Authentication Error
+                  {isConfirmation
+                    ? "We couldn't confirm your email"
+                    : 'Authentication Error'}
                 </h3>
                 <div className='mt-2 text-sm text-red-700'>
-                  <p>{error}</p>
-                  <p className='mt-2'>Redirecting to login page...</p>
+                  <p>{error.message}</p>
+                  {error.hint && <p className='mt-2'>{error.hint}</p>}
+                  {isConfirmation && error.code === 'otp_expired' ? (
+                    <p className='mt-2'>
+                      <Link
+                        to={routePath('VerifyEmail')}
+                        replace
+                        className='font-medium text-red-800 underline'
+                      >
+                        Send a new confirmation link
+                      </Link>
+                    </p>
+                  ) : (
+                    <p className='mt-2'>Redirecting to login page...</p>
+                  )}
                 </div>
               </div>
             </div>
@@ -79,12 +187,31 @@ export default function AuthCallbackPage() {
     );
   }
 
+  if (isConfirmation && auth.user && !auth.loading) {
+    return (
+      <div className='min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8'>
+        <div className='max-w-md w-full space-y-8 text-center'>
+          <div>
+            <h2 className='mt-6 text-center text-3xl font-extrabold text-gray-900'>
+              Email confirmed
+            </h2>
+            <p className='mt-4 text-sm text-gray-600'>
+              Thanks for confirming your email address. Taking you to the app...
+            </p>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className='min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8'>
       <div className='max-w-md w-full space-y-8 text-center'>
         <div>
           <h2 className='mt-6 text-center text-3xl font-extrabold text-gray-900'>
-            Completing sign in...
+            {isConfirmation
+              ? 'Confirming your email...'
+              : 'Completing sign in...'}
           </h2>
           <div className='mt-8 flex justify-center'>
             <svg
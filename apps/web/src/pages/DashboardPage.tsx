@@ -1,14 +1,42 @@
+import { Link } from 'react-router-dom';
+import { useAuthContext } from '@shared/contexts/AuthContext';
 import { AppHeader } from '@shared/components/navigation/AppHeader.web';
 import { DASHBOARD_TITLE, DASHBOARD_SUBTITLE } from '@shared/utils/strings';
 import { supabase } from '@/lib/supabase';
+import { routePath } from '@shared/config/routes';
 
 export default function DashboardPage() {
+  const auth = useAuthContext();
+
   return (
     <div className='min-h-screen bg-gray-50'>
       <AppHeader supabaseClient={supabase} />
 
       <div className='max-w-[800px] mx-auto py-6 sm:px-6 lg:px-8'>
         <div className='px-4 py-6 sm:px-0'>
+          {/* Guest Banner */}
+          {auth.isGuest && (
+            <div className='rounded-md bg-yellow-50 p-4 mb-6'>
+              {auth.pendingEmailChange ? (
+                <p className='text-sm text-yellow-800'>
+                  Check {auth.pendingEmailChange.newEmail} for a confirmation
+                  link to finish creating your account.
+                </p>
+              ) : (
+                <p className='text-sm text-yellow-800'>
+                  You&apos;re using a guest account.{' '}
+                  <Link
+                    to={routePath('Signup')}
+                    className='font-medium underline hover:text-yellow-900'
+                  >
+                    Create an account
+                  </Link>{' '}
+                  to keep your data.
+                </p>
+              )}
+            </div>
+          )}
+
           <div className='border-4 border-dashed border-gray-200 rounded-lg p-8'>
             <div className='text-center'>
               <h2 className='text-2xl font-bold text-gray-900 mb-4'>
@@ -4,6 +4,7 @@ import { useAuthContext } from '@shared/contexts/AuthContext';
 import { AppHeader } from '@shared/components/navigation/AppHeader.web';
 import { supabase } from '@/lib/supabase';
 import { DebugTools } from '@/components/DebugTools';
+import { routePath } from '@shared/config/routes';
 
 export default function HomePage() {
   const auth = useAuthContext();
@@ -53,13 +54,13 @@ export default function HomePage() {
 
               <div className='grid grid-cols-1 gap-4'>
                 <Link
-                  to='/dashboard'
+                  to={routePath('Dashboard')}
                   className='w-full flex justify-center py-3 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-primary-600 hover:bg-primary-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500 transition-colors'
                 >
                   Go To Dashboard
                 </Link>
                 <Link
-                  to='/profile'
+                  to={routePath('Profile')}
                   className='w-full flex justify-center py-3 px-4 border border-primary-600 rounded-md shadow-sm text-sm font-medium text-primary-600 bg-white hover:bg-primary-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500 transition-colors'
                 >
                   View Profile
@@ -71,14 +72,14 @@ export default function HomePage() {
             <>
               <div className='grid grid-cols-1 gap-4'>
                 <Link
-                  to='/login'
+                  to={routePath('Login')}
                   className='w-full flex justify-center py-3 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-primary-600 hover:bg-primary-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500 transition-colors'
                 >
                   Sign In
                 </Link>
 
                 <Link
-                  to='/signup'
+                  to={routePath('Signup')}
                   className='w-full flex justify-center py-3 px-4 border border-primary-600 rounded-md shadow-sm text-sm font-medium text-primary-600 bg-white hover:bg-primary-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500 transition-colors'
                 >
                   Sign Up
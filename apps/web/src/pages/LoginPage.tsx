@@ -1,23 +1,40 @@
 import { useState } from 'react';
-import { Link, useNavigate } from 'react-router-dom';
+import { Link, useLocation, useNavigate } from 'react-router-dom';
 import { useAuthContext } from '@shared/contexts/AuthContext';
 import { AppHeader } from '@shared/components/navigation/AppHeader.web';
+import { AuthErrorMessage } from '@shared/components/auth/AuthErrorMessage.web';
+import type { AuthError } from '@shared/types/auth';
+import { createAuthError, toAuthError } from '@shared/utils/authErrors';
 import { supabase } from '@/lib/supabase';
+import { getRedirectFromState, rememberAuthRedirect } from '@/lib/authRedirect';
 import { SocialLoginButton } from '../components/SocialLoginButton';
+import { useFeatureFlags } from '../config/featureFlags';
+import { routePath } from '@shared/config/routes';
+
+type LoginMode = 'password' | 'magicLink';
 
 export default function LoginPage() {
+  const { oauthGoogle, oauthApple, guestMode } = useFeatureFlags();
+  const [mode, setMode] = useState<LoginMode>('password');
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
+  const [otpCode, setOtpCode] = useState('');
+  const [magicLinkSent, setMagicLinkSent] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<AuthError | null>(null);
   const navigate = useNavigate();
+  const location = useLocation();
   const auth = useAuthContext();
+  // The page ProtectedRoute sent the user here from, if any
+  const redirectTo = getRedirectFromState(location.state);
 
   const handleLogin = async (e: React.FormEvent) => {
     e.preventDefault();
 
     if (!email || !password) {
-      setError('Please fill in all fields');
+      setError(
+        createAuthError({ code: 'invalid_input' }, 'Please fill in all fields')
+      );
       return;
     }
 
@@ -26,22 +43,106 @@ export default function LoginPage() {
 
     try {
       await auth.signIn(email, password);
-      navigate('/dashboard');
+      navigate(redirectTo, { replace: true });
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to sign in');
+      setError(toAuthError(err));
     } finally {
       setIsLoading(false);
     }
   };
 
-  const handleGoogleLogin = async () => {
+  const handleSendMagicLink = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!email) {
+      setError(
+        createAuthError(
+          { code: 'invalid_input' },
+          'Please enter your email address'
+        )
+      );
+      return;
+    }
+
+    setIsLoading(true);
     setError(null);
+
     try {
-      await auth.signInWithGoogle();
+      // The emailed link lands on /auth/callback
+      rememberAuthRedirect(redirectTo);
+      await auth.signInWithMagicLink(email);
+      setMagicLinkSent(true);
     } catch (err) {
+      setError(toAuthError(err));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleVerifyOtp = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!otpCode) {
       setError(
-        err instanceof Error ? err.message : 'Failed to sign in with Google'
+        createAuthError(
+          { code: 'invalid_input' },
+          'Please enter the code from your email'
+        )
       );
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      await auth.verifyOtp(email, otpCode.trim());
+      navigate(redirectTo, { replace: true });
+    } catch (err) {
+      setError(toAuthError(err));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const switchMode = (nextMode: LoginMode) => {
+    setMode(nextMode);
+    setError(null);
+    setMagicLinkSent(false);
+    setOtpCode('');
+  };
+
+  const handleContinueAsGuest = async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      await auth.signInAsGuest();
+      navigate(routePath('Dashboard'));
+    } catch (err) {
+      setError(toAuthError(err));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleGoogleLogin = async () => {
+    setError(null);
+    try {
+      rememberAuthRedirect(redirectTo);
+      await auth.signInWithGoogle();
+    } catch (err) {
+      setError(toAuthError(err));
+    }
+  };
+
+  const handleAppleLogin = async () => {
+    setError(null);
+    try {
+      rememberAuthRedirect(redirectTo);
+      await auth.signInWithApple();
+    } catch (err) {
+      setError(toAuthError(err));
     }
   };
 
@@ -58,40 +159,186 @@ export default function LoginPage() {
 
           {/* OAuth Buttons */}
           <div className='space-y-3'>
-            <SocialLoginButton onPress={handleGoogleLogin} mode='signin' />
+            {oauthGoogle && (
+              <SocialLoginButton onPress={handleGoogleLogin} mode='signin' />
+            )}
+            {oauthApple && (
+              <SocialLoginButton
+                onPress={handleAppleLogin}
+                mode='signin'
+                provider='apple'
+              />
+            )}
           </div>
 
           {/* Divider */}
-          <div className='relative'>
-            <div className='absolute inset-0 flex items-center'>
-              <div className='w-full border-t border-gray-300' />
-            </div>
-            <div className='relative flex justify-center text-sm'>
-              <span className='px-2 bg-gray-50 text-gray-500'>
-                Or continue with email
-              </span>
+          {(oauthGoogle || oauthApple) && (
+            <div className='relative'>
+              <div className='absolute inset-0 flex items-center'>
+                <div className='w-full border-t border-gray-300' />
+              </div>
+              <div className='relative flex justify-center text-sm'>
+                <span className='px-2 bg-gray-50 text-gray-500'>
+                  Or continue with email
+                </span>
+              </div>
             </div>
-          </div>
+          )}
 
           {/* Error Message */}
           {error && (
-            <div className='rounded-md bg-red-50 p-4'>
-              <div className='flex'>
-                <div className='ml-3'>
-                  <h3 className='text-sm font-medium text-red-800'>{error}</h3>
+            <AuthErrorMessage error={error}>
+              {error.code === 'invalid_credentials' && (
+                <Link
+                  to={routePath('ResetPassword')}
+                  className='font-medium text-red-800 underline'
+                >
+                  Reset your password
+                </Link>
+              )}
+              {error.code === 'email_not_confirmed' && (
+                <div className='flex flex-wrap gap-x-4 gap-y-1'>
+                  <Link
+                    to={routePath('VerifyEmail')}
+                    state={{ from: redirectTo, email }}
+                    className='font-medium text-red-800 underline'
+                  >
+                    Resend the confirmation email
+                  </Link>
+                  <button
+                    type='button'
+                    onClick={() => switchMode('magicLink')}
+                    className='font-medium text-red-800 underline'
+                  >
+                    Email me a sign-in link instead
+                  </button>
                 </div>
-              </div>
-            </div>
+              )}
+              {error.code === 'otp_expired' && magicLinkSent && (
+                <button
+                  type='button'
+                  onClick={() => switchMode('magicLink')}
+                  className='font-medium text-red-800 underline'
+                >
+                  Send a new link
+                </button>
+              )}
+            </AuthErrorMessage>
           )}
 
-          <form className='mt-8 space-y-6' onSubmit={handleLogin}>
-            <div className='rounded-md shadow-sm -space-y-px'>
+          {mode === 'password' ? (
+            <form className='mt-8 space-y-6' onSubmit={handleLogin}>
+              <div className='rounded-md shadow-sm -space-y-px'>
+                <div>
+                  <label htmlFor='email' className='sr-only'>
+                    Email address
+                  </label>
+                  <input
+                    id='email'
+                    name='email'
+                    type='email'
+                    autoComplete='email'
+                    required
+                    value={email}
+                    onChange={e => setEmail(e.target.value)}
+                    disabled={isLoading}
+                    className='appearance-none rounded-none relative block w-full px-3 py-2 border border-gray-300 placeholder-gray-500 text-gray-900 rounded-t-md focus:outline-none focus:ring-primary-500 focus:border-primary-500 focus:z-10 sm:text-sm disabled:opacity-50 disabled:cursor-not-allowed'
+                    placeholder='Email address'
+                  />
+                </div>
+                <div>
+                  <label htmlFor='password' className='sr-only'>
+                    Password
+                  </label>
+                  <input
+                    id='password'
+                    name='password'
+                    type='password'
+                    autoComplete='current-password'
+                    required
+                    value={password}
+                    onChange={e => setPassword(e.target.value)}
+                    disabled={isLoading}
+                    className='appearance-none rounded-none relative block w-full px-3 py-2 border border-gray-300 placeholder-gray-500 text-gray-900 rounded-b-md focus:outline-none focus:ring-primary-500 focus:border-primary-500 focus:z-10 sm:text-sm disabled:opacity-50 disabled:cursor-not-allowed'
+                    placeholder='Password'
+                  />
+                </div>
+              </div>
+
+              <div className='flex items-center justify-end'>
+                <Link
+                  to={routePath('ResetPassword')}
+                  className='text-sm font-medium text-primary-600 hover:text-primary-500'
+                >
+                  Forgot your password?
+                </Link>
+              </div>
+
+              <div>
+                <button
+                  type='submit'
+                  disabled={isLoading}
+                  className='group relative w-full flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-md text-white bg-primary-600 hover:bg-primary-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500 disabled:opacity-50 disabled:cursor-not-allowed'
+                >
+                  {isLoading ? 'Signing in...' : 'Sign in'}
+                </button>
+              </div>
+
+              <div className='text-center'>
+                <Link
+                  to={routePath('Signup')}
+                  state={location.state}
+                  className='font-medium text-primary-600 hover:text-primary-500'
+                >
+                  Don't have an account? Sign up
+                </Link>
+              </div>
+            </form>
+          ) : magicLinkSent ? (
+            <form className='mt-8 space-y-6' onSubmit={handleVerifyOtp}>
+              <div className='rounded-md bg-green-50 p-4'>
+                <p className='text-sm font-medium text-green-800'>
+                  We sent a sign-in link to {email}. Open it on this device, or
+                  enter the 6-digit code from the email below.
+                </p>
+              </div>
               <div>
-                <label htmlFor='email' className='sr-only'>
+                <label htmlFor='otp-code' className='sr-only'>
+                  6-digit code
+                </label>
+                <input
+                  id='otp-code'
+                  name='otp-code'
+                  type='text'
+                  inputMode='numeric'
+                  autoComplete='one-time-code'
+                  maxLength={6}
+                  required
+                  value={otpCode}
+                  onChange={e => setOtpCode(e.target.value)}
+                  disabled={isLoading}
+                  className='appearance-none rounded-md relative block w-full px-3 py-2 border border-gray-300 placeholder-gray-500 text-gray-900 focus:outline-none focus:ring-primary-500 focus:border-primary-500 focus:z-10 sm:text-sm disabled:opacity-50 disabled:cursor-not-allowed tracking-widest'
+                  placeholder='6-digit code'
+                />
+              </div>
+              <div>
+                <button
+                  type='submit'
+                  disabled={isLoading}
+                  className='group relative w-full flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-md text-white bg-primary-600 hover:bg-primary-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500 disabled:opacity-50 disabled:cursor-not-allowed'
+                >
+                  {isLoading ? 'Verifying...' : 'Verify code'}
+                </button>
+              </div>
+            </form>
+          ) : (
+            <form className='mt-8 space-y-6' onSubmit={handleSendMagicLink}>
+              <div>
+                <label htmlFor='magic-link-email' className='sr-only'>
                   Email address
                 </label>
                 <input
-                  id='email'
+                  id='magic-link-email'
                   name='email'
                   type='email'
                   autoComplete='email'
@@ -99,48 +346,48 @@ export default function LoginPage() {
                   value={email}
                   onChange={e => setEmail(e.target.value)}
                   disabled={isLoading}
-                  className='appearance-none rounded-none relative block w-full px-3 py-2 border border-gray-300 placeholder-gray-500 text-gray-900 rounded-t-md focus:outline-none focus:ring-primary-500 focus:border-primary-500 focus:z-10 sm:text-sm disabled:opacity-50 disabled:cursor-not-allowed'
+                  className='appearance-none rounded-md relative block w-full px-3 py-2 border border-gray-300 placeholder-gray-500 text-gray-900 focus:outline-none focus:ring-primary-500 focus:border-primary-500 focus:z-10 sm:text-sm disabled:opacity-50 disabled:cursor-not-allowed'
                   placeholder='Email address'
                 />
               </div>
               <div>
-                <label htmlFor='password' className='sr-only'>
-                  Password
-                </label>
-                <input
-                  id='password'
-                  name='password'
-                  type='password'
-                  autoComplete='current-password'
-                  required
-                  value={password}
-                  onChange={e => setPassword(e.target.value)}
+                <button
+                  type='submit'
                   disabled={isLoading}
-                  className='appearance-none rounded-none relative block w-full px-3 py-2 border border-gray-300 placeholder-gray-500 text-gray-900 rounded-b-md focus:outline-none focus:ring-primary-500 focus:border-primary-500 focus:z-10 sm:text-sm disabled:opacity-50 disabled:cursor-not-allowed'
-                  placeholder='Password'
-                />
+                  className='group relative w-full flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-md text-white bg-primary-600 hover:bg-primary-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500 disabled:opacity-50 disabled:cursor-not-allowed'
+                >
+                  {isLoading ? 'Sending...' : 'Email me a sign-in link'}
+                </button>
               </div>
-            </div>
+            </form>
+          )}
+
+          <div className='text-center'>
+            <button
+              type='button'
+              onClick={() =>
+                switchMode(mode === 'password' ? 'magicLink' : 'password')
+              }
+              className='text-sm font-medium text-primary-600 hover:text-primary-500'
+            >
+              {mode === 'password'
+                ? 'Sign in without a password'
+                : 'Sign in with your password instead'}
+            </button>
+          </div>
 
-            <div>
+          {guestMode && (
+            <div className='text-center'>
               <button
-                type='submit'
+                type='button'
+                onClick={handleContinueAsGuest}
                 disabled={isLoading}
-                className='group relative w-full flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-md text-white bg-primary-600 hover:bg-primary-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500 disabled:opacity-50 disabled:cursor-not-allowed'
+                className='text-sm font-medium text-gray-600 hover:text-gray-500 disabled:opacity-50 disabled:cursor-not-allowed'
               >
-                {isLoading ? 'Signing in...' : 'Sign in'}
+                Continue as guest
               </button>
             </div>
-
-            <div className='text-center'>
-              <Link
-                to='/signup'
-                className='font-medium text-primary-600 hover:text-primary-500'
-              >
-                Don't have an account? Sign up
-              </Link>
-            </div>
-          </form>
+          )}
         </div>
       </div>
     </div>
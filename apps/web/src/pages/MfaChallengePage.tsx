@@ -0,0 +1,138 @@
+import { useState } from 'react';
+import { Navigate, useLocation, useNavigate } from 'react-router-dom';
+import { useAuthContext } from '@shared/contexts/AuthContext';
+import { useMfa } from '@shared/hooks/useMfa';
+import { AppHeader } from '@shared/components/navigation/AppHeader.web';
+import { supabase } from '@/lib/supabase';
+import { routePath } from '@shared/config/routes';
+
+/**
+ * Second-factor challenge page
+ * Users with a verified TOTP factor land here (via ProtectedRoute) while their
+ * session is still aal1. A valid code upgrades the session to aal2 and sends
+ * them back to the page they were trying to open.
+ */
+export default function MfaChallengePage() {
+  const [code, setCode] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const navigate = useNavigate();
+  const location = useLocation();
+  const auth = useAuthContext();
+  const mfa = useMfa(supabase);
+
+  const from =
+    (location.state as { from?: string } | null)?.from ??
+    routePath('Dashboard');
+
+  if (!auth.loading && !auth.user) {
+    return <Navigate to={routePath('Login')} replace />;
+  }
+
+  if (!auth.loading && !auth.needsSecondFactor) {
+    return <Navigate to={from} replace />;
+  }
+
+  const handleVerify = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const [factor] = mfa.factors;
+    if (!factor) {
+      setError('No authenticator app is set up for this account');
+      return;
+    }
+
+    if (!code) {
+      setError('Please enter the code from your authenticator app');
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      await mfa.verify(factor.id, code.trim());
+      navigate(from, { replace: true });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to verify code');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleSignOut = async () => {
+    await auth.signOut();
+    navigate(routePath('Login'), { replace: true });
+  };
+
+  return (
+    <div className='min-h-screen bg-gray-50'>
+      <AppHeader supabaseClient={supabase} />
+      <div className='max-w-[800px] mx-auto py-12 px-4 sm:px-6 lg:px-8'>
+        <div className='w-full space-y-8'>
+          <div>
+            <h2 className='mt-6 text-center text-3xl font-extrabold text-gray-900'>
+              Two-factor authentication
+            </h2>
+            <p className='mt-2 text-center text-sm text-gray-600'>
+              Enter the 6-digit code from your authenticator app.
+            </p>
+          </div>
+
+          {/* Error Message */}
+          {error && (
+            <div className='rounded-md bg-red-50 p-4'>
+              <div className='flex'>
+                <div className='ml-3'>
+                  <h3 className='text-sm font-medium text-red-800'>{error}</h3>
+                </div>
+              </div>
+            </div>
+          )}
+
+          <form className='mt-8 space-y-6' onSubmit={handleVerify}>
+            <div>
+              <label htmlFor='mfa-code' className='sr-only'>
+                Authentication code
+              </label>
+              <input
+                id='mfa-code'
+                name='mfa-code'
+                type='text'
+                inputMode='numeric'
+                autoComplete='one-time-code'
+                maxLength={6}
+                required
+                value={code}
+                onChange={e => setCode(e.target.value)}
+                disabled={isLoading}
+                className='appearance-none rounded-md relative block w-full px-3 py-2 border border-gray-300 placeholder-gray-500 text-gray-900 focus:outline-none focus:ring-primary-500 focus:border-primary-500 focus:z-10 sm:text-sm disabled:opacity-50 disabled:cursor-not-allowed'
+                placeholder='6-digit code'
+              />
+            </div>
+
+            <div>
+              <button
+                type='submit'
+                disabled={isLoading || mfa.loading}
+                className='group relative w-full flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-md text-white bg-primary-600 hover:bg-primary-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500 disabled:opacity-50 disabled:cursor-not-allowed'
+              >
+                {isLoading ? 'Verifying...' : 'Verify'}
+              </button>
+            </div>
+          </form>
+
+          <div className='text-center'>
+            <button
+              type='button'
+              onClick={handleSignOut}
+              className='font-medium text-primary-600 hover:text-primary-500'
+            >
+              Sign out
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
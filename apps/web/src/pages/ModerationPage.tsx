@@ -0,0 +1,149 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { supabase } from '@/lib/supabase';
+import { AppHeader } from '@shared/components/navigation/AppHeader.web';
+import { useModerationQueue } from '@shared/hooks/useModerationQueue';
+import type { ReportStatus } from '@shared/types/moderation';
+import {
+  REPORT_REASON_OPTIONS,
+  REPORT_STATUS_LABELS,
+} from '@shared/validation/reportSchema';
+import { publicProfilePath } from '@shared/config/routes';
+import { Logger } from '@shared/utils/logger';
+
+const STATUSES: ReportStatus[] = ['pending', 'resolved', 'dismissed'];
+
+const getReasonLabel = (reason: string): string =>
+  REPORT_REASON_OPTIONS.find(option => option.value === reason)?.label ??
+  reason;
+
+/**
+ * Review queue of reported users (admins only, gated by the route's role)
+ * Pending reports are listed oldest first; resolving or dismissing one moves
+ * it to that tab, where it can be reopened.
+ */
+export default function ModerationPage() {
+  const [status, setStatus] = useState<ReportStatus>('pending');
+  const queue = useModerationQueue(supabase, status);
+
+  const handleReview = (reportId: string, newStatus: ReportStatus) => {
+    queue.reviewReport(reportId, newStatus).catch(err => {
+      Logger.error('[ModerationPage] Reviewing report failed:', err);
+    });
+  };
+
+  const renderUser = (username: string | null) =>
+    username ? (
+      <Link
+        to={publicProfilePath(username)}
+        className='font-medium text-primary-600 hover:text-primary-500'
+      >
+        @{username}
+      </Link>
+    ) : (
+      <span className='font-medium text-gray-500'>a deleted user</span>
+    );
+
+  return (
+    <div className='min-h-screen bg-gray-50'>
+      <AppHeader supabaseClient={supabase} />
+
+      <div className='max-w-[800px] mx-auto py-6 sm:px-6 lg:px-8'>
+        <div className='px-4 py-6 sm:px-0 space-y-6'>
+          <div>
+            <h2 className='text-2xl font-bold text-gray-900'>Reports</h2>
+            <div className='mt-4 flex gap-2' role='tablist'>
+              {STATUSES.map(option => (
+                <button
+                  key={option}
+                  role='tab'
+                  aria-selected={status === option}
+                  onClick={() => setStatus(option)}
+                  className={`px-3 py-1.5 rounded-md text-sm font-medium ${
+                    status === option
+                      ? 'bg-primary-600 text-white'
+                      : 'bg-white text-gray-700 border border-gray-300 hover:bg-gray-50'
+                  }`}
+                >
+                  {REPORT_STATUS_LABELS[option]}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {queue.error && !queue.loading && (
+            <div className='rounded-md bg-red-50 p-4'>
+              <h3 className='text-sm font-medium text-red-800'>
+                Something went wrong
+              </h3>
+              <p className='mt-2 text-sm text-red-700'>{queue.error.message}</p>
+            </div>
+          )}
+
+          {queue.loading ? (
+            <div className='text-center py-12'>
+              <div className='inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600'></div>
+              <p className='mt-4 text-gray-600'>Loading reports...</p>
+            </div>
+          ) : queue.reports.length === 0 ? (
+            !queue.error && (
+              <p className='text-center py-12 text-sm text-gray-600'>
+                No {REPORT_STATUS_LABELS[status].toLowerCase()} reports.
+              </p>
+            )
+          ) : (
+            <ul className='bg-white shadow rounded-lg divide-y divide-gray-200'>
+              {queue.reports.map(report => (
+                <li key={report.id} className='p-4 space-y-2'>
+                  <p className='text-sm text-gray-900'>
+                    {renderUser(report.reported_username)} reported by{' '}
+                    {renderUser(report.reporter_username)}
+                  </p>
+                  <p className='text-sm text-gray-600'>
+                    <span className='font-medium'>
+                      {getReasonLabel(report.reason)}
+                    </span>{' '}
+                    · {new Date(report.created_at).toLocaleString()}
+                  </p>
+                  {report.details && (
+                    <p className='text-sm text-gray-700 whitespace-pre-line'>
+                      {report.details}
+                    </p>
+                  )}
+                  <div className='flex gap-3 pt-1'>
+                    {report.status === 'pending' ? (
+                      <>
+                        <button
+                          onClick={() => handleReview(report.id, 'resolved')}
+                          disabled={queue.reviewingId === report.id}
+                          className='px-3 py-1.5 bg-primary-600 rounded-md text-sm font-medium text-white hover:bg-primary-700 disabled:opacity-50 disabled:cursor-not-allowed'
+                        >
+                          Resolve
+                        </button>
+                        <button
+                          onClick={() => handleReview(report.id, 'dismissed')}
+                          disabled={queue.reviewingId === report.id}
+                          className='px-3 py-1.5 bg-white border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed'
+                        >
+                          Dismiss
+                        </button>
+                      </>
+                    ) : (
+                      <button
+                        onClick={() => handleReview(report.id, 'pending')}
+                        disabled={queue.reviewingId === report.id}
+                        className='px-3 py-1.5 bg-white border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed'
+                      >
+                        Reopen
+                      </button>
+                    )}
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,109 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { supabase } from '@/lib/supabase';
+import { AppHeader } from '@shared/components/navigation/AppHeader.web';
+import { ProfileAvatar } from '@shared/components/profile/ProfileAvatar.web';
+import { useProfileSearch } from '@shared/hooks/useProfileSearch';
+import { publicProfilePath } from '@shared/config/routes';
+import { Logger } from '@shared/utils/logger';
+
+/**
+ * Member directory
+ * Searches usernames, display names, bios and locations as the user types;
+ * fields members hid from the viewer are neither shown nor searched.
+ */
+export default function PeoplePage() {
+  const [query, setQuery] = useState('');
+  const search = useProfileSearch(supabase, query);
+
+  const handleLoadMore = () => {
+    search.loadMore().catch(err => {
+      Logger.error('[PeoplePage] Loading more results failed:', err);
+    });
+  };
+
+  return (
+    <div className='min-h-screen bg-gray-50'>
+      <AppHeader supabaseClient={supabase} />
+
+      <div className='max-w-[800px] mx-auto py-6 sm:px-6 lg:px-8'>
+        <div className='px-4 py-6 sm:px-0 space-y-6'>
+          <div>
+            <h2 className='text-2xl font-bold text-gray-900'>People</h2>
+            <label htmlFor='people-search' className='sr-only'>
+              Search people
+            </label>
+            <input
+              id='people-search'
+              type='search'
+              value={query}
+              onChange={e => setQuery(e.target.value)}
+              placeholder='Search by name, username, bio or location'
+              className='mt-4 appearance-none block w-full px-3 py-2 border border-gray-300 placeholder-gray-500 text-gray-900 rounded-md focus:outline-none focus:ring-primary-500 focus:border-primary-500 sm:text-sm'
+            />
+          </div>
+
+          {search.error && !search.loading && (
+            <div className='rounded-md bg-red-50 p-4'>
+              <h3 className='text-sm font-medium text-red-800'>
+                Search failed
+              </h3>
+              <p className='mt-2 text-sm text-red-700'>
+                {search.error.message}
+              </p>
+            </div>
+          )}
+
+          {search.loading ? (
+            <div className='text-center py-12'>
+              <div className='inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600'></div>
+              <p className='mt-4 text-gray-600'>Searching...</p>
+            </div>
+          ) : search.results.length === 0 ? (
+            !search.error && (
+              <p className='text-center py-12 text-sm text-gray-600'>
+                {query.trim()
+                  ? `Nobody matches "${query.trim()}".`
+                  : 'No members yet.'}
+              </p>
+            )
+          ) : (
+            <ul className='bg-white shadow rounded-lg divide-y divide-gray-200'>
+              {search.results.map(profile => (
+                <li key={profile.id ?? profile.username}>
+                  <Link
+                    to={publicProfilePath(profile.username ?? '')}
+                    className='flex items-center space-x-4 p-4 hover:bg-gray-50'
+                  >
+                    <ProfileAvatar profile={profile} size='small' />
+                    <div className='min-w-0 flex-1'>
+                      <p className='text-sm font-medium text-gray-900 truncate'>
+                        {profile.display_name || profile.username}
+                      </p>
+                      <p className='text-sm text-gray-500 truncate'>
+                        @{profile.username}
+                        {profile.location && ` · ${profile.location}`}
+                      </p>
+                    </div>
+                  </Link>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {search.hasMore && !search.loading && (
+            <div className='text-center'>
+              <button
+                onClick={handleLoadMore}
+                disabled={search.loadingMore}
+                className='px-4 py-2 bg-white border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500 disabled:opacity-50 disabled:cursor-not-allowed'
+              >
+                {search.loadingMore ? 'Loading...' : 'Load more'}
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
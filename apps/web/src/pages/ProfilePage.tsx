@@ -1,4 +1,5 @@
 import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
 import { useAuthContext } from '@shared/contexts/AuthContext';
 import { useProfileContext } from '@shared/contexts/ProfileContext';
 import { supabase } from '@/lib/supabase';
@@ -6,14 +7,52 @@ import { AppHeader } from '@shared/components/navigation/AppHeader.web';
 // Import Profile Display Components - Vite will automatically resolve .web.tsx files
 import { ProfileHeader } from '@shared/components/profile/ProfileHeader.web';
 import { ProfileStats } from '@shared/components/profile/ProfileStats.web';
+import { FollowList } from '@shared/components/profile/FollowList.web';
+import { ConnectedAccounts } from '@shared/components/profile/ConnectedAccounts.web';
+import { AccountSecurity } from '@shared/components/profile/AccountSecurity.web';
+import { DeleteAccount } from '@shared/components/profile/DeleteAccount.web';
+import { BlockedUsers } from '@shared/components/profile/BlockedUsers.web';
 // Import ProfileEditor - Vite will automatically resolve .web.tsx file
 import { ProfileEditor } from '@shared/components/profile/ProfileEditor.web';
+import { useBlocks } from '@shared/hooks/useBlocks';
+import { useFollow } from '@shared/hooks/useFollow';
+import {
+  useFollowList,
+  type FollowListKind,
+} from '@shared/hooks/useFollowList';
 import { Logger } from '@shared/utils/logger';
+import { useFeatureFlags } from '../config/featureFlags';
+import { routePath } from '@shared/config/routes';
 
 export default function ProfilePage() {
   const [isEditing, setIsEditing] = useState(false);
   const auth = useAuthContext();
   const profile = useProfileContext();
+  const { oauthGoogle, oauthApple } = useFeatureFlags();
+  const navigate = useNavigate();
+  const userId = profile.profile?.user_id ?? null;
+  const follow = useFollow(supabase, userId);
+  const blocks = useBlocks(supabase, auth.user?.id ?? null);
+  const [openList, setOpenList] = useState<FollowListKind | null>(null);
+  const followList = useFollowList(
+    supabase,
+    openList ? userId : null,
+    openList ?? 'followers'
+  );
+
+  const handleLoadMore = () => {
+    followList.loadMore().catch(err => {
+      Logger.error('[ProfilePage] Loading more follows failed:', err);
+    });
+  };
+
+  const toggleList = (kind: FollowListKind) =>
+    setOpenList(current => (current === kind ? null : kind));
+
+  const handleDeleteAccount = async () => {
+    await auth.deleteAccount();
+    navigate(routePath('Home'), { replace: true });
+  };
 
   return (
     <div className='min-h-screen bg-gray-50'>
@@ -60,7 +99,71 @@ export default function ProfilePage() {
               {/* Profile Stats Section */}
               {profile.profile && (
                 <div className='bg-white shadow rounded-lg p-6'>
-                  <ProfileStats profile={profile.profile} />
+                  <ProfileStats
+                    profile={profile.profile}
+                    followCounts={{
+                      followers: follow.followerCount,
+                      following: follow.followingCount,
+                    }}
+                    onShowFollowers={() => toggleList('followers')}
+                    onShowFollowing={() => toggleList('following')}
+                  />
+                </div>
+              )}
+
+              {/* Followers / Following Section */}
+              {openList && (
+                <div className='bg-white shadow rounded-lg p-6'>
+                  <FollowList
+                    title={openList === 'followers' ? 'Followers' : 'Following'}
+                    profiles={followList.profiles}
+                    loading={followList.loading}
+                    loadingMore={followList.loadingMore}
+                    error={followList.error}
+                    hasMore={followList.hasMore}
+                    onLoadMore={handleLoadMore}
+                    emptyMessage={
+                      openList === 'followers'
+                        ? 'No followers yet.'
+                        : "You aren't following anyone yet."
+                    }
+                  />
+                </div>
+              )}
+
+              {/* Connected Accounts Section */}
+              <div className='bg-white shadow rounded-lg p-6'>
+                <ConnectedAccounts
+                  identities={auth.identities}
+                  providers={[
+                    ...(oauthGoogle ? (['google'] as const) : []),
+                    ...(oauthApple ? (['apple'] as const) : []),
+                  ]}
+                  onLink={auth.linkIdentity}
+                  onUnlink={auth.unlinkIdentity}
+                />
+              </div>
+
+              {/* Account Security Section */}
+              <div className='bg-white shadow rounded-lg p-6'>
+                <AccountSecurity
+                  email={auth.user?.email}
+                  pendingEmailChange={auth.pendingEmailChange}
+                  hasPassword={auth.identities.some(
+                    identity => identity.provider === 'email'
+                  )}
+                  onChangeEmail={auth.changeEmail}
+                  onChangePassword={auth.changePassword}
+                />
+              </div>
+
+              {/* Blocked Users Section */}
+              {!blocks.loading && (
+                <div className='bg-white shadow rounded-lg p-6'>
+                  <BlockedUsers
+                    blockedUsers={blocks.blockedUsers}
+                    onUnblock={blocks.unblockUser}
+                  />
                 </div>
               )}
 
@@ -90,6 +193,16 @@ export default function ProfilePage() {
                   />
                 </div>
               )}
+
+              {/* Delete Account Section */}
+              <div className='bg-white shadow rounded-lg p-6'>
+                <DeleteAccount
+                  confirmationText={
+                    profile.profile?.username ?? auth.user?.email ?? ''
+                  }
+                  onDelete={handleDeleteAccount}
+                />
+              </div>
             </div>
           )}
         </div>
@@ -0,0 +1,189 @@
+import { useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { supabase } from '@/lib/supabase';
+import { AppHeader } from '@shared/components/navigation/AppHeader.web';
+import { FollowList } from '@shared/components/profile/FollowList.web';
+import { ProfileActions } from '@shared/components/profile/ProfileActions.web';
+import { ProfileHeader } from '@shared/components/profile/ProfileHeader.web';
+import { ProfileStats } from '@shared/components/profile/ProfileStats.web';
+import { useAuthContext } from '@shared/contexts/AuthContext';
+import { useBlocks } from '@shared/hooks/useBlocks';
+import { useFollow } from '@shared/hooks/useFollow';
+import {
+  useFollowList,
+  type FollowListKind,
+} from '@shared/hooks/useFollowList';
+import { usePublicProfile } from '@shared/hooks/usePublicProfile';
+import { useReportUser } from '@shared/hooks/useReportUser';
+import { routePath } from '@shared/config/routes';
+import { Logger } from '@shared/utils/logger';
+
+/**
+ * Someone's profile as everyone sees it, at /u/:username
+ * Read-only: no email, no editing and no owner-only stats. Signed-in
+ * members (not guests) can follow, block or report the user from here.
+ */
+export default function PublicProfilePage() {
+  const { username } = useParams<{ username: string }>();
+  const auth = useAuthContext();
+  const publicProfile = usePublicProfile(supabase, username);
+  const userId = publicProfile.profile?.user_id ?? null;
+  const currentUserId = auth.user && !auth.isGuest ? auth.user.id : null;
+  const follow = useFollow(supabase, userId, currentUserId);
+  const blocks = useBlocks(supabase, currentUserId);
+  const report = useReportUser(supabase, currentUserId);
+  // Blocked profiles stay on screen until the page is left, so the block can
+  // be undone
+  const isBlocked = !!userId && blocks.isBlocked(userId);
+  const [openList, setOpenList] = useState<FollowListKind | null>(null);
+  const followList = useFollowList(
+    supabase,
+    openList ? userId : null,
+    openList ?? 'followers'
+  );
+
+  const handleToggleFollow = () => {
+    follow.toggleFollow().catch(err => {
+      Logger.error('[PublicProfilePage] Follow toggle failed:', err);
+    });
+  };
+
+  const handleLoadMore = () => {
+    followList.loadMore().catch(err => {
+      Logger.error('[PublicProfilePage] Loading more follows failed:', err);
+    });
+  };
+
+  const toggleList = (kind: FollowListKind) =>
+    setOpenList(current => (current === kind ? null : kind));
+
+  return (
+    <div className='min-h-screen bg-gray-50'>
+      <AppHeader supabaseClient={supabase} />
+
+      <div className='max-w-[800px] mx-auto py-6 sm:px-6 lg:px-8'>
+        <div className='px-4 py-6 sm:px-0'>
+          {publicProfile.loading && (
+            <div className='text-center py-12'>
+              <div className='inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600'></div>
+              <p className='mt-4 text-gray-600'>Loading profile...</p>
+            </div>
+          )}
+
+          {publicProfile.error && !publicProfile.loading && (
+            <div className='rounded-md bg-red-50 p-4 mb-6'>
+              <div className='flex'>
+                <div className='ml-3'>
+                  <h3 className='text-sm font-medium text-red-800'>
+                    Error loading profile
+                  </h3>
+                  <p className='mt-2 text-sm text-red-700'>
+                    {publicProfile.error.message}
+                  </p>
+                  <button
+                    onClick={() => publicProfile.refresh().catch(() => {})}
+                    className='mt-3 text-sm font-medium text-red-800 underline hover:text-red-900'
+                  >
+                    Try again
+                  </button>
+                </div>
+              </div>
+            </div>
+          )}
+
+          {publicProfile.notFound && !publicProfile.loading && (
+            <div className='text-center py-12'>
+              <p className='text-5xl font-extrabold text-gray-300'>404</p>
+              <h2 className='mt-4 text-2xl font-bold text-gray-900'>
+                User not found
+              </h2>
+              <p className='mt-2 text-sm text-gray-600'>
+                Nobody goes by @{username} here. Check the link and try again.
+              </p>
+              <Link
+                to={routePath('Home')}
+                className='mt-6 inline-block font-medium text-primary-600 hover:text-primary-500'
+              >
+                Go to the home page
+              </Link>
+            </div>
+          )}
+
+          {publicProfile.profile && !publicProfile.loading && (
+            <div className='space-y-6'>
+              <div className='bg-white shadow rounded-lg p-6 space-y-4'>
+                <ProfileHeader profile={publicProfile.profile} />
+                {isBlocked && (
+                  <p className='text-sm text-gray-600'>
+                    You blocked @{publicProfile.profile.username}. Their profile
+                    is hidden from you everywhere else.
+                  </p>
+                )}
+                {follow.canFollow && !isBlocked && (
+                  <button
+                    onClick={handleToggleFollow}
+                    disabled={follow.loading || follow.toggling}
+                    aria-pressed={follow.isFollowing}
+                    className={
+                      follow.isFollowing
+                        ? 'px-4 py-2 bg-white border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500 disabled:opacity-50 disabled:cursor-not-allowed'
+                        : 'px-4 py-2 bg-primary-600 rounded-md text-sm font-medium text-white hover:bg-primary-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500 disabled:opacity-50 disabled:cursor-not-allowed'
+                    }
+                  >
+                    {follow.isFollowing ? 'Following' : 'Follow'}
+                  </button>
+                )}
+                {follow.error && (
+                  <p className='text-sm text-red-700'>{follow.error.message}</p>
+                )}
+                {follow.canFollow && userId && (
+                  <ProfileActions
+                    username={publicProfile.profile.username ?? ''}
+                    isBlocked={isBlocked}
+                    onBlock={() => blocks.blockUser(userId)}
+                    onUnblock={() => blocks.unblockUser(userId)}
+                    onReport={input => report.reportUser(userId, input)}
+                  />
+                )}
+              </div>
+
+              {!isBlocked && (
+                <div className='bg-white shadow rounded-lg p-6'>
+                  <ProfileStats
+                    profile={publicProfile.profile}
+                    readOnly
+                    followCounts={{
+                      followers: follow.followerCount,
+                      following: follow.followingCount,
+                    }}
+                    onShowFollowers={() => toggleList('followers')}
+                    onShowFollowing={() => toggleList('following')}
+                  />
+                </div>
+              )}
+
+              {openList && !isBlocked && (
+                <div className='bg-white shadow rounded-lg p-6'>
+                  <FollowList
+                    title={openList === 'followers' ? 'Followers' : 'Following'}
+                    profiles={followList.profiles}
+                    loading={followList.loading}
+                    loadingMore={followList.loadingMore}
+                    error={followList.error}
+                    hasMore={followList.hasMore}
+                    onLoadMore={handleLoadMore}
+                    emptyMessage={
+                      openList === 'followers'
+                        ? 'No followers yet.'
+                        : 'Not following anyone yet.'
+                    }
+                  />
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
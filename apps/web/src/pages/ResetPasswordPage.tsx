@@ -0,0 +1,213 @@
+import { useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { useAuthContext } from '@shared/contexts/AuthContext';
+import { AppHeader } from '@shared/components/navigation/AppHeader.web';
+import { supabase } from '@/lib/supabase';
+import { routePath } from '@shared/config/routes';
+
+/**
+ * Password reset page
+ * Without a recovery session it asks for the account email and sends the reset link.
+ * The link in that email lands back here; Supabase emits PASSWORD_RECOVERY, which
+ * switches the page to the "choose a new password" form.
+ */
+export default function ResetPasswordPage() {
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [emailSent, setEmailSent] = useState(false);
+  const [error, setError] = useState<string | null>(() => {
+    // Expired or already-used links come back with an error in the hash
+    const hashParams = new URLSearchParams(window.location.hash.substring(1));
+    return hashParams.get('error_description');
+  });
+  const navigate = useNavigate();
+  const auth = useAuthContext();
+
+  const isRecovering = auth.passwordRecovery && !!auth.user;
+
+  const handleRequestReset = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!email) {
+      setError('Please enter your email address');
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      await auth.requestPasswordReset(email);
+      setEmailSent(true);
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : 'Failed to send reset email'
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleUpdatePassword = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!password || !confirmPassword) {
+      setError('Please fill in all fields');
+      return;
+    }
+
+    if (password !== confirmPassword) {
+      setError('Passwords do not match');
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      await auth.updatePassword(password);
+      navigate(routePath('Dashboard'), { replace: true });
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : 'Failed to update password'
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className='min-h-screen bg-gray-50'>
+      <AppHeader supabaseClient={supabase} />
+      <div className='max-w-[800px] mx-auto py-12 px-4 sm:px-6 lg:px-8'>
+        <div className='w-full space-y-8'>
+          <div>
+            <h2 className='mt-6 text-center text-3xl font-extrabold text-gray-900'>
+              {isRecovering ? 'Choose a new password' : 'Reset your password'}
+            </h2>
+            {!isRecovering && !emailSent && (
+              <p className='mt-2 text-center text-sm text-gray-600'>
+                Enter your email and we'll send you a link to reset your
+                password.
+              </p>
+            )}
+          </div>
+
+          {/* Error Message */}
+          {error && (
+            <div className='rounded-md bg-red-50 p-4'>
+              <div className='flex'>
+                <div className='ml-3'>
+                  <h3 className='text-sm font-medium text-red-800'>{error}</h3>
+                </div>
+              </div>
+            </div>
+          )}
+
+          {isRecovering ? (
+            <form className='mt-8 space-y-6' onSubmit={handleUpdatePassword}>
+              <div className='rounded-md shadow-sm -space-y-px'>
+                <div>
+                  <label htmlFor='new-password' className='sr-only'>
+                    New password
+                  </label>
+                  <input
+                    id='new-password'
+                    name='new-password'
+                    type='password'
+                    autoComplete='new-password'
+                    required
+                    value={password}
+                    onChange={e => setPassword(e.target.value)}
+                    disabled={isLoading}
+                    className='appearance-none rounded-none relative block w-full px-3 py-2 border border-gray-300 placeholder-gray-500 text-gray-900 rounded-t-md focus:outline-none focus:ring-primary-500 focus:border-primary-500 focus:z-10 sm:text-sm disabled:opacity-50 disabled:cursor-not-allowed'
+                    placeholder='New password'
+                  />
+                </div>
+                <div>
+                  <label htmlFor='confirm-password' className='sr-only'>
+                    Confirm new password
+                  </label>
+                  <input
+                    id='confirm-password'
+                    name='confirm-password'
+                    type='password'
+                    autoComplete='new-password'
+                    required
+                    value={confirmPassword}
+                    onChange={e => setConfirmPassword(e.target.value)}
+                    disabled={isLoading}
+                    className='appearance-none rounded-none relative block w-full px-3 py-2 border border-gray-300 placeholder-gray-500 text-gray-900 rounded-b-md focus:outline-none focus:ring-primary-500 focus:border-primary-500 focus:z-10 sm:text-sm disabled:opacity-50 disabled:cursor-not-allowed'
+                    placeholder='Confirm new password'
+                  />
+                </div>
+              </div>
+
+              <div>
+                <button
+                  type='submit'
+                  disabled={isLoading}
+                  className='group relative w-full flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-md text-white bg-primary-600 hover:bg-primary-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500 disabled:opacity-50 disabled:cursor-not-allowed'
+                >
+                  {isLoading ? 'Updating password...' : 'Update password'}
+                </button>
+              </div>
+            </form>
+          ) : emailSent ? (
+            <div className='rounded-md bg-green-50 p-4'>
+              <p className='text-sm font-medium text-green-800'>
+                If an account exists for {email}, you'll receive an email with a
+                link to reset your password.
+              </p>
+            </div>
+          ) : (
+            <form className='mt-8 space-y-6' onSubmit={handleRequestReset}>
+              <div className='rounded-md shadow-sm -space-y-px'>
+                <div>
+                  <label htmlFor='email' className='sr-only'>
+                    Email address
+                  </label>
+                  <input
+                    id='email'
+                    name='email'
+                    type='email'
+                    autoComplete='email'
+                    required
+                    value={email}
+                    onChange={e => setEmail(e.target.value)}
+                    disabled={isLoading}
+                    className='appearance-none rounded-md relative block w-full px-3 py-2 border border-gray-300 placeholder-gray-500 text-gray-900 focus:outline-none focus:ring-primary-500 focus:border-primary-500 focus:z-10 sm:text-sm disabled:opacity-50 disabled:cursor-not-allowed'
+                    placeholder='Email address'
+                  />
+                </div>
+              </div>
+
+              <div>
+                <button
+                  type='submit'
+                  disabled={isLoading}
+                  className='group relative w-full flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-md text-white bg-primary-600 hover:bg-primary-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500 disabled:opacity-50 disabled:cursor-not-allowed'
+                >
+                  {isLoading ? 'Sending...' : 'Send reset link'}
+                </button>
+              </div>
+            </form>
+          )}
+
+          {!isRecovering && (
+            <div className='text-center'>
+              <Link
+                to={routePath('Login')}
+                className='font-medium text-primary-600 hover:text-primary-500'
+              >
+                Back to sign in
+              </Link>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,205 @@
+import { useState } from 'react';
+import { useMfa } from '@shared/hooks/useMfa';
+import type { TotpEnrollment } from '@shared/types/mfa';
+import { AppHeader } from '@shared/components/navigation/AppHeader.web';
+import { supabase } from '@/lib/supabase';
+
+/**
+ * Security settings page
+ * Lets the user turn two-factor authentication on (scan the QR code, confirm
+ * with a first code) or off. Removing a factor needs an aal2 session, which
+ * ProtectedRoute's requireAal2 guarantees for users who have one.
+ */
+export default function SecurityPage() {
+  const [enrollment, setEnrollment] = useState<TotpEnrollment | null>(null);
+  const [code, setCode] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const mfa = useMfa(supabase);
+
+  const handleStartEnrollment = async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      setEnrollment(await mfa.enroll());
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : 'Failed to start enrollment'
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleConfirmEnrollment = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!enrollment) {
+      return;
+    }
+
+    if (!code) {
+      setError('Please enter the code from your authenticator app');
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      await mfa.verify(enrollment.factorId, code.trim());
+      setEnrollment(null);
+      setCode('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to verify code');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleUnenroll = async (factorId: string) => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      await mfa.unenroll(factorId);
+    } catch (err) {
+      setError(
+        err instanceof Error
+          ? err.message
+          : 'Failed to turn off two-factor authentication'
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className='min-h-screen bg-gray-50'>
+      <AppHeader supabaseClient={supabase} />
+
+      <div className='max-w-[800px] mx-auto py-6 sm:px-6 lg:px-8'>
+        <div className='px-4 py-6 sm:px-0 space-y-6'>
+          <div className='bg-white shadow rounded-lg p-6 space-y-4'>
+            <div>
+              <h2 className='text-lg font-medium text-gray-900'>
+                Two-factor authentication
+              </h2>
+              <p className='mt-1 text-sm text-gray-600'>
+                Require a code from an authenticator app in addition to your
+                password when you sign in.
+              </p>
+            </div>
+
+            {/* Error Message */}
+            {error && (
+              <div className='rounded-md bg-red-50 p-4'>
+                <h3 className='text-sm font-medium text-red-800'>{error}</h3>
+              </div>
+            )}
+
+            {mfa.loading && !enrollment && mfa.factors.length === 0 ? (
+              <div className='text-center py-6'>
+                <div className='inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600'></div>
+              </div>
+            ) : enrollment ? (
+              <form className='space-y-4' onSubmit={handleConfirmEnrollment}>
+                <p className='text-sm text-gray-700'>
+                  Scan this QR code with your authenticator app, then enter the
+                  6-digit code it shows.
+                </p>
+                <img
+                  src={enrollment.qrCode}
+                  alt='Authenticator QR code'
+                  className='h-48 w-48'
+                />
+                <p className='text-sm text-gray-600'>
+                  Can&apos;t scan it? Enter this key instead:{' '}
+                  <code className='font-mono break-all'>
+                    {enrollment.secret}
+                  </code>
+                </p>
+                <div>
+                  <label htmlFor='mfa-code' className='sr-only'>
+                    Authentication code
+                  </label>
+                  <input
+                    id='mfa-code'
+                    name='mfa-code'
+                    type='text'
+                    inputMode='numeric'
+                    autoComplete='one-time-code'
+                    maxLength={6}
+                    required
+                    value={code}
+                    onChange={e => setCode(e.target.value)}
+                    disabled={isLoading}
+                    className='appearance-none rounded-md relative block w-full px-3 py-2 border border-gray-300 placeholder-gray-500 text-gray-900 focus:outline-none focus:ring-primary-500 focus:border-primary-500 sm:text-sm disabled:opacity-50 disabled:cursor-not-allowed'
+                    placeholder='6-digit code'
+                  />
+                </div>
+                <div className='flex gap-3'>
+                  <button
+                    type='submit'
+                    disabled={isLoading}
+                    className='px-4 py-2 bg-primary-600 text-white rounded-md text-sm font-medium hover:bg-primary-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500 disabled:opacity-50 disabled:cursor-not-allowed'
+                  >
+                    {isLoading ? 'Verifying...' : 'Turn on'}
+                  </button>
+                  <button
+                    type='button'
+                    onClick={() => {
+                      setEnrollment(null);
+                      setCode('');
+                      setError(null);
+                    }}
+                    disabled={isLoading}
+                    className='px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed'
+                  >
+                    Cancel
+                  </button>
+                </div>
+              </form>
+            ) : mfa.factors.length > 0 ? (
+              <ul className='divide-y divide-gray-200'>
+                {mfa.factors.map(factor => (
+                  <li
+                    key={factor.id}
+                    className='py-3 flex items-center justify-between'
+                  >
+                    <div>
+                      <p className='text-sm font-medium text-gray-900'>
+                        {factor.friendly_name || 'Authenticator app'}
+                      </p>
+                      <p className='text-xs text-gray-500'>
+                        Added {new Date(factor.created_at).toLocaleDateString()}
+                      </p>
+                    </div>
+                    <button
+                      type='button'
+                      onClick={() => handleUnenroll(factor.id)}
+                      disabled={isLoading}
+                      className='px-3 py-1 border border-red-300 rounded-md text-sm font-medium text-red-700 bg-white hover:bg-red-50 disabled:opacity-50 disabled:cursor-not-allowed'
+                    >
+                      Remove
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <button
+                type='button'
+                onClick={handleStartEnrollment}
+                disabled={isLoading}
+                className='px-4 py-2 bg-primary-600 text-white rounded-md text-sm font-medium hover:bg-primary-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500 disabled:opacity-50 disabled:cursor-not-allowed'
+              >
+                {isLoading ? 'Starting...' : 'Set up authenticator app'}
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,134 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useAuthContext } from '@shared/contexts/AuthContext';
+import { useSessions } from '@shared/hooks/useSessions';
+import { AppHeader } from '@shared/components/navigation/AppHeader.web';
+import { supabase } from '@/lib/supabase';
+import { routePath } from '@shared/config/routes';
+
+const PLATFORM_LABELS = {
+  web: 'Web',
+  ios: 'iOS app',
+  android: 'Android app',
+};
+
+/**
+ * Signed-in devices page
+ * Lists every session of the user with its last activity and lets them sign
+ * out all other devices, or every device including this one.
+ */
+export default function SessionsPage() {
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const navigate = useNavigate();
+  const auth = useAuthContext();
+  const sessions = useSessions(supabase, auth.session);
+
+  const otherSessionCount = sessions.sessions.filter(
+    session => !session.isCurrent
+  ).length;
+
+  const handleSignOutOthers = async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      await auth.signOutOtherDevices();
+      await sessions.refreshSessions();
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : 'Failed to sign out other devices'
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleSignOutEverywhere = async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      await auth.signOutEverywhere();
+      navigate(routePath('Login'), { replace: true });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to sign out');
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className='min-h-screen bg-gray-50'>
+      <AppHeader supabaseClient={supabase} />
+
+      <div className='max-w-[800px] mx-auto py-6 sm:px-6 lg:px-8'>
+        <div className='px-4 py-6 sm:px-0 space-y-6'>
+          <div className='bg-white shadow rounded-lg p-6 space-y-4'>
+            <div>
+              <h2 className='text-lg font-medium text-gray-900'>
+                Signed-in devices
+              </h2>
+              <p className='mt-1 text-sm text-gray-600'>
+                If you don&apos;t recognize a device, sign it out and change
+                your password.
+              </p>
+            </div>
+
+            {/* Error Message */}
+            {(error || sessions.error) && (
+              <div className='rounded-md bg-red-50 p-4'>
+                <h3 className='text-sm font-medium text-red-800'>
+                  {error ?? sessions.error?.message}
+                </h3>
+              </div>
+            )}
+
+            {sessions.loading && sessions.sessions.length === 0 ? (
+              <div className='text-center py-6'>
+                <div className='inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600'></div>
+              </div>
+            ) : (
+              <ul className='divide-y divide-gray-200'>
+                {sessions.sessions.map(session => (
+                  <li key={session.id} className='py-3'>
+                    <p className='text-sm font-medium text-gray-900'>
+                      {session.deviceName}
+                      {session.isCurrent && (
+                        <span className='ml-2 inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-green-100 text-green-800'>
+                          This device
+                        </span>
+                      )}
+                    </p>
+                    <p className='text-xs text-gray-500'>
+                      {PLATFORM_LABELS[session.platform]} · Last active{' '}
+                      {new Date(session.lastSeenAt).toLocaleString()}
+                    </p>
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            <div className='flex flex-wrap gap-3'>
+              <button
+                type='button'
+                onClick={handleSignOutOthers}
+                disabled={isLoading || otherSessionCount === 0}
+                className='px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed'
+              >
+                Sign out other devices
+              </button>
+              <button
+                type='button'
+                onClick={handleSignOutEverywhere}
+                disabled={isLoading}
+                className='px-4 py-2 border border-red-300 rounded-md text-sm font-medium text-red-700 bg-white hover:bg-red-50 disabled:opacity-50 disabled:cursor-not-allowed'
+              >
+                Sign out everywhere
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,29 +1,75 @@
 import { useState } from 'react';
-import { Link, useNavigate } from 'react-router-dom';
+import { Link, useLocation, useNavigate } from 'react-router-dom';
 import { useAuthContext } from '@shared/contexts/AuthContext';
 import { AppHeader } from '@shared/components/navigation/AppHeader.web';
+import { AuthErrorMessage } from '@shared/components/auth/AuthErrorMessage.web';
+import { FormInput } from '@shared/components/forms/FormInput.web';
+import { useUsernameAvailability } from '@shared/hooks/useUsernameAvailability';
+import type { AuthError } from '@shared/types/auth';
+import { createAuthError, toAuthError } from '@shared/utils/authErrors';
+import { getSignupProfileFieldError } from '@shared/validation/profileSchema';
 import { supabase } from '@/lib/supabase';
+import { getRedirectFromState, rememberAuthRedirect } from '@/lib/authRedirect';
 import { SocialLoginButton } from '../components/SocialLoginButton';
+import { useFeatureFlags } from '../config/featureFlags';
+import { routePath } from '@shared/config/routes';
 
 export default function SignupPage() {
+  const { oauthGoogle, oauthApple } = useFeatureFlags();
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [confirmPassword, setConfirmPassword] = useState('');
+  const [username, setUsername] = useState('');
+  const [displayName, setDisplayName] = useState('');
+  // Fields are validated as the user types once they've been touched
+  const [touched, setTouched] = useState({
+    username: false,
+    displayName: false,
+  });
   const [isLoading, setIsLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<AuthError | null>(null);
   const navigate = useNavigate();
+  const location = useLocation();
   const auth = useAuthContext();
+  const redirectTo = getRedirectFromState(location.state);
+  // Guests already have a profile; they can rename themselves later
+  const collectProfile = !auth.isGuest;
+  const usernameAvailability = useUsernameAvailability(supabase, username, {
+    enabled: collectProfile,
+  });
+  const usernameError =
+    getSignupProfileFieldError('username', username) ??
+    (usernameAvailability.isUnavailable ? usernameAvailability.message : null);
+  const displayNameError = getSignupProfileFieldError(
+    'display_name',
+    displayName
+  );
 
   const handleSignup = async (e: React.FormEvent) => {
     e.preventDefault();
 
     if (!email || !password || !confirmPassword) {
-      setError('Please fill in all fields');
+      setError(
+        createAuthError({ code: 'invalid_input' }, 'Please fill in all fields')
+      );
       return;
     }
 
     if (password !== confirmPassword) {
-      setError('Passwords do not match');
+      setError(
+        createAuthError({ code: 'invalid_input' }, 'Passwords do not match')
+      );
+      return;
+    }
+
+    if (collectProfile && (usernameError || displayNameError)) {
+      setTouched({ username: true, displayName: true });
+      setError(
+        createAuthError(
+          { code: 'invalid_input' },
+          'Please fix the highlighted fields'
+        )
+      );
       return;
     }
 
@@ -31,10 +77,27 @@ export default function SignupPage() {
     setError(null);
 
     try {
-      await auth.signUp(email, password);
-      navigate('/dashboard');
+      // The confirmation email lands on /auth/callback
+      rememberAuthRedirect(redirectTo);
+      if (auth.isGuest) {
+        await auth.convertGuestToAccount(email, password);
+      } else {
+        const { emailVerificationRequired } = await auth.signUp(
+          email,
+          password,
+          { username, displayName }
+        );
+        if (emailVerificationRequired) {
+          navigate(routePath('VerifyEmail'), {
+            replace: true,
+            state: { from: redirectTo, email },
+          });
+          return;
+        }
+      }
+      navigate(redirectTo, { replace: true });
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to create account');
+      setError(toAuthError(err));
     } finally {
       setIsLoading(false);
     }
@@ -43,11 +106,25 @@ export default function SignupPage() {
   const handleGoogleSignup = async () => {
     setError(null);
     try {
-      await auth.signInWithGoogle();
+      rememberAuthRedirect(redirectTo);
+      // Guests keep their account by linking the provider to it
+      await (auth.isGuest
+        ? auth.linkIdentity('google')
+        : auth.signInWithGoogle());
     } catch (err) {
-      setError(
-        err instanceof Error ? err.message : 'Failed to sign up with Google'
-      );
+      setError(toAuthError(err));
+    }
+  };
+
+  const handleAppleSignup = async () => {
+    setError(null);
+    try {
+      rememberAuthRedirect(redirectTo);
+      await (auth.isGuest
+        ? auth.linkIdentity('apple')
+        : auth.signInWithApple());
+    } catch (err) {
+      setError(toAuthError(err));
     }
   };
 
@@ -58,39 +135,95 @@ export default function SignupPage() {
         <div className='w-full space-y-8'>
           <div>
             <h2 className='mt-6 text-center text-3xl font-extrabold text-gray-900'>
-              Create your account
+              {auth.isGuest ? 'Save your guest account' : 'Create your account'}
             </h2>
+            {auth.isGuest && (
+              <p className='mt-2 text-center text-sm text-gray-600'>
+                Add a sign-in method to keep your profile and everything
+                you&apos;ve done so far.
+              </p>
+            )}
           </div>
 
           {/* OAuth Buttons */}
           <div className='space-y-3'>
-            <SocialLoginButton onPress={handleGoogleSignup} mode='signup' />
+            {oauthGoogle && (
+              <SocialLoginButton onPress={handleGoogleSignup} mode='signup' />
+            )}
+            {oauthApple && (
+              <SocialLoginButton
+                onPress={handleAppleSignup}
+                mode='signup'
+                provider='apple'
+              />
+            )}
           </div>
 
           {/* Divider */}
-          <div className='relative'>
-            <div className='absolute inset-0 flex items-center'>
-              <div className='w-full border-t border-gray-300' />
-            </div>
-            <div className='relative flex justify-center text-sm'>
-              <span className='px-2 bg-gray-50 text-gray-500'>
-                Or continue with email
-              </span>
+          {(oauthGoogle || oauthApple) && (
+            <div className='relative'>
+              <div className='absolute inset-0 flex items-center'>
+                <div className='w-full border-t border-gray-300' />
+              </div>
+              <div className='relative flex justify-center text-sm'>
+                <span className='px-2 bg-gray-50 text-gray-500'>
+                  Or continue with email
+                </span>
+              </div>
             </div>
-          </div>
+          )}
 
           {/* Error Message */}
           {error && (
-            <div className='rounded-md bg-red-50 p-4'>
-              <div className='flex'>
-                <div className='ml-3'>
-                  <h3 className='text-sm font-medium text-red-800'>{error}</h3>
-                </div>
-              </div>
-            </div>
+            <AuthErrorMessage error={error}>
+              {error.code === 'user_already_exists' && (
+                <Link
+                  to={routePath('Login')}
+                  state={location.state}
+                  className='font-medium text-red-800 underline'
+                >
+                  Sign in instead
+                </Link>
+              )}
+            </AuthErrorMessage>
           )}
 
           <form className='mt-8 space-y-6' onSubmit={handleSignup}>
+            {collectProfile && (
+              <div className='space-y-4'>
+                <FormInput
+                  label='Username'
+                  value={username}
+                  onChange={value => {
+                    setUsername(value);
+                    setTouched(prev => ({ ...prev, username: true }));
+                  }}
+                  {...(touched.username && usernameError
+                    ? { error: usernameError }
+                    : {})}
+                  {...(usernameAvailability.message
+                    ? { hint: usernameAvailability.message }
+                    : {})}
+                  placeholder='Letters, numbers and underscores'
+                  disabled={isLoading}
+                  required
+                />
+                <FormInput
+                  label='Display name'
+                  value={displayName}
+                  onChange={value => {
+                    setDisplayName(value);
+                    setTouched(prev => ({ ...prev, displayName: true }));
+                  }}
+                  {...(touched.displayName && displayNameError
+                    ? { error: displayNameError }
+                    : {})}
+                  placeholder='How your name is shown (optional)'
+                  disabled={isLoading}
+                />
+              </div>
+            )}
+
             <div className='rounded-md shadow-sm -space-y-px'>
               <div>
                 <label htmlFor='email' className='sr-only'>
@@ -157,7 +290,8 @@ export default function SignupPage() {
 
             <div className='text-center'>
               <Link
-                to='/login'
+                to={routePath('Login')}
+                state={location.state}
                 className='font-medium text-primary-600 hover:text-primary-500'
               >
                 Already have an account? Sign in
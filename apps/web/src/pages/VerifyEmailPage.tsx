@@ -0,0 +1,169 @@
+import { useEffect, useState } from 'react';
+import { Link, useLocation, useNavigate } from 'react-router-dom';
+import { useAuthContext } from '@shared/contexts/AuthContext';
+import { AppHeader } from '@shared/components/navigation/AppHeader.web';
+import { AuthErrorMessage } from '@shared/components/auth/AuthErrorMessage.web';
+import { useResendCooldown } from '@shared/hooks/useResendCooldown';
+import type { AuthError } from '@shared/types/auth';
+import { createAuthError, toAuthError } from '@shared/utils/authErrors';
+import { supabase } from '@/lib/supabase';
+import { getRedirectFromState, rememberAuthRedirect } from '@/lib/authRedirect';
+import { routePath } from '@shared/config/routes';
+
+function getEmailFromState(state: unknown): string | null {
+  const email =
+    state && typeof state === 'object'
+      ? (state as { email?: unknown }).email
+      : undefined;
+  return typeof email === 'string' && email ? email : null;
+}
+
+/**
+ * "Check your inbox" page
+ * Shown after signing up while email confirmations are on, and by
+ * ProtectedRoute for routes that require a verified email. The link in the
+ * email lands on /auth/callback; once the address is confirmed (in this tab or
+ * another one) the user is sent on to the page they were headed for.
+ */
+export default function VerifyEmailPage() {
+  const navigate = useNavigate();
+  const location = useLocation();
+  const auth = useAuthContext();
+  const redirectTo = getRedirectFromState(location.state);
+  const knownEmail = getEmailFromState(location.state) ?? auth.user?.email;
+  const [email, setEmail] = useState(knownEmail ?? '');
+  const [isSending, setIsSending] = useState(false);
+  const [resent, setResent] = useState(false);
+  const [error, setError] = useState<AuthError | null>(null);
+  const cooldown = useResendCooldown();
+
+  const isVerified = !!auth.user && !auth.isGuest && auth.emailVerified;
+
+  useEffect(() => {
+    if (isVerified) {
+      navigate(redirectTo, { replace: true });
+    }
+  }, [isVerified, navigate, redirectTo]);
+
+  const handleResend = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!email) {
+      setError(
+        createAuthError(
+          { code: 'invalid_input' },
+          'Please enter your email address'
+        )
+      );
+      return;
+    }
+
+    setIsSending(true);
+    setError(null);
+    setResent(false);
+
+    try {
+      // The confirmation link lands on /auth/callback
+      rememberAuthRedirect(redirectTo);
+      await auth.resendVerificationEmail(email);
+      setResent(true);
+      cooldown.start();
+    } catch (err) {
+      const authError = toAuthError(err);
+      setError(authError);
+      if (authError.code === 'rate_limited') {
+        cooldown.start();
+      }
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <div className='min-h-screen bg-gray-50'>
+      <AppHeader supabaseClient={supabase} />
+      <div className='max-w-[800px] mx-auto py-12 px-4 sm:px-6 lg:px-8'>
+        <div className='w-full space-y-8'>
+          <div>
+            <h2 className='mt-6 text-center text-3xl font-extrabold text-gray-900'>
+              Check your inbox
+            </h2>
+            <p className='mt-2 text-center text-sm text-gray-600'>
+              {knownEmail ? (
+                <>
+                  We sent a confirmation link to{' '}
+                  <span className='font-medium text-gray-900'>
+                    {knownEmail}
+                  </span>
+                  .
+                </>
+              ) : (
+                'We sent you a confirmation link.'
+              )}{' '}
+              Open it to confirm your email address and finish signing up.
+            </p>
+          </div>
+
+          {error && <AuthErrorMessage error={error} />}
+
+          {resent && (
+            <div className='rounded-md bg-green-50 p-4'>
+              <p className='text-sm font-medium text-green-800'>
+                We sent you a new confirmation link.
+              </p>
+            </div>
+          )}
+
+          <form className='space-y-6' onSubmit={handleResend}>
+            {!knownEmail && (
+              <div>
+                <label htmlFor='email' className='sr-only'>
+                  Email address
+                </label>
+                <input
+                  id='email'
+                  name='email'
+                  type='email'
+                  autoComplete='email'
+                  required
+                  value={email}
+                  onChange={e => setEmail(e.target.value)}
+                  disabled={isSending}
+                  className='appearance-none relative block w-full px-3 py-2 border border-gray-300 placeholder-gray-500 text-gray-900 rounded-md focus:outline-none focus:ring-primary-500 focus:border-primary-500 focus:z-10 sm:text-sm disabled:opacity-50 disabled:cursor-not-allowed'
+                  placeholder='Email address'
+                />
+              </div>
+            )}
+
+            <div>
+              <p className='mb-3 text-center text-sm text-gray-600'>
+                Didn&apos;t get it? Check your spam folder, or send it again.
+              </p>
+              <button
+                type='submit'
+                disabled={isSending || cooldown.remainingSeconds > 0}
+                className='group relative w-full flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-md text-white bg-primary-600 hover:bg-primary-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500 disabled:opacity-50 disabled:cursor-not-allowed'
+              >
+                {isSending
+                  ? 'Sending...'
+                  : cooldown.remainingSeconds > 0
+                    ? `Resend in ${cooldown.remainingSeconds}s`
+                    : 'Resend confirmation email'}
+              </button>
+            </div>
+
+            <div className='text-center'>
+              <Link
+                to={routePath('Login')}
+                state={{ from: redirectTo }}
+                className='font-medium text-primary-600 hover:text-primary-500'
+              >
+                Already confirmed? Sign in
+              </Link>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+}
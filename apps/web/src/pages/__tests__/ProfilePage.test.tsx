@@ -53,6 +53,7 @@ vi.mock('@/lib/supabase', () => {
       from: mockFrom,
       channel: vi.fn().mockImplementation(createMockChannel),
       removeChannel: vi.fn().mockResolvedValue({ status: 'ok', error: null }),
+      rpc: vi.fn().mockResolvedValue({ data: [], error: null }),
     },
   };
 });
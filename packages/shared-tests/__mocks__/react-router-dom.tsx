@@ -16,7 +16,7 @@ export const useNavigate = () => (path: string) => {
   /* noop for tests */
 };
 
-export const useLocation = () => ({ pathname: '/' });
+export const useLocation = () => ({ pathname: '/', search: '', state: null });
 
 export const Link = ({ to, children }: { to: string; children: ReactNode }) => (
   <a href={to}>{children}</a>
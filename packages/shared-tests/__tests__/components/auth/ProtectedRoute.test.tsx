@@ -6,6 +6,22 @@ import { ProtectedRoute } from '@shared/src/components/auth/ProtectedRoute.web';
 import { AuthProvider } from '@shared/src/contexts/AuthContext';
 import type { SupabaseClient } from '@supabase/supabase-js';
 
+// Unsigned JWT carrying the given claims, enough for reading the aal claim
+const createAccessToken = (claims: Record<string, unknown>) =>
+  `header.${btoa(JSON.stringify(claims))
+    .replace(/=+$/, '')
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')}.signature`;
+
+const createSessionWithFactor = (aal: 'aal1' | 'aal2') => ({
+  user: {
+    id: '1',
+    email: 'test@example.com',
+    factors: [{ id: 'factor-id', factor_type: 'totp', status: 'verified' }],
+  },
+  access_token: createAccessToken({ aal }),
+});
+
 // Mock Supabase client
 const mockSupabaseClient = {
   auth: {
@@ -90,6 +106,7 @@ describe('ProtectedRoute (Web)', () => {
       // Navigate component should redirect, so protected content shouldn't be visible
       expect(screen.queryByText('Protected Content')).not.toBeInTheDocument();
     });
+    expect(screen.getByTestId('navigate')).toHaveTextContent('NAVIGATE:/login');
   });
 
   it('should use custom redirect path when provided', async () => {
@@ -155,4 +172,219 @@ describe('ProtectedRoute (Web)', () => {
       expect(screen.getByText('Protected Content')).toBeInTheDocument();
     });
   });
+
+  it('should redirect to the MFA challenge when requireAal2 and the session is aal1', async () => {
+    mockSupabaseClient.auth.getSession = jest.fn().mockResolvedValue({
+      data: { session: createSessionWithFactor('aal1') },
+      error: null,
+    });
+
+    render(
+      <MemoryRouter initialEntries={['/dashboard']}>
+        <AuthProvider supabaseClient={mockSupabaseClient}>
+          <ProtectedRoute requireAal2>
+            <div>Protected Content</div>
+          </ProtectedRoute>
+        </AuthProvider>
+      </MemoryRouter>
+    );
+
+    await waitFor(() => {
+      expect(screen.getByTestId('navigate')).toHaveTextContent('NAVIGATE:/mfa');
+    });
+    expect(screen.queryByText('Protected Content')).not.toBeInTheDocument();
+  });
+
+  it('should render children when requireAal2 and the session is aal2', async () => {
+    mockSupabaseClient.auth.getSession = jest.fn().mockResolvedValue({
+      data: { session: createSessionWithFactor('aal2') },
+      error: null,
+    });
+
+    render(
+      <MemoryRouter initialEntries={['/dashboard']}>
+        <AuthProvider supabaseClient={mockSupabaseClient}>
+          <ProtectedRoute requireAal2>
+            <div>Protected Content</div>
+          </ProtectedRoute>
+        </AuthProvider>
+      </MemoryRouter>
+    );
+
+    await waitFor(() => {
+      expect(screen.getByText('Protected Content')).toBeInTheDocument();
+    });
+  });
+
+  it('should send guests to signup unless the route allows them', async () => {
+    mockSupabaseClient.auth.getSession = jest.fn().mockResolvedValue({
+      data: {
+        session: {
+          user: { id: '1', is_anonymous: true },
+          access_token: 'token',
+        },
+      },
+      error: null,
+    });
+
+    render(
+      <MemoryRouter initialEntries={['/profile']}>
+        <AuthProvider supabaseClient={mockSupabaseClient}>
+          <ProtectedRoute>
+            <div>Protected Content</div>
+          </ProtectedRoute>
+        </AuthProvider>
+      </MemoryRouter>
+    );
+
+    await waitFor(() => {
+      expect(screen.getByTestId('navigate')).toHaveTextContent(
+        'NAVIGATE:/signup'
+      );
+    });
+    expect(screen.queryByText('Protected Content')).not.toBeInTheDocument();
+  });
+
+  it('should render children for guests when allowGuests is set', async () => {
+    mockSupabaseClient.auth.getSession = jest.fn().mockResolvedValue({
+      data: {
+        session: {
+          user: { id: '1', is_anonymous: true },
+          access_token: 'token',
+        },
+      },
+      error: null,
+    });
+
+    render(
+      <MemoryRouter initialEntries={['/dashboard']}>
+        <AuthProvider supabaseClient={mockSupabaseClient}>
+          <ProtectedRoute allowGuests>
+            <div>Protected Content</div>
+          </ProtectedRoute>
+        </AuthProvider>
+      </MemoryRouter>
+    );
+
+    await waitFor(() => {
+      expect(screen.getByText('Protected Content')).toBeInTheDocument();
+    });
+  });
+
+  it('should send users with an unconfirmed email to verify it when required', async () => {
+    mockSupabaseClient.auth.getSession = jest.fn().mockResolvedValue({
+      data: {
+        session: {
+          user: {
+            id: '1',
+            email: 'test@example.com',
+            email_confirmed_at: null,
+          },
+          access_token: 'token',
+        },
+      },
+      error: null,
+    });
+
+    render(
+      <MemoryRouter initialEntries={['/profile']}>
+        <AuthProvider supabaseClient={mockSupabaseClient}>
+          <ProtectedRoute requireVerifiedEmail>
+            <div>Protected Content</div>
+          </ProtectedRoute>
+        </AuthProvider>
+      </MemoryRouter>
+    );
+
+    await waitFor(() => {
+      expect(screen.getByTestId('navigate')).toHaveTextContent(
+        'NAVIGATE:/verify-email'
+      );
+    });
+    expect(screen.queryByText('Protected Content')).not.toBeInTheDocument();
+  });
+
+  it('should render children when requireVerifiedEmail and the email is confirmed', async () => {
+    mockSupabaseClient.auth.getSession = jest.fn().mockResolvedValue({
+      data: {
+        session: {
+          user: {
+            id: '1',
+            email: 'test@example.com',
+            email_confirmed_at: '2026-01-01T00:00:00Z',
+          },
+          access_token: 'token',
+        },
+      },
+      error: null,
+    });
+
+    render(
+      <MemoryRouter initialEntries={['/profile']}>
+        <AuthProvider supabaseClient={mockSupabaseClient}>
+          <ProtectedRoute requireVerifiedEmail>
+            <div>Protected Content</div>
+          </ProtectedRoute>
+        </AuthProvider>
+      </MemoryRouter>
+    );
+
+    await waitFor(() => {
+      expect(screen.getByText('Protected Content')).toBeInTheDocument();
+    });
+  });
+
+  it('should show a 403 state when the user lacks the required role', async () => {
+    mockSupabaseClient.auth.getSession = jest.fn().mockResolvedValue({
+      data: {
+        session: {
+          user: { id: '1', email: 'test@example.com' },
+          access_token: createAccessToken({ user_roles: ['member'] }),
+        },
+      },
+      error: null,
+    });
+
+    render(
+      <MemoryRouter initialEntries={['/admin']}>
+        <AuthProvider supabaseClient={mockSupabaseClient}>
+          <ProtectedRoute requiredRoles={['admin']}>
+            <div>Protected Content</div>
+          </ProtectedRoute>
+        </AuthProvider>
+      </MemoryRouter>
+    );
+
+    await waitFor(() => {
+      expect(screen.getByText('Access denied')).toBeInTheDocument();
+    });
+    expect(screen.getByText('403')).toBeInTheDocument();
+    expect(screen.queryByText('Protected Content')).not.toBeInTheDocument();
+  });
+
+  it('should render children when the user has a required role', async () => {
+    mockSupabaseClient.auth.getSession = jest.fn().mockResolvedValue({
+      data: {
+        session: {
+          user: { id: '1', email: 'test@example.com' },
+          access_token: createAccessToken({ user_roles: ['admin', 'member'] }),
+        },
+      },
+      error: null,
+    });
+
+    render(
+      <MemoryRouter initialEntries={['/admin']}>
+        <AuthProvider supabaseClient={mockSupabaseClient}>
+          <ProtectedRoute requiredRoles={['admin']}>
+            <div>Protected Content</div>
+          </ProtectedRoute>
+        </AuthProvider>
+      </MemoryRouter>
+    );
+
+    await waitFor(() => {
+      expect(screen.getByText('Protected Content')).toBeInTheDocument();
+    });
+  });
 });
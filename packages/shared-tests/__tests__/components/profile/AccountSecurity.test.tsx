@@ -0,0 +1,97 @@
+import '@testing-library/jest-dom';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { AccountSecurity } from '@shared/src/components/profile/AccountSecurity.web';
+
+const renderAccountSecurity = (
+  overrides: Partial<React.ComponentProps<typeof AccountSecurity>> = {}
+) => {
+  const props = {
+    email: 'test@example.com',
+    pendingEmailChange: null,
+    hasPassword: true,
+    onChangeEmail: jest.fn().mockResolvedValue(undefined),
+    onChangePassword: jest.fn().mockResolvedValue(undefined),
+    ...overrides,
+  };
+  render(<AccountSecurity {...props} />);
+  return props;
+};
+
+describe('AccountSecurity', () => {
+  it('shows a pending email change', () => {
+    renderAccountSecurity({
+      pendingEmailChange: {
+        newEmail: 'new@example.com',
+        sentAt: '2024-01-15T00:00:00Z',
+      },
+    });
+
+    expect(
+      screen.getByText(/Change to new@example.com is waiting for confirmation/)
+    ).toBeInTheDocument();
+  });
+
+  it('submits a new email address', async () => {
+    const { onChangeEmail } = renderAccountSecurity();
+
+    fireEvent.change(screen.getByPlaceholderText('New email address'), {
+      target: { value: ' new@example.com ' },
+    });
+    fireEvent.click(screen.getByRole('button', { name: 'Change email' }));
+
+    await waitFor(() => {
+      expect(onChangeEmail).toHaveBeenCalledWith('new@example.com');
+    });
+  });
+
+  it('rejects mismatched new passwords', () => {
+    const { onChangePassword } = renderAccountSecurity();
+
+    fireEvent.change(screen.getByPlaceholderText('Current password'), {
+      target: { value: 'old-password' },
+    });
+    fireEvent.change(screen.getByPlaceholderText('New password'), {
+      target: { value: 'new-password' },
+    });
+    fireEvent.change(screen.getByPlaceholderText('Confirm new password'), {
+      target: { value: 'other-password' },
+    });
+    fireEvent.click(screen.getByRole('button', { name: 'Change password' }));
+
+    expect(screen.getByText('Passwords do not match')).toBeInTheDocument();
+    expect(onChangePassword).not.toHaveBeenCalled();
+  });
+
+  it('changes the password and confirms success', async () => {
+    const { onChangePassword } = renderAccountSecurity();
+
+    fireEvent.change(screen.getByPlaceholderText('Current password'), {
+      target: { value: 'old-password' },
+    });
+    fireEvent.change(screen.getByPlaceholderText('New password'), {
+      target: { value: 'new-password' },
+    });
+    fireEvent.change(screen.getByPlaceholderText('Confirm new password'), {
+      target: { value: 'new-password' },
+    });
+    fireEvent.click(screen.getByRole('button', { name: 'Change password' }));
+
+    await waitFor(() => {
+      expect(
+        screen.getByText('Your password has been changed.')
+      ).toBeInTheDocument();
+    });
+    expect(onChangePassword).toHaveBeenCalledWith(
+      'old-password',
+      'new-password'
+    );
+  });
+
+  it('hides the password form for social-only accounts', () => {
+    renderAccountSecurity({ hasPassword: false });
+
+    expect(
+      screen.queryByPlaceholderText('Current password')
+    ).not.toBeInTheDocument();
+  });
+});
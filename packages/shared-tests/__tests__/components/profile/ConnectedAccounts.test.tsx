@@ -0,0 +1,97 @@
+import '@testing-library/jest-dom';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import type { UserIdentity } from '@supabase/supabase-js';
+import { ConnectedAccounts } from '@shared/src/components/profile/ConnectedAccounts.web';
+
+const createIdentity = (
+  provider: string,
+  email = 'test@example.com'
+): UserIdentity => ({
+  id: `${provider}-id`,
+  identity_id: `${provider}-identity-id`,
+  user_id: 'user-id-1',
+  provider,
+  identity_data: { email },
+  created_at: '2024-01-15T00:00:00Z',
+  last_sign_in_at: '2024-01-15T00:00:00Z',
+  updated_at: '2024-01-15T00:00:00Z',
+});
+
+describe('ConnectedAccounts', () => {
+  it('lists linked identities and offers unlinked providers', () => {
+    render(
+      <ConnectedAccounts
+        identities={[createIdentity('email'), createIdentity('google')]}
+        providers={['google', 'apple']}
+        onLink={jest.fn()}
+        onUnlink={jest.fn()}
+      />
+    );
+
+    expect(screen.getByText('Email')).toBeInTheDocument();
+    expect(screen.getByText('Google')).toBeInTheDocument();
+    expect(screen.getByText('Connect Apple')).toBeInTheDocument();
+    expect(screen.queryByText('Connect Google')).not.toBeInTheDocument();
+  });
+
+  it('disables disconnecting the only identity', () => {
+    render(
+      <ConnectedAccounts
+        identities={[createIdentity('email')]}
+        providers={['google']}
+        onLink={jest.fn()}
+        onUnlink={jest.fn()}
+      />
+    );
+
+    expect(screen.getByRole('button', { name: 'Disconnect' })).toBeDisabled();
+  });
+
+  it('calls onLink and onUnlink with the selected provider or identity', async () => {
+    const onLink = jest.fn().mockResolvedValue(undefined);
+    const onUnlink = jest.fn().mockResolvedValue(undefined);
+    const googleIdentity = createIdentity('google');
+
+    render(
+      <ConnectedAccounts
+        identities={[createIdentity('email'), googleIdentity]}
+        providers={['google', 'apple']}
+        onLink={onLink}
+        onUnlink={onUnlink}
+      />
+    );
+
+    fireEvent.click(screen.getByText('Connect Apple'));
+    await waitFor(() => {
+      expect(onLink).toHaveBeenCalledWith('apple');
+    });
+
+    fireEvent.click(screen.getAllByRole('button', { name: 'Disconnect' })[1]!);
+    await waitFor(() => {
+      expect(onUnlink).toHaveBeenCalledWith(googleIdentity);
+    });
+  });
+
+  it('shows the error when an action fails', async () => {
+    const onLink = jest
+      .fn()
+      .mockRejectedValue(new Error('Identity is already linked'));
+
+    render(
+      <ConnectedAccounts
+        identities={[createIdentity('email')]}
+        providers={['google']}
+        onLink={onLink}
+        onUnlink={jest.fn()}
+      />
+    );
+
+    fireEvent.click(screen.getByText('Connect Google'));
+
+    await waitFor(() => {
+      expect(
+        screen.getByText('Identity is already linked')
+      ).toBeInTheDocument();
+    });
+  });
+});
@@ -0,0 +1,84 @@
+import '@testing-library/jest-dom';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { DeleteAccount } from '@shared/src/components/profile/DeleteAccount.web';
+
+describe('DeleteAccount', () => {
+  const openConfirmation = () => {
+    fireEvent.click(screen.getByRole('button', { name: 'Delete account' }));
+  };
+
+  it('only enables deletion once the username is re-typed', () => {
+    render(<DeleteAccount confirmationText='testuser' onDelete={jest.fn()} />);
+    openConfirmation();
+
+    const submit = screen.getByRole('button', {
+      name: 'Permanently delete account',
+    });
+    expect(submit).toBeDisabled();
+
+    fireEvent.change(screen.getByLabelText(/to confirm/), {
+      target: { value: 'testuse' },
+    });
+    expect(submit).toBeDisabled();
+
+    fireEvent.change(screen.getByLabelText(/to confirm/), {
+      target: { value: 'testuser' },
+    });
+    expect(submit).toBeEnabled();
+  });
+
+  it('stays disabled while there is nothing to re-type', () => {
+    const onDelete = jest.fn();
+    render(<DeleteAccount confirmationText='' onDelete={onDelete} />);
+    openConfirmation();
+
+    const submit = screen.getByRole('button', {
+      name: 'Permanently delete account',
+    });
+    expect(submit).toBeDisabled();
+
+    fireEvent.click(submit);
+    expect(onDelete).not.toHaveBeenCalled();
+  });
+
+  it('calls onDelete after confirmation', async () => {
+    const onDelete = jest.fn().mockResolvedValue(undefined);
+    render(<DeleteAccount confirmationText='testuser' onDelete={onDelete} />);
+    openConfirmation();
+
+    fireEvent.change(screen.getByLabelText(/to confirm/), {
+      target: { value: 'testuser' },
+    });
+    fireEvent.click(
+      screen.getByRole('button', { name: 'Permanently delete account' })
+    );
+
+    await waitFor(() => {
+      expect(onDelete).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  it('shows the error and allows retrying when deletion fails', async () => {
+    const onDelete = jest
+      .fn()
+      .mockRejectedValue(new Error('Failed to delete account data'));
+    render(<DeleteAccount confirmationText='testuser' onDelete={onDelete} />);
+    openConfirmation();
+
+    fireEvent.change(screen.getByLabelText(/to confirm/), {
+      target: { value: 'testuser' },
+    });
+    fireEvent.click(
+      screen.getByRole('button', { name: 'Permanently delete account' })
+    );
+
+    await waitFor(() => {
+      expect(
+        screen.getByText('Failed to delete account data')
+      ).toBeInTheDocument();
+    });
+    expect(
+      screen.getByRole('button', { name: 'Permanently delete account' })
+    ).toBeEnabled();
+  });
+});
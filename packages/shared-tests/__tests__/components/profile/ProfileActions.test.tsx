@@ -0,0 +1,94 @@
+import '@testing-library/jest-dom';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { ProfileActions } from '@shared/src/components/profile/ProfileActions.web';
+
+const renderActions = (
+  overrides: Partial<Parameters<typeof ProfileActions>[0]> = {}
+) => {
+  const props = {
+    username: 'ada',
+    isBlocked: false,
+    onBlock: jest.fn().mockResolvedValue(undefined),
+    onUnblock: jest.fn().mockResolvedValue(undefined),
+    onReport: jest.fn().mockResolvedValue(undefined),
+    ...overrides,
+  };
+  render(<ProfileActions {...props} />);
+  return props;
+};
+
+const openMenu = () => {
+  fireEvent.click(screen.getByRole('button', { name: 'More actions' }));
+};
+
+describe('ProfileActions', () => {
+  it('blocks only after confirmation', async () => {
+    const { onBlock } = renderActions();
+    openMenu();
+    fireEvent.click(screen.getByRole('button', { name: 'Block @ada' }));
+
+    expect(onBlock).not.toHaveBeenCalled();
+    fireEvent.click(screen.getByRole('button', { name: 'Block' }));
+
+    await waitFor(() => expect(onBlock).toHaveBeenCalledTimes(1));
+  });
+
+  it('offers unblock for a blocked user', async () => {
+    const { onUnblock } = renderActions({ isBlocked: true });
+    openMenu();
+
+    expect(
+      screen.queryByRole('button', { name: 'Block @ada' })
+    ).not.toBeInTheDocument();
+    fireEvent.click(screen.getByRole('button', { name: 'Unblock @ada' }));
+
+    await waitFor(() => expect(onUnblock).toHaveBeenCalledTimes(1));
+  });
+
+  it('requires a reason before sending a report', async () => {
+    const { onReport } = renderActions();
+    openMenu();
+    fireEvent.click(screen.getByRole('button', { name: 'Report @ada' }));
+    fireEvent.click(screen.getByRole('button', { name: 'Send report' }));
+
+    expect(await screen.findByText('Choose a reason')).toBeInTheDocument();
+    expect(onReport).not.toHaveBeenCalled();
+  });
+
+  it('sends the report and thanks the user', async () => {
+    const { onReport } = renderActions();
+    openMenu();
+    fireEvent.click(screen.getByRole('button', { name: 'Report @ada' }));
+    fireEvent.click(screen.getByLabelText('Spam'));
+    fireEvent.change(screen.getByLabelText('Details (optional)'), {
+      target: { value: ' Posts links everywhere ' },
+    });
+    fireEvent.click(screen.getByRole('button', { name: 'Send report' }));
+
+    await waitFor(() =>
+      expect(onReport).toHaveBeenCalledWith({
+        reason: 'spam',
+        details: 'Posts links everywhere',
+      })
+    );
+    expect(
+      await screen.findByText(/Our team will review your report/)
+    ).toBeInTheDocument();
+  });
+
+  it('shows errors from the report', async () => {
+    renderActions({
+      onReport: jest
+        .fn()
+        .mockRejectedValue(new Error("You've already reported this user.")),
+    });
+    openMenu();
+    fireEvent.click(screen.getByRole('button', { name: 'Report @ada' }));
+    fireEvent.click(screen.getByLabelText('Harassment or bullying'));
+    fireEvent.click(screen.getByRole('button', { name: 'Send report' }));
+
+    expect(
+      await screen.findByText("You've already reported this user.")
+    ).toBeInTheDocument();
+  });
+});
@@ -59,6 +59,9 @@ const mockProfile: UserProfile = {
   avatar_url: null,
   website: null,
   location: null,
+  bio_visibility: 'public',
+  location_visibility: 'public',
+  website_visibility: 'public',
   created_at: '2024-01-01T00:00:00Z',
   updated_at: '2024-01-01T00:00:00Z',
 };
@@ -240,6 +243,39 @@ describe('ProfileEditor', () => {
     });
   });
 
+  it('saves who can see each private field', async () => {
+    const mockUpdateProfile = jest.fn().mockResolvedValue(mockProfile);
+    mockUseProfileContext.mockReturnValue(
+      createContextValue({
+        profile: { ...mockProfile, location_visibility: 'private' },
+        updateProfile: mockUpdateProfile,
+      })
+    );
+
+    render(<ProfileEditor />);
+
+    // Bio, website and location, in form order
+    const [bioVisibility, , locationVisibility] =
+      screen.getAllByLabelText('Visible to');
+    await waitFor(() => {
+      expect(locationVisibility).toHaveValue('private');
+    });
+
+    fireEvent.change(bioVisibility!, { target: { value: 'authenticated' } });
+    fireEvent.click(screen.getByTestId('submit-button'));
+
+    await waitFor(() => {
+      expect(mockUpdateProfile).toHaveBeenCalledWith(
+        'user-id-1',
+        expect.objectContaining({
+          bio_visibility: 'authenticated',
+          location_visibility: 'private',
+          website_visibility: 'public',
+        })
+      );
+    });
+  });
+
   it('calls onSuccess callback after successful submission', async () => {
     const mockOnSuccess = jest.fn();
     mockUseProfileContext.mockReturnValue(
@@ -1,5 +1,5 @@
 import '@testing-library/jest-dom';
-import { render, screen } from '@testing-library/react';
+import { render, screen, fireEvent } from '@testing-library/react';
 import { ProfileStats } from '@shared/src/components/profile/ProfileStats.web';
 import type { UserProfile } from '@shared/src/types/profile';
 
@@ -115,4 +115,41 @@ describe('ProfileStats', () => {
     // 3 out of 6 fields = 50%
     expect(screen.getByText(/50%/)).toBeInTheDocument();
   });
+
+  it('hides profile completion in read-only mode', () => {
+    render(<ProfileStats profile={mockProfile} readOnly />);
+    expect(screen.getByText(/Member since:/)).toBeInTheDocument();
+    expect(screen.queryByText(/Profile completion:/)).not.toBeInTheDocument();
+  });
+
+  it('renders follower and following counts', () => {
+    render(
+      <ProfileStats
+        profile={mockProfile}
+        followCounts={{ followers: 1, following: 12 }}
+      />
+    );
+    expect(screen.getByText('1 Follower')).toBeInTheDocument();
+    expect(screen.getByText('12 Following')).toBeInTheDocument();
+    expect(screen.queryByRole('button')).not.toBeInTheDocument();
+  });
+
+  it('opens the follow lists when the counts are clicked', () => {
+    const onShowFollowers = jest.fn();
+    const onShowFollowing = jest.fn();
+    render(
+      <ProfileStats
+        profile={mockProfile}
+        followCounts={{ followers: 3, following: 0 }}
+        onShowFollowers={onShowFollowers}
+        onShowFollowing={onShowFollowing}
+      />
+    );
+
+    fireEvent.click(screen.getByRole('button', { name: '3 Followers' }));
+    expect(onShowFollowers).toHaveBeenCalledTimes(1);
+
+    fireEvent.click(screen.getByRole('button', { name: '0 Following' }));
+    expect(onShowFollowing).toHaveBeenCalledTimes(1);
+  });
 });
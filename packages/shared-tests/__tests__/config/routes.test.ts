@@ -0,0 +1,27 @@
+import {
+  ROUTES,
+  getLinkingScreens,
+  publicProfilePath,
+} from '@shared/src/config/routes';
+
+describe('routes', () => {
+  it('should map every screen to the same path used on web', () => {
+    const screens = getLinkingScreens();
+
+    expect(Object.keys(screens)).toEqual(Object.keys(ROUTES));
+    expect(screens.Profile).toBe('profile');
+    expect(screens.AuthCallback).toBe('auth/callback');
+    expect(screens.MfaChallenge).toBe('mfa');
+    expect(screens.PublicProfile).toBe('u/:username');
+    expect(screens.People).toBe('people');
+    expect(screens.Moderation).toBe('moderation');
+  });
+
+  it('should map the web root to the Home screen', () => {
+    expect(getLinkingScreens().Home).toBe('');
+  });
+
+  it('should build public profile paths', () => {
+    expect(publicProfilePath('ada_l')).toBe('/u/ada_l');
+  });
+});
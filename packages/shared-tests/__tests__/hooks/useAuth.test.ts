@@ -2,6 +2,13 @@ import { renderHook, act, waitFor } from '@testing-library/react';
 import { useAuth } from '@shared/src/hooks/useAuth';
 import type { SupabaseClient, User, Session } from '@supabase/supabase-js';
 
+// Unsigned JWT carrying the given claims, enough for reading the aal claim
+const createAccessToken = (claims: Record<string, unknown>) =>
+  `header.${btoa(JSON.stringify(claims))
+    .replace(/=+$/, '')
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')}.signature`;
+
 // Mock Supabase client
 const createMockSupabaseClient = () => {
   const mockUser: User = {
@@ -40,6 +47,10 @@ const createMockSupabaseClient = () => {
         data: { user: mockUser, session: mockSession },
         error: null,
       }),
+      resend: jest.fn().mockResolvedValue({
+        data: {},
+        error: null,
+      }),
       signOut: jest.fn().mockResolvedValue({
         data: {},
         error: null,
@@ -48,6 +59,38 @@ const createMockSupabaseClient = () => {
         data: { url: 'https://oauth-url.com' },
         error: null,
       }),
+      signInWithOtp: jest.fn().mockResolvedValue({
+        data: { user: null, session: null },
+        error: null,
+      }),
+      resetPasswordForEmail: jest.fn().mockResolvedValue({
+        data: {},
+        error: null,
+      }),
+      verifyOtp: jest.fn().mockResolvedValue({
+        data: { user: mockUser, session: mockSession },
+        error: null,
+      }),
+      updateUser: jest.fn().mockResolvedValue({
+        data: { user: mockUser },
+        error: null,
+      }),
+      linkIdentity: jest.fn().mockResolvedValue({
+        data: { provider: 'google', url: 'https://oauth-url.com' },
+        error: null,
+      }),
+      unlinkIdentity: jest.fn().mockResolvedValue({
+        data: {},
+        error: null,
+      }),
+      signInAnonymously: jest.fn().mockResolvedValue({
+        data: { user: mockUser, session: mockSession },
+        error: null,
+      }),
+      refreshSession: jest.fn().mockResolvedValue({
+        data: { user: mockUser, session: mockSession },
+        error: null,
+      }),
       onAuthStateChange: jest.fn(callback => {
         authStateCallback = callback;
         return {
@@ -59,6 +102,12 @@ const createMockSupabaseClient = () => {
         };
       }),
     },
+    functions: {
+      invoke: jest.fn().mockResolvedValue({
+        data: { success: true },
+        error: null,
+      }),
+    },
   } as unknown as SupabaseClient;
 
   return {
@@ -69,6 +118,17 @@ const createMockSupabaseClient = () => {
   };
 };
 
+// What another tab's tabSync post looks like here: jsdom has no
+// BroadcastChannel, so messages arrive as storage events
+const receiveFromOtherTab = (message: unknown) => {
+  window.dispatchEvent(
+    new StorageEvent('storage', {
+      key: 'beaker-stack.tab-sync',
+      newValue: JSON.stringify({ message, nonce: Math.random() }),
+    })
+  );
+};
+
 describe('useAuth', () => {
   it('should initialize with loading state', async () => {
     const { mockClient } = createMockSupabaseClient();
@@ -109,14 +169,117 @@ describe('useAuth', () => {
       expect(result.current.loading).toBe(false);
     });
 
+    let signUpResult;
     await act(async () => {
-      await result.current.signUp('test@example.com', 'password123');
+      signUpResult = await result.current.signUp(
+        'test@example.com',
+        'password123'
+      );
     });
 
     expect(mockClient.auth.signUp).toHaveBeenCalledWith({
       email: 'test@example.com',
       password: 'password123',
+      options: { emailRedirectTo: 'http://localhost/auth/callback', data: {} },
+    });
+    expect(signUpResult).toEqual({ emailVerificationRequired: false });
+  });
+
+  it('should pass the chosen username and display name as user metadata', async () => {
+    const { mockClient } = createMockSupabaseClient();
+    const { result } = renderHook(() => useAuth(mockClient));
+
+    await waitFor(() => {
+      expect(result.current.loading).toBe(false);
+    });
+
+    await act(async () => {
+      await result.current.signUp('test@example.com', 'password123', {
+        username: ' ada_l ',
+        displayName: 'Ada Lovelace',
+      });
+    });
+
+    expect(mockClient.auth.signUp).toHaveBeenCalledWith(
+      expect.objectContaining({
+        options: expect.objectContaining({
+          data: { username: 'ada_l', display_name: 'Ada Lovelace' },
+        }),
+      })
+    );
+  });
+
+  it('should report when sign up needs email verification', async () => {
+    const { mockClient, mockUser } = createMockSupabaseClient();
+    (mockClient.auth.signUp as jest.Mock).mockResolvedValueOnce({
+      data: { user: mockUser, session: null },
+      error: null,
+    });
+    const { result } = renderHook(() => useAuth(mockClient));
+
+    await waitFor(() => {
+      expect(result.current.loading).toBe(false);
+    });
+
+    let signUpResult;
+    await act(async () => {
+      signUpResult = await result.current.signUp(
+        'test@example.com',
+        'password123'
+      );
+    });
+
+    expect(signUpResult).toEqual({ emailVerificationRequired: true });
+    expect(result.current.user).toBeNull();
+  });
+
+  it('should resend the signup confirmation email', async () => {
+    const { mockClient } = createMockSupabaseClient();
+    const { result } = renderHook(() => useAuth(mockClient));
+
+    await waitFor(() => {
+      expect(result.current.loading).toBe(false);
     });
+
+    await act(async () => {
+      await result.current.resendVerificationEmail('test@example.com');
+    });
+
+    expect(mockClient.auth.resend).toHaveBeenCalledWith({
+      type: 'signup',
+      email: 'test@example.com',
+      options: { emailRedirectTo: 'http://localhost/auth/callback' },
+    });
+  });
+
+  it('should expose whether the email address is verified', async () => {
+    const { mockClient, mockSession, getAuthStateCallback } =
+      createMockSupabaseClient();
+    const { result } = renderHook(() => useAuth(mockClient));
+
+    await waitFor(() => {
+      expect(result.current.loading).toBe(false);
+    });
+    expect(result.current.emailVerified).toBe(false);
+
+    act(() => {
+      getAuthStateCallback()!('SIGNED_IN', {
+        ...mockSession,
+        user: { ...mockSession.user, email_confirmed_at: null },
+      });
+    });
+    expect(result.current.emailVerified).toBe(false);
+
+    act(() => {
+      getAuthStateCallback()!('USER_UPDATED', {
+        ...mockSession,
+        user: {
+          ...mockSession.user,
+          email_confirmed_at: '2026-01-01T00:00:00Z',
+        },
+      });
+    });
+    expect(result.current.emailVerified).toBe(true);
   });
 
   it('should handle sign out', async () => {
@@ -154,6 +317,26 @@ describe('useAuth', () => {
     });
   });
 
+  it('should handle Apple sign in', async () => {
+    const { mockClient } = createMockSupabaseClient();
+    const { result } = renderHook(() => useAuth(mockClient));
+
+    await waitFor(() => {
+      expect(result.current.loading).toBe(false);
+    });
+
+    await act(async () => {
+      await result.current.signInWithApple();
+    });
+
+    expect(mockClient.auth.signInWithOAuth).toHaveBeenCalledWith({
+      provider: 'apple',
+      options: {
+        redirectTo: 'http://localhost/auth/callback',
+      },
+    });
+  });
+
   it('should handle auth state changes', async () => {
     const { mockClient, mockUser, mockSession, getAuthStateCallback } =
       createMockSupabaseClient();
@@ -223,4 +406,685 @@ describe('useAuth', () => {
 
     expect(unsubscribeMock).toHaveBeenCalled();
   });
+
+  it('should send a magic link to existing users only', async () => {
+    const { mockClient } = createMockSupabaseClient();
+    const { result } = renderHook(() => useAuth(mockClient));
+
+    await waitFor(() => {
+      expect(result.current.loading).toBe(false);
+    });
+
+    await act(async () => {
+      await result.current.signInWithMagicLink('test@example.com');
+    });
+
+    expect(mockClient.auth.signInWithOtp).toHaveBeenCalledWith({
+      email: 'test@example.com',
+      options: {
+        emailRedirectTo: 'http://localhost/auth/callback',
+        shouldCreateUser: false,
+      },
+    });
+  });
+
+  it('should verify an email OTP code', async () => {
+    const { mockClient } = createMockSupabaseClient();
+    const { result } = renderHook(() => useAuth(mockClient));
+
+    await waitFor(() => {
+      expect(result.current.loading).toBe(false);
+    });
+
+    await act(async () => {
+      await result.current.verifyOtp('test@example.com', '654321');
+    });
+
+    expect(mockClient.auth.verifyOtp).toHaveBeenCalledWith({
+      email: 'test@example.com',
+      token: '654321',
+      type: 'email',
+    });
+  });
+
+  it('should throw error when the OTP code is invalid', async () => {
+    const { mockClient } = createMockSupabaseClient();
+    mockClient.auth.verifyOtp = jest.fn().mockResolvedValue({
+      data: { user: null, session: null },
+      error: { message: 'Token has expired or is invalid' },
+    });
+
+    const { result } = renderHook(() => useAuth(mockClient));
+
+    await waitFor(() => {
+      expect(result.current.loading).toBe(false);
+    });
+
+    await expect(
+      act(async () => {
+        await result.current.verifyOtp('test@example.com', '000000');
+      })
+    ).rejects.toMatchObject({
+      code: 'otp_expired',
+      message: 'This code or link is invalid or has expired.',
+    });
+  });
+
+  it('should request a password reset email with the reset-password redirect', async () => {
+    const { mockClient } = createMockSupabaseClient();
+    const { result } = renderHook(() => useAuth(mockClient));
+
+    await waitFor(() => {
+      expect(result.current.loading).toBe(false);
+    });
+
+    await act(async () => {
+      await result.current.requestPasswordReset('test@example.com');
+    });
+
+    expect(mockClient.auth.resetPasswordForEmail).toHaveBeenCalledWith(
+      'test@example.com',
+      { redirectTo: 'http://localhost/reset-password' }
+    );
+  });
+
+  it('should verify a password reset code as a recovery OTP', async () => {
+    const { mockClient } = createMockSupabaseClient();
+    const { result } = renderHook(() => useAuth(mockClient));
+
+    await waitFor(() => {
+      expect(result.current.loading).toBe(false);
+    });
+
+    await act(async () => {
+      await result.current.verifyPasswordResetCode(
+        'test@example.com',
+        '123456'
+      );
+    });
+
+    expect(mockClient.auth.verifyOtp).toHaveBeenCalledWith({
+      email: 'test@example.com',
+      token: '123456',
+      type: 'recovery',
+    });
+  });
+
+  it('should track the PASSWORD_RECOVERY event until the password is updated', async () => {
+    const { mockClient, mockSession, getAuthStateCallback } =
+      createMockSupabaseClient();
+    const { result } = renderHook(() => useAuth(mockClient));
+
+    await waitFor(() => {
+      expect(result.current.loading).toBe(false);
+    });
+
+    expect(result.current.passwordRecovery).toBe(false);
+
+    act(() => {
+      getAuthStateCallback()!('PASSWORD_RECOVERY', mockSession);
+    });
+
+    await waitFor(() => {
+      expect(result.current.passwordRecovery).toBe(true);
+    });
+
+    await act(async () => {
+      await result.current.updatePassword('new-password123');
+    });
+
+    expect(mockClient.auth.updateUser).toHaveBeenCalledWith({
+      password: 'new-password123',
+    });
+    expect(result.current.passwordRecovery).toBe(false);
+  });
+
+  it('should throw error when password update fails', async () => {
+    const { mockClient } = createMockSupabaseClient();
+    mockClient.auth.updateUser = jest.fn().mockResolvedValue({
+      data: { user: null },
+      error: { message: 'Password should be at least 6 characters' },
+    });
+
+    const { result } = renderHook(() => useAuth(mockClient));
+
+    await waitFor(() => {
+      expect(result.current.loading).toBe(false);
+    });
+
+    await expect(
+      act(async () => {
+        await result.current.updatePassword('123');
+      })
+    ).rejects.toMatchObject({
+      code: 'weak_password',
+      message: 'That password is too weak.',
+    });
+  });
+
+  it('should require a second factor for aal1 sessions with a verified factor', async () => {
+    const { mockClient, mockUser, mockSession, getAuthStateCallback } =
+      createMockSupabaseClient();
+    const { result } = renderHook(() => useAuth(mockClient));
+
+    await waitFor(() => {
+      expect(result.current.loading).toBe(false);
+    });
+
+    expect(result.current.aal).toBeNull();
+    expect(result.current.needsSecondFactor).toBe(false);
+
+    const userWithFactor = {
+      ...mockUser,
+      factors: [
+        {
+          id: 'factor-id',
+          factor_type: 'totp',
+          status: 'verified',
+          created_at: new Date().toISOString(),
+          updated_at: new Date().toISOString(),
+        },
+      ],
+    } as typeof mockUser;
+
+    act(() => {
+      getAuthStateCallback()!('SIGNED_IN', {
+        ...mockSession,
+        access_token: createAccessToken({ aal: 'aal1' }),
+        user: userWithFactor,
+      });
+    });
+
+    await waitFor(() => {
+      expect(result.current.aal).toBe('aal1');
+      expect(result.current.needsSecondFactor).toBe(true);
+    });
+
+    act(() => {
+      getAuthStateCallback()!('MFA_CHALLENGE_VERIFIED', {
+        ...mockSession,
+        access_token: createAccessToken({ aal: 'aal2' }),
+        user: userWithFactor,
+      });
+    });
+
+    await waitFor(() => {
+      expect(result.current.aal).toBe('aal2');
+      expect(result.current.needsSecondFactor).toBe(false);
+    });
+  });
+
+  it('should not require a second factor for users without one', async () => {
+    const { mockClient, mockSession, getAuthStateCallback } =
+      createMockSupabaseClient();
+    const { result } = renderHook(() => useAuth(mockClient));
+
+    await waitFor(() => {
+      expect(result.current.loading).toBe(false);
+    });
+
+    act(() => {
+      getAuthStateCallback()!('SIGNED_IN', {
+        ...mockSession,
+        access_token: createAccessToken({ aal: 'aal1' }),
+      });
+    });
+
+    await waitFor(() => {
+      expect(result.current.aal).toBe('aal1');
+    });
+    expect(result.current.needsSecondFactor).toBe(false);
+  });
+
+  it('should link an identity with the profile redirect', async () => {
+    const { mockClient } = createMockSupabaseClient();
+    const { result } = renderHook(() => useAuth(mockClient));
+
+    await waitFor(() => {
+      expect(result.current.loading).toBe(false);
+    });
+
+    await act(async () => {
+      await result.current.linkIdentity('google');
+    });
+
+    expect(mockClient.auth.linkIdentity).toHaveBeenCalledWith({
+      provider: 'google',
+      options: {
+        redirectTo: 'http://localhost/profile',
+      },
+    });
+  });
+
+  it('should unlink an identity and refresh the session', async () => {
+    const { mockClient, mockUser, mockSession, getAuthStateCallback } =
+      createMockSupabaseClient();
+    const { result } = renderHook(() => useAuth(mockClient));
+
+    await waitFor(() => {
+      expect(result.current.loading).toBe(false);
+    });
+
+    const emailIdentity = {
+      id: 'email-id',
+      identity_id: 'email-identity-id',
+      user_id: mockUser.id,
+      provider: 'email',
+    };
+    const googleIdentity = {
+      id: 'google-id',
+      identity_id: 'google-identity-id',
+      user_id: mockUser.id,
+      provider: 'google',
+    };
+
+    act(() => {
+      getAuthStateCallback()!('SIGNED_IN', {
+        ...mockSession,
+        user: { ...mockUser, identities: [emailIdentity, googleIdentity] },
+      });
+    });
+
+    await waitFor(() => {
+      expect(result.current.identities).toHaveLength(2);
+    });
+
+    await act(async () => {
+      await result.current.unlinkIdentity(googleIdentity);
+    });
+
+    expect(mockClient.auth.unlinkIdentity).toHaveBeenCalledWith(googleIdentity);
+    expect(mockClient.auth.refreshSession).toHaveBeenCalled();
+  });
+
+  it("should refuse to unlink the user's last identity", async () => {
+    const { mockClient, mockUser, mockSession, getAuthStateCallback } =
+      createMockSupabaseClient();
+    const { result } = renderHook(() => useAuth(mockClient));
+
+    await waitFor(() => {
+      expect(result.current.loading).toBe(false);
+    });
+
+    const emailIdentity = {
+      id: 'email-id',
+      identity_id: 'email-identity-id',
+      user_id: mockUser.id,
+      provider: 'email',
+    };
+
+    act(() => {
+      getAuthStateCallback()!('SIGNED_IN', {
+        ...mockSession,
+        user: { ...mockUser, identities: [emailIdentity] },
+      });
+    });
+
+    await waitFor(() => {
+      expect(result.current.identities).toHaveLength(1);
+    });
+
+    await expect(
+      act(async () => {
+        await result.current.unlinkIdentity(emailIdentity);
+      })
+    ).rejects.toMatchObject({
+      code: 'last_identity',
+      message: "You can't disconnect your only way to sign in.",
+    });
+    expect(mockClient.auth.unlinkIdentity).not.toHaveBeenCalled();
+  });
+
+  it('should delete the account through the edge function and sign out', async () => {
+    const { mockClient } = createMockSupabaseClient();
+    const { result } = renderHook(() => useAuth(mockClient));
+
+    await waitFor(() => {
+      expect(result.current.loading).toBe(false);
+    });
+
+    await act(async () => {
+      await result.current.deleteAccount();
+    });
+
+    expect(mockClient.functions.invoke).toHaveBeenCalledWith('delete-account', {
+      method: 'POST',
+    });
+    expect(mockClient.auth.signOut).toHaveBeenCalledWith({ scope: 'local' });
+    expect(result.current.user).toBeNull();
+  });
+
+  it('should surface edge function errors without signing out', async () => {
+    const { mockClient } = createMockSupabaseClient();
+    (mockClient.functions.invoke as jest.Mock).mockResolvedValueOnce({
+      data: null,
+      error: { message: 'Failed to delete account' },
+    });
+    const { result } = renderHook(() => useAuth(mockClient));
+
+    await waitFor(() => {
+      expect(result.current.loading).toBe(false);
+    });
+
+    await expect(
+      act(async () => {
+        await result.current.deleteAccount();
+      })
+    ).rejects.toThrow('Failed to delete account');
+    expect(mockClient.auth.signOut).not.toHaveBeenCalled();
+  });
+
+  it('should request an email change with the profile redirect', async () => {
+    const { mockClient } = createMockSupabaseClient();
+    const { result } = renderHook(() => useAuth(mockClient));
+
+    await waitFor(() => {
+      expect(result.current.loading).toBe(false);
+    });
+
+    await act(async () => {
+      await result.current.changeEmail('new@example.com');
+    });
+
+    expect(mockClient.auth.updateUser).toHaveBeenCalledWith(
+      { email: 'new@example.com' },
+      { emailRedirectTo: 'http://localhost/profile' }
+    );
+  });
+
+  it('should expose a pending email change from the user', async () => {
+    const { mockClient, mockUser, mockSession, getAuthStateCallback } =
+      createMockSupabaseClient();
+    const { result } = renderHook(() => useAuth(mockClient));
+
+    await waitFor(() => {
+      expect(result.current.loading).toBe(false);
+    });
+    expect(result.current.pendingEmailChange).toBeNull();
+
+    act(() => {
+      getAuthStateCallback()!('USER_UPDATED', {
+        ...mockSession,
+        user: {
+          ...mockUser,
+          new_email: 'new@example.com',
+          email_change_sent_at: '2024-01-15T00:00:00Z',
+        },
+      });
+    });
+
+    await waitFor(() => {
+      expect(result.current.pendingEmailChange).toEqual({
+        newEmail: 'new@example.com',
+        sentAt: '2024-01-15T00:00:00Z',
+      });
+    });
+  });
+
+  it('should re-authenticate before changing the password', async () => {
+    const { mockClient, mockSession, getAuthStateCallback } =
+      createMockSupabaseClient();
+    const { result } = renderHook(() => useAuth(mockClient));
+
+    await waitFor(() => {
+      expect(result.current.loading).toBe(false);
+    });
+
+    act(() => {
+      getAuthStateCallback()!('SIGNED_IN', mockSession);
+    });
+
+    await waitFor(() => {
+      expect(result.current.user).not.toBeNull();
+    });
+
+    await act(async () => {
+      await result.current.changePassword('old-password', 'new-password');
+    });
+
+    expect(mockClient.auth.signInWithPassword).toHaveBeenCalledWith({
+      email: 'test@example.com',
+      password: 'old-password',
+    });
+    expect(mockClient.auth.updateUser).toHaveBeenCalledWith({
+      password: 'new-password',
+    });
+  });
+
+  it('should not change the password when the current one is wrong', async () => {
+    const { mockClient, mockSession, getAuthStateCallback } =
+      createMockSupabaseClient();
+    (mockClient.auth.signInWithPassword as jest.Mock).mockResolvedValueOnce({
+      data: { user: null, session: null },
+      error: { message: 'Invalid login credentials' },
+    });
+    const { result } = renderHook(() => useAuth(mockClient));
+
+    await waitFor(() => {
+      expect(result.current.loading).toBe(false);
+    });
+
+    act(() => {
+      getAuthStateCallback()!('SIGNED_IN', mockSession);
+    });
+
+    await waitFor(() => {
+      expect(result.current.user).not.toBeNull();
+    });
+
+    await expect(
+      act(async () => {
+        await result.current.changePassword('wrong-password', 'new-password');
+      })
+    ).rejects.toThrow('Current password is incorrect');
+    expect(mockClient.auth.updateUser).not.toHaveBeenCalled();
+  });
+
+  it('should keep other re-authentication errors when changing the password', async () => {
+    const { mockClient, mockSession, getAuthStateCallback } =
+      createMockSupabaseClient();
+    (mockClient.auth.signInWithPassword as jest.Mock).mockResolvedValueOnce({
+      data: { user: null, session: null },
+      error: { message: 'Too many requests', status: 429 },
+    });
+    const { result } = renderHook(() => useAuth(mockClient));
+
+    await waitFor(() => {
+      expect(result.current.loading).toBe(false);
+    });
+
+    act(() => {
+      getAuthStateCallback()!('SIGNED_IN', mockSession);
+    });
+
+    await waitFor(() => {
+      expect(result.current.user).not.toBeNull();
+    });
+
+    await expect(
+      act(async () => {
+        await result.current.changePassword('old-password', 'new-password');
+      })
+    ).rejects.toMatchObject({
+      code: 'rate_limited',
+      message: 'Too many attempts.',
+    });
+    expect(mockClient.auth.updateUser).not.toHaveBeenCalled();
+  });
+
+  it('should revoke other sessions when signing out other devices', async () => {
+    const { mockClient } = createMockSupabaseClient();
+    const { result } = renderHook(() => useAuth(mockClient));
+
+    await waitFor(() => {
+      expect(result.current.loading).toBe(false);
+    });
+
+    await act(async () => {
+      await result.current.signOutOtherDevices();
+    });
+
+    expect(mockClient.auth.signOut).toHaveBeenCalledWith({ scope: 'others' });
+  });
+
+  it('should surface errors when signing out everywhere fails', async () => {
+    const { mockClient } = createMockSupabaseClient();
+    (mockClient.auth.signOut as jest.Mock).mockResolvedValueOnce({
+      error: { message: 'Network error' },
+    });
+    const { result } = renderHook(() => useAuth(mockClient));
+
+    await waitFor(() => {
+      expect(result.current.loading).toBe(false);
+    });
+
+    await expect(
+      act(async () => {
+        await result.current.signOutEverywhere();
+      })
+    ).rejects.toThrow('Network error');
+    expect(mockClient.auth.signOut).toHaveBeenCalledWith({ scope: 'global' });
+  });
+
+  it('should sign in anonymously as a guest', async () => {
+    const { mockClient } = createMockSupabaseClient();
+    const { result } = renderHook(() => useAuth(mockClient));
+
+    await waitFor(() => {
+      expect(result.current.loading).toBe(false);
+    });
+
+    await act(async () => {
+      await result.current.signInAsGuest();
+    });
+
+    expect(mockClient.auth.signInAnonymously).toHaveBeenCalled();
+  });
+
+  it('should convert a guest into a full account', async () => {
+    const { mockClient, mockUser, mockSession, getAuthStateCallback } =
+      createMockSupabaseClient();
+    const { result } = renderHook(() => useAuth(mockClient));
+
+    await waitFor(() => {
+      expect(result.current.loading).toBe(false);
+    });
+
+    act(() => {
+      getAuthStateCallback()!('SIGNED_IN', {
+        ...mockSession,
+        user: { ...mockUser, email: undefined, is_anonymous: true },
+      });
+    });
+
+    await waitFor(() => {
+      expect(result.current.isGuest).toBe(true);
+    });
+
+    await act(async () => {
+      await result.current.convertGuestToAccount(
+        'new@example.com',
+        'password123'
+      );
+    });
+
+    expect(mockClient.auth.updateUser).toHaveBeenCalledWith(
+      { email: 'new@example.com', password: 'password123' },
+      { emailRedirectTo: 'http://localhost/dashboard' }
+    );
+  });
+
+  it('should refuse to convert an account that is not a guest', async () => {
+    const { mockClient, mockSession, getAuthStateCallback } =
+      createMockSupabaseClient();
+    const { result } = renderHook(() => useAuth(mockClient));
+
+    await waitFor(() => {
+      expect(result.current.loading).toBe(false);
+    });
+
+    act(() => {
+      getAuthStateCallback()!('SIGNED_IN', mockSession);
+    });
+
+    await waitFor(() => {
+      expect(result.current.user).not.toBeNull();
+    });
+    expect(result.current.isGuest).toBe(false);
+
+    await expect(
+      act(async () => {
+        await result.current.convertGuestToAccount(
+          'new@example.com',
+          'password123'
+        );
+      })
+    ).rejects.toThrow('Only guest accounts can be converted');
+    expect(mockClient.auth.updateUser).not.toHaveBeenCalled();
+  });
+
+  it('should tell other tabs when signing out', async () => {
+    const { mockClient } = createMockSupabaseClient();
+    const setItem = jest.spyOn(Storage.prototype, 'setItem');
+    const { result } = renderHook(() => useAuth(mockClient));
+
+    await waitFor(() => {
+      expect(result.current.loading).toBe(false);
+    });
+
+    await act(async () => {
+      await result.current.signOut();
+    });
+
+    expect(setItem).toHaveBeenCalledWith(
+      'beaker-stack.tab-sync',
+      expect.stringContaining('"type":"signed-out"')
+    );
+    setItem.mockRestore();
+  });
+
+  it('should sign out when another tab signs out', async () => {
+    const { mockClient, mockSession, getAuthStateCallback } =
+      createMockSupabaseClient();
+    const { result } = renderHook(() => useAuth(mockClient));
+
+    await waitFor(() => {
+      expect(result.current.loading).toBe(false);
+    });
+
+    act(() => {
+      getAuthStateCallback()!('SIGNED_IN', mockSession);
+    });
+    expect(result.current.user).not.toBeNull();
+
+    act(() => {
+      receiveFromOtherTab({ type: 'signed-out' });
+    });
+
+    expect(result.current.user).toBeNull();
+    expect(result.current.session).toBeNull();
+    expect(mockClient.auth.signOut).toHaveBeenCalledWith({ scope: 'local' });
+  });
+
+  it('should re-read the session when another tab signs in', async () => {
+    const { mockClient, mockSession } = createMockSupabaseClient();
+    const { result } = renderHook(() => useAuth(mockClient));
+
+    await waitFor(() => {
+      expect(result.current.loading).toBe(false);
+    });
+    expect(result.current.user).toBeNull();
+
+    (mockClient.auth.getSession as jest.Mock).mockResolvedValueOnce({
+      data: { session: mockSession },
+      error: null,
+    });
+    act(() => {
+      receiveFromOtherTab({ type: 'auth', event: 'SIGNED_IN' });
+    });
+
+    await waitFor(() => {
+      expect(result.current.user?.id).toBe('test-user-id');
+    });
+  });
 });
@@ -0,0 +1,114 @@
+import { renderHook, act, waitFor } from '@testing-library/react';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { useBlocks } from '@shared/src/hooks/useBlocks';
+
+const blocked = (username: string) => ({
+  user_id: `user-${username}`,
+  username,
+  display_name: null,
+  avatar_url: null,
+  blocked_at: '2024-12-10T00:00:00Z',
+});
+
+const createMockSupabaseClient = (
+  saveResult: { error: { code?: string; message: string } | null } = {
+    error: null,
+  }
+) => {
+  const rpc = jest.fn().mockResolvedValue({ data: [], error: null });
+  const eq = jest.fn();
+  const deleteBuilder = { eq };
+  eq.mockImplementation(() =>
+    eq.mock.calls.length % 2 === 0 ? Promise.resolve(saveResult) : deleteBuilder
+  );
+  const insert = jest.fn().mockResolvedValue(saveResult);
+  const from = jest.fn(() => ({
+    insert,
+    delete: jest.fn(() => deleteBuilder),
+  }));
+
+  const client = { rpc, from } as unknown as SupabaseClient & {
+    rpc: jest.Mock;
+    from: jest.Mock;
+  };
+  return { client, rpc, insert, eq };
+};
+
+describe('useBlocks', () => {
+  it('loads the blocked users', async () => {
+    const { client, rpc } = createMockSupabaseClient();
+    rpc.mockResolvedValueOnce({ data: [blocked('ada')], error: null });
+
+    const { result } = renderHook(() => useBlocks(client, 'me'));
+    await waitFor(() => expect(result.current.loading).toBe(false));
+
+    expect(rpc).toHaveBeenCalledWith('get_blocked_users');
+    expect(result.current.blockedUsers).toHaveLength(1);
+    expect(result.current.isBlocked('user-ada')).toBe(true);
+    expect(result.current.isBlocked('user-alan')).toBe(false);
+  });
+
+  it('does not load anything without a current user', async () => {
+    const { client, rpc } = createMockSupabaseClient();
+
+    const { result } = renderHook(() => useBlocks(client, null));
+    await waitFor(() => expect(result.current.loading).toBe(false));
+
+    expect(rpc).not.toHaveBeenCalled();
+    await act(async () => {
+      await expect(result.current.blockUser('user-ada')).rejects.toThrow(
+        'Sign in to block users'
+      );
+    });
+  });
+
+  it('blocks a user and reloads the list', async () => {
+    const { client, rpc, insert } = createMockSupabaseClient();
+    const { result } = renderHook(() => useBlocks(client, 'me'));
+    await waitFor(() => expect(result.current.loading).toBe(false));
+
+    rpc.mockResolvedValueOnce({ data: [blocked('ada')], error: null });
+    await act(async () => {
+      await result.current.blockUser('user-ada');
+    });
+
+    expect(client.from).toHaveBeenCalledWith('user_blocks');
+    expect(insert).toHaveBeenCalledWith({
+      blocker_id: 'me',
+      blocked_id: 'user-ada',
+    });
+    expect(result.current.isBlocked('user-ada')).toBe(true);
+    expect(result.current.updating).toBe(false);
+  });
+
+  it('unblocks a user', async () => {
+    const { client, rpc, eq } = createMockSupabaseClient();
+    rpc.mockResolvedValueOnce({ data: [blocked('ada')], error: null });
+    const { result } = renderHook(() => useBlocks(client, 'me'));
+    await waitFor(() => expect(result.current.loading).toBe(false));
+
+    await act(async () => {
+      await result.current.unblockUser('user-ada');
+    });
+
+    expect(eq).toHaveBeenCalledWith('blocker_id', 'me');
+    expect(eq).toHaveBeenCalledWith('blocked_id', 'user-ada');
+    expect(result.current.isBlocked('user-ada')).toBe(false);
+  });
+
+  it('exposes save errors', async () => {
+    const { client } = createMockSupabaseClient({
+      error: { message: 'Network error' },
+    });
+    const { result } = renderHook(() => useBlocks(client, 'me'));
+    await waitFor(() => expect(result.current.loading).toBe(false));
+
+    await act(async () => {
+      await expect(result.current.blockUser('user-ada')).rejects.toThrow(
+        'Network error'
+      );
+    });
+
+    expect(result.current.error?.message).toBe('Network error');
+  });
+});
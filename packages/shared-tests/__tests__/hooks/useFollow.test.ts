@@ -0,0 +1,244 @@
+import { renderHook, act, waitFor } from '@testing-library/react';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { useFollow } from '@shared/src/hooks/useFollow';
+
+interface MockState {
+  followers: number;
+  following: number;
+  isFollowing: boolean;
+  saveError: { code?: string; message: string } | null;
+}
+
+const createMockSupabaseClient = (initial: Partial<MockState> = {}) => {
+  const state: MockState = {
+    followers: 0,
+    following: 0,
+    isFollowing: false,
+    saveError: null,
+    ...initial,
+  };
+  const realtimeHandlers: {
+    event: string;
+    handler: (payload: unknown) => void;
+  }[] = [];
+
+  const mockChannel = {
+    on: jest.fn(
+      (
+        _type: string,
+        filter: { event: string },
+        handler: (payload: unknown) => void
+      ) => {
+        realtimeHandlers.push({ event: filter.event, handler });
+        return mockChannel;
+      }
+    ),
+    subscribe: jest.fn(() => mockChannel),
+    unsubscribe: jest.fn().mockResolvedValue('ok'),
+  };
+
+  // Each from() call gets a builder that resolves like the query it ends up as
+  const from = jest.fn(() => {
+    const filters: Record<string, string> = {};
+    let write = false;
+    const builder = {
+      select: jest.fn(() => builder),
+      eq: jest.fn((column: string, value: string) => {
+        filters[column] = value;
+        return builder;
+      }),
+      maybeSingle: jest.fn(() =>
+        Promise.resolve({
+          data: state.isFollowing ? { follower_id: filters.follower_id } : null,
+          error: null,
+        })
+      ),
+      insert: jest.fn(() => {
+        write = true;
+        return builder;
+      }),
+      delete: jest.fn(() => {
+        write = true;
+        return builder;
+      }),
+      then: (
+        resolve: (value: unknown) => unknown,
+        reject: (reason: unknown) => unknown
+      ) =>
+        Promise.resolve(
+          write
+            ? { error: state.saveError }
+            : {
+                count: filters.following_id ? state.followers : state.following,
+                error: null,
+              }
+        ).then(resolve, reject),
+    };
+    return builder;
+  });
+
+  const client = {
+    from,
+    channel: jest.fn(() => mockChannel),
+  } as unknown as SupabaseClient & { from: jest.Mock };
+
+  const emit = (event: 'INSERT' | 'DELETE', payload: unknown) =>
+    realtimeHandlers
+      .filter(entry => entry.event === event)
+      .forEach(entry => entry.handler(payload));
+
+  return { client, state, emit };
+};
+
+describe('useFollow', () => {
+  it('loads follower counts and whether the current user follows', async () => {
+    const { client } = createMockSupabaseClient({
+      followers: 5,
+      following: 2,
+      isFollowing: true,
+    });
+    const { result } = renderHook(() => useFollow(client, 'user-a', 'me'));
+
+    await waitFor(() => expect(result.current.loading).toBe(false));
+
+    expect(result.current.followerCount).toBe(5);
+    expect(result.current.followingCount).toBe(2);
+    expect(result.current.isFollowing).toBe(true);
+    expect(result.current.canFollow).toBe(true);
+  });
+
+  it('follows optimistically', async () => {
+    const { client } = createMockSupabaseClient({ followers: 1 });
+    const { result } = renderHook(() => useFollow(client, 'user-b', 'me'));
+    await waitFor(() => expect(result.current.loading).toBe(false));
+
+    let toggle: Promise<void> = Promise.resolve();
+    act(() => {
+      toggle = result.current.toggleFollow();
+    });
+
+    expect(result.current.isFollowing).toBe(true);
+    expect(result.current.followerCount).toBe(2);
+    expect(result.current.toggling).toBe(true);
+
+    await act(async () => {
+      await toggle;
+    });
+
+    const insertBuilder = client.from.mock.results.at(-1)?.value;
+    expect(insertBuilder.insert).toHaveBeenCalledWith({
+      follower_id: 'me',
+      following_id: 'user-b',
+    });
+    expect(result.current.toggling).toBe(false);
+    expect(result.current.isFollowing).toBe(true);
+  });
+
+  it('rolls back when saving the unfollow fails', async () => {
+    const { client, state } = createMockSupabaseClient({
+      followers: 3,
+      isFollowing: true,
+    });
+    const { result } = renderHook(() => useFollow(client, 'user-c', 'me'));
+    await waitFor(() => expect(result.current.loading).toBe(false));
+
+    state.saveError = { message: 'Network error' };
+    await act(async () => {
+      await expect(result.current.toggleFollow()).rejects.toThrow(
+        'Network error'
+      );
+    });
+
+    expect(result.current.isFollowing).toBe(true);
+    expect(result.current.followerCount).toBe(3);
+    expect(result.current.error?.message).toBe('Network error');
+  });
+
+  it('treats an existing follow as success', async () => {
+    const { client, state } = createMockSupabaseClient();
+    const { result } = renderHook(() => useFollow(client, 'user-d', 'me'));
+    await waitFor(() => expect(result.current.loading).toBe(false));
+
+    // Followed from another tab since the counts loaded
+    state.isFollowing = true;
+    state.saveError = { code: '23505', message: 'duplicate key' };
+    await act(async () => {
+      await result.current.toggleFollow();
+    });
+
+    expect(result.current.isFollowing).toBe(true);
+    expect(result.current.error).toBeNull();
+  });
+
+  it("doesn't count an existing follow twice", async () => {
+    const { client, state } = createMockSupabaseClient({ followers: 4 });
+    const { result } = renderHook(() => useFollow(client, 'user-d', 'me'));
+    await waitFor(() => expect(result.current.loading).toBe(false));
+
+    // The count already includes a follow made from another tab
+    state.isFollowing = true;
+    state.saveError = { code: '23505', message: 'duplicate key' };
+    await act(async () => {
+      await result.current.toggleFollow();
+    });
+
+    await waitFor(() => expect(result.current.followerCount).toBe(4));
+    expect(result.current.isFollowing).toBe(true);
+  });
+
+  it("can't follow without a current user or yourself", async () => {
+    const { client } = createMockSupabaseClient();
+    const { result: signedOut } = renderHook(() => useFollow(client, 'user-e'));
+    const { result: self } = renderHook(() =>
+      useFollow(client, 'user-e', 'user-e')
+    );
+    await waitFor(() => expect(signedOut.current.loading).toBe(false));
+    await waitFor(() => expect(self.current.loading).toBe(false));
+
+    expect(signedOut.current.canFollow).toBe(false);
+    expect(self.current.canFollow).toBe(false);
+
+    const callsBefore = client.from.mock.calls.length;
+    await act(async () => {
+      await signedOut.current.toggleFollow();
+    });
+    expect(client.from).toHaveBeenCalledTimes(callsBefore);
+  });
+
+  it('refetches counts when a follow changes', async () => {
+    const { client, state, emit } = createMockSupabaseClient({ followers: 1 });
+    const { result } = renderHook(() => useFollow(client, 'user-f', 'me'));
+    await waitFor(() => expect(result.current.loading).toBe(false));
+
+    expect(client.channel).toHaveBeenCalledWith('follows:user-f');
+
+    state.followers = 2;
+    await act(async () => {
+      emit('INSERT', {
+        new: { follower_id: 'someone', following_id: 'user-f' },
+      });
+    });
+
+    await waitFor(() => expect(result.current.followerCount).toBe(2));
+  });
+
+  it('only refetches for unfollows involving the user', async () => {
+    const { client, state, emit } = createMockSupabaseClient({ followers: 1 });
+    const { result } = renderHook(() => useFollow(client, 'user-g', 'me'));
+    await waitFor(() => expect(result.current.loading).toBe(false));
+
+    // Realtime can't filter deletes, so every unfollow reaches the channel
+    const callsBefore = client.from.mock.calls.length;
+    await act(async () => {
+      emit('DELETE', { old: { follower_id: 'x', following_id: 'y' } });
+    });
+    expect(client.from).toHaveBeenCalledTimes(callsBefore);
+
+    state.followers = 0;
+    await act(async () => {
+      emit('DELETE', { old: { follower_id: 'x', following_id: 'user-g' } });
+    });
+
+    await waitFor(() => expect(result.current.followerCount).toBe(0));
+  });
+});
@@ -0,0 +1,119 @@
+import { renderHook, act, waitFor } from '@testing-library/react';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { useFollowList } from '@shared/src/hooks/useFollowList';
+
+const profile = (username: string) => ({
+  id: `id-${username}`,
+  user_id: `user-${username}`,
+  username,
+  display_name: null,
+  avatar_url: null,
+  bio: null,
+  location: null,
+  website: null,
+  created_at: '2024-01-01T00:00:00Z',
+});
+
+const createMockSupabaseClient = (
+  ...pages: { data: unknown; error: { message: string } | null }[]
+) => {
+  const rpc = jest.fn();
+  pages.forEach(page => rpc.mockResolvedValueOnce(page));
+
+  const mockChannel = {
+    on: jest.fn(() => mockChannel),
+    subscribe: jest.fn(() => mockChannel),
+    unsubscribe: jest.fn().mockResolvedValue('ok'),
+  };
+
+  return {
+    rpc,
+    channel: jest.fn(() => mockChannel),
+  } as unknown as SupabaseClient & { rpc: jest.Mock; channel: jest.Mock };
+};
+
+describe('useFollowList', () => {
+  it('loads the followers of a user', async () => {
+    const client = createMockSupabaseClient({
+      data: [profile('ada'), profile('alan')],
+      error: null,
+    });
+    const { result } = renderHook(() =>
+      useFollowList(client, 'user-1', 'followers', 2)
+    );
+
+    await waitFor(() => expect(result.current.loading).toBe(false));
+
+    // One extra row tells whether there's another page
+    expect(client.rpc).toHaveBeenCalledWith('get_followers', {
+      p_user_id: 'user-1',
+      p_limit: 3,
+    });
+    expect(result.current.profiles.map(p => p.username)).toEqual([
+      'ada',
+      'alan',
+    ]);
+    expect(result.current.hasMore).toBe(false);
+    expect(client.channel).toHaveBeenCalledWith('follows:user-1');
+  });
+
+  it('loads further followed users after the last username', async () => {
+    const client = createMockSupabaseClient(
+      {
+        data: [profile('ada'), profile('alan'), profile('alice')],
+        error: null,
+      },
+      { data: [profile('alice')], error: null }
+    );
+    const { result } = renderHook(() =>
+      useFollowList(client, 'user-2', 'following', 2)
+    );
+    await waitFor(() => expect(result.current.loading).toBe(false));
+
+    expect(result.current.hasMore).toBe(true);
+
+    await act(async () => {
+      await result.current.loadMore();
+    });
+
+    expect(client.rpc).toHaveBeenLastCalledWith('get_following', {
+      p_user_id: 'user-2',
+      p_cursor: 'alan',
+      p_limit: 3,
+    });
+    expect(result.current.profiles.map(p => p.username)).toEqual([
+      'ada',
+      'alan',
+      'alice',
+    ]);
+    expect(result.current.hasMore).toBe(false);
+  });
+
+  it('stays empty without a user', async () => {
+    const client = createMockSupabaseClient();
+    const { result } = renderHook(() =>
+      useFollowList(client, null, 'followers')
+    );
+
+    await waitFor(() => expect(result.current.loading).toBe(false));
+
+    expect(client.rpc).not.toHaveBeenCalled();
+    expect(client.channel).not.toHaveBeenCalled();
+    expect(result.current.profiles).toEqual([]);
+  });
+
+  it('exposes errors', async () => {
+    const client = createMockSupabaseClient({
+      data: null,
+      error: { message: 'Database error' },
+    });
+    const { result } = renderHook(() =>
+      useFollowList(client, 'user-3', 'followers')
+    );
+
+    await waitFor(() => expect(result.current.loading).toBe(false));
+
+    expect(result.current.error?.message).toBe('Database error');
+    expect(result.current.profiles).toEqual([]);
+  });
+});
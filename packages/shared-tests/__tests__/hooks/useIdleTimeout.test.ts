@@ -0,0 +1,164 @@
+import { renderHook, act } from '@testing-library/react';
+import { useIdleTimeout } from '@shared/src/hooks/useIdleTimeout';
+import {
+  getIdleStatus,
+  parseIdleTimeoutMinutes,
+} from '@shared/src/utils/idleTimeout';
+
+const TIMEOUT_MS = 5 * 60 * 1000;
+const WARNING_MS = 60 * 1000;
+
+describe('useIdleTimeout', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    window.localStorage.clear();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  const renderIdleTimeout = (enabled = true) => {
+    const onTimeout = jest.fn();
+    const hook = renderHook(
+      ({ enabled: isEnabled }) =>
+        useIdleTimeout({
+          timeoutMs: TIMEOUT_MS,
+          warningMs: WARNING_MS,
+          enabled: isEnabled,
+          onTimeout,
+        }),
+      { initialProps: { enabled } }
+    );
+    return { ...hook, onTimeout };
+  };
+
+  it('warns before the timeout and then calls onTimeout once', () => {
+    const { result, onTimeout } = renderIdleTimeout();
+
+    act(() => {
+      jest.advanceTimersByTime(TIMEOUT_MS - WARNING_MS - 1000);
+    });
+    expect(result.current.isWarning).toBe(false);
+
+    act(() => {
+      jest.advanceTimersByTime(2000);
+    });
+    expect(result.current.isWarning).toBe(true);
+    expect(result.current.remainingSeconds).toBe(59);
+
+    act(() => {
+      jest.advanceTimersByTime(WARNING_MS + 5000);
+    });
+    expect(onTimeout).toHaveBeenCalledTimes(1);
+    expect(result.current.isWarning).toBe(false);
+  });
+
+  it('restarts the idle period on user activity', () => {
+    const { result, onTimeout } = renderIdleTimeout();
+
+    act(() => {
+      jest.advanceTimersByTime(TIMEOUT_MS - WARNING_MS - 1000);
+      window.dispatchEvent(new KeyboardEvent('keydown'));
+      jest.advanceTimersByTime(TIMEOUT_MS - WARNING_MS - 1000);
+    });
+
+    expect(result.current.isWarning).toBe(false);
+    expect(onTimeout).not.toHaveBeenCalled();
+  });
+
+  it('ignores activity while warning until stayActive is called', () => {
+    const { result, onTimeout } = renderIdleTimeout();
+
+    act(() => {
+      jest.advanceTimersByTime(TIMEOUT_MS - WARNING_MS + 1000);
+      window.dispatchEvent(new MouseEvent('mousemove'));
+      jest.advanceTimersByTime(1000);
+    });
+    expect(result.current.isWarning).toBe(true);
+
+    act(() => {
+      result.current.stayActive();
+    });
+    expect(result.current.isWarning).toBe(false);
+
+    act(() => {
+      jest.advanceTimersByTime(TIMEOUT_MS - WARNING_MS - 1000);
+    });
+    expect(result.current.isWarning).toBe(false);
+    expect(onTimeout).not.toHaveBeenCalled();
+  });
+
+  it('shares activity with other tabs through localStorage', () => {
+    const { result, onTimeout } = renderIdleTimeout();
+
+    act(() => {
+      jest.advanceTimersByTime(TIMEOUT_MS - WARNING_MS + 1000);
+    });
+    expect(result.current.isWarning).toBe(true);
+
+    // Another tab saw activity just now
+    act(() => {
+      window.dispatchEvent(
+        new StorageEvent('storage', {
+          key: 'auth.lastActivityAt',
+          newValue: String(Date.now()),
+        })
+      );
+    });
+    expect(result.current.isWarning).toBe(false);
+
+    act(() => {
+      result.current.stayActive();
+    });
+    expect(Number(window.localStorage.getItem('auth.lastActivityAt'))).toBe(
+      Date.now()
+    );
+    expect(onTimeout).not.toHaveBeenCalled();
+  });
+
+  it('does nothing while disabled', () => {
+    const { result, onTimeout, rerender } = renderIdleTimeout(false);
+
+    act(() => {
+      jest.advanceTimersByTime(TIMEOUT_MS * 2);
+    });
+    expect(result.current.isWarning).toBe(false);
+    expect(onTimeout).not.toHaveBeenCalled();
+
+    // Enabling (e.g. signing in) starts a fresh idle period
+    rerender({ enabled: true });
+    act(() => {
+      jest.advanceTimersByTime(TIMEOUT_MS - WARNING_MS - 1000);
+    });
+    expect(result.current.isWarning).toBe(false);
+  });
+});
+
+describe('getIdleStatus', () => {
+  it('reports active, warning and expired', () => {
+    expect(getIdleStatus(0, 1000, TIMEOUT_MS, WARNING_MS)).toEqual({
+      state: 'active',
+    });
+    expect(
+      getIdleStatus(0, TIMEOUT_MS - 30000, TIMEOUT_MS, WARNING_MS)
+    ).toEqual({ state: 'warning', remainingSeconds: 30 });
+    expect(getIdleStatus(0, TIMEOUT_MS, TIMEOUT_MS, WARNING_MS)).toEqual({
+      state: 'expired',
+    });
+  });
+});
+
+describe('parseIdleTimeoutMinutes', () => {
+  it('falls back to the default for unset or invalid values', () => {
+    expect(parseIdleTimeoutMinutes(undefined, 30)).toBe(30);
+    expect(parseIdleTimeoutMinutes('', 30)).toBe(30);
+    expect(parseIdleTimeoutMinutes('soon', 30)).toBe(30);
+    expect(parseIdleTimeoutMinutes('-5', 30)).toBe(30);
+  });
+
+  it('parses configured values, including 0 to disable', () => {
+    expect(parseIdleTimeoutMinutes('15', 30)).toBe(15);
+    expect(parseIdleTimeoutMinutes('0', 30)).toBe(0);
+  });
+});
@@ -0,0 +1,171 @@
+import { renderHook, act, waitFor } from '@testing-library/react';
+import { useMfa } from '@shared/src/hooks/useMfa';
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+const verifiedFactor = {
+  id: 'verified-factor-id',
+  friendly_name: 'Authenticator app',
+  factor_type: 'totp',
+  status: 'verified',
+  created_at: '2024-01-01T00:00:00Z',
+  updated_at: '2024-01-01T00:00:00Z',
+};
+
+const unverifiedFactor = {
+  ...verifiedFactor,
+  id: 'unverified-factor-id',
+  status: 'unverified',
+};
+
+// Mock Supabase client
+const createMockSupabaseClient = () => {
+  const mfa = {
+    listFactors: jest.fn().mockResolvedValue({
+      data: { all: [verifiedFactor], totp: [verifiedFactor], phone: [] },
+      error: null,
+    }),
+    enroll: jest.fn().mockResolvedValue({
+      data: {
+        id: 'new-factor-id',
+        type: 'totp',
+        totp: {
+          qr_code: 'data:image/svg+xml;utf-8,<svg></svg>',
+          secret: 'JBSWY3DPEHPK3PXP',
+          uri: 'otpauth://totp/test',
+        },
+      },
+      error: null,
+    }),
+    challengeAndVerify: jest.fn().mockResolvedValue({
+      data: {},
+      error: null,
+    }),
+    unenroll: jest.fn().mockResolvedValue({
+      data: { id: 'verified-factor-id' },
+      error: null,
+    }),
+  };
+
+  const mockClient = {
+    auth: {
+      mfa,
+      refreshSession: jest.fn().mockResolvedValue({
+        data: { session: null, user: null },
+        error: null,
+      }),
+    },
+  } as unknown as SupabaseClient;
+
+  return { mockClient, mfa };
+};
+
+describe('useMfa', () => {
+  it('should load verified TOTP factors on mount', async () => {
+    const { mockClient } = createMockSupabaseClient();
+    const { result } = renderHook(() => useMfa(mockClient));
+
+    expect(result.current.loading).toBe(true);
+
+    await waitFor(() => {
+      expect(result.current.loading).toBe(false);
+    });
+
+    expect(result.current.factors).toEqual([verifiedFactor]);
+    expect(result.current.error).toBeNull();
+  });
+
+  it('should clear abandoned enrollments before enrolling a new factor', async () => {
+    const { mockClient, mfa } = createMockSupabaseClient();
+    mfa.listFactors.mockResolvedValue({
+      data: { all: [unverifiedFactor], totp: [], phone: [] },
+      error: null,
+    });
+
+    const { result } = renderHook(() => useMfa(mockClient));
+
+    await waitFor(() => {
+      expect(result.current.loading).toBe(false);
+    });
+
+    let enrollment;
+    await act(async () => {
+      enrollment = await result.current.enroll();
+    });
+
+    expect(mfa.unenroll).toHaveBeenCalledWith({
+      factorId: 'unverified-factor-id',
+    });
+    expect(mfa.enroll).toHaveBeenCalledWith({
+      factorType: 'totp',
+      friendlyName: 'Authenticator app',
+    });
+    expect(enrollment).toEqual({
+      factorId: 'new-factor-id',
+      qrCode: 'data:image/svg+xml;utf-8,<svg></svg>',
+      secret: 'JBSWY3DPEHPK3PXP',
+      uri: 'otpauth://totp/test',
+    });
+  });
+
+  it('should challenge and verify a code', async () => {
+    const { mockClient, mfa } = createMockSupabaseClient();
+    const { result } = renderHook(() => useMfa(mockClient));
+
+    await waitFor(() => {
+      expect(result.current.loading).toBe(false);
+    });
+
+    await act(async () => {
+      await result.current.verify('verified-factor-id', '123456');
+    });
+
+    expect(mfa.challengeAndVerify).toHaveBeenCalledWith({
+      factorId: 'verified-factor-id',
+      code: '123456',
+    });
+  });
+
+  it('should throw error when the code is invalid', async () => {
+    const { mockClient, mfa } = createMockSupabaseClient();
+    mfa.challengeAndVerify.mockResolvedValue({
+      data: null,
+      error: { message: 'Invalid TOTP code entered' },
+    });
+
+    const { result } = renderHook(() => useMfa(mockClient));
+
+    await waitFor(() => {
+      expect(result.current.loading).toBe(false);
+    });
+
+    await expect(
+      act(async () => {
+        await result.current.verify('verified-factor-id', '000000');
+      })
+    ).rejects.toThrow('Invalid TOTP code entered');
+  });
+
+  it('should refresh the session after unenrolling', async () => {
+    const { mockClient, mfa } = createMockSupabaseClient();
+    const { result } = renderHook(() => useMfa(mockClient));
+
+    await waitFor(() => {
+      expect(result.current.loading).toBe(false);
+    });
+
+    mfa.listFactors.mockResolvedValue({
+      data: { all: [], totp: [], phone: [] },
+      error: null,
+    });
+
+    await act(async () => {
+      await result.current.unenroll('verified-factor-id');
+    });
+
+    expect(mfa.unenroll).toHaveBeenCalledWith({
+      factorId: 'verified-factor-id',
+    });
+    expect(mockClient.auth.refreshSession).toHaveBeenCalled();
+    expect(result.current.factors).toEqual([]);
+  });
+});
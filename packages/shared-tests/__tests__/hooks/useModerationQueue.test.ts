@@ -0,0 +1,94 @@
+import { renderHook, act, waitFor } from '@testing-library/react';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { useModerationQueue } from '@shared/src/hooks/useModerationQueue';
+
+const report = (id: string) => ({
+  id,
+  reason: 'spam',
+  details: null,
+  status: 'pending',
+  created_at: '2024-12-10T00:00:00Z',
+  reviewed_at: null,
+  reporter_id: 'user-ada',
+  reporter_username: 'ada',
+  reported_id: 'user-alan',
+  reported_username: 'alan',
+});
+
+const createMockSupabaseClient = (
+  updateResult: { error: { message: string } | null } = { error: null }
+) => {
+  const rpc = jest
+    .fn()
+    .mockResolvedValue({ data: [report('r1'), report('r2')], error: null });
+  const eq = jest.fn().mockResolvedValue(updateResult);
+  const update = jest.fn(() => ({ eq }));
+  const client = {
+    rpc,
+    from: jest.fn(() => ({ update })),
+  } as unknown as SupabaseClient & { rpc: jest.Mock; from: jest.Mock };
+  return { client, rpc, update, eq };
+};
+
+describe('useModerationQueue', () => {
+  it('loads pending reports by default', async () => {
+    const { client, rpc } = createMockSupabaseClient();
+    const { result } = renderHook(() => useModerationQueue(client));
+
+    await waitFor(() => expect(result.current.loading).toBe(false));
+
+    expect(rpc).toHaveBeenCalledWith('get_user_reports', {
+      p_status: 'pending',
+    });
+    expect(result.current.reports.map(r => r.id)).toEqual(['r1', 'r2']);
+  });
+
+  it('reloads when the status changes', async () => {
+    const { client, rpc } = createMockSupabaseClient();
+    const { result, rerender } = renderHook(
+      ({ status }) => useModerationQueue(client, status),
+      { initialProps: { status: 'pending' as 'pending' | 'dismissed' } }
+    );
+    await waitFor(() => expect(result.current.loading).toBe(false));
+
+    rerender({ status: 'dismissed' });
+    await waitFor(() =>
+      expect(rpc).toHaveBeenLastCalledWith('get_user_reports', {
+        p_status: 'dismissed',
+      })
+    );
+  });
+
+  it('removes reviewed reports from the list', async () => {
+    const { client, update, eq } = createMockSupabaseClient();
+    const { result } = renderHook(() => useModerationQueue(client));
+    await waitFor(() => expect(result.current.loading).toBe(false));
+
+    await act(async () => {
+      await result.current.reviewReport('r1', 'resolved');
+    });
+
+    expect(client.from).toHaveBeenCalledWith('user_reports');
+    expect(update).toHaveBeenCalledWith({ status: 'resolved' });
+    expect(eq).toHaveBeenCalledWith('id', 'r1');
+    expect(result.current.reports.map(r => r.id)).toEqual(['r2']);
+    expect(result.current.reviewingId).toBeNull();
+  });
+
+  it('keeps the report when the review fails', async () => {
+    const { client } = createMockSupabaseClient({
+      error: { message: 'permission denied' },
+    });
+    const { result } = renderHook(() => useModerationQueue(client));
+    await waitFor(() => expect(result.current.loading).toBe(false));
+
+    await act(async () => {
+      await expect(
+        result.current.reviewReport('r1', 'dismissed')
+      ).rejects.toThrow('permission denied');
+    });
+
+    expect(result.current.reports).toHaveLength(2);
+    expect(result.current.error?.message).toBe('permission denied');
+  });
+});
@@ -499,4 +499,40 @@ describe('useProfile', () => {
       expect(mockChannel.unsubscribe).toHaveBeenCalled();
     });
   });
+
+  it('should apply profile updates made in another tab', async () => {
+    const { mockClient, mockProfile } = createMockSupabaseClient();
+    const mockUser = createMockUser();
+    const { result } = renderHook(() => useProfile(mockClient, mockUser));
+
+    await waitFor(() => {
+      expect(result.current.profile).toEqual(mockProfile);
+    });
+
+    // jsdom has no BroadcastChannel, so tabSync falls back to storage events
+    const sendFromOtherTab = (message: unknown) => {
+      act(() => {
+        window.dispatchEvent(
+          new StorageEvent('storage', {
+            key: 'beaker-stack.tab-sync',
+            newValue: JSON.stringify({ message, nonce: Math.random() }),
+          })
+        );
+      });
+    };
+
+    sendFromOtherTab({
+      type: 'profile',
+      userId: 'someone-else',
+      profile: { ...mockProfile, display_name: 'Not Me' },
+    });
+    expect(result.current.profile?.display_name).toBe('Test User');
+
+    sendFromOtherTab({
+      type: 'profile',
+      userId: mockUser.id,
+      profile: { ...mockProfile, display_name: 'Updated in Another Tab' },
+    });
+    expect(result.current.profile?.display_name).toBe('Updated in Another Tab');
+  });
 });
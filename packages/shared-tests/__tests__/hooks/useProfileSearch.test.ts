@@ -0,0 +1,134 @@
+import { renderHook, act } from '@testing-library/react';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { useProfileSearch } from '@shared/src/hooks/useProfileSearch';
+
+const profile = (username: string) => ({
+  id: `id-${username}`,
+  user_id: `user-${username}`,
+  username,
+  display_name: null,
+  avatar_url: null,
+  bio: null,
+  location: null,
+  website: null,
+  created_at: '2024-01-01T00:00:00Z',
+});
+
+const createMockSupabaseClient = (
+  ...pages: { data: unknown; error: { message: string } | null }[]
+) => {
+  const rpc = jest.fn();
+  pages.forEach(page => rpc.mockResolvedValueOnce(page));
+  return { rpc } as unknown as SupabaseClient & { rpc: jest.Mock };
+};
+
+describe('useProfileSearch', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  const settle = async () => {
+    await act(async () => {
+      jest.advanceTimersByTime(300);
+    });
+  };
+
+  it('searches once typing pauses', async () => {
+    const client = createMockSupabaseClient({
+      data: [profile('ada'), profile('alan')],
+      error: null,
+    });
+    const { result, rerender } = renderHook(
+      ({ query }) => useProfileSearch(client, query, { pageSize: 2 }),
+      { initialProps: { query: 'a' } }
+    );
+
+    expect(result.current.loading).toBe(true);
+    rerender({ query: 'ad ' });
+    await settle();
+
+    expect(client.rpc).toHaveBeenCalledTimes(1);
+    // One extra row tells whether there's another page
+    expect(client.rpc).toHaveBeenCalledWith('search_profiles', {
+      p_query: 'ad',
+      p_limit: 3,
+    });
+    expect(result.current.loading).toBe(false);
+    expect(result.current.results.map(p => p.username)).toEqual([
+      'ada',
+      'alan',
+    ]);
+    expect(result.current.hasMore).toBe(false);
+  });
+
+  it('loads further pages after the last username', async () => {
+    const client = createMockSupabaseClient(
+      {
+        data: [profile('ada'), profile('alan'), profile('alice')],
+        error: null,
+      },
+      { data: [profile('alice')], error: null }
+    );
+    const { result } = renderHook(() =>
+      useProfileSearch(client, '', { pageSize: 2 })
+    );
+    await settle();
+
+    expect(result.current.results).toHaveLength(2);
+    expect(result.current.hasMore).toBe(true);
+
+    await act(async () => {
+      await result.current.loadMore();
+    });
+
+    expect(client.rpc).toHaveBeenLastCalledWith('search_profiles', {
+      p_query: '',
+      p_cursor: 'alan',
+      p_limit: 3,
+    });
+    expect(result.current.results.map(p => p.username)).toEqual([
+      'ada',
+      'alan',
+      'alice',
+    ]);
+    expect(result.current.hasMore).toBe(false);
+  });
+
+  it('drops results of an outdated search', async () => {
+    let resolveFirst: (value: unknown) => void = () => {};
+    const client = createMockSupabaseClient();
+    client.rpc
+      .mockReturnValueOnce(new Promise(resolve => (resolveFirst = resolve)))
+      .mockResolvedValueOnce({ data: [profile('alan')], error: null });
+    const { result, rerender } = renderHook(
+      ({ query }) => useProfileSearch(client, query),
+      { initialProps: { query: 'ada' } }
+    );
+    await settle();
+
+    rerender({ query: 'alan' });
+    await settle();
+    await act(async () => {
+      resolveFirst({ data: [profile('ada')], error: null });
+    });
+
+    expect(result.current.results.map(p => p.username)).toEqual(['alan']);
+  });
+
+  it('exposes search errors', async () => {
+    const client = createMockSupabaseClient({
+      data: null,
+      error: { message: 'permission denied' },
+    });
+    const { result } = renderHook(() => useProfileSearch(client, 'ada'));
+    await settle();
+
+    expect(result.current.error?.message).toBe('permission denied');
+    expect(result.current.loading).toBe(false);
+    expect(result.current.results).toEqual([]);
+  });
+});
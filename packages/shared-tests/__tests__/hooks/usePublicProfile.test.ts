@@ -0,0 +1,83 @@
+import { renderHook, waitFor } from '@testing-library/react';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { usePublicProfile } from '@shared/src/hooks/usePublicProfile';
+
+const profile = {
+  id: 'profile-1',
+  user_id: 'user-1',
+  username: 'Ada_L',
+  display_name: 'Ada Lovelace',
+  bio: null,
+  avatar_url: null,
+  location: null,
+  website: null,
+  created_at: '2024-01-01T00:00:00Z',
+  updated_at: '2024-01-01T00:00:00Z',
+};
+
+const createMockSupabaseClient = (result: {
+  data: unknown;
+  error: { message: string } | null;
+}) => {
+  const query = {
+    select: jest.fn().mockReturnThis(),
+    ilike: jest.fn().mockReturnThis(),
+    maybeSingle: jest.fn().mockResolvedValue(result),
+  };
+  const client = {
+    from: jest.fn().mockReturnValue(query),
+  } as unknown as SupabaseClient;
+  return { client, query };
+};
+
+describe('usePublicProfile', () => {
+  it('loads the profile case-insensitively', async () => {
+    const { client, query } = createMockSupabaseClient({
+      data: profile,
+      error: null,
+    });
+    const { result } = renderHook(() => usePublicProfile(client, 'ada_l'));
+
+    await waitFor(() => expect(result.current.loading).toBe(false));
+
+    expect(client.from).toHaveBeenCalledWith('public_profiles');
+    // '_' is escaped so it only matches itself
+    expect(query.ilike).toHaveBeenCalledWith('username', 'ada\\_l');
+    expect(result.current.profile).toEqual(profile);
+    expect(result.current.notFound).toBe(false);
+    expect(result.current.error).toBeNull();
+  });
+
+  it('reports unknown usernames as not found', async () => {
+    const { client } = createMockSupabaseClient({ data: null, error: null });
+    const { result } = renderHook(() => usePublicProfile(client, 'nobody'));
+
+    await waitFor(() => expect(result.current.loading).toBe(false));
+
+    expect(result.current.profile).toBeNull();
+    expect(result.current.notFound).toBe(true);
+  });
+
+  it('rejects malformed usernames without a query', async () => {
+    const { client } = createMockSupabaseClient({ data: profile, error: null });
+    const { result } = renderHook(() => usePublicProfile(client, 'ada%'));
+
+    await waitFor(() => expect(result.current.loading).toBe(false));
+
+    expect(client.from).not.toHaveBeenCalled();
+    expect(result.current.notFound).toBe(true);
+  });
+
+  it('exposes query errors', async () => {
+    const { client } = createMockSupabaseClient({
+      data: null,
+      error: { message: 'connection lost' },
+    });
+    const { result } = renderHook(() => usePublicProfile(client, 'ada_l'));
+
+    await waitFor(() => expect(result.current.loading).toBe(false));
+
+    expect(result.current.error?.message).toBe('connection lost');
+    expect(result.current.notFound).toBe(false);
+  });
+});
@@ -0,0 +1,80 @@
+import { renderHook, act } from '@testing-library/react';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { useReportUser } from '@shared/src/hooks/useReportUser';
+
+const createMockSupabaseClient = (
+  insertResult: { error: { code?: string; message: string } | null } = {
+    error: null,
+  }
+) => {
+  const insert = jest.fn().mockResolvedValue(insertResult);
+  const client = {
+    from: jest.fn(() => ({ insert })),
+  } as unknown as SupabaseClient & { from: jest.Mock };
+  return { client, insert };
+};
+
+describe('useReportUser', () => {
+  it('files a pending report', async () => {
+    const { client, insert } = createMockSupabaseClient();
+    const { result } = renderHook(() => useReportUser(client, 'me'));
+
+    await act(async () => {
+      await result.current.reportUser('user-ada', {
+        reason: 'spam',
+        details: '  Posts ads everywhere  ',
+      });
+    });
+
+    expect(client.from).toHaveBeenCalledWith('user_reports');
+    expect(insert).toHaveBeenCalledWith({
+      reporter_id: 'me',
+      reported_id: 'user-ada',
+      reason: 'spam',
+      details: 'Posts ads everywhere',
+    });
+    expect(result.current.submitting).toBe(false);
+    expect(result.current.error).toBeNull();
+  });
+
+  it('saves missing details as null', async () => {
+    const { client, insert } = createMockSupabaseClient();
+    const { result } = renderHook(() => useReportUser(client, 'me'));
+
+    await act(async () => {
+      await result.current.reportUser('user-ada', { reason: 'other' });
+    });
+
+    expect(insert).toHaveBeenCalledWith(
+      expect.objectContaining({ details: null })
+    );
+  });
+
+  it('explains a second report on the same user', async () => {
+    const { client } = createMockSupabaseClient({
+      error: { code: '23505', message: 'duplicate key value' },
+    });
+    const { result } = renderHook(() => useReportUser(client, 'me'));
+
+    await act(async () => {
+      await expect(
+        result.current.reportUser('user-ada', { reason: 'spam' })
+      ).rejects.toThrow("You've already reported this user");
+    });
+
+    expect(result.current.error?.message).toMatch(/already reported/);
+  });
+
+  it('requires a current user', async () => {
+    const { client } = createMockSupabaseClient();
+    const { result } = renderHook(() => useReportUser(client, null));
+
+    await act(async () => {
+      await expect(
+        result.current.reportUser('user-ada', { reason: 'spam' })
+      ).rejects.toThrow('Sign in to report users');
+    });
+
+    expect(client.from).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,71 @@
+import React from 'react';
+import { renderHook, waitFor } from '@testing-library/react';
+import { useRoles } from '@shared/src/hooks/useRoles';
+import { AuthProvider } from '@shared/src/contexts/AuthContext';
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+const createAccessToken = (claims: Record<string, unknown>) =>
+  `header.${btoa(JSON.stringify(claims))
+    .replace(/=+$/, '')
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')}.signature`;
+
+// Mock Supabase client whose session carries the given user_roles claim
+const createMockSupabaseClient = (userRoles: unknown) =>
+  ({
+    auth: {
+      getSession: jest.fn().mockResolvedValue({
+        data: {
+          session: {
+            user: { id: '1', email: 'test@example.com' },
+            access_token: createAccessToken({ user_roles: userRoles }),
+          },
+        },
+        error: null,
+      }),
+      onAuthStateChange: jest.fn(() => ({
+        data: { subscription: { unsubscribe: jest.fn() } },
+      })),
+    },
+  }) as unknown as SupabaseClient;
+
+const renderUseRoles = (client: SupabaseClient) =>
+  renderHook(() => useRoles(), {
+    wrapper: ({ children }: { children: React.ReactNode }) => (
+      <AuthProvider supabaseClient={client}>{children}</AuthProvider>
+    ),
+  });
+
+describe('useRoles', () => {
+  it('should read roles from the access token', async () => {
+    const { result } = renderUseRoles(
+      createMockSupabaseClient(['admin', 'member'])
+    );
+
+    await waitFor(() => {
+      expect(result.current.roles).toEqual(['admin', 'member']);
+    });
+    expect(result.current.hasRole('admin')).toBe(true);
+  });
+
+  it('should match any of several required roles', async () => {
+    const { result } = renderUseRoles(createMockSupabaseClient(['member']));
+
+    await waitFor(() => {
+      expect(result.current.roles).toEqual(['member']);
+    });
+    expect(result.current.hasRole('admin')).toBe(false);
+    expect(result.current.hasRole(['admin', 'member'])).toBe(true);
+  });
+
+  it('should ignore unknown roles and a missing claim', async () => {
+    const { result } = renderUseRoles(
+      createMockSupabaseClient(['superuser', 42])
+    );
+
+    await waitFor(() => {
+      expect(result.current.roles).toEqual([]);
+    });
+    expect(result.current.hasRole('member')).toBe(false);
+  });
+});
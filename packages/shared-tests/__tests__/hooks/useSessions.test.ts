@@ -0,0 +1,91 @@
+import { renderHook, act, waitFor } from '@testing-library/react';
+import { useSessions } from '@shared/src/hooks/useSessions';
+import type { Session, SupabaseClient } from '@supabase/supabase-js';
+
+const createAccessToken = (claims: Record<string, unknown>) =>
+  `header.${btoa(JSON.stringify(claims))
+    .replace(/=+$/, '')
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')}.signature`;
+
+const rows = [
+  {
+    id: 'current-session-id',
+    device_name: 'Chrome on macOS',
+    platform: 'web',
+    created_at: '2024-01-01T00:00:00Z',
+    last_seen_at: '2024-01-02T00:00:00Z',
+  },
+  {
+    id: 'other-session-id',
+    device_name: "Alex's iPhone",
+    platform: 'ios',
+    created_at: '2024-01-01T00:00:00Z',
+    last_seen_at: '2024-01-01T12:00:00Z',
+  },
+];
+
+const session = {
+  access_token: createAccessToken({ session_id: 'current-session-id' }),
+} as Session;
+
+// Mock Supabase client
+const createMockSupabaseClient = (
+  result: { data: unknown; error: unknown } = { data: rows, error: null }
+) => {
+  const order = jest.fn().mockResolvedValue(result);
+  const select = jest.fn(() => ({ order }));
+  const from = jest.fn(() => ({ select }));
+
+  const mockClient = { from } as unknown as SupabaseClient;
+
+  return { mockClient, from, order };
+};
+
+describe('useSessions', () => {
+  it('should load sessions most recent first', async () => {
+    const { mockClient, from, order } = createMockSupabaseClient();
+    const { result } = renderHook(() => useSessions(mockClient, session));
+
+    await waitFor(() => {
+      expect(result.current.loading).toBe(false);
+    });
+
+    expect(from).toHaveBeenCalledWith('user_sessions');
+    expect(order).toHaveBeenCalledWith('last_seen_at', { ascending: false });
+    expect(result.current.sessions.map(s => s.deviceName)).toEqual([
+      'Chrome on macOS',
+      "Alex's iPhone",
+    ]);
+  });
+
+  it('should mark the session behind the access token as current', async () => {
+    const { mockClient } = createMockSupabaseClient();
+    const { result } = renderHook(() => useSessions(mockClient, session));
+
+    await waitFor(() => {
+      expect(result.current.sessions).toHaveLength(2);
+    });
+
+    expect(result.current.sessions[0]?.isCurrent).toBe(true);
+    expect(result.current.sessions[1]?.isCurrent).toBe(false);
+  });
+
+  it('should expose errors from refreshSessions', async () => {
+    const { mockClient } = createMockSupabaseClient({
+      data: null,
+      error: { message: 'permission denied' },
+    });
+    const { result } = renderHook(() => useSessions(mockClient, session));
+
+    await waitFor(() => {
+      expect(result.current.error?.message).toBe('permission denied');
+    });
+
+    await expect(
+      act(async () => {
+        await result.current.refreshSessions();
+      })
+    ).rejects.toThrow('permission denied');
+  });
+});
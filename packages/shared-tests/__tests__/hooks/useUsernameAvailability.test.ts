@@ -0,0 +1,111 @@
+import { renderHook, act } from '@testing-library/react';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { useUsernameAvailability } from '@shared/src/hooks/useUsernameAvailability';
+
+const createMockSupabaseClient = (result: string) =>
+  ({
+    rpc: jest.fn().mockResolvedValue({ data: result, error: null }),
+  }) as unknown as SupabaseClient;
+
+describe('useUsernameAvailability', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  const settle = async () => {
+    await act(async () => {
+      jest.advanceTimersByTime(400);
+    });
+  };
+
+  it('checks the username once typing pauses', async () => {
+    const client = createMockSupabaseClient('taken');
+    const { result, rerender } = renderHook(
+      ({ username }) => useUsernameAvailability(client, username),
+      { initialProps: { username: 'ada' } }
+    );
+
+    expect(result.current.status).toBe('checking');
+    rerender({ username: 'ada_l' });
+    await settle();
+
+    expect(client.rpc).toHaveBeenCalledTimes(1);
+    expect(client.rpc).toHaveBeenCalledWith('check_username_available', {
+      p_username: 'ada_l',
+    });
+    expect(result.current).toEqual({
+      status: 'taken',
+      message: 'This username is already taken',
+      isUnavailable: true,
+    });
+  });
+
+  it('reports reserved and available names', async () => {
+    const reservedClient = createMockSupabaseClient('reserved');
+    const availableClient = createMockSupabaseClient('available');
+    const reserved = renderHook(() =>
+      useUsernameAvailability(reservedClient, 'newly_reserved')
+    );
+    const available = renderHook(() =>
+      useUsernameAvailability(availableClient, 'ada_l')
+    );
+    await settle();
+
+    expect(reserved.result.current.status).toBe('reserved');
+    expect(reserved.result.current.isUnavailable).toBe(true);
+    expect(available.result.current.status).toBe('available');
+    expect(available.result.current.isUnavailable).toBe(false);
+  });
+
+  it('knows the built-in reserved names without asking the server', async () => {
+    const client = createMockSupabaseClient('available');
+    const { result } = renderHook(() =>
+      useUsernameAvailability(client, 'Support')
+    );
+    await settle();
+
+    expect(client.rpc).not.toHaveBeenCalled();
+    expect(result.current.status).toBe('reserved');
+    expect(result.current.message).toBe('This username is reserved');
+  });
+
+  it('skips empty, malformed and unchanged usernames', async () => {
+    const client = createMockSupabaseClient('taken');
+    const { result, rerender } = renderHook(
+      ({ username }) =>
+        useUsernameAvailability(client, username, {
+          currentUsername: 'Ada_L',
+        }),
+      { initialProps: { username: '' } }
+    );
+
+    rerender({ username: 'no spaces' });
+    await settle();
+    rerender({ username: 'ada_l' });
+    await settle();
+
+    expect(client.rpc).not.toHaveBeenCalled();
+    expect(result.current.status).toBe('idle');
+    expect(result.current.message).toBeNull();
+  });
+
+  it('does not block the form when the check fails', async () => {
+    const client = {
+      rpc: jest.fn().mockResolvedValue({
+        data: null,
+        error: { message: 'network error' },
+      }),
+    } as unknown as SupabaseClient;
+    const { result } = renderHook(() =>
+      useUsernameAvailability(client, 'ada_l')
+    );
+    await settle();
+
+    expect(result.current.status).toBe('error');
+    expect(result.current.isUnavailable).toBe(false);
+  });
+});
@@ -0,0 +1,90 @@
+import {
+  createAuthError,
+  formatAuthError,
+  isAuthError,
+  toAuthError,
+} from '@shared/src/utils/authErrors';
+
+describe('toAuthError', () => {
+  it('maps GoTrue error codes', () => {
+    expect(
+      toAuthError({ code: 'invalid_credentials', message: 'whatever' })
+    ).toMatchObject({
+      name: 'AuthError',
+      code: 'invalid_credentials',
+      message: 'Incorrect email or password.',
+    });
+    expect(toAuthError({ code: 'over_email_send_rate_limit' }).code).toBe(
+      'rate_limited'
+    );
+    expect(toAuthError({ code: 'email_exists' }).code).toBe(
+      'user_already_exists'
+    );
+    expect(toAuthError({ code: 'single_identity_not_deletable' }).code).toBe(
+      'last_identity'
+    );
+  });
+
+  it('falls back to well-known messages when there is no code', () => {
+    expect(toAuthError(new Error('Invalid login credentials')).code).toBe(
+      'invalid_credentials'
+    );
+    expect(toAuthError({ message: 'Email not confirmed' }).code).toBe(
+      'email_not_confirmed'
+    );
+    expect(
+      toAuthError({ message: 'Too many requests', status: 429 }).code
+    ).toBe('rate_limited');
+  });
+
+  it('keeps the reasons of a weak password', () => {
+    const error = toAuthError({
+      code: 'weak_password',
+      message: 'Password is known to be weak',
+      reasons: ['length', 'pwned', 'bogus'],
+    });
+
+    expect(error.code).toBe('weak_password');
+    expect(error.code === 'weak_password' && error.reasons).toEqual([
+      'length',
+      'pwned',
+    ]);
+    expect(formatAuthError(error)).toBe(
+      [
+        'That password is too weak.',
+        'Use a longer password.',
+        'This password has appeared in a data breach; choose a different one.',
+      ].join('\n')
+    );
+  });
+
+  it('treats retryable fetch errors as network errors', () => {
+    expect(
+      toAuthError({ name: 'AuthRetryableFetchError', message: 'Failed' }).code
+    ).toBe('network');
+  });
+
+  it('keeps the message of unrecognized errors', () => {
+    const error = toAuthError(new Error('Something odd happened'));
+
+    expect(error.code).toBe('unknown');
+    expect(error.message).toBe('Something odd happened');
+    expect(isAuthError(error)).toBe(true);
+    expect(toAuthError(error)).toBe(error);
+  });
+});
+
+describe('createAuthError', () => {
+  it('uses the localized message and hint unless given a message', () => {
+    expect(createAuthError({ code: 'rate_limited' })).toMatchObject({
+      message: 'Too many attempts.',
+      hint: 'Please wait a minute before trying again.',
+    });
+    expect(
+      createAuthError(
+        { code: 'invalid_credentials' },
+        'Current password is incorrect'
+      ).message
+    ).toBe('Current password is incorrect');
+  });
+});
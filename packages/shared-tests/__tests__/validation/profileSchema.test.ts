@@ -3,8 +3,13 @@ import {
   profileInsertSchema,
   profileUpdateSchema,
   profileFormSchema,
+  createProfileFormSchema,
   transformFormToInsert,
   transformFormToUpdate,
+  signupProfileSchema,
+  getSignupProfileFieldError,
+  getSignUpMetadata,
+  isReservedUsername,
 } from '@shared/src/validation/profileSchema';
 
 describe('profileInsertSchema', () => {
@@ -419,4 +424,93 @@ describe('transformFormToUpdate', () => {
     expect(insertResult.username).toBe(updateResult.username);
     expect(insertResult.display_name).toBe(updateResult.display_name);
   });
+  it('should pass visibility settings through and leave unset ones out', () => {
+    const result = transformFormToUpdate({
+      bio: 'Updated bio',
+      bio_visibility: 'private',
+      location_visibility: 'authenticated',
+    });
+
+    expect(result.bio_visibility).toBe('private');
+    expect(result.location_visibility).toBe('authenticated');
+    expect(result).not.toHaveProperty('website_visibility');
+  });
+
+  it('should reject unknown visibility values', () => {
+    expect(
+      profileFormSchema.safeParse({ bio_visibility: 'friends' }).success
+    ).toBe(false);
+  });
+});
+
+describe('signupProfileSchema', () => {
+  it('should require a username but not a display name', () => {
+    expect(signupProfileSchema.safeParse({ username: 'ada_l' }).success).toBe(
+      true
+    );
+    expect(signupProfileSchema.safeParse({ display_name: 'Ada' }).success).toBe(
+      false
+    );
+  });
+});
+
+describe('getSignupProfileFieldError', () => {
+  it('should return the first error for an invalid username', () => {
+    expect(getSignupProfileFieldError('username', '')).toBe(
+      'Username must be at least 3 characters'
+    );
+    expect(getSignupProfileFieldError('username', 'ada lovelace')).toBe(
+      'Username can only contain letters, numbers, and underscores'
+    );
+    expect(getSignupProfileFieldError('username', 'ada_l')).toBeNull();
+  });
+
+  it('should allow an empty display name', () => {
+    expect(getSignupProfileFieldError('display_name', '  ')).toBeNull();
+    expect(getSignupProfileFieldError('display_name', 'a'.repeat(101))).toBe(
+      'Display name must be no more than 100 characters'
+    );
+  });
+});
+
+describe('getSignUpMetadata', () => {
+  it('should trim values and leave out empty fields', () => {
+    expect(
+      getSignUpMetadata({ username: ' ada_l ', displayName: 'Ada Lovelace' })
+    ).toEqual({ username: 'ada_l', display_name: 'Ada Lovelace' });
+    expect(getSignUpMetadata({ username: 'ada_l', displayName: ' ' })).toEqual({
+      username: 'ada_l',
+    });
+    expect(getSignUpMetadata({})).toEqual({});
+  });
+});
+
+describe('reserved usernames', () => {
+  it('should match reserved names in any casing', () => {
+    expect(isReservedUsername('admin')).toBe(true);
+    expect(isReservedUsername(' Support ')).toBe(true);
+    expect(isReservedUsername('supporter')).toBe(false);
+  });
+
+  it('should be rejected by the profile schemas', () => {
+    expect(profileUpdateSchema.safeParse({ username: 'Root' }).success).toBe(
+      false
+    );
+    expect(profileFormSchema.safeParse({ username: 'root' }).success).toBe(
+      false
+    );
+    expect(getSignupProfileFieldError('username', 'ADMIN')).toBe(
+      'This username is reserved'
+    );
+  });
+
+  it('should let a profile keep its current reserved username', () => {
+    const schema = createProfileFormSchema('support');
+
+    expect(
+      schema.safeParse({ username: 'support', display_name: 'Help' }).success
+    ).toBe(true);
+    expect(schema.safeParse({ username: 'Support' }).success).toBe(true);
+    expect(schema.safeParse({ username: 'admin' }).success).toBe(false);
+  });
 });
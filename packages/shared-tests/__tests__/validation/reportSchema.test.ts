@@ -0,0 +1,41 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  reportSchema,
+  REPORT_DETAILS_MAX_LENGTH,
+} from '@shared/src/validation/reportSchema';
+
+describe('reportSchema', () => {
+  it('should accept a reason without details', () => {
+    const result = reportSchema.safeParse({ reason: 'spam' });
+    expect(result.success).toBe(true);
+  });
+
+  it('should reject a missing or unknown reason', () => {
+    for (const reason of ['', 'rude', undefined]) {
+      const result = reportSchema.safeParse({ reason });
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.issues[0]?.message).toBe('Choose a reason');
+      }
+    }
+  });
+
+  it('should trim details and drop blank ones', () => {
+    const trimmed = reportSchema.parse({
+      reason: 'other',
+      details: '  Keeps messaging me  ',
+    });
+    expect(trimmed.details).toBe('Keeps messaging me');
+
+    const blank = reportSchema.parse({ reason: 'other', details: '   ' });
+    expect(blank.details).toBeUndefined();
+  });
+
+  it('should reject details over the limit', () => {
+    const result = reportSchema.safeParse({
+      reason: 'harassment',
+      details: 'a'.repeat(REPORT_DETAILS_MAX_LENGTH + 1),
+    });
+    expect(result.success).toBe(false);
+  });
+});
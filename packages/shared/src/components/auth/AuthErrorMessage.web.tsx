@@ -0,0 +1,43 @@
+import type { ReactNode } from 'react';
+import type { AuthError } from '../../types/auth';
+import { describeWeakPassword } from '../../utils/authErrors';
+
+export interface AuthErrorMessageProps {
+  error: AuthError;
+  // Code-specific actions, e.g. a reset-password link for invalid_credentials
+  children?: ReactNode;
+  className?: string;
+}
+
+/**
+ * AuthErrorMessage component for web
+ * Shows an auth error with what to do about it: the hint for its code and,
+ * for rejected passwords, what the password is missing.
+ */
+export function AuthErrorMessage({
+  error,
+  children,
+  className = '',
+}: AuthErrorMessageProps) {
+  const reasons =
+    error.code === 'weak_password' ? describeWeakPassword(error.reasons) : [];
+
+  return (
+    <div role='alert' className={`rounded-md bg-red-50 p-4 ${className}`}>
+      <div className='flex'>
+        <div className='ml-3 space-y-1'>
+          <h3 className='text-sm font-medium text-red-800'>{error.message}</h3>
+          {reasons.length > 0 && (
+            <ul className='list-disc pl-5 text-sm text-red-700'>
+              {reasons.map(reason => (
+                <li key={reason}>{reason}</li>
+              ))}
+            </ul>
+          )}
+          {error.hint && <p className='text-sm text-red-700'>{error.hint}</p>}
+          {children && <div className='pt-1 text-sm'>{children}</div>}
+        </div>
+      </div>
+    </div>
+  );
+}
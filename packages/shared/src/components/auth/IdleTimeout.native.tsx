@@ -0,0 +1,152 @@
+import { useCallback, type ReactNode } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, Modal } from 'react-native';
+import { useAuthContext } from '../../contexts/AuthContext';
+import { useIdleTimeout } from '../../hooks/useIdleTimeout.native';
+import { Logger } from '../../utils/logger';
+
+export interface IdleTimeoutProps {
+  // Inactivity after which the user is signed out; 0 disables the timeout
+  timeoutMs: number;
+  warningMs?: number;
+  children?: ReactNode;
+}
+
+/**
+ * IdleTimeout component for React Native
+ * Signs the user out after timeoutMs without a touch, with a countdown dialog
+ * beforehand. Touches anywhere in children count as activity. Guests are never
+ * timed out: signing out would lose their anonymous account.
+ * Must be rendered inside AuthProvider.
+ */
+export function IdleTimeout({
+  timeoutMs,
+  warningMs,
+  children,
+}: IdleTimeoutProps) {
+  const { user, isGuest, signOut } = useAuthContext();
+
+  const handleSignOut = useCallback(() => {
+    signOut().catch((err: unknown) => {
+      Logger.warn('[IdleTimeout] Sign out failed:', err);
+    });
+  }, [signOut]);
+
+  const { isWarning, remainingSeconds, stayActive, recordActivity } =
+    useIdleTimeout({
+      timeoutMs,
+      ...(warningMs !== undefined ? { warningMs } : {}),
+      enabled: !!user && !isGuest,
+      onTimeout: handleSignOut,
+    });
+
+  // Capture phase, returning false: sees every touch without taking it over
+  const handleTouchCapture = useCallback(() => {
+    recordActivity();
+    return false;
+  }, [recordActivity]);
+
+  return (
+    <View
+      style={styles.container}
+      onStartShouldSetResponderCapture={handleTouchCapture}
+    >
+      {children}
+      <Modal
+        visible={isWarning}
+        transparent
+        animationType='fade'
+        onRequestClose={stayActive}
+      >
+        <View style={styles.overlay}>
+          <View style={styles.dialog} accessibilityRole='alert'>
+            <Text style={styles.title}>Are you still there?</Text>
+            <Text style={styles.message}>
+              You'll be signed out in {remainingSeconds}{' '}
+              {remainingSeconds === 1 ? 'second' : 'seconds'} due to inactivity.
+            </Text>
+            <View style={styles.actions}>
+              <TouchableOpacity
+                onPress={handleSignOut}
+                style={[styles.button, styles.secondaryButton]}
+                activeOpacity={0.7}
+              >
+                <Text style={styles.secondaryButtonText}>Sign out</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                onPress={stayActive}
+                style={[styles.button, styles.primaryButton]}
+                activeOpacity={0.7}
+              >
+                <Text style={styles.primaryButtonText}>Stay signed in</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  overlay: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: 'rgba(17, 24, 39, 0.5)',
+    padding: 16,
+  },
+  dialog: {
+    width: '100%',
+    maxWidth: 384,
+    backgroundColor: '#ffffff',
+    borderRadius: 8,
+    padding: 24,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 8,
+    elevation: 10,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '500',
+    color: '#111827',
+  },
+  message: {
+    fontSize: 14,
+    color: '#4b5563',
+    marginTop: 8,
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    marginTop: 24,
+    gap: 12,
+  },
+  button: {
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 6,
+  },
+  secondaryButton: {
+    borderWidth: 1,
+    borderColor: '#d1d5db',
+    backgroundColor: '#ffffff',
+  },
+  secondaryButtonText: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#374151',
+  },
+  primaryButton: {
+    backgroundColor: '#3b82f6',
+  },
+  primaryButtonText: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#ffffff',
+  },
+});
@@ -0,0 +1,87 @@
+import { useCallback, type ReactNode } from 'react';
+import { useAuthContext } from '../../contexts/AuthContext';
+import { useIdleTimeout } from '../../hooks/useIdleTimeout';
+import { Logger } from '../../utils/logger';
+
+export interface IdleTimeoutProps {
+  // Inactivity after which the user is signed out; 0 disables the timeout
+  timeoutMs: number;
+  warningMs?: number;
+  children?: ReactNode;
+}
+
+/**
+ * IdleTimeout component for web
+ * Signs the user out after timeoutMs without activity in any tab, with a
+ * countdown dialog beforehand. Guests are never timed out: signing out would
+ * lose their anonymous account.
+ * Must be rendered inside AuthProvider.
+ */
+export function IdleTimeout({
+  timeoutMs,
+  warningMs,
+  children,
+}: IdleTimeoutProps) {
+  const { user, isGuest, signOut } = useAuthContext();
+
+  const handleSignOut = useCallback(() => {
+    signOut().catch((err: unknown) => {
+      Logger.warn('[IdleTimeout] Sign out failed:', err);
+    });
+  }, [signOut]);
+
+  const { isWarning, remainingSeconds, stayActive } = useIdleTimeout({
+    timeoutMs,
+    ...(warningMs !== undefined ? { warningMs } : {}),
+    enabled: !!user && !isGuest,
+    onTimeout: handleSignOut,
+  });
+
+  return (
+    <>
+      {children}
+      {isWarning && (
+        <div className='fixed inset-0 z-50 flex items-center justify-center bg-gray-900/50 p-4'>
+          <div
+            role='alertdialog'
+            aria-modal='true'
+            aria-labelledby='idle-timeout-title'
+            aria-describedby='idle-timeout-description'
+            className='w-full max-w-sm rounded-lg bg-white p-6 shadow-xl'
+          >
+            <h2
+              id='idle-timeout-title'
+              className='text-lg font-medium text-gray-900'
+            >
+              Are you still there?
+            </h2>
+            <p
+              id='idle-timeout-description'
+              className='mt-2 text-sm text-gray-600'
+            >
+              You'll be signed out in {remainingSeconds}{' '}
+              {remainingSeconds === 1 ? 'second' : 'seconds'} due to inactivity.
+            </p>
+            <div className='mt-6 flex justify-end gap-3'>
+              <button
+                type='button'
+                onClick={handleSignOut}
+                className='px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50'
+              >
+                Sign out
+              </button>
+              <button
+                type='button'
+                onClick={stayActive}
+                autoFocus
+                className='px-4 py-2 border border-transparent rounded-md text-sm font-medium text-white bg-primary-600 hover:bg-primary-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500'
+              >
+                Stay signed in
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
@@ -1,25 +1,70 @@
-import { ReactNode, useEffect } from 'react';
+import { ReactNode, useEffect, useMemo } from 'react';
 import { View, Text, ActivityIndicator, StyleSheet } from 'react-native';
-import { ParamListBase, useNavigation } from '@react-navigation/native';
+import {
+  ParamListBase,
+  useNavigation,
+  useRoute,
+} from '@react-navigation/native';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { useAuthContext } from '../../contexts/AuthContext';
+import type { AppRole, AuthRedirectTarget } from '../../types/auth';
+import { hasRole } from '../../utils/roles';
 import { Logger } from '../../utils/logger';
 
 interface ProtectedRouteProps {
   children: ReactNode;
   redirectTo?: 'Login' | 'Signup' | 'Home';
+  // Require an AAL2 session: users with a verified MFA factor must complete
+  // the second-factor challenge first. 2FA is optional, so users without a
+  // factor are let through.
+  requireAal2?: boolean;
+  mfaRedirectTo?: 'MfaChallenge';
+  // Admit anonymous (guest) users. Otherwise they are sent to
+  // guestRedirectTo to create a real account.
+  allowGuests?: boolean;
+  guestRedirectTo?: 'Signup' | 'Login' | 'Home';
+  // Only render for users holding at least one of these roles; everyone else
+  // gets a 403 state. Mirrors has_role() in RLS, which guards the data itself.
+  requiredRoles?: AppRole[];
+  // Send users who haven't confirmed their email address to
+  // verifyEmailRedirectTo. Guests have no email and are handled by
+  // allowGuests instead.
+  requireVerifiedEmail?: boolean;
+  verifyEmailRedirectTo?: 'VerifyEmail';
 }
 
 /**
  * ProtectedRoute component for mobile (React Navigation)
- * Redirects unauthenticated users to the login screen
+ * Redirects unauthenticated users to the login screen, passing the current
+ * screen as the redirectTo param so they can be sent back after signing in
  */
 export function ProtectedRoute({
   children,
   redirectTo = 'Login',
+  requireAal2 = false,
+  mfaRedirectTo = 'MfaChallenge',
+  allowGuests = false,
+  guestRedirectTo = 'Signup',
+  requiredRoles,
+  requireVerifiedEmail = false,
+  verifyEmailRedirectTo = 'VerifyEmail',
 }: ProtectedRouteProps) {
   const auth = useAuthContext();
   const navigation = useNavigation<NativeStackNavigationProp<ParamListBase>>();
+  const route = useRoute();
+  const redirectParams = useMemo<{ redirectTo: AuthRedirectTarget }>(
+    () => ({
+      redirectTo: route.params
+        ? { name: route.name, params: route.params }
+        : { name: route.name },
+    }),
+    [route.name, route.params]
+  );
+  const needsSecondFactor = requireAal2 && auth.needsSecondFactor;
+  const isBlockedGuest = auth.isGuest && !allowGuests;
+  const needsVerifiedEmail =
+    requireVerifiedEmail && !auth.isGuest && !auth.emailVerified;
+  const email = auth.user?.email;
 
   useEffect(() => {
     // Redirect to login if not authenticated (after loading completes)
@@ -27,7 +72,7 @@ export function ProtectedRoute({
     if (!auth.loading && !auth.user && navigation) {
       const timer = setTimeout(() => {
         try {
-          navigation.replace(redirectTo);
+          navigation.replace(redirectTo, redirectParams);
         } catch (error) {
           Logger.warn('[ProtectedRoute] Navigation error:', error);
         }
@@ -36,7 +81,84 @@ export function ProtectedRoute({
       return () => clearTimeout(timer);
     }
     return undefined;
-  }, [auth.loading, auth.user, navigation, redirectTo]);
+  }, [auth.loading, auth.user, navigation, redirectTo, redirectParams]);
+
+  useEffect(() => {
+    if (!auth.loading && auth.user && isBlockedGuest && navigation) {
+      const timer = setTimeout(() => {
+        try {
+          navigation.replace(guestRedirectTo, redirectParams);
+        } catch (error) {
+          Logger.warn('[ProtectedRoute] Navigation error:', error);
+        }
+      }, 100);
+
+      return () => clearTimeout(timer);
+    }
+    return undefined;
+  }, [
+    auth.loading,
+    auth.user,
+    isBlockedGuest,
+    navigation,
+    guestRedirectTo,
+    redirectParams,
+  ]);
+
+  useEffect(() => {
+    if (!auth.loading && auth.user && needsVerifiedEmail && navigation) {
+      const timer = setTimeout(() => {
+        try {
+          navigation.replace(
+            verifyEmailRedirectTo,
+            email ? { ...redirectParams, email } : redirectParams
+          );
+        } catch (error) {
+          Logger.warn('[ProtectedRoute] Navigation error:', error);
+        }
+      }, 100);
+
+      return () => clearTimeout(timer);
+    }
+    return undefined;
+  }, [
+    auth.loading,
+    auth.user,
+    needsVerifiedEmail,
+    navigation,
+    verifyEmailRedirectTo,
+    redirectParams,
+    email,
+  ]);
+
+  useEffect(() => {
+    if (
+      !auth.loading &&
+      auth.user &&
+      !needsVerifiedEmail &&
+      needsSecondFactor &&
+      navigation
+    ) {
+      const timer = setTimeout(() => {
+        try {
+          navigation.replace(mfaRedirectTo, redirectParams);
+        } catch (error) {
+          Logger.warn('[ProtectedRoute] Navigation error:', error);
+        }
+      }, 100);
+
+      return () => clearTimeout(timer);
+    }
+    return undefined;
+  }, [
+    auth.loading,
+    auth.user,
+    needsVerifiedEmail,
+    needsSecondFactor,
+    navigation,
+    mfaRedirectTo,
+    redirectParams,
+  ]);
 
   // Show loading state while checking authentication
   if (auth.loading) {
@@ -49,7 +171,7 @@ export function ProtectedRoute({
   }
 
   // Show loading state while redirecting (to avoid blank screen)
-  if (!auth.user) {
+  if (!auth.user || isBlockedGuest || needsVerifiedEmail || needsSecondFactor) {
     return (
       <View style={styles.container}>
         <ActivityIndicator size='large' color='#4F46E5' />
@@ -58,6 +180,18 @@ export function ProtectedRoute({
     );
   }
 
+  if (requiredRoles && !hasRole(auth.roles, requiredRoles)) {
+    return (
+      <View style={styles.container}>
+        <Text style={styles.deniedCode}>403</Text>
+        <Text style={styles.deniedTitle}>Access denied</Text>
+        <Text style={styles.deniedText}>
+          You don't have permission to view this screen.
+        </Text>
+      </View>
+    );
+  }
+
   // Render protected content if authenticated
   // Use View wrapper instead of fragment for better Android compatibility
   return <View style={{ flex: 1 }}>{children}</View>;
@@ -75,4 +209,22 @@ const styles = StyleSheet.create({
     fontSize: 16,
     color: '#6B7280',
   },
+  deniedCode: {
+    fontSize: 48,
+    fontWeight: '800',
+    color: '#111827',
+  },
+  deniedTitle: {
+    marginTop: 16,
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  deniedText: {
+    marginTop: 8,
+    fontSize: 16,
+    color: '#6B7280',
+    textAlign: 'center',
+    paddingHorizontal: 24,
+  },
 });
@@ -1,21 +1,51 @@
 import { ReactNode } from 'react';
-import { Navigate } from 'react-router-dom';
+import { Navigate, useLocation } from 'react-router-dom';
 import { useAuthContext } from '../../contexts/AuthContext';
+import type { AppRole } from '../../types/auth';
+import { hasRole } from '../../utils/roles';
+import { routePath } from '../../config/routes';
 
 interface ProtectedRouteProps {
   children: ReactNode;
   redirectTo?: string;
+  // Require an AAL2 session: users with a verified MFA factor must complete
+  // the second-factor challenge first. 2FA is optional, so users without a
+  // factor are let through.
+  requireAal2?: boolean;
+  mfaRedirectTo?: string;
+  // Admit anonymous (guest) users. Otherwise they are sent to
+  // guestRedirectTo to create a real account.
+  allowGuests?: boolean;
+  guestRedirectTo?: string;
+  // Only render for users holding at least one of these roles; everyone else
+  // gets a 403 state. Mirrors has_role() in RLS, which guards the data itself.
+  requiredRoles?: AppRole[];
+  // Send users who haven't confirmed their email address to
+  // verifyEmailRedirectTo. Guests have no email and are handled by
+  // allowGuests instead.
+  requireVerifiedEmail?: boolean;
+  verifyEmailRedirectTo?: string;
 }
 
 /**
  * ProtectedRoute component for web (React Router)
- * Redirects unauthenticated users to the home page
+ * Redirects unauthenticated users to the login page, passing the requested
+ * location as state.from so they can be sent back after signing in
  */
 export function ProtectedRoute({
   children,
-  redirectTo = '/',
+  redirectTo = routePath('Login'),
+  requireAal2 = false,
+  mfaRedirectTo = routePath('MfaChallenge'),
+  allowGuests = false,
+  guestRedirectTo = routePath('Signup'),
+  requiredRoles,
+  requireVerifiedEmail = false,
+  verifyEmailRedirectTo = routePath('VerifyEmail'),
 }: ProtectedRouteProps) {
   const auth = useAuthContext();
+  const location = useLocation();
+  const from = `${location.pathname}${location.search}`;
 
   // Show loading state while checking authentication
   if (auth.loading) {
@@ -31,7 +61,42 @@ export function ProtectedRoute({
 
   // Redirect to login if not authenticated
   if (!auth.user) {
-    return <Navigate to={redirectTo} replace />;
+    return <Navigate to={redirectTo} replace state={{ from }} />;
+  }
+
+  if (auth.isGuest && !allowGuests) {
+    return <Navigate to={guestRedirectTo} replace state={{ from }} />;
+  }
+
+  if (requireVerifiedEmail && !auth.isGuest && !auth.emailVerified) {
+    return (
+      <Navigate
+        to={verifyEmailRedirectTo}
+        replace
+        state={{ from, email: auth.user.email }}
+      />
+    );
+  }
+
+  // Send users who still owe a second factor to the challenge, then back here
+  if (requireAal2 && auth.needsSecondFactor) {
+    return <Navigate to={mfaRedirectTo} replace state={{ from }} />;
+  }
+
+  if (requiredRoles && !hasRole(auth.roles, requiredRoles)) {
+    return (
+      <div className='min-h-screen flex items-center justify-center bg-gray-50'>
+        <div className='text-center'>
+          <p className='text-5xl font-extrabold text-gray-900'>403</p>
+          <h1 className='mt-4 text-xl font-semibold text-gray-900'>
+            Access denied
+          </h1>
+          <p className='mt-2 text-gray-600'>
+            You don't have permission to view this page.
+          </p>
+        </div>
+      </div>
+    );
   }
 
   // Render protected content if authenticated
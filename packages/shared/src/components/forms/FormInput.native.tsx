@@ -12,6 +12,8 @@ export interface FormInputProps {
   onChange: (value: string) => void;
   onBlur?: () => void;
   error?: string;
+  // Helper text shown below the input while there's no error
+  hint?: string;
   placeholder?: string;
   keyboardType?:
     | 'default'
@@ -39,6 +41,7 @@ export function FormInput({
   onChange,
   onBlur,
   error,
+  hint,
   placeholder,
   keyboardType = 'default',
   secureTextEntry = false,
@@ -80,6 +83,11 @@ export function FormInput({
           {error}
         </Text>
       )}
+      {!hasError && hint && (
+        <Text style={styles.hintText} accessibilityLiveRegion='polite'>
+          {hint}
+        </Text>
+      )}
     </View>
   );
 }
@@ -125,4 +133,9 @@ const styles = StyleSheet.create({
     fontWeight: '500',
     marginTop: 4,
   },
+  hintText: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginTop: 4,
+  },
 });
@@ -4,6 +4,8 @@ export interface FormInputProps {
   onChange: (value: string) => void;
   onBlur?: () => void;
   error?: string;
+  // Helper text shown below the input while there's no error
+  hint?: string;
   placeholder?: string;
   type?: 'text' | 'email' | 'url' | 'password';
   multiline?: boolean;
@@ -24,6 +26,7 @@ export function FormInput({
   onChange,
   onBlur,
   error,
+  hint,
   placeholder,
   type = 'text',
   multiline = false,
@@ -92,6 +95,11 @@ export function FormInput({
           {error}
         </p>
       )}
+      {!hasError && hint && (
+        <p className='mt-1 text-xs text-gray-500' aria-live='polite'>
+          {hint}
+        </p>
+      )}
     </div>
   );
 }
@@ -8,6 +8,7 @@ import {
 } from 'react-native';
 import { useNavigation } from '@react-navigation/native';
 import type { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import type { RootStackParamList } from '../../config/routes';
 import type { SupabaseClient } from '@supabase/supabase-js';
 import Svg, { Circle, Path, Rect, Line } from 'react-native-svg';
 import { useAuthContext } from '../../contexts/AuthContext';
@@ -19,14 +20,6 @@ export interface AppHeaderProps {
   supabaseClient: SupabaseClient;
 }
 
-type RootStackParamList = {
-  Home: undefined;
-  Login: undefined;
-  Signup: undefined;
-  Dashboard: undefined;
-  Profile: undefined;
-};
-
 type NavigationProp = NativeStackNavigationProp<RootStackParamList>;
 
 /**
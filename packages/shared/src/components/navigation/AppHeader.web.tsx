@@ -4,6 +4,7 @@ import { useAuthContext } from '../../contexts/AuthContext';
 import { useProfileContext } from '../../contexts/ProfileContext';
 import { UserMenu } from './UserMenu.web';
 import { BRANDING } from '../../config/branding';
+import { routePath } from '../../config/routes';
 
 export interface AppHeaderProps {
   supabaseClient: SupabaseClient;
@@ -36,7 +37,7 @@ export function AppHeader({ supabaseClient: _supabaseClient }: AppHeaderProps) {
         <div className='flex justify-between items-center h-16'>
           {/* Left side: App icon and title */}
           <div className='flex items-center space-x-3'>
-            <Link to='/' className='flex items-center'>
+            <Link to={routePath('Home')} className='flex items-center'>
               <img
                 src={`${basePath}demo-flask-icon.svg`}
                 alt={BRANDING.displayName}
@@ -44,7 +45,7 @@ export function AppHeader({ supabaseClient: _supabaseClient }: AppHeaderProps) {
               />
             </Link>
             <Link
-              to='/'
+              to={routePath('Home')}
               className='text-xl font-semibold text-gray-900 hover:text-gray-700'
             >
               {BRANDING.displayName}
@@ -58,13 +59,13 @@ export function AppHeader({ supabaseClient: _supabaseClient }: AppHeaderProps) {
             ) : (
               <>
                 <Link
-                  to='/login'
+                  to={routePath('Login')}
                   className='text-gray-500 hover:text-gray-700 px-3 py-2 rounded-md text-sm font-medium'
                 >
                   Sign In
                 </Link>
                 <Link
-                  to='/signup'
+                  to={routePath('Signup')}
                   className='bg-primary-600 text-white px-4 py-2 rounded-md text-sm font-medium hover:bg-primary-700'
                 >
                   Sign Up
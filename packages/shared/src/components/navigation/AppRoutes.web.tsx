@@ -0,0 +1,54 @@
+import { ComponentType, ReactNode, useEffect } from 'react';
+import { Route, Routes } from 'react-router-dom';
+import { ProtectedRoute } from '../auth/ProtectedRoute.web';
+import { BRANDING } from '../../config/branding';
+import { ROUTES, ROUTE_NAMES, type RouteName } from '../../config/routes';
+
+export interface AppRoutesProps {
+  // Page component for every route in the registry
+  pages: Record<RouteName, ComponentType>;
+}
+
+function RouteTitle({
+  title,
+  children,
+}: {
+  title: string;
+  children: ReactNode;
+}) {
+  useEffect(() => {
+    document.title = `${title} | ${BRANDING.displayName}`;
+  }, [title]);
+
+  return <>{children}</>;
+}
+
+/**
+ * React Router routes generated from the route registry
+ * Routes with auth requirements are wrapped in ProtectedRoute.
+ */
+export function AppRoutes({ pages }: AppRoutesProps) {
+  return (
+    <Routes>
+      {ROUTE_NAMES.map(name => {
+        const { path, title, auth } = ROUTES[name];
+        const Page = pages[name];
+        const page = (
+          <RouteTitle title={title}>
+            <Page />
+          </RouteTitle>
+        );
+
+        return (
+          <Route
+            key={name}
+            path={path}
+            element={
+              auth ? <ProtectedRoute {...auth}>{page}</ProtectedRoute> : page
+            }
+          />
+        );
+      })}
+    </Routes>
+  );
+}
@@ -0,0 +1,74 @@
+import { ComponentType, useMemo } from 'react';
+import {
+  createNativeStackNavigator,
+  type NativeStackNavigationOptions,
+  type NativeStackScreenProps,
+} from '@react-navigation/native-stack';
+import { ProtectedRoute } from '../auth/ProtectedRoute.native';
+import {
+  ROUTES,
+  ROUTE_NAMES,
+  type RootStackParamList,
+  type RouteAuth,
+  type RouteName,
+} from '../../config/routes';
+
+export type AppScreens = {
+  [Name in RouteName]: ComponentType<
+    NativeStackScreenProps<RootStackParamList, Name>
+  >;
+};
+
+export interface AppStackProps {
+  // Screen component for every route in the registry
+  screens: AppScreens;
+  screenOptions?: NativeStackNavigationOptions;
+  // Per-screen options on top of the registry title
+  options?: Partial<Record<RouteName, NativeStackNavigationOptions>>;
+}
+
+const Stack = createNativeStackNavigator<RootStackParamList>();
+
+function withRouteAuth<Props extends object>(
+  Screen: ComponentType<Props>,
+  auth: RouteAuth
+): ComponentType<Props> {
+  function GuardedScreen(props: Props) {
+    return (
+      <ProtectedRoute {...auth}>
+        <Screen {...props} />
+      </ProtectedRoute>
+    );
+  }
+  return GuardedScreen;
+}
+
+/**
+ * Native stack generated from the route registry
+ * Screens with auth requirements are wrapped in ProtectedRoute; the guarded
+ * components are created once so screens don't remount on re-render.
+ */
+export function AppStack({ screens, screenOptions, options }: AppStackProps) {
+  const components = useMemo(
+    () =>
+      ROUTE_NAMES.map(name => {
+        const { auth } = ROUTES[name];
+        const Screen = screens[name] as ComponentType<object>;
+        return { name, component: auth ? withRouteAuth(Screen, auth) : Screen };
+      }),
+    [screens]
+  );
+
+  return (
+    <Stack.Navigator {...(screenOptions ? { screenOptions } : {})}>
+      {components.map(({ name, component }) => (
+        <Stack.Screen
+          key={name}
+          name={name}
+          component={component}
+          options={{ title: ROUTES[name].title, ...options?.[name] }}
+        />
+      ))}
+    </Stack.Navigator>
+  );
+}
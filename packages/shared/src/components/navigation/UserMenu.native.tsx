@@ -10,19 +10,13 @@ import {
   Platform,
 } from 'react-native';
 import type { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import type { RootStackParamList } from '../../config/routes';
 import type { User } from '@supabase/supabase-js';
 import type { UserProfile } from '../../types/profile';
 import { useAuthContext } from '../../contexts/AuthContext';
+import { useRoles } from '../../hooks/useRoles';
 import { ProfileAvatar } from '../profile/ProfileAvatar.native';
 
-type RootStackParamList = {
-  Home: undefined;
-  Login: undefined;
-  Signup: undefined;
-  Dashboard: undefined;
-  Profile: undefined;
-};
-
 type NavigationProp = NativeStackNavigationProp<RootStackParamList>;
 
 export interface UserMenuProps {
@@ -33,7 +27,7 @@ export interface UserMenuProps {
 
 /**
  * UserMenu component for React Native
- * Displays user avatar with dropdown menu containing Profile, Dashboard, and Sign Out options
+ * Displays user avatar with dropdown menu containing Profile, Dashboard, People, Security, Devices, Reports (admins only), and Sign Out options
  */
 export function UserMenu({ user, profile, navigation }: UserMenuProps) {
   const [isOpen, setIsOpen] = useState(false);
@@ -46,6 +40,7 @@ export function UserMenu({ user, profile, navigation }: UserMenuProps) {
     height: 0,
   });
   const auth = useAuthContext();
+  const { hasRole } = useRoles();
 
   const handleSignOut = () => {
     Alert.alert('Sign Out', 'Are you sure you want to sign out?', [
@@ -62,7 +57,15 @@ export function UserMenu({ user, profile, navigation }: UserMenuProps) {
     ]);
   };
 
-  const handleNavigate = (route: 'Profile' | 'Dashboard') => {
+  const handleNavigate = (
+    route:
+      | 'Profile'
+      | 'Dashboard'
+      | 'People'
+      | 'Security'
+      | 'Sessions'
+      | 'Moderation'
+  ) => {
     setIsOpen(false);
     navigation.navigate(route);
   };
@@ -143,6 +146,36 @@ export function UserMenu({ user, profile, navigation }: UserMenuProps) {
               >
                 <Text style={styles.menuItemText}>Dashboard</Text>
               </TouchableOpacity>
+              <TouchableOpacity
+                onPress={() => handleNavigate('People')}
+                style={styles.menuItem}
+                activeOpacity={0.7}
+              >
+                <Text style={styles.menuItemText}>People</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                onPress={() => handleNavigate('Security')}
+                style={styles.menuItem}
+                activeOpacity={0.7}
+              >
+                <Text style={styles.menuItemText}>Security</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                onPress={() => handleNavigate('Sessions')}
+                style={styles.menuItem}
+                activeOpacity={0.7}
+              >
+                <Text style={styles.menuItemText}>Devices</Text>
+              </TouchableOpacity>
+              {hasRole('admin') && (
+                <TouchableOpacity
+                  onPress={() => handleNavigate('Moderation')}
+                  style={styles.menuItem}
+                  activeOpacity={0.7}
+                >
+                  <Text style={styles.menuItemText}>Reports</Text>
+                </TouchableOpacity>
+              )}
               <TouchableOpacity
                 onPress={handleSignOut}
                 style={[styles.menuItem, styles.menuItemDanger]}
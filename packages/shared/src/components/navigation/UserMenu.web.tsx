@@ -1,9 +1,12 @@
 import { useState, useRef, useEffect } from 'react';
-import { Link, useNavigate } from 'react-router-dom';
+import { Link } from 'react-router-dom';
 import type { User } from '@supabase/supabase-js';
 import type { UserProfile } from '../../types/profile';
 import { useAuthContext } from '../../contexts/AuthContext';
+import { useRoles } from '../../hooks/useRoles';
 import { ProfileAvatar } from '../profile/ProfileAvatar.web';
+import { useAppNavigation } from '../../hooks/useAppNavigation';
+import { routePath } from '../../config/routes';
 
 export interface UserMenuProps {
   user: User;
@@ -12,13 +15,14 @@ export interface UserMenuProps {
 
 /**
  * UserMenu component for web
- * Displays user avatar with dropdown menu containing Profile, Dashboard, and Sign Out options
+ * Displays user avatar with dropdown menu containing Profile, Dashboard, People, Security, Devices, Reports (admins only), and Sign Out options
  */
 export function UserMenu({ user, profile }: UserMenuProps) {
   const [isOpen, setIsOpen] = useState(false);
   const menuRef = useRef<HTMLDivElement>(null);
   const auth = useAuthContext();
-  const navigate = useNavigate();
+  const { hasRole } = useRoles();
+  const navigation = useAppNavigation();
 
   // Close menu when clicking outside
   useEffect(() => {
@@ -40,7 +44,7 @@ export function UserMenu({ user, profile }: UserMenuProps) {
   const handleSignOut = async () => {
     await auth.signOut();
     setIsOpen(false);
-    navigate('/');
+    navigation.navigate('Home');
   };
 
   const displayName =
@@ -73,19 +77,49 @@ export function UserMenu({ user, profile }: UserMenuProps) {
 
             {/* Menu items */}
             <Link
-              to='/profile'
+              to={routePath('Profile')}
               onClick={() => setIsOpen(false)}
               className='block px-4 py-2 text-sm text-gray-700 hover:bg-gray-100'
             >
               Profile
             </Link>
             <Link
-              to='/dashboard'
+              to={routePath('Dashboard')}
               onClick={() => setIsOpen(false)}
               className='block px-4 py-2 text-sm text-gray-700 hover:bg-gray-100'
             >
               Dashboard
             </Link>
+            <Link
+              to={routePath('People')}
+              onClick={() => setIsOpen(false)}
+              className='block px-4 py-2 text-sm text-gray-700 hover:bg-gray-100'
+            >
+              People
+            </Link>
+            <Link
+              to={routePath('Security')}
+              onClick={() => setIsOpen(false)}
+              className='block px-4 py-2 text-sm text-gray-700 hover:bg-gray-100'
+            >
+              Security
+            </Link>
+            <Link
+              to={routePath('Sessions')}
+              onClick={() => setIsOpen(false)}
+              className='block px-4 py-2 text-sm text-gray-700 hover:bg-gray-100'
+            >
+              Devices
+            </Link>
+            {hasRole('admin') && (
+              <Link
+                to={routePath('Moderation')}
+                onClick={() => setIsOpen(false)}
+                className='block px-4 py-2 text-sm text-gray-700 hover:bg-gray-100'
+              >
+                Reports
+              </Link>
+            )}
             <button
               onClick={handleSignOut}
               className='block w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-100'
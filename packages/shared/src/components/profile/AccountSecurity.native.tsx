@@ -0,0 +1,274 @@
+import { useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  ViewStyle,
+  ActivityIndicator,
+} from 'react-native';
+import type { PendingEmailChange } from '../../types/auth';
+
+export interface AccountSecurityProps {
+  email: string | undefined;
+  pendingEmailChange: PendingEmailChange | null;
+  // False for accounts that only sign in through a social provider
+  hasPassword: boolean;
+  onChangeEmail: (newEmail: string) => Promise<void>;
+  onChangePassword: (
+    currentPassword: string,
+    newPassword: string
+  ) => Promise<void>;
+  style?: ViewStyle;
+}
+
+/**
+ * AccountSecurity component for React Native
+ * Lets the user change their email address and password. A pending email
+ * change is shown until both the old and new addresses have confirmed it.
+ */
+export function AccountSecurity({
+  email,
+  pendingEmailChange,
+  hasPassword,
+  onChangeEmail,
+  onChangePassword,
+  style,
+}: AccountSecurityProps) {
+  const [newEmail, setNewEmail] = useState('');
+  const [emailSaving, setEmailSaving] = useState(false);
+  const [emailError, setEmailError] = useState<string | null>(null);
+
+  const [currentPassword, setCurrentPassword] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [passwordSaving, setPasswordSaving] = useState(false);
+  const [passwordError, setPasswordError] = useState<string | null>(null);
+  const [passwordChanged, setPasswordChanged] = useState(false);
+
+  const handleChangeEmail = async () => {
+    const trimmed = newEmail.trim();
+
+    if (!trimmed) {
+      setEmailError('Please enter a new email address');
+      return;
+    }
+
+    if (trimmed === email) {
+      setEmailError('That is already your email address');
+      return;
+    }
+
+    setEmailSaving(true);
+    setEmailError(null);
+
+    try {
+      await onChangeEmail(trimmed);
+      setNewEmail('');
+    } catch (err) {
+      setEmailError(
+        err instanceof Error ? err.message : 'Failed to change email'
+      );
+    } finally {
+      setEmailSaving(false);
+    }
+  };
+
+  const handleChangePassword = async () => {
+    setPasswordChanged(false);
+
+    if (!currentPassword || !newPassword || !confirmPassword) {
+      setPasswordError('Please fill in all fields');
+      return;
+    }
+
+    if (newPassword !== confirmPassword) {
+      setPasswordError('Passwords do not match');
+      return;
+    }
+
+    setPasswordSaving(true);
+    setPasswordError(null);
+
+    try {
+      await onChangePassword(currentPassword, newPassword);
+      setCurrentPassword('');
+      setNewPassword('');
+      setConfirmPassword('');
+      setPasswordChanged(true);
+    } catch (err) {
+      setPasswordError(
+        err instanceof Error ? err.message : 'Failed to change password'
+      );
+    } finally {
+      setPasswordSaving(false);
+    }
+  };
+
+  return (
+    <View style={[styles.container, style]}>
+      <Text style={styles.title}>Account security</Text>
+
+      {/* Email */}
+      <Text style={styles.label}>Email</Text>
+      <Text style={styles.value}>{email}</Text>
+
+      {pendingEmailChange && (
+        <Text style={styles.pendingText}>
+          Change to {pendingEmailChange.newEmail} is waiting for confirmation.
+          Follow the links we sent to both your current and new address to
+          finish.
+        </Text>
+      )}
+
+      {emailError && <Text style={styles.errorText}>{emailError}</Text>}
+
+      <TextInput
+        style={styles.input}
+        placeholder='New email address'
+        value={newEmail}
+        onChangeText={setNewEmail}
+        editable={!emailSaving}
+        keyboardType='email-address'
+        autoCapitalize='none'
+        autoCorrect={false}
+      />
+      <TouchableOpacity
+        style={[styles.button, emailSaving && styles.buttonDisabled]}
+        onPress={handleChangeEmail}
+        disabled={emailSaving}
+      >
+        {emailSaving ? (
+          <ActivityIndicator color='#ffffff' />
+        ) : (
+          <Text style={styles.buttonText}>Change Email</Text>
+        )}
+      </TouchableOpacity>
+
+      {/* Password */}
+      <Text style={[styles.label, styles.sectionSpacing]}>Password</Text>
+      {hasPassword ? (
+        <>
+          {passwordError && (
+            <Text style={styles.errorText}>{passwordError}</Text>
+          )}
+          {passwordChanged && (
+            <Text style={styles.successText}>
+              Your password has been changed.
+            </Text>
+          )}
+
+          <TextInput
+            style={styles.input}
+            placeholder='Current password'
+            value={currentPassword}
+            onChangeText={setCurrentPassword}
+            editable={!passwordSaving}
+            secureTextEntry
+            autoCapitalize='none'
+            autoCorrect={false}
+          />
+          <TextInput
+            style={styles.input}
+            placeholder='New password'
+            value={newPassword}
+            onChangeText={setNewPassword}
+            editable={!passwordSaving}
+            secureTextEntry
+            autoCapitalize='none'
+            autoCorrect={false}
+          />
+          <TextInput
+            style={styles.input}
+            placeholder='Confirm new password'
+            value={confirmPassword}
+            onChangeText={setConfirmPassword}
+            editable={!passwordSaving}
+            secureTextEntry
+            autoCapitalize='none'
+            autoCorrect={false}
+          />
+          <TouchableOpacity
+            style={[styles.button, passwordSaving && styles.buttonDisabled]}
+            onPress={handleChangePassword}
+            disabled={passwordSaving}
+          >
+            {passwordSaving ? (
+              <ActivityIndicator color='#ffffff' />
+            ) : (
+              <Text style={styles.buttonText}>Change Password</Text>
+            )}
+          </TouchableOpacity>
+        </>
+      ) : (
+        <Text style={styles.value}>
+          You sign in with a connected account, so there is no password to
+          change.
+        </Text>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 8,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#111827',
+    marginBottom: 4,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#374151',
+  },
+  sectionSpacing: {
+    marginTop: 12,
+  },
+  value: {
+    fontSize: 14,
+    color: '#111827',
+  },
+  pendingText: {
+    fontSize: 14,
+    color: '#92400E',
+    backgroundColor: '#FFFBEB',
+    borderRadius: 6,
+    padding: 8,
+  },
+  errorText: {
+    fontSize: 14,
+    color: '#991B1B',
+  },
+  successText: {
+    fontSize: 14,
+    color: '#166534',
+  },
+  input: {
+    backgroundColor: '#ffffff',
+    borderWidth: 1,
+    borderColor: '#D1D5DB',
+    borderRadius: 6,
+    paddingVertical: 10,
+    paddingHorizontal: 12,
+    fontSize: 16,
+  },
+  button: {
+    backgroundColor: '#4F46E5',
+    borderRadius: 6,
+    paddingVertical: 10,
+    alignItems: 'center',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  buttonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#ffffff',
+  },
+});
@@ -0,0 +1,233 @@
+import { useState } from 'react';
+import type { PendingEmailChange } from '../../types/auth';
+
+export interface AccountSecurityProps {
+  email: string | undefined;
+  pendingEmailChange: PendingEmailChange | null;
+  // False for accounts that only sign in through a social provider
+  hasPassword: boolean;
+  onChangeEmail: (newEmail: string) => Promise<void>;
+  onChangePassword: (
+    currentPassword: string,
+    newPassword: string
+  ) => Promise<void>;
+  className?: string;
+}
+
+const inputClassName =
+  'appearance-none block w-full px-3 py-2 border border-gray-300 rounded-md placeholder-gray-500 text-gray-900 focus:outline-none focus:ring-primary-500 focus:border-primary-500 sm:text-sm disabled:opacity-50';
+const buttonClassName =
+  'px-4 py-2 border border-transparent rounded-md text-sm font-medium text-white bg-primary-600 hover:bg-primary-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500 disabled:opacity-50 disabled:cursor-not-allowed';
+
+/**
+ * AccountSecurity component for web
+ * Lets the user change their email address and password. A pending email
+ * change is shown until both the old and new addresses have confirmed it.
+ */
+export function AccountSecurity({
+  email,
+  pendingEmailChange,
+  hasPassword,
+  onChangeEmail,
+  onChangePassword,
+  className = '',
+}: AccountSecurityProps) {
+  const [newEmail, setNewEmail] = useState('');
+  const [emailSaving, setEmailSaving] = useState(false);
+  const [emailError, setEmailError] = useState<string | null>(null);
+
+  const [currentPassword, setCurrentPassword] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [passwordSaving, setPasswordSaving] = useState(false);
+  const [passwordError, setPasswordError] = useState<string | null>(null);
+  const [passwordChanged, setPasswordChanged] = useState(false);
+
+  const handleChangeEmail = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmed = newEmail.trim();
+
+    if (!trimmed) {
+      setEmailError('Please enter a new email address');
+      return;
+    }
+
+    if (trimmed === email) {
+      setEmailError('That is already your email address');
+      return;
+    }
+
+    setEmailSaving(true);
+    setEmailError(null);
+
+    try {
+      await onChangeEmail(trimmed);
+      setNewEmail('');
+    } catch (err) {
+      setEmailError(
+        err instanceof Error ? err.message : 'Failed to change email'
+      );
+    } finally {
+      setEmailSaving(false);
+    }
+  };
+
+  const handleChangePassword = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setPasswordChanged(false);
+
+    if (!currentPassword || !newPassword || !confirmPassword) {
+      setPasswordError('Please fill in all fields');
+      return;
+    }
+
+    if (newPassword !== confirmPassword) {
+      setPasswordError('Passwords do not match');
+      return;
+    }
+
+    setPasswordSaving(true);
+    setPasswordError(null);
+
+    try {
+      await onChangePassword(currentPassword, newPassword);
+      setCurrentPassword('');
+      setNewPassword('');
+      setConfirmPassword('');
+      setPasswordChanged(true);
+    } catch (err) {
+      setPasswordError(
+        err instanceof Error ? err.message : 'Failed to change password'
+      );
+    } finally {
+      setPasswordSaving(false);
+    }
+  };
+
+  return (
+    <div className={`space-y-6 ${className}`}>
+      <h3 className='text-lg font-medium text-gray-900'>Account security</h3>
+
+      {/* Email */}
+      <form className='space-y-3' onSubmit={handleChangeEmail}>
+        <div>
+          <p className='text-sm font-medium text-gray-700'>Email</p>
+          <p className='text-sm text-gray-900'>{email}</p>
+        </div>
+
+        {pendingEmailChange && (
+          <div className='rounded-md bg-yellow-50 p-3'>
+            <p className='text-sm text-yellow-800'>
+              Change to {pendingEmailChange.newEmail} is waiting for
+              confirmation. Follow the links we sent to both your current and
+              new address to finish.
+            </p>
+          </div>
+        )}
+
+        {emailError && (
+          <div className='rounded-md bg-red-50 p-3'>
+            <p className='text-sm text-red-800'>{emailError}</p>
+          </div>
+        )}
+
+        <label htmlFor='new-email' className='sr-only'>
+          New email address
+        </label>
+        <input
+          id='new-email'
+          type='email'
+          autoComplete='email'
+          value={newEmail}
+          onChange={e => setNewEmail(e.target.value)}
+          disabled={emailSaving}
+          placeholder='New email address'
+          className={inputClassName}
+        />
+        <button
+          type='submit'
+          disabled={emailSaving}
+          className={buttonClassName}
+        >
+          {emailSaving ? 'Sending...' : 'Change email'}
+        </button>
+      </form>
+
+      {/* Password */}
+      {hasPassword ? (
+        <form className='space-y-3' onSubmit={handleChangePassword}>
+          <p className='text-sm font-medium text-gray-700'>Password</p>
+
+          {passwordError && (
+            <div className='rounded-md bg-red-50 p-3'>
+              <p className='text-sm text-red-800'>{passwordError}</p>
+            </div>
+          )}
+
+          {passwordChanged && (
+            <div className='rounded-md bg-green-50 p-3'>
+              <p className='text-sm text-green-800'>
+                Your password has been changed.
+              </p>
+            </div>
+          )}
+
+          <label htmlFor='current-password' className='sr-only'>
+            Current password
+          </label>
+          <input
+            id='current-password'
+            type='password'
+            autoComplete='current-password'
+            value={currentPassword}
+            onChange={e => setCurrentPassword(e.target.value)}
+            disabled={passwordSaving}
+            placeholder='Current password'
+            className={inputClassName}
+          />
+          <label htmlFor='change-new-password' className='sr-only'>
+            New password
+          </label>
+          <input
+            id='change-new-password'
+            type='password'
+            autoComplete='new-password'
+            value={newPassword}
+            onChange={e => setNewPassword(e.target.value)}
+            disabled={passwordSaving}
+            placeholder='New password'
+            className={inputClassName}
+          />
+          <label htmlFor='change-confirm-password' className='sr-only'>
+            Confirm new password
+          </label>
+          <input
+            id='change-confirm-password'
+            type='password'
+            autoComplete='new-password'
+            value={confirmPassword}
+            onChange={e => setConfirmPassword(e.target.value)}
+            disabled={passwordSaving}
+            placeholder='Confirm new password'
+            className={inputClassName}
+          />
+          <button
+            type='submit'
+            disabled={passwordSaving}
+            className={buttonClassName}
+          >
+            {passwordSaving ? 'Updating...' : 'Change password'}
+          </button>
+        </form>
+      ) : (
+        <div>
+          <p className='text-sm font-medium text-gray-700'>Password</p>
+          <p className='text-sm text-gray-600'>
+            You sign in with a connected account, so there is no password to
+            change.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,138 @@
+import { useState } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  ViewStyle,
+} from 'react-native';
+import type { BlockedUser } from '../../types/moderation';
+
+export interface BlockedUsersProps {
+  blockedUsers: BlockedUser[];
+  onUnblock: (userId: string) => Promise<void>;
+  style?: ViewStyle;
+}
+
+/**
+ * BlockedUsers component for React Native
+ * Lists the users the current user blocked, with a button to unblock each.
+ * Blocked profiles can't be opened, so this is where blocks are undone.
+ */
+export function BlockedUsers({
+  blockedUsers,
+  onUnblock,
+  style,
+}: BlockedUsersProps) {
+  const [pending, setPending] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleUnblock = async (userId: string) => {
+    setPending(userId);
+    setError(null);
+    try {
+      await onUnblock(userId);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    } finally {
+      setPending(null);
+    }
+  };
+
+  return (
+    <View style={[styles.container, style]}>
+      <Text style={styles.title}>Blocked users</Text>
+      <Text style={styles.subtitle}>
+        You don't see these users, and you can't follow each other.
+      </Text>
+
+      {error && <Text style={styles.errorText}>{error}</Text>}
+
+      {blockedUsers.length === 0 ? (
+        <Text style={styles.emptyText}>You haven't blocked anyone.</Text>
+      ) : (
+        blockedUsers.map(blocked => (
+          <View key={blocked.user_id} style={styles.row}>
+            <View style={styles.rowText}>
+              <Text style={styles.name} numberOfLines={1}>
+                {blocked.display_name || blocked.username || 'Unknown user'}
+              </Text>
+              {blocked.username ? (
+                <Text style={styles.username}>@{blocked.username}</Text>
+              ) : null}
+            </View>
+            <TouchableOpacity
+              style={[styles.button, pending !== null && styles.buttonDisabled]}
+              onPress={() => handleUnblock(blocked.user_id)}
+              disabled={pending !== null}
+            >
+              <Text style={styles.buttonText}>
+                {pending === blocked.user_id ? 'Unblocking...' : 'Unblock'}
+              </Text>
+            </TouchableOpacity>
+          </View>
+        ))
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 8,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#6B7280',
+    marginBottom: 8,
+  },
+  errorText: {
+    fontSize: 14,
+    color: '#991B1B',
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#6B7280',
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 8,
+  },
+  rowText: {
+    flex: 1,
+    marginRight: 12,
+  },
+  name: {
+    fontSize: 16,
+    fontWeight: '500',
+    color: '#111827',
+  },
+  username: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginTop: 2,
+  },
+  button: {
+    borderWidth: 1,
+    borderColor: '#D1D5DB',
+    borderRadius: 6,
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    alignItems: 'center',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  buttonText: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#374151',
+  },
+});
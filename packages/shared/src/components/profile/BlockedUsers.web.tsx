@@ -0,0 +1,81 @@
+import { useState } from 'react';
+import type { BlockedUser } from '../../types/moderation';
+
+export interface BlockedUsersProps {
+  blockedUsers: BlockedUser[];
+  onUnblock: (userId: string) => Promise<void>;
+  className?: string;
+}
+
+/**
+ * BlockedUsers component for web
+ * Lists the users the current user blocked, with a button to unblock each.
+ * Blocked profiles can't be opened, so this is where blocks are undone.
+ */
+export function BlockedUsers({
+  blockedUsers,
+  onUnblock,
+  className = '',
+}: BlockedUsersProps) {
+  const [pending, setPending] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleUnblock = async (userId: string) => {
+    setPending(userId);
+    setError(null);
+    try {
+      await onUnblock(userId);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    } finally {
+      setPending(null);
+    }
+  };
+
+  return (
+    <div className={`space-y-4 ${className}`}>
+      <div>
+        <h3 className='text-lg font-medium text-gray-900'>Blocked users</h3>
+        <p className='mt-1 text-sm text-gray-600'>
+          You don't see these users, and you can't follow each other.
+        </p>
+      </div>
+
+      {error && (
+        <div className='rounded-md bg-red-50 p-3'>
+          <p className='text-sm text-red-800'>{error}</p>
+        </div>
+      )}
+
+      {blockedUsers.length === 0 ? (
+        <p className='text-sm text-gray-600'>You haven't blocked anyone.</p>
+      ) : (
+        <ul className='divide-y divide-gray-200'>
+          {blockedUsers.map(blocked => (
+            <li
+              key={blocked.user_id}
+              className='py-3 flex items-center justify-between'
+            >
+              <div className='min-w-0'>
+                <p className='text-sm font-medium text-gray-900 truncate'>
+                  {blocked.display_name || blocked.username || 'Unknown user'}
+                </p>
+                {blocked.username && (
+                  <p className='text-xs text-gray-500'>@{blocked.username}</p>
+                )}
+              </div>
+              <button
+                type='button'
+                onClick={() => handleUnblock(blocked.user_id)}
+                disabled={pending !== null}
+                className='px-3 py-1 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed'
+              >
+                {pending === blocked.user_id ? 'Unblocking...' : 'Unblock'}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
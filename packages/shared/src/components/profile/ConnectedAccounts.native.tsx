@@ -0,0 +1,178 @@
+import { useState } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  ViewStyle,
+} from 'react-native';
+import type { UserIdentity } from '@supabase/supabase-js';
+import type { SocialProvider } from '../../types/auth';
+
+export interface ConnectedAccountsProps {
+  identities: UserIdentity[];
+  // Social providers that can be connected, in display order
+  providers: SocialProvider[];
+  onLink: (provider: SocialProvider) => Promise<void>;
+  onUnlink: (identity: UserIdentity) => Promise<void>;
+  style?: ViewStyle;
+}
+
+const PROVIDER_LABELS: Record<string, string> = {
+  email: 'Email',
+  google: 'Google',
+  apple: 'Apple',
+};
+
+const getProviderLabel = (provider: string): string =>
+  PROVIDER_LABELS[provider] ?? provider;
+
+/**
+ * ConnectedAccounts component for React Native
+ * Lists the sign-in methods linked to the account and lets the user connect
+ * or disconnect social providers. The last identity can't be disconnected.
+ */
+export function ConnectedAccounts({
+  identities,
+  providers,
+  onLink,
+  onUnlink,
+  style,
+}: ConnectedAccountsProps) {
+  const [pending, setPending] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const canUnlink = identities.length > 1;
+  const linkedProviders = new Set(
+    identities.map(identity => identity.provider)
+  );
+  const availableProviders = providers.filter(
+    provider => !linkedProviders.has(provider)
+  );
+
+  const run = async (key: string, action: () => Promise<void>) => {
+    setPending(key);
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    } finally {
+      setPending(null);
+    }
+  };
+
+  return (
+    <View style={[styles.container, style]}>
+      <Text style={styles.title}>Connected accounts</Text>
+      <Text style={styles.subtitle}>Sign in with any of these methods.</Text>
+
+      {error && <Text style={styles.errorText}>{error}</Text>}
+
+      {identities.map(identity => {
+        const email = identity.identity_data?.['email'];
+        const disabled = !canUnlink || pending !== null;
+        return (
+          <View key={identity.identity_id} style={styles.row}>
+            <View>
+              <Text style={styles.providerName}>
+                {getProviderLabel(identity.provider)}
+              </Text>
+              {typeof email === 'string' && (
+                <Text style={styles.providerEmail}>{email}</Text>
+              )}
+            </View>
+            <TouchableOpacity
+              style={[styles.button, disabled && styles.buttonDisabled]}
+              onPress={() =>
+                run(identity.identity_id, () => onUnlink(identity))
+              }
+              disabled={disabled}
+            >
+              <Text style={styles.buttonText}>
+                {pending === identity.identity_id
+                  ? 'Disconnecting...'
+                  : 'Disconnect'}
+              </Text>
+            </TouchableOpacity>
+          </View>
+        );
+      })}
+
+      {availableProviders.map(provider => (
+        <TouchableOpacity
+          key={provider}
+          style={[
+            styles.button,
+            styles.connectButton,
+            pending !== null && styles.buttonDisabled,
+          ]}
+          onPress={() => run(provider, () => onLink(provider))}
+          disabled={pending !== null}
+        >
+          <Text style={styles.buttonText}>
+            {pending === provider
+              ? 'Connecting...'
+              : `Connect ${getProviderLabel(provider)}`}
+          </Text>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 8,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#6B7280',
+    marginBottom: 8,
+  },
+  errorText: {
+    fontSize: 14,
+    color: '#991B1B',
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 8,
+  },
+  providerName: {
+    fontSize: 16,
+    fontWeight: '500',
+    color: '#111827',
+  },
+  providerEmail: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginTop: 2,
+  },
+  button: {
+    borderWidth: 1,
+    borderColor: '#D1D5DB',
+    borderRadius: 6,
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    alignItems: 'center',
+  },
+  connectButton: {
+    paddingVertical: 10,
+    marginTop: 4,
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  buttonText: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#374151',
+  },
+});
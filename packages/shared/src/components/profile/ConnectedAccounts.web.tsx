@@ -0,0 +1,130 @@
+import { useState } from 'react';
+import type { UserIdentity } from '@supabase/supabase-js';
+import type { SocialProvider } from '../../types/auth';
+
+export interface ConnectedAccountsProps {
+  identities: UserIdentity[];
+  // Social providers that can be connected, in display order
+  providers: SocialProvider[];
+  onLink: (provider: SocialProvider) => Promise<void>;
+  onUnlink: (identity: UserIdentity) => Promise<void>;
+  className?: string;
+}
+
+const PROVIDER_LABELS: Record<string, string> = {
+  email: 'Email',
+  google: 'Google',
+  apple: 'Apple',
+};
+
+const getProviderLabel = (provider: string): string =>
+  PROVIDER_LABELS[provider] ?? provider;
+
+/**
+ * ConnectedAccounts component for web
+ * Lists the sign-in methods linked to the account and lets the user connect
+ * or disconnect social providers. The last identity can't be disconnected.
+ */
+export function ConnectedAccounts({
+  identities,
+  providers,
+  onLink,
+  onUnlink,
+  className = '',
+}: ConnectedAccountsProps) {
+  const [pending, setPending] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const canUnlink = identities.length > 1;
+  const linkedProviders = new Set(
+    identities.map(identity => identity.provider)
+  );
+  const availableProviders = providers.filter(
+    provider => !linkedProviders.has(provider)
+  );
+
+  const run = async (key: string, action: () => Promise<void>) => {
+    setPending(key);
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    } finally {
+      setPending(null);
+    }
+  };
+
+  return (
+    <div className={`space-y-4 ${className}`}>
+      <div>
+        <h3 className='text-lg font-medium text-gray-900'>
+          Connected accounts
+        </h3>
+        <p className='mt-1 text-sm text-gray-600'>
+          Sign in with any of these methods.
+        </p>
+      </div>
+
+      {error && (
+        <div className='rounded-md bg-red-50 p-3'>
+          <p className='text-sm text-red-800'>{error}</p>
+        </div>
+      )}
+
+      <ul className='divide-y divide-gray-200'>
+        {identities.map(identity => {
+          const email = identity.identity_data?.['email'];
+          return (
+            <li
+              key={identity.identity_id}
+              className='py-3 flex items-center justify-between'
+            >
+              <div>
+                <p className='text-sm font-medium text-gray-900'>
+                  {getProviderLabel(identity.provider)}
+                </p>
+                {typeof email === 'string' && (
+                  <p className='text-xs text-gray-500'>{email}</p>
+                )}
+              </div>
+              <button
+                type='button'
+                onClick={() =>
+                  run(identity.identity_id, () => onUnlink(identity))
+                }
+                disabled={!canUnlink || pending !== null}
+                title={
+                  canUnlink ? undefined : 'This is your only way to sign in'
+                }
+                className='px-3 py-1 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed'
+              >
+                {pending === identity.identity_id
+                  ? 'Disconnecting...'
+                  : 'Disconnect'}
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+
+      {availableProviders.length > 0 && (
+        <div className='flex flex-wrap gap-3'>
+          {availableProviders.map(provider => (
+            <button
+              key={provider}
+              type='button'
+              onClick={() => run(provider, () => onLink(provider))}
+              disabled={pending !== null}
+              className='px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500 disabled:opacity-50 disabled:cursor-not-allowed'
+            >
+              {pending === provider
+                ? 'Connecting...'
+                : `Connect ${getProviderLabel(provider)}`}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
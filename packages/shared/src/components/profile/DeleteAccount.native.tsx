@@ -0,0 +1,191 @@
+import { useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  ViewStyle,
+  ActivityIndicator,
+} from 'react-native';
+
+export interface DeleteAccountProps {
+  // What the user has to re-type to confirm: their username, or email if unset
+  confirmationText: string;
+  onDelete: () => Promise<void>;
+  style?: ViewStyle;
+}
+
+/**
+ * DeleteAccount component for React Native
+ * Danger-zone card that permanently deletes the account. The delete button
+ * only unlocks once the user has re-typed their username.
+ */
+export function DeleteAccount({
+  confirmationText,
+  onDelete,
+  style,
+}: DeleteAccountProps) {
+  const [isConfirming, setIsConfirming] = useState(false);
+  const [typed, setTyped] = useState('');
+  const [isDeleting, setIsDeleting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const canDelete =
+    confirmationText.length > 0 &&
+    typed.trim() === confirmationText &&
+    !isDeleting;
+
+  const handleCancel = () => {
+    setIsConfirming(false);
+    setTyped('');
+    setError(null);
+  };
+
+  const handleDelete = async () => {
+    if (!canDelete) {
+      return;
+    }
+
+    setIsDeleting(true);
+    setError(null);
+
+    try {
+      await onDelete();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete account');
+      setIsDeleting(false);
+    }
+  };
+
+  return (
+    <View style={[styles.container, style]}>
+      <Text style={styles.title}>Delete account</Text>
+      <Text style={styles.subtitle}>
+        Permanently delete your account, profile and uploaded files. This can't
+        be undone.
+      </Text>
+
+      {error && <Text style={styles.errorText}>{error}</Text>}
+
+      {!isConfirming ? (
+        <TouchableOpacity
+          style={styles.outlineButton}
+          onPress={() => setIsConfirming(true)}
+        >
+          <Text style={styles.outlineButtonText}>Delete account</Text>
+        </TouchableOpacity>
+      ) : (
+        <>
+          <Text style={styles.label}>
+            Type <Text style={styles.labelStrong}>{confirmationText}</Text> to
+            confirm.
+          </Text>
+          <TextInput
+            style={styles.input}
+            value={typed}
+            onChangeText={setTyped}
+            editable={!isDeleting}
+            autoCapitalize='none'
+            autoCorrect={false}
+            accessibilityLabel='Confirm account deletion'
+          />
+          <TouchableOpacity
+            style={[styles.deleteButton, !canDelete && styles.buttonDisabled]}
+            onPress={handleDelete}
+            disabled={!canDelete}
+          >
+            {isDeleting ? (
+              <ActivityIndicator color='#ffffff' />
+            ) : (
+              <Text style={styles.deleteButtonText}>
+                Permanently delete account
+              </Text>
+            )}
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.cancelButton, isDeleting && styles.buttonDisabled]}
+            onPress={handleCancel}
+            disabled={isDeleting}
+          >
+            <Text style={styles.cancelButtonText}>Cancel</Text>
+          </TouchableOpacity>
+        </>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 8,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#B91C1C',
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#6B7280',
+    marginBottom: 8,
+  },
+  errorText: {
+    fontSize: 14,
+    color: '#991B1B',
+  },
+  label: {
+    fontSize: 14,
+    color: '#374151',
+  },
+  labelStrong: {
+    fontWeight: '600',
+  },
+  input: {
+    backgroundColor: '#ffffff',
+    borderWidth: 1,
+    borderColor: '#D1D5DB',
+    borderRadius: 6,
+    paddingVertical: 10,
+    paddingHorizontal: 12,
+    fontSize: 16,
+  },
+  outlineButton: {
+    borderWidth: 1,
+    borderColor: '#FCA5A5',
+    borderRadius: 6,
+    paddingVertical: 10,
+    alignItems: 'center',
+  },
+  outlineButtonText: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#B91C1C',
+  },
+  deleteButton: {
+    backgroundColor: '#DC2626',
+    borderRadius: 6,
+    paddingVertical: 10,
+    alignItems: 'center',
+  },
+  deleteButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#ffffff',
+  },
+  cancelButton: {
+    borderWidth: 1,
+    borderColor: '#D1D5DB',
+    borderRadius: 6,
+    paddingVertical: 10,
+    alignItems: 'center',
+  },
+  cancelButtonText: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#374151',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+});
@@ -0,0 +1,116 @@
+import { useState } from 'react';
+
+export interface DeleteAccountProps {
+  // What the user has to re-type to confirm: their username, or email if unset
+  confirmationText: string;
+  onDelete: () => Promise<void>;
+  className?: string;
+}
+
+/**
+ * DeleteAccount component for web
+ * Danger-zone card that permanently deletes the account. The delete button
+ * only unlocks once the user has re-typed their username.
+ */
+export function DeleteAccount({
+  confirmationText,
+  onDelete,
+  className = '',
+}: DeleteAccountProps) {
+  const [isConfirming, setIsConfirming] = useState(false);
+  const [typed, setTyped] = useState('');
+  const [isDeleting, setIsDeleting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const canDelete =
+    confirmationText.length > 0 &&
+    typed.trim() === confirmationText &&
+    !isDeleting;
+
+  const handleCancel = () => {
+    setIsConfirming(false);
+    setTyped('');
+    setError(null);
+  };
+
+  const handleDelete = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canDelete) {
+      return;
+    }
+
+    setIsDeleting(true);
+    setError(null);
+
+    try {
+      await onDelete();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete account');
+      setIsDeleting(false);
+    }
+  };
+
+  return (
+    <div className={`space-y-4 ${className}`}>
+      <div>
+        <h3 className='text-lg font-medium text-red-700'>Delete account</h3>
+        <p className='mt-1 text-sm text-gray-600'>
+          Permanently delete your account, profile and uploaded files. This
+          can't be undone.
+        </p>
+      </div>
+
+      {error && (
+        <div className='rounded-md bg-red-50 p-3'>
+          <p className='text-sm text-red-800'>{error}</p>
+        </div>
+      )}
+
+      {!isConfirming ? (
+        <button
+          type='button'
+          onClick={() => setIsConfirming(true)}
+          className='px-4 py-2 border border-red-300 rounded-md text-sm font-medium text-red-700 bg-white hover:bg-red-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500'
+        >
+          Delete account
+        </button>
+      ) : (
+        <form className='space-y-3' onSubmit={handleDelete}>
+          <label
+            htmlFor='delete-account-confirmation'
+            className='block text-sm text-gray-700'
+          >
+            Type <span className='font-semibold'>{confirmationText}</span> to
+            confirm.
+          </label>
+          <input
+            id='delete-account-confirmation'
+            type='text'
+            autoComplete='off'
+            value={typed}
+            onChange={e => setTyped(e.target.value)}
+            disabled={isDeleting}
+            className='appearance-none block w-full px-3 py-2 border border-gray-300 rounded-md placeholder-gray-500 text-gray-900 focus:outline-none focus:ring-red-500 focus:border-red-500 sm:text-sm disabled:opacity-50'
+          />
+          <div className='flex gap-3'>
+            <button
+              type='submit'
+              disabled={!canDelete}
+              className='px-4 py-2 border border-transparent rounded-md text-sm font-medium text-white bg-red-600 hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500 disabled:opacity-50 disabled:cursor-not-allowed'
+            >
+              {isDeleting ? 'Deleting...' : 'Permanently delete account'}
+            </button>
+            <button
+              type='button'
+              onClick={handleCancel}
+              disabled={isDeleting}
+              className='px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50'
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,144 @@
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  ActivityIndicator,
+  ViewStyle,
+} from 'react-native';
+import { ProfileAvatar } from './ProfileAvatar.native';
+import type { PublicProfile } from '../../types/profile';
+
+export interface FollowListProps {
+  title: string;
+  profiles: PublicProfile[];
+  loading: boolean;
+  loadingMore: boolean;
+  error: Error | null;
+  hasMore: boolean;
+  onLoadMore: () => void;
+  // Opens the public profile of the pressed user
+  onSelect: (username: string) => void;
+  // Shown when the list is empty
+  emptyMessage: string;
+  style?: ViewStyle;
+}
+
+/**
+ * FollowList component for React Native
+ * Lists a user's followers or followed users with a button for the next page.
+ * Rendered as plain rows so it can sit inside a screen's ScrollView.
+ */
+export function FollowList({
+  title,
+  profiles,
+  loading,
+  loadingMore,
+  error,
+  hasMore,
+  onLoadMore,
+  onSelect,
+  emptyMessage,
+  style,
+}: FollowListProps) {
+  return (
+    <View style={[styles.container, style]}>
+      <Text style={styles.title}>{title}</Text>
+
+      {error && !loading && (
+        <Text style={styles.errorText} accessibilityRole='alert'>
+          {error.message}
+        </Text>
+      )}
+
+      {loading ? (
+        <ActivityIndicator color='#4F46E5' />
+      ) : profiles.length === 0 ? (
+        !error && <Text style={styles.emptyText}>{emptyMessage}</Text>
+      ) : (
+        profiles.map(profile => (
+          <TouchableOpacity
+            key={profile.id ?? profile.username}
+            style={styles.row}
+            onPress={() => profile.username && onSelect(profile.username)}
+            activeOpacity={0.7}
+          >
+            <ProfileAvatar profile={profile} size='small' />
+            <View style={styles.rowText}>
+              <Text style={styles.name} numberOfLines={1}>
+                {profile.display_name || profile.username}
+              </Text>
+              <Text style={styles.details} numberOfLines={1}>
+                @{profile.username}
+              </Text>
+            </View>
+          </TouchableOpacity>
+        ))
+      )}
+
+      {hasMore && !loading && (
+        <TouchableOpacity
+          style={[styles.button, loadingMore && styles.buttonDisabled]}
+          onPress={onLoadMore}
+          disabled={loadingMore}
+        >
+          <Text style={styles.buttonText}>
+            {loadingMore ? 'Loading...' : 'Load more'}
+          </Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 12,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  rowText: {
+    flex: 1,
+  },
+  name: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  details: {
+    marginTop: 2,
+    fontSize: 14,
+    color: '#6b7280',
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#6b7280',
+  },
+  errorText: {
+    fontSize: 14,
+    color: '#b91c1c',
+  },
+  button: {
+    borderWidth: 1,
+    borderColor: '#d1d5db',
+    borderRadius: 8,
+    paddingVertical: 10,
+    alignItems: 'center',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  buttonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#374151',
+  },
+});
@@ -0,0 +1,84 @@
+import { Link } from 'react-router-dom';
+import { ProfileAvatar } from './ProfileAvatar.web';
+import type { PublicProfile } from '../../types/profile';
+import { publicProfilePath } from '../../config/routes';
+
+export interface FollowListProps {
+  title: string;
+  profiles: PublicProfile[];
+  loading: boolean;
+  loadingMore: boolean;
+  error: Error | null;
+  hasMore: boolean;
+  onLoadMore: () => void;
+  // Shown when the list is empty
+  emptyMessage: string;
+  className?: string;
+}
+
+/**
+ * FollowList component for web
+ * Lists a user's followers or followed users, each linking to their public
+ * profile, with a button for the next page.
+ */
+export function FollowList({
+  title,
+  profiles,
+  loading,
+  loadingMore,
+  error,
+  hasMore,
+  onLoadMore,
+  emptyMessage,
+  className = '',
+}: FollowListProps) {
+  return (
+    <div className={`space-y-4 ${className}`}>
+      <h3 className='text-lg font-medium text-gray-900'>{title}</h3>
+
+      {error && !loading && (
+        <p className='text-sm text-red-700' role='alert'>
+          {error.message}
+        </p>
+      )}
+
+      {loading ? (
+        <p className='text-sm text-gray-600'>Loading...</p>
+      ) : profiles.length === 0 ? (
+        !error && <p className='text-sm text-gray-600'>{emptyMessage}</p>
+      ) : (
+        <ul className='divide-y divide-gray-200'>
+          {profiles.map(profile => (
+            <li key={profile.id ?? profile.username}>
+              <Link
+                to={publicProfilePath(profile.username ?? '')}
+                className='flex items-center space-x-3 py-3 hover:bg-gray-50'
+              >
+                <ProfileAvatar profile={profile} size='small' />
+                <div className='min-w-0 flex-1'>
+                  <p className='text-sm font-medium text-gray-900 truncate'>
+                    {profile.display_name || profile.username}
+                  </p>
+                  <p className='text-sm text-gray-500 truncate'>
+                    @{profile.username}
+                  </p>
+                </div>
+              </Link>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {hasMore && !loading && (
+        <button
+          type='button'
+          onClick={onLoadMore}
+          disabled={loadingMore}
+          className='px-4 py-2 bg-white border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500 disabled:opacity-50 disabled:cursor-not-allowed'
+        >
+          {loadingMore ? 'Loading...' : 'Load more'}
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,350 @@
+import { useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  ViewStyle,
+  ActivityIndicator,
+} from 'react-native';
+import type { ReportInput, ReportReason } from '../../types/moderation';
+import {
+  REPORT_DETAILS_MAX_LENGTH,
+  REPORT_REASON_OPTIONS,
+  reportSchema,
+} from '../../validation/reportSchema';
+
+export interface ProfileActionsProps {
+  username: string;
+  isBlocked: boolean;
+  onBlock: () => Promise<void>;
+  onUnblock: () => Promise<void>;
+  onReport: (report: ReportInput) => Promise<void>;
+  style?: ViewStyle;
+}
+
+type Panel = 'menu' | 'block' | 'report' | 'reported' | null;
+
+/**
+ * ProfileActions component for React Native
+ * A "more actions" menu on someone's profile to block, unblock or report
+ * them. Blocking asks for confirmation; reporting opens a short form.
+ */
+export function ProfileActions({
+  username,
+  isBlocked,
+  onBlock,
+  onUnblock,
+  onReport,
+  style,
+}: ProfileActionsProps) {
+  const [panel, setPanel] = useState<Panel>(null);
+  const [reason, setReason] = useState<ReportReason | ''>('');
+  const [details, setDetails] = useState('');
+  const [pending, setPending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const openPanel = (next: Panel) => {
+    setError(null);
+    setPanel(next);
+  };
+
+  const closePanel = () => {
+    setPanel(null);
+    setReason('');
+    setDetails('');
+    setError(null);
+  };
+
+  const run = async (action: () => Promise<void>, onDone: () => void) => {
+    setPending(true);
+    setError(null);
+    try {
+      await action();
+      onDone();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    } finally {
+      setPending(false);
+    }
+  };
+
+  const handleReport = () => {
+    const result = reportSchema.safeParse({ reason, details });
+    if (!result.success) {
+      setError(result.error.issues[0]?.message ?? 'Check the report');
+      return;
+    }
+
+    const { reason: parsedReason, details: parsedDetails } = result.data;
+    run(
+      () =>
+        onReport({
+          reason: parsedReason,
+          ...(parsedDetails ? { details: parsedDetails } : {}),
+        }),
+      () => {
+        setReason('');
+        setDetails('');
+        setPanel('reported');
+      }
+    );
+  };
+
+  return (
+    <View style={[styles.container, style]}>
+      <TouchableOpacity
+        style={styles.moreButton}
+        onPress={() => openPanel(panel === 'menu' ? null : 'menu')}
+        accessibilityRole='button'
+        accessibilityLabel='More actions'
+        accessibilityState={{ expanded: panel === 'menu' }}
+      >
+        <Text style={styles.moreButtonText}>•••</Text>
+      </TouchableOpacity>
+
+      {panel === 'menu' && (
+        <View style={styles.menu}>
+          <TouchableOpacity
+            style={styles.menuItem}
+            onPress={() => openPanel('report')}
+          >
+            <Text style={styles.menuItemText}>Report @{username}</Text>
+          </TouchableOpacity>
+          {isBlocked ? (
+            <TouchableOpacity
+              style={styles.menuItem}
+              onPress={() => run(onUnblock, () => setPanel(null))}
+              disabled={pending}
+            >
+              <Text style={styles.menuItemText}>Unblock @{username}</Text>
+            </TouchableOpacity>
+          ) : (
+            <TouchableOpacity
+              style={styles.menuItem}
+              onPress={() => openPanel('block')}
+            >
+              <Text style={[styles.menuItemText, styles.dangerText]}>
+                Block @{username}
+              </Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      )}
+
+      {error && <Text style={styles.errorText}>{error}</Text>}
+
+      {panel === 'block' && (
+        <View style={styles.panel}>
+          <Text style={styles.label}>
+            Block @{username}? You won't see their profile, and neither of you
+            will be able to follow the other. They won't be told.
+          </Text>
+          <TouchableOpacity
+            style={[styles.blockButton, pending && styles.buttonDisabled]}
+            onPress={() => run(onBlock, () => setPanel(null))}
+            disabled={pending}
+          >
+            {pending ? (
+              <ActivityIndicator color='#ffffff' />
+            ) : (
+              <Text style={styles.primaryButtonText}>Block</Text>
+            )}
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.cancelButton, pending && styles.buttonDisabled]}
+            onPress={closePanel}
+            disabled={pending}
+          >
+            <Text style={styles.cancelButtonText}>Cancel</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
+      {panel === 'report' && (
+        <View style={styles.panel}>
+          <Text style={styles.title}>Why are you reporting @{username}?</Text>
+          {REPORT_REASON_OPTIONS.map(option => (
+            <TouchableOpacity
+              key={option.value}
+              style={[
+                styles.reasonOption,
+                reason === option.value && styles.reasonOptionSelected,
+              ]}
+              onPress={() => setReason(option.value)}
+              disabled={pending}
+              accessibilityRole='radio'
+              accessibilityState={{ checked: reason === option.value }}
+            >
+              <Text
+                style={[
+                  styles.reasonText,
+                  reason === option.value && styles.reasonTextSelected,
+                ]}
+              >
+                {option.label}
+              </Text>
+            </TouchableOpacity>
+          ))}
+          <Text style={styles.label}>Details (optional)</Text>
+          <TextInput
+            style={styles.input}
+            value={details}
+            onChangeText={setDetails}
+            maxLength={REPORT_DETAILS_MAX_LENGTH}
+            multiline
+            numberOfLines={3}
+            editable={!pending}
+            accessibilityLabel='Details'
+          />
+          <TouchableOpacity
+            style={[styles.reportButton, pending && styles.buttonDisabled]}
+            onPress={handleReport}
+            disabled={pending}
+          >
+            {pending ? (
+              <ActivityIndicator color='#ffffff' />
+            ) : (
+              <Text style={styles.primaryButtonText}>Send report</Text>
+            )}
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.cancelButton, pending && styles.buttonDisabled]}
+            onPress={closePanel}
+            disabled={pending}
+          >
+            <Text style={styles.cancelButtonText}>Cancel</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
+      {panel === 'reported' && (
+        <Text style={styles.successText}>
+          Thanks for letting us know. Our team will review your report.
+        </Text>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 8,
+  },
+  moreButton: {
+    alignSelf: 'flex-start',
+    borderWidth: 1,
+    borderColor: '#D1D5DB',
+    borderRadius: 6,
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+  },
+  moreButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#374151',
+  },
+  menu: {
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    borderRadius: 6,
+  },
+  menuItem: {
+    paddingVertical: 10,
+    paddingHorizontal: 12,
+  },
+  menuItemText: {
+    fontSize: 14,
+    color: '#374151',
+  },
+  dangerText: {
+    color: '#B91C1C',
+  },
+  panel: {
+    gap: 8,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    borderRadius: 6,
+    padding: 12,
+  },
+  title: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  label: {
+    fontSize: 14,
+    color: '#374151',
+  },
+  reasonOption: {
+    borderWidth: 1,
+    borderColor: '#D1D5DB',
+    borderRadius: 6,
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+  },
+  reasonOptionSelected: {
+    borderColor: '#3b82f6',
+    backgroundColor: '#EFF6FF',
+  },
+  reasonText: {
+    fontSize: 14,
+    color: '#374151',
+  },
+  reasonTextSelected: {
+    color: '#1D4ED8',
+    fontWeight: '600',
+  },
+  input: {
+    backgroundColor: '#ffffff',
+    borderWidth: 1,
+    borderColor: '#D1D5DB',
+    borderRadius: 6,
+    paddingVertical: 10,
+    paddingHorizontal: 12,
+    fontSize: 16,
+    minHeight: 80,
+    textAlignVertical: 'top',
+  },
+  errorText: {
+    fontSize: 14,
+    color: '#991B1B',
+  },
+  successText: {
+    fontSize: 14,
+    color: '#166534',
+  },
+  blockButton: {
+    backgroundColor: '#DC2626',
+    borderRadius: 6,
+    paddingVertical: 10,
+    alignItems: 'center',
+  },
+  reportButton: {
+    backgroundColor: '#3b82f6',
+    borderRadius: 6,
+    paddingVertical: 10,
+    alignItems: 'center',
+  },
+  primaryButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#ffffff',
+  },
+  cancelButton: {
+    borderWidth: 1,
+    borderColor: '#D1D5DB',
+    borderRadius: 6,
+    paddingVertical: 10,
+    alignItems: 'center',
+  },
+  cancelButtonText: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#374151',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+});
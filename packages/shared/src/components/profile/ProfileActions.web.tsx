@@ -0,0 +1,264 @@
+import { useEffect, useRef, useState } from 'react';
+import type { ReportInput, ReportReason } from '../../types/moderation';
+import {
+  REPORT_DETAILS_MAX_LENGTH,
+  REPORT_REASON_OPTIONS,
+  reportSchema,
+} from '../../validation/reportSchema';
+
+export interface ProfileActionsProps {
+  username: string;
+  isBlocked: boolean;
+  onBlock: () => Promise<void>;
+  onUnblock: () => Promise<void>;
+  onReport: (report: ReportInput) => Promise<void>;
+  className?: string;
+}
+
+type Panel = 'block' | 'report' | 'reported' | null;
+
+/**
+ * ProfileActions component for web
+ * A "more actions" menu on someone's profile to block, unblock or report
+ * them. Blocking asks for confirmation; reporting opens a short form.
+ */
+export function ProfileActions({
+  username,
+  isBlocked,
+  onBlock,
+  onUnblock,
+  onReport,
+  className = '',
+}: ProfileActionsProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [panel, setPanel] = useState<Panel>(null);
+  const [reason, setReason] = useState<ReportReason | ''>('');
+  const [details, setDetails] = useState('');
+  const [pending, setPending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Close menu when clicking outside
+  useEffect(() => {
+    function handleClickOutside(event: MouseEvent) {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    }
+
+    if (isOpen) {
+      document.addEventListener('mousedown', handleClickOutside);
+    }
+
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside);
+    };
+  }, [isOpen]);
+
+  const openPanel = (next: Panel) => {
+    setIsOpen(false);
+    setError(null);
+    setPanel(next);
+  };
+
+  const closePanel = () => {
+    setPanel(null);
+    setReason('');
+    setDetails('');
+    setError(null);
+  };
+
+  const run = async (action: () => Promise<void>, onDone: () => void) => {
+    setPending(true);
+    setError(null);
+    try {
+      await action();
+      onDone();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    } finally {
+      setPending(false);
+    }
+  };
+
+  const handleUnblock = () => {
+    setIsOpen(false);
+    run(onUnblock, () => setPanel(null));
+  };
+
+  const handleReport = (e: React.FormEvent) => {
+    e.preventDefault();
+    const result = reportSchema.safeParse({ reason, details });
+    if (!result.success) {
+      setError(result.error.issues[0]?.message ?? 'Check the report');
+      return;
+    }
+
+    const { reason: parsedReason, details: parsedDetails } = result.data;
+    run(
+      () =>
+        onReport({
+          reason: parsedReason,
+          ...(parsedDetails ? { details: parsedDetails } : {}),
+        }),
+      () => {
+        setReason('');
+        setDetails('');
+        setPanel('reported');
+      }
+    );
+  };
+
+  return (
+    <div className={`space-y-3 ${className}`}>
+      <div className='relative inline-block' ref={menuRef}>
+        <button
+          type='button'
+          onClick={() => setIsOpen(!isOpen)}
+          className='px-3 py-2 bg-white border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500'
+          aria-label='More actions'
+          aria-expanded={isOpen}
+        >
+          •••
+        </button>
+
+        {isOpen && (
+          <div className='absolute left-0 mt-2 w-56 rounded-md shadow-lg bg-white ring-1 ring-black ring-opacity-5 z-50'>
+            <div className='py-1'>
+              <button
+                type='button'
+                onClick={() => openPanel('report')}
+                className='block w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-100'
+              >
+                Report @{username}
+              </button>
+              {isBlocked ? (
+                <button
+                  type='button'
+                  onClick={handleUnblock}
+                  className='block w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-100'
+                >
+                  Unblock @{username}
+                </button>
+              ) : (
+                <button
+                  type='button'
+                  onClick={() => openPanel('block')}
+                  className='block w-full text-left px-4 py-2 text-sm text-red-700 hover:bg-gray-100'
+                >
+                  Block @{username}
+                </button>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+
+      {error && (
+        <div className='rounded-md bg-red-50 p-3'>
+          <p className='text-sm text-red-800'>{error}</p>
+        </div>
+      )}
+
+      {panel === 'block' && (
+        <div className='rounded-md border border-gray-200 p-4 space-y-3'>
+          <p className='text-sm text-gray-700'>
+            Block @{username}? You won't see their profile, and neither of you
+            will be able to follow the other. They won't be told.
+          </p>
+          <div className='flex gap-3'>
+            <button
+              type='button'
+              onClick={() => run(onBlock, () => setPanel(null))}
+              disabled={pending}
+              className='px-4 py-2 border border-transparent rounded-md text-sm font-medium text-white bg-red-600 hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500 disabled:opacity-50 disabled:cursor-not-allowed'
+            >
+              {pending ? 'Blocking...' : 'Block'}
+            </button>
+            <button
+              type='button'
+              onClick={closePanel}
+              disabled={pending}
+              className='px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50'
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {panel === 'report' && (
+        <form
+          className='rounded-md border border-gray-200 p-4 space-y-3'
+          onSubmit={handleReport}
+        >
+          <fieldset>
+            <legend className='text-sm font-medium text-gray-900'>
+              Why are you reporting @{username}?
+            </legend>
+            <div className='mt-2 space-y-2'>
+              {REPORT_REASON_OPTIONS.map(option => (
+                <label
+                  key={option.value}
+                  className='flex items-center gap-2 text-sm text-gray-700'
+                >
+                  <input
+                    type='radio'
+                    name='report-reason'
+                    value={option.value}
+                    checked={reason === option.value}
+                    onChange={() => setReason(option.value)}
+                    disabled={pending}
+                  />
+                  {option.label}
+                </label>
+              ))}
+            </div>
+          </fieldset>
+          <div>
+            <label
+              htmlFor='report-details'
+              className='block text-sm font-medium text-gray-700'
+            >
+              Details (optional)
+            </label>
+            <textarea
+              id='report-details'
+              rows={3}
+              value={details}
+              onChange={e => setDetails(e.target.value)}
+              maxLength={REPORT_DETAILS_MAX_LENGTH}
+              disabled={pending}
+              className='mt-1 appearance-none block w-full px-3 py-2 border border-gray-300 rounded-md placeholder-gray-500 text-gray-900 focus:outline-none focus:ring-primary-500 focus:border-primary-500 sm:text-sm disabled:opacity-50'
+            />
+          </div>
+          <div className='flex gap-3'>
+            <button
+              type='submit'
+              disabled={pending}
+              className='px-4 py-2 border border-transparent rounded-md text-sm font-medium text-white bg-primary-600 hover:bg-primary-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500 disabled:opacity-50 disabled:cursor-not-allowed'
+            >
+              {pending ? 'Sending...' : 'Send report'}
+            </button>
+            <button
+              type='button'
+              onClick={closePanel}
+              disabled={pending}
+              className='px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50'
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+
+      {panel === 'reported' && (
+        <div className='rounded-md bg-green-50 p-3'>
+          <p className='text-sm text-green-800'>
+            Thanks for letting us know. Our team will review your report.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
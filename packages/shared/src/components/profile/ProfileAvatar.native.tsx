@@ -7,11 +7,11 @@ import {
   Platform,
 } from 'react-native';
 import { useState, useEffect, useRef } from 'react';
-import type { UserProfile } from '../../types/profile';
+import type { PublicProfile, UserProfile } from '../../types/profile';
 import { Logger } from '../../utils/logger';
 
 export interface ProfileAvatarProps {
-  profile: UserProfile | null;
+  profile: UserProfile | PublicProfile | null;
   size?: 'small' | 'medium' | 'large';
   style?: ViewStyle;
 }
@@ -1,7 +1,7 @@
-import type { UserProfile } from '../../types/profile';
+import type { PublicProfile, UserProfile } from '../../types/profile';
 
 export interface ProfileAvatarProps {
-  profile: UserProfile | null;
+  profile: UserProfile | PublicProfile | null;
   size?: 'small' | 'medium' | 'large';
   className?: string;
 }
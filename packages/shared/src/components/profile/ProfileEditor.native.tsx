@@ -1,17 +1,26 @@
 import { useState, useEffect, useMemo, useCallback } from 'react';
-import { View, Text, StyleSheet, ViewStyle } from 'react-native';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  ViewStyle,
+} from 'react-native';
 import { useProfileContext } from '../../contexts/ProfileContext';
 import {
-  profileFormSchema,
+  PROFILE_VISIBILITY_OPTIONS,
+  createProfileFormSchema,
   transformFormToUpdate,
   transformFormToInsert,
   type ProfileFormInput,
 } from '../../validation/profileSchema';
+import type { PrivacyField, ProfileVisibility } from '../../types/profile';
 // Note: Not importing ZodError directly to avoid React Native prototype issues
 // Will check for ZodError shape manually
 import { FormInput } from '../forms/FormInput.native';
 import { FormButton } from '../forms/FormButton.native';
 import { FormError } from '../forms/FormError.native';
+import { useUsernameAvailability } from '../../hooks/useUsernameAvailability';
 import { AvatarUpload } from './AvatarUpload.native';
 import { Logger } from '../../utils/logger';
 
@@ -50,6 +59,56 @@ const isZodErrorShape = (error: unknown): error is ZodErrorShape => {
   });
 };
 
+interface VisibilityPickerProps {
+  field: PrivacyField;
+  value: ProfileVisibility;
+  onChange: (field: PrivacyField, value: ProfileVisibility) => void;
+  disabled: boolean;
+}
+
+// Who can see a field; enforced by the public_profiles view
+function VisibilityPicker({
+  field,
+  value,
+  onChange,
+  disabled,
+}: VisibilityPickerProps) {
+  return (
+    <View style={styles.visibilityRow}>
+      <Text style={styles.visibilityLabel}>Visible to</Text>
+      <View style={styles.visibilityOptions}>
+        {PROFILE_VISIBILITY_OPTIONS.map(option => {
+          const selected = option.value === value;
+          return (
+            <TouchableOpacity
+              key={option.value}
+              style={[
+                styles.visibilityOption,
+                selected && styles.visibilityOptionSelected,
+                disabled && styles.visibilityOptionDisabled,
+              ]}
+              onPress={() => onChange(field, option.value)}
+              disabled={disabled}
+              accessibilityRole='button'
+              accessibilityState={{ selected, disabled }}
+              accessibilityLabel={`${field} visible to ${option.label}`}
+            >
+              <Text
+                style={[
+                  styles.visibilityOptionText,
+                  selected && styles.visibilityOptionTextSelected,
+                ]}
+              >
+                {option.label}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+    </View>
+  );
+}
+
 /**
  * ProfileEditor component for React Native
  * Provides a form for editing user profile information
@@ -69,10 +128,21 @@ export function ProfileEditor({
     website: '',
     location: '',
     avatar_url: '',
+    bio_visibility: 'public',
+    location_visibility: 'public',
+    website_visibility: 'public',
   });
   const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
   const [generalError, setGeneralError] = useState<string | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const usernameAvailability = useUsernameAvailability(
+    supabaseClient,
+    formData.username ?? '',
+    { currentUsername: profile.profile?.username ?? null }
+  );
+  const usernameError =
+    fieldErrors['username'] ??
+    (usernameAvailability.isUnavailable ? usernameAvailability.message : null);
 
   // Initialize form data when profile loads
   useEffect(() => {
@@ -84,6 +154,9 @@ export function ProfileEditor({
         website: profile.profile['website'] || '',
         location: profile.profile['location'] || '',
         avatar_url: profile.profile['avatar_url'] || '',
+        bio_visibility: profile.profile['bio_visibility'],
+        location_visibility: profile.profile['location_visibility'],
+        website_visibility: profile.profile['website_visibility'],
       });
       setFieldErrors({});
       setGeneralError(null);
@@ -108,14 +181,29 @@ export function ProfileEditor({
     [fieldErrors, generalError]
   );
 
+  const handleVisibilityChange = useCallback(
+    (field: PrivacyField, value: ProfileVisibility) => {
+      setFormData(prev => ({ ...prev, [`${field}_visibility`]: value }));
+    },
+    []
+  );
+
   // Memoize form inputs BEFORE early returns to comply with Rules of Hooks
   // All hooks must be called in the same order on every render
   const formInputs = useMemo(() => {
-    const usernameError = fieldErrors['username'];
     const displayNameError = fieldErrors['display_name'];
     const bioError = fieldErrors['bio'];
     const websiteError = fieldErrors['website'];
     const locationError = fieldErrors['location'];
+    const visibilityPicker = (field: PrivacyField) => (
+      <VisibilityPicker
+        key={`${field}_visibility`}
+        field={field}
+        value={formData[`${field}_visibility`] ?? 'public'}
+        onChange={handleVisibilityChange}
+        disabled={isSubmitting || profile.loading}
+      />
+    );
 
     return (
       <>
@@ -125,6 +213,9 @@ export function ProfileEditor({
           value={formData.username ?? ''}
           onChange={handleFieldChange.bind(null, 'username')}
           {...(usernameError ? { error: usernameError } : {})}
+          {...(usernameAvailability.message
+            ? { hint: usernameAvailability.message }
+            : {})}
           placeholder='Enter username (optional)'
           disabled={isSubmitting || profile.loading}
         />
@@ -150,6 +241,7 @@ export function ProfileEditor({
           numberOfLines={4}
           disabled={isSubmitting || profile.loading}
         />
+        {visibilityPicker('bio')}
 
         <FormInput
           key='website'
@@ -162,6 +254,7 @@ export function ProfileEditor({
           autoCapitalize='none'
           disabled={isSubmitting || profile.loading}
         />
+        {visibilityPicker('website')}
 
         <FormInput
           key='location'
@@ -172,9 +265,19 @@ export function ProfileEditor({
           placeholder='Enter your location (optional)'
           disabled={isSubmitting || profile.loading}
         />
+        {visibilityPicker('location')}
       </>
     );
-  }, [formData, fieldErrors, isSubmitting, profile.loading, handleFieldChange]);
+  }, [
+    formData,
+    fieldErrors,
+    usernameError,
+    usernameAvailability.message,
+    isSubmitting,
+    profile.loading,
+    handleFieldChange,
+    handleVisibilityChange,
+  ]);
 
   const handleSubmit = useCallback(async () => {
     if (!user) {
@@ -184,6 +287,11 @@ export function ProfileEditor({
       return;
     }
 
+    if (usernameError) {
+      setFieldErrors({ username: usernameError });
+      return;
+    }
+
     setIsSubmitting(true);
     setFieldErrors({});
     setGeneralError(null);
@@ -193,7 +301,9 @@ export function ProfileEditor({
       Logger.debug('[ProfileEditor] Has existing profile:', !!profile.profile);
 
       // Validate form data
-      const validatedData = profileFormSchema.parse(formData);
+      const validatedData = createProfileFormSchema(
+        profile.profile?.username
+      ).parse(formData);
       Logger.debug('[ProfileEditor] Validation passed:', validatedData);
 
       // Transform to database format (empty strings -> null)
@@ -257,6 +367,7 @@ export function ProfileEditor({
   }, [
     user,
     formData,
+    usernameError,
     profile.profile,
     profile.updateProfile,
     profile.createProfile,
@@ -377,4 +488,39 @@ const styles = StyleSheet.create({
     fontSize: 14,
     color: '#6B7280',
   },
+  visibilityRow: {
+    marginTop: -8,
+    gap: 6,
+  },
+  visibilityLabel: {
+    fontSize: 12,
+    color: '#6B7280',
+  },
+  visibilityOptions: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  visibilityOption: {
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+    borderRadius: 6,
+    borderWidth: 1,
+    borderColor: '#D1D5DB',
+    backgroundColor: '#FFFFFF',
+  },
+  visibilityOptionSelected: {
+    borderColor: '#3B82F6',
+    backgroundColor: '#EFF6FF',
+  },
+  visibilityOptionDisabled: {
+    opacity: 0.5,
+  },
+  visibilityOptionText: {
+    fontSize: 12,
+    color: '#374151',
+  },
+  visibilityOptionTextSelected: {
+    color: '#1D4ED8',
+    fontWeight: '600',
+  },
 });
@@ -1,16 +1,19 @@
 import { useState, useEffect } from 'react';
 import { useProfileContext } from '../../contexts/ProfileContext';
 import {
-  profileFormSchema,
+  PROFILE_VISIBILITY_OPTIONS,
+  createProfileFormSchema,
   transformFormToUpdate,
   transformFormToInsert,
   type ProfileFormInput,
 } from '../../validation/profileSchema';
+import type { PrivacyField, ProfileVisibility } from '../../types/profile';
 import { ZodError } from 'zod';
 import { FormInput } from '../forms/FormInput.web';
 import { FormButton } from '../forms/FormButton.web';
 import { FormError } from '../forms/FormError.web';
 import { AvatarUpload } from './AvatarUpload.web';
+import { useUsernameAvailability } from '../../hooks/useUsernameAvailability';
 import { Logger } from '../../utils/logger';
 
 export interface ProfileEditorProps {
@@ -19,6 +22,44 @@ export interface ProfileEditorProps {
   className?: string;
 }
 
+interface VisibilitySelectProps {
+  field: PrivacyField;
+  value: ProfileVisibility;
+  onChange: (value: ProfileVisibility) => void;
+  disabled: boolean;
+}
+
+// Who can see a field; enforced by the public_profiles view
+function VisibilitySelect({
+  field,
+  value,
+  onChange,
+  disabled,
+}: VisibilitySelectProps) {
+  const id = `${field}-visibility`;
+
+  return (
+    <div className='-mt-2 flex items-center justify-end gap-2'>
+      <label htmlFor={id} className='text-xs text-gray-500'>
+        Visible to
+      </label>
+      <select
+        id={id}
+        value={value}
+        onChange={e => onChange(e.target.value as ProfileVisibility)}
+        disabled={disabled}
+        className='rounded-md border border-gray-300 py-1 pl-2 pr-7 text-xs text-gray-700 focus:border-primary-500 focus:outline-none focus:ring-primary-500 disabled:cursor-not-allowed disabled:opacity-50'
+      >
+        {PROFILE_VISIBILITY_OPTIONS.map(option => (
+          <option key={option.value} value={option.value}>
+            {option.label}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
+
 /**
  * ProfileEditor component for web
  * Provides a form for editing user profile information
@@ -44,10 +85,21 @@ export function ProfileEditor({
     website: '',
     location: '',
     avatar_url: '',
+    bio_visibility: 'public',
+    location_visibility: 'public',
+    website_visibility: 'public',
   });
   const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
   const [generalError, setGeneralError] = useState<string | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const usernameAvailability = useUsernameAvailability(
+    supabaseClient,
+    formData.username ?? '',
+    { currentUsername: profileData?.username ?? null }
+  );
+  const usernameError =
+    fieldErrors['username'] ??
+    (usernameAvailability.isUnavailable ? usernameAvailability.message : null);
 
   // Initialize form data when profile loads
   useEffect(() => {
@@ -59,6 +111,9 @@ export function ProfileEditor({
         website: profileData['website'] || '',
         location: profileData['location'] || '',
         avatar_url: profileData['avatar_url'] || '',
+        bio_visibility: profileData['bio_visibility'],
+        location_visibility: profileData['location_visibility'],
+        website_visibility: profileData['website_visibility'],
       });
       setFieldErrors({});
       setGeneralError(null);
@@ -80,6 +135,22 @@ export function ProfileEditor({
     }
   };
 
+  const handleVisibilityChange = (
+    field: PrivacyField,
+    value: ProfileVisibility
+  ) => {
+    setFormData(prev => ({ ...prev, [`${field}_visibility`]: value }));
+  };
+
+  const visibilitySelect = (field: PrivacyField) => (
+    <VisibilitySelect
+      field={field}
+      value={formData[`${field}_visibility`] ?? 'public'}
+      onChange={value => handleVisibilityChange(field, value)}
+      disabled={isSubmitting || loading}
+    />
+  );
+
   const handleSubmit = async () => {
     if (!currentUser) {
       const error = new Error('User must be logged in to update profile');
@@ -88,13 +159,20 @@ export function ProfileEditor({
       return;
     }
 
+    if (usernameError) {
+      setFieldErrors({ username: usernameError });
+      return;
+    }
+
     setIsSubmitting(true);
     setFieldErrors({});
     setGeneralError(null);
 
     try {
       // Validate form data
-      const validatedData = profileFormSchema.parse(formData);
+      const validatedData = createProfileFormSchema(
+        profileData?.username
+      ).parse(formData);
 
       // Transform to database format (empty strings -> null)
       const updateData = profileData
@@ -158,8 +236,9 @@ export function ProfileEditor({
           label='Username'
           value={formData.username ?? ''}
           onChange={value => handleFieldChange('username', value)}
-          {...(fieldErrors['username']
-            ? { error: fieldErrors['username'] }
+          {...(usernameError ? { error: usernameError } : {})}
+          {...(usernameAvailability.message
+            ? { hint: usernameAvailability.message }
             : {})}
           placeholder='Enter username (optional)'
           disabled={isSubmitting || loading}
@@ -186,6 +265,7 @@ export function ProfileEditor({
           rows={4}
           disabled={isSubmitting || loading}
         />
+        {visibilitySelect('bio')}
 
         <FormInput
           label='Website'
@@ -196,6 +276,7 @@ export function ProfileEditor({
           type='url'
           disabled={isSubmitting || loading}
         />
+        {visibilitySelect('website')}
 
         <FormInput
           label='Location'
@@ -207,6 +288,7 @@ export function ProfileEditor({
           placeholder='Enter your location (optional)'
           disabled={isSubmitting || loading}
         />
+        {visibilitySelect('location')}
 
         <AvatarUpload
           currentAvatarUrl={profileData?.avatar_url || null}
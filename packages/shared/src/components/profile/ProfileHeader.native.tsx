@@ -1,10 +1,10 @@
 import { View, Text, StyleSheet, ViewStyle, Linking } from 'react-native';
 import { ProfileAvatar } from './ProfileAvatar.native';
-import type { UserProfile } from '../../types/profile';
+import type { PublicProfile, UserProfile } from '../../types/profile';
 import { Logger } from '../../utils/logger';
 
 export interface ProfileHeaderProps {
-  profile: UserProfile | null;
+  profile: UserProfile | PublicProfile | null;
   email?: string | null;
   style?: ViewStyle;
 }
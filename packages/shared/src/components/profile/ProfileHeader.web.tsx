@@ -1,8 +1,8 @@
 import { ProfileAvatar } from './ProfileAvatar.web';
-import type { UserProfile } from '../../types/profile';
+import type { PublicProfile, UserProfile } from '../../types/profile';
 
 export interface ProfileHeaderProps {
-  profile: UserProfile | null;
+  profile: UserProfile | PublicProfile | null;
   email?: string | null;
   className?: string;
 }
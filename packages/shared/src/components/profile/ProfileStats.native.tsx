@@ -1,16 +1,41 @@
-import { View, Text, StyleSheet, ViewStyle } from 'react-native';
-import type { UserProfile } from '../../types/profile';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  ViewStyle,
+} from 'react-native';
+import type { PublicProfile, UserProfile } from '../../types/profile';
+
+export interface FollowCounts {
+  followers: number;
+  following: number;
+}
 
 export interface ProfileStatsProps {
-  profile: UserProfile | null;
+  profile: UserProfile | PublicProfile | null;
+  // Viewing someone else's profile: hide stats only useful to its owner
+  readOnly?: boolean;
+  // Follower/following counts; shown when given
+  followCounts?: FollowCounts;
+  // Make the counts open the follower or following list
+  onShowFollowers?: () => void;
+  onShowFollowing?: () => void;
   style?: ViewStyle;
 }
 
 /**
  * ProfileStats component for React Native
- * Displays user profile statistics like member since date
+ * Displays user profile statistics like member since date and follower counts
  */
-export function ProfileStats({ profile, style }: ProfileStatsProps) {
+export function ProfileStats({
+  profile,
+  readOnly = false,
+  followCounts,
+  onShowFollowers,
+  onShowFollowing,
+  style,
+}: ProfileStatsProps) {
   if (!profile) {
     return null;
   }
@@ -50,14 +75,35 @@ export function ProfileStats({ profile, style }: ProfileStatsProps) {
   };
 
   const memberSince = getMemberSinceDate();
-  const completion = getProfileCompletion();
+  const completion = readOnly ? 0 : getProfileCompletion();
 
-  if (!memberSince && completion === 0) {
+  if (!memberSince && completion === 0 && !followCounts) {
     return null;
   }
 
+  const pluralize = (count: number, singular: string, plural: string) =>
+    `${count} ${count === 1 ? singular : plural}`;
+
+  const renderCount = (label: string, onPress?: () => void) =>
+    onPress ? (
+      <TouchableOpacity onPress={onPress} accessibilityRole='button'>
+        <Text style={[styles.count, styles.countLink]}>{label}</Text>
+      </TouchableOpacity>
+    ) : (
+      <Text style={styles.count}>{label}</Text>
+    );
+
   return (
     <View style={[styles.container, style]}>
+      {followCounts && (
+        <View style={styles.counts}>
+          {renderCount(
+            pluralize(followCounts.followers, 'Follower', 'Followers'),
+            onShowFollowers
+          )}
+          {renderCount(`${followCounts.following} Following`, onShowFollowing)}
+        </View>
+      )}
       {memberSince && (
         <Text style={styles.stat}>
           <Text style={styles.label}>Member since: </Text>
@@ -78,6 +124,18 @@ const styles = StyleSheet.create({
   container: {
     gap: 8,
   },
+  counts: {
+    flexDirection: 'row',
+    gap: 16,
+  },
+  count: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  countLink: {
+    color: '#3b82f6',
+  },
   stat: {
     fontSize: 14,
     color: '#6b7280',
@@ -1,15 +1,34 @@
-import type { UserProfile } from '../../types/profile';
+import type { PublicProfile, UserProfile } from '../../types/profile';
+
+export interface FollowCounts {
+  followers: number;
+  following: number;
+}
 
 export interface ProfileStatsProps {
-  profile: UserProfile | null;
+  profile: UserProfile | PublicProfile | null;
+  // Viewing someone else's profile: hide stats only useful to its owner
+  readOnly?: boolean;
+  // Follower/following counts; shown when given
+  followCounts?: FollowCounts;
+  // Make the counts open the follower or following list
+  onShowFollowers?: () => void;
+  onShowFollowing?: () => void;
   className?: string;
 }
 
 /**
  * ProfileStats component for web
- * Displays user profile statistics like member since date
+ * Displays user profile statistics like member since date and follower counts
  */
-export function ProfileStats({ profile, className = '' }: ProfileStatsProps) {
+export function ProfileStats({
+  profile,
+  readOnly = false,
+  followCounts,
+  onShowFollowers,
+  onShowFollowing,
+  className = '',
+}: ProfileStatsProps) {
   if (!profile) {
     return null;
   }
@@ -49,14 +68,39 @@ export function ProfileStats({ profile, className = '' }: ProfileStatsProps) {
   };
 
   const memberSince = getMemberSinceDate();
-  const completion = getProfileCompletion();
+  const completion = readOnly ? 0 : getProfileCompletion();
 
-  if (!memberSince && completion === 0) {
+  if (!memberSince && completion === 0 && !followCounts) {
     return null;
   }
 
+  const pluralize = (count: number, singular: string, plural: string) =>
+    `${count} ${count === 1 ? singular : plural}`;
+
+  const renderCount = (label: string, onClick?: () => void) =>
+    onClick ? (
+      <button
+        type='button'
+        onClick={onClick}
+        className='font-medium text-gray-900 hover:text-primary-600 hover:underline'
+      >
+        {label}
+      </button>
+    ) : (
+      <span className='font-medium text-gray-900'>{label}</span>
+    );
+
   return (
     <div className={`space-y-2 ${className}`}>
+      {followCounts && (
+        <div className='flex gap-4 text-sm'>
+          {renderCount(
+            pluralize(followCounts.followers, 'Follower', 'Followers'),
+            onShowFollowers
+          )}
+          {renderCount(`${followCounts.following} Following`, onShowFollowing)}
+        </div>
+      )}
       {memberSince && (
         <div className='text-sm text-gray-600'>
           <span className='font-medium'>Member since:</span> {memberSince}
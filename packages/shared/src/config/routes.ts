@@ -0,0 +1,127 @@
+import type { AppRole, AuthRedirectTarget } from '../types/auth';
+
+// Route registry shared by web and mobile.
+// Every page is declared once here: its name (the mobile screen name), URL
+// path, params, auth requirements and title. The web <Routes>, the mobile
+// stack screens and deep links are generated from it, so /profile,
+// /dashboard, /auth/callback, ... resolve to the same page on both platforms.
+
+// Passed to ProtectedRoute; present only on routes that need a signed-in user
+export interface RouteAuth {
+  requireAal2?: boolean;
+  allowGuests?: boolean;
+  requiredRoles?: AppRole[];
+  requireVerifiedEmail?: boolean;
+}
+
+export interface RouteDefinition {
+  // React Router path on web and deep link path on mobile
+  path: string;
+  // Document title on web, header title on mobile
+  title: string;
+  auth?: RouteAuth;
+}
+
+// Params of the auth screens, which send the user back where they came from
+export interface AuthRedirectParams {
+  redirectTo?: AuthRedirectTarget;
+}
+
+// Params of the "check your inbox" screen
+export interface VerifyEmailParams extends AuthRedirectParams {
+  // Address the confirmation email went to, for resending it
+  email?: string;
+}
+
+// Params of a user's public profile
+export interface PublicProfileParams {
+  username: string;
+}
+
+// Params of each route; the mobile stack's param list
+export type RootStackParamList = {
+  Home: undefined;
+  Login: AuthRedirectParams | undefined;
+  Signup: AuthRedirectParams | undefined;
+  ResetPassword: undefined;
+  VerifyEmail: VerifyEmailParams | undefined;
+  Dashboard: undefined;
+  Profile: undefined;
+  Security: undefined;
+  Sessions: undefined;
+  People: undefined;
+  PublicProfile: PublicProfileParams;
+  Moderation: undefined;
+  MfaChallenge: AuthRedirectParams | undefined;
+  // Query and fragment params of the callback URL
+  AuthCallback: Record<string, string> | undefined;
+};
+
+export type RouteName = keyof RootStackParamList;
+
+export const ROUTES: Record<RouteName, RouteDefinition> = {
+  Home: { path: '/', title: 'Home' },
+  Login: { path: '/login', title: 'Sign in' },
+  Signup: { path: '/signup', title: 'Sign up' },
+  ResetPassword: { path: '/reset-password', title: 'Reset password' },
+  VerifyEmail: { path: '/verify-email', title: 'Check your inbox' },
+  Dashboard: {
+    path: '/dashboard',
+    title: 'Dashboard',
+    auth: { requireAal2: true, allowGuests: true },
+  },
+  Profile: {
+    path: '/profile',
+    title: 'Profile',
+    auth: { requireAal2: true, requireVerifiedEmail: true },
+  },
+  Security: {
+    path: '/security',
+    title: 'Security',
+    auth: { requireAal2: true, requireVerifiedEmail: true },
+  },
+  Sessions: {
+    path: '/sessions',
+    title: 'Devices',
+    auth: { requireAal2: true, requireVerifiedEmail: true },
+  },
+  People: {
+    path: '/people',
+    title: 'People',
+    auth: { allowGuests: true },
+  },
+  PublicProfile: { path: '/u/:username', title: 'Profile' },
+  Moderation: {
+    path: '/moderation',
+    title: 'Reports',
+    auth: { requireAal2: true, requiredRoles: ['admin'] },
+  },
+  MfaChallenge: { path: '/mfa', title: 'Two-factor authentication' },
+  AuthCallback: { path: '/auth/callback', title: 'Signing in' },
+};
+
+export const ROUTE_NAMES = Object.keys(ROUTES) as RouteName[];
+
+export function routePath(name: RouteName): string {
+  return ROUTES[name].path;
+}
+
+// Web path of a user's public profile, e.g. /u/ada
+export function publicProfilePath(username: string): string {
+  return routePath('PublicProfile').replace(
+    ':username',
+    encodeURIComponent(username)
+  );
+}
+
+/**
+ * Screens section of a React Navigation linking config
+ * React Navigation matches paths without the leading slash ('' for Home).
+ */
+export function getLinkingScreens(): Record<RouteName, string> {
+  const screens = {} as Record<RouteName, string>;
+  for (const name of ROUTE_NAMES) {
+    screens[name] = routePath(name).replace(/^\//, '');
+  }
+  return screens;
+}
@@ -1,6 +1,7 @@
 import { createContext, useContext, ReactNode } from 'react';
 import type { SupabaseClient } from '@supabase/supabase-js';
 import { useAuth } from '../hooks/useAuth';
+import { useSessionHeartbeat } from '../hooks/useSessionHeartbeat';
 import type { AuthHookReturn } from '../types/auth';
 
 interface AuthProviderProps {
@@ -18,6 +19,7 @@ const AuthContext = createContext<AuthHookReturn | undefined>(undefined);
  */
 export function AuthProvider({ children, supabaseClient }: AuthProviderProps) {
   const auth = useAuth(supabaseClient);
+  useSessionHeartbeat(supabaseClient, auth.session);
 
   return <AuthContext.Provider value={auth}>{children}</AuthContext.Provider>;
 }
@@ -0,0 +1,15 @@
+import { useNavigation } from '@react-navigation/native';
+import type { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import type { RootStackParamList, RouteName } from '../config/routes';
+
+export type AppNavigation<Name extends RouteName = RouteName> =
+  NativeStackNavigationProp<RootStackParamList, Name>;
+
+/**
+ * Navigate by route name on mobile (React Navigation)
+ * Typed with the registry's param list, so screen names and params are
+ * checked at compile time.
+ */
+export function useAppNavigation(): AppNavigation {
+  return useNavigation<AppNavigation>();
+}
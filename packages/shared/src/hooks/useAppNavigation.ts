@@ -0,0 +1,27 @@
+import { useMemo } from 'react';
+import { useNavigate, type NavigateOptions } from 'react-router-dom';
+import { routePath, type RouteName } from '../config/routes';
+
+export interface AppNavigation {
+  navigate: (name: RouteName, options?: NavigateOptions) => void;
+  replace: (name: RouteName, options?: NavigateOptions) => void;
+}
+
+/**
+ * Navigate by route name on web (React Router)
+ * Paths come from the route registry, so a renamed path only changes there.
+ * The native counterpart returns the stack navigation typed with the same
+ * route names.
+ */
+export function useAppNavigation(): AppNavigation {
+  const navigate = useNavigate();
+
+  return useMemo(
+    () => ({
+      navigate: (name, options) => navigate(routePath(name), options),
+      replace: (name, options) =>
+        navigate(routePath(name), { ...options, replace: true }),
+    }),
+    [navigate]
+  );
+}
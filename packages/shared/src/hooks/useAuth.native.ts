@@ -1,7 +1,25 @@
 import { useState, useEffect } from 'react';
-import type { SupabaseClient, User, Session } from '@supabase/supabase-js';
-import type { AuthHookReturn } from '../types/auth';
+import { Platform } from 'react-native';
+import type {
+  EmailOtpType,
+  Provider,
+  SupabaseClient,
+  User,
+  Session,
+  UserIdentity,
+} from '@supabase/supabase-js';
+import type {
+  AuthError,
+  AuthHookReturn,
+  SignUpProfile,
+  SignUpResult,
+  SocialProvider,
+} from '../types/auth';
 import { Logger } from '../utils/logger';
+import { getAssuranceLevel } from '../utils/assuranceLevel';
+import { getRoles } from '../utils/roles';
+import { createAuthError, toAuthError } from '../utils/authErrors';
+import { getSignUpMetadata } from '../validation/profileSchema';
 
 type GoogleSignInModule = {
   configure(config: {
@@ -24,6 +42,24 @@ type GoogleStatusCodes = {
   [key: string]: string;
 };
 
+type AppleAuthenticationModule = {
+  isAvailableAsync(): Promise<boolean>;
+  signInAsync(options: {
+    requestedScopes: number[];
+  }): Promise<{ identityToken: string | null }>;
+  AppleAuthenticationScope: {
+    FULL_NAME: number;
+    EMAIL: number;
+  };
+};
+
+type WebBrowserModule = {
+  openAuthSessionAsync(
+    url: string,
+    redirectUrl: string
+  ): Promise<{ type: string; url?: string }>;
+};
+
 type SupabaseAuthStorage = {
   getAllKeys: () => Promise<string[]>;
   removeItem: (key: string) => Promise<void>;
@@ -49,6 +85,33 @@ async function getGoogleSignIn(): Promise<{
   return { GoogleSignin, statusCodes };
 }
 
+let AppleAuthentication: AppleAuthenticationModule | null = null;
+let WebBrowser: WebBrowserModule | null = null;
+
+async function getAppleAuthentication(): Promise<AppleAuthenticationModule | null> {
+  if (!AppleAuthentication) {
+    try {
+      const module = await import('expo-apple-authentication');
+      AppleAuthentication = module as AppleAuthenticationModule;
+    } catch (err) {
+      Logger.warn('[useAuth] Apple Authentication module not available:', err);
+    }
+  }
+  return AppleAuthentication;
+}
+
+async function getWebBrowser(): Promise<WebBrowserModule | null> {
+  if (!WebBrowser) {
+    try {
+      const module = await import('expo-web-browser');
+      WebBrowser = module as WebBrowserModule;
+    } catch (err) {
+      Logger.warn('[useAuth] Web Browser module not available:', err);
+    }
+  }
+  return WebBrowser;
+}
+
 const getAuthStorage = (client: SupabaseClient): SupabaseAuthStorage | null => {
   const authCandidate = client.auth as unknown;
   if (
@@ -116,11 +179,179 @@ export function configureGoogleSignIn(options?: {
     });
 }
 
+// Deep link the OAuth provider sends the in-app auth session back to
+const OAUTH_REDIRECT_URL = 'beaker-stack://auth/callback';
+
+// Apple sign-in uses the native sheet on iOS and falls back to the OAuth
+// redirect flow in an auth browser session everywhere else (Android, or iOS
+// when native sign-in is disabled or unavailable)
+const appleSignInConfig: {
+  useNativeSignIn: boolean;
+  redirectTo: string;
+} = {
+  useNativeSignIn: true,
+  redirectTo: OAUTH_REDIRECT_URL,
+};
+
+// Export this function to be called on app startup to override the defaults
+export function configureAppleSignIn(options?: {
+  useNativeSignIn?: boolean;
+  redirectTo?: string;
+}) {
+  if (options?.useNativeSignIn !== undefined) {
+    appleSignInConfig.useNativeSignIn = options.useNativeSignIn;
+  }
+  if (options?.redirectTo) {
+    appleSignInConfig.redirectTo = options.redirectTo;
+  }
+}
+
+// Merge query and fragment params from an OAuth callback URL. The implicit
+// flow returns tokens in the fragment, PKCE returns a code in the query.
+function getCallbackParams(url: string): URLSearchParams {
+  const [withoutHash = '', hash = ''] = url.split('#');
+  const params = new URLSearchParams(withoutHash.split('?')[1] ?? '');
+  new URLSearchParams(hash).forEach((value, key) => params.set(key, value));
+  return params;
+}
+
+// Finish an OAuth redirect flow in an in-app auth session: open the
+// provider's authorization URL and store the session it redirects back with
+async function completeOAuthSession(
+  client: SupabaseClient,
+  url: string | null,
+  redirectTo: string
+): Promise<void> {
+  const browser = await getWebBrowser();
+
+  if (!browser) {
+    throw new Error('Web Browser module not available');
+  }
+
+  if (!url) {
+    throw new Error('No authorization URL received');
+  }
+
+  const result = await browser.openAuthSessionAsync(url, redirectTo);
+
+  if (result.type !== 'success' || !result.url) {
+    throw createAuthError({ code: 'cancelled' });
+  }
+
+  await completeSessionFromCallback(client, getCallbackParams(result.url));
+}
+
+/**
+ * Store the session carried by an auth callback (OAuth redirect or email link)
+ * Handles every shape Supabase sends to beaker-stack://auth/callback: an error,
+ * a PKCE code, a token_hash to verify, or implicit-flow tokens.
+ */
+export async function completeSessionFromCallback(
+  client: SupabaseClient,
+  params: URLSearchParams
+): Promise<void> {
+  const errorDescription = params.get('error_description');
+  const code = params.get('code');
+  const tokenHash = params.get('token_hash');
+  const type = params.get('type') as EmailOtpType | null;
+  const accessToken = params.get('access_token');
+  const refreshToken = params.get('refresh_token');
+
+  if (errorDescription) {
+    throw toAuthError({
+      code: params.get('error_code'),
+      message: errorDescription,
+    });
+  }
+
+  if (code) {
+    const { error: exchangeError } =
+      await client.auth.exchangeCodeForSession(code);
+    if (exchangeError) {
+      throw exchangeError;
+    }
+    return;
+  }
+
+  if (tokenHash && type) {
+    const { error: verifyError } = await client.auth.verifyOtp({
+      token_hash: tokenHash,
+      type,
+    });
+    if (verifyError) {
+      throw verifyError;
+    }
+    return;
+  }
+
+  if (!accessToken || !refreshToken) {
+    throw new Error('No session received from sign-in redirect');
+  }
+
+  const { error: sessionError } = await client.auth.setSession({
+    access_token: accessToken,
+    refresh_token: refreshToken,
+  });
+
+  if (sessionError) {
+    throw sessionError;
+  }
+}
+
+// OAuth sign-in for providers without a native SDK on the current platform
+async function signInWithOAuthSession(
+  client: SupabaseClient,
+  provider: Provider,
+  redirectTo: string
+): Promise<void> {
+  const { data, error: oauthError } = await client.auth.signInWithOAuth({
+    provider,
+    options: { redirectTo, skipBrowserRedirect: true },
+  });
+
+  if (oauthError) {
+    throw oauthError;
+  }
+
+  await completeOAuthSession(client, data.url, redirectTo);
+}
+
+// Identity linking always uses the provider's web consent, so it works the
+// same for every provider without the native SDKs
+async function linkIdentityWithOAuthSession(
+  client: SupabaseClient,
+  provider: Provider,
+  redirectTo: string
+): Promise<void> {
+  const { data, error: linkError } = await client.auth.linkIdentity({
+    provider,
+    options: { redirectTo, skipBrowserRedirect: true },
+  });
+
+  if (linkError) {
+    throw linkError;
+  }
+
+  await completeOAuthSession(client, data.url, redirectTo);
+}
+
 export function useAuth(supabaseClient: SupabaseClient): AuthHookReturn {
   const [user, setUser] = useState<User | null>(null);
   const [session, setSession] = useState<Session | null>(null);
   const [loading, setLoading] = useState<boolean>(true);
-  const [error, setError] = useState<Error | null>(null);
+  const [error, setError] = useState<AuthError | null>(null);
+  const [passwordRecovery, setPasswordRecovery] = useState<boolean>(false);
+
+  // Derived from the session so it can never lag behind a session change
+  const { currentLevel, nextLevel } = getAssuranceLevel(session);
+  const needsSecondFactor = nextLevel === 'aal2' && currentLevel !== 'aal2';
+  const identities = user?.identities ?? [];
+  const isGuest = user?.is_anonymous ?? false;
+  const emailVerified = !!user?.email_confirmed_at;
+  const roles = getRoles(session);
+  const pendingEmailChange = user?.new_email
+    ? { newEmail: user.new_email, sentAt: user.email_change_sent_at ?? null }
+    : null;
 
   useEffect(() => {
     supabaseClient.auth.getSession().then(({ data: { session } }) => {
@@ -131,7 +362,12 @@ export function useAuth(supabaseClient: SupabaseClient): AuthHookReturn {
 
     const {
       data: { subscription },
-    } = supabaseClient.auth.onAuthStateChange((_event, newSession) => {
+    } = supabaseClient.auth.onAuthStateChange((event, newSession) => {
+      if (event === 'PASSWORD_RECOVERY') {
+        setPasswordRecovery(true);
+      } else if (event === 'SIGNED_OUT' || event === 'USER_UPDATED') {
+        setPasswordRecovery(false);
+      }
       setSession(newSession);
       setUser(newSession?.user ?? null);
       setLoading(false);
@@ -154,25 +390,52 @@ export function useAuth(supabaseClient: SupabaseClient): AuthHookReturn {
     setLoading(false);
 
     if (signInError) {
-      const errorObj = new Error(signInError.message);
+      const errorObj = toAuthError(signInError);
       setError(errorObj);
       throw errorObj;
     }
   };
 
-  const signUp = async (email: string, password: string): Promise<void> => {
+  const signUp = async (
+    email: string,
+    password: string,
+    profile: SignUpProfile = {}
+  ): Promise<SignUpResult> => {
     setLoading(true);
     setError(null);
 
-    const { error: signUpError } = await supabaseClient.auth.signUp({
+    // The confirmation email deep links back into the app
+    const { data, error: signUpError } = await supabaseClient.auth.signUp({
       email,
       password,
+      options: {
+        emailRedirectTo: OAUTH_REDIRECT_URL,
+        data: getSignUpMetadata(profile),
+      },
     });
 
     setLoading(false);
 
     if (signUpError) {
-      const errorObj = new Error(signUpError.message);
+      const errorObj = toAuthError(signUpError);
+      setError(errorObj);
+      throw errorObj;
+    }
+
+    return { emailVerificationRequired: !data.session };
+  };
+
+  const resendVerificationEmail = async (email: string): Promise<void> => {
+    setError(null);
+
+    const { error: resendError } = await supabaseClient.auth.resend({
+      type: 'signup',
+      email,
+      options: { emailRedirectTo: OAUTH_REDIRECT_URL },
+    });
+
+    if (resendError) {
+      const errorObj = toAuthError(resendError);
       setError(errorObj);
       throw errorObj;
     }
@@ -253,6 +516,36 @@ export function useAuth(supabaseClient: SupabaseClient): AuthHookReturn {
     }
   };
 
+  const signOutOtherDevices = async (): Promise<void> => {
+    setError(null);
+
+    const { error: signOutError } = await supabaseClient.auth.signOut({
+      scope: 'others',
+    });
+
+    if (signOutError) {
+      const errorObj = toAuthError(signOutError);
+      setError(errorObj);
+      throw errorObj;
+    }
+  };
+
+  const signOutEverywhere = async (): Promise<void> => {
+    setError(null);
+
+    // Unlike signOut, a failure here must not look like success: the other
+    // sessions would still be valid
+    const { error: signOutError } = await supabaseClient.auth.signOut({
+      scope: 'global',
+    });
+
+    if (signOutError) {
+      const errorObj = toAuthError(signOutError);
+      setError(errorObj);
+      throw errorObj;
+    }
+  };
+
   const signInWithGoogle = async (): Promise<void> => {
     setLoading(true);
     setError(null);
@@ -298,13 +591,14 @@ export function useAuth(supabaseClient: SupabaseClient): AuthHookReturn {
           const code = (err as { code?: string }).code;
 
           if (code === codes.SIGN_IN_CANCELLED) {
-            const cancelError = new Error('Google sign-in was cancelled');
+            const cancelError = createAuthError({ code: 'cancelled' });
             setError(cancelError);
             throw cancelError;
           }
 
           if (code === codes.IN_PROGRESS) {
-            const progressError = new Error(
+            const progressError = createAuthError(
+              { code: 'unknown' },
               'Google sign-in already in progress'
             );
             setError(progressError);
@@ -312,7 +606,8 @@ export function useAuth(supabaseClient: SupabaseClient): AuthHookReturn {
           }
 
           if (code === codes.PLAY_SERVICES_NOT_AVAILABLE) {
-            const servicesError = new Error(
+            const servicesError = createAuthError(
+              { code: 'provider_disabled' },
               'Google Play Services not available'
             );
             setError(servicesError);
@@ -321,7 +616,7 @@ export function useAuth(supabaseClient: SupabaseClient): AuthHookReturn {
         }
       }
 
-      const errorObj = err instanceof Error ? err : new Error(String(err));
+      const errorObj = toAuthError(err);
       setError(errorObj);
       throw errorObj;
     } finally {
@@ -329,14 +624,367 @@ export function useAuth(supabaseClient: SupabaseClient): AuthHookReturn {
     }
   };
 
+  const signInWithApple = async (): Promise<void> => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const AppleAuth =
+        Platform.OS === 'ios' && appleSignInConfig.useNativeSignIn
+          ? await getAppleAuthentication()
+          : null;
+
+      if (!AppleAuth || !(await AppleAuth.isAvailableAsync())) {
+        await signInWithOAuthSession(
+          supabaseClient,
+          'apple',
+          appleSignInConfig.redirectTo
+        );
+        return;
+      }
+
+      const credential = await AppleAuth.signInAsync({
+        requestedScopes: [
+          AppleAuth.AppleAuthenticationScope.FULL_NAME,
+          AppleAuth.AppleAuthenticationScope.EMAIL,
+        ],
+      });
+
+      if (!credential.identityToken) {
+        throw new Error('No identity token received from Apple');
+      }
+
+      if (__DEV__) {
+        Logger.debug('[Apple Sign-In] Got identity token');
+      }
+
+      const { error: authError } = await supabaseClient.auth.signInWithIdToken({
+        provider: 'apple',
+        token: credential.identityToken,
+      });
+
+      if (authError) {
+        throw authError;
+      }
+    } catch (err: unknown) {
+      if (
+        err &&
+        typeof err === 'object' &&
+        'code' in err &&
+        (err as { code?: string }).code === 'ERR_REQUEST_CANCELED'
+      ) {
+        const cancelError = createAuthError({ code: 'cancelled' });
+        setError(cancelError);
+        throw cancelError;
+      }
+
+      const errorObj = toAuthError(err);
+      setError(errorObj);
+      throw errorObj;
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Identity changes happen on protected screens, so they leave the global
+  // loading flag alone (ProtectedRoute would unmount the screen while it is set)
+  const linkIdentity = async (provider: SocialProvider): Promise<void> => {
+    setError(null);
+
+    try {
+      await linkIdentityWithOAuthSession(
+        supabaseClient,
+        provider,
+        OAUTH_REDIRECT_URL
+      );
+    } catch (err: unknown) {
+      const errorObj = toAuthError(err);
+      setError(errorObj);
+      throw errorObj;
+    }
+  };
+
+  const unlinkIdentity = async (identity: UserIdentity): Promise<void> => {
+    setError(null);
+
+    if (identities.length <= 1) {
+      const errorObj = createAuthError({ code: 'last_identity' });
+      setError(errorObj);
+      throw errorObj;
+    }
+
+    const { error: unlinkError } =
+      await supabaseClient.auth.unlinkIdentity(identity);
+
+    if (unlinkError) {
+      const errorObj = toAuthError(unlinkError);
+      setError(errorObj);
+      throw errorObj;
+    }
+
+    // The session's user keeps listing the identity until it is refreshed
+    const { error: refreshError } = await supabaseClient.auth.refreshSession();
+
+    if (refreshError) {
+      Logger.warn('[useAuth] Failed to refresh session:', refreshError);
+    }
+  };
+
+  const deleteAccount = async (): Promise<void> => {
+    setError(null);
+
+    // Deleting the auth user needs the service role, so it runs server-side
+    const { error: deleteError } = await supabaseClient.functions.invoke(
+      'delete-account',
+      { method: 'POST' }
+    );
+
+    if (deleteError) {
+      const errorObj = toAuthError(deleteError);
+      setError(errorObj);
+      throw errorObj;
+    }
+
+    // The server-side session is already gone; this just clears local state
+    await signOut();
+  };
+
+  const changeEmail = async (newEmail: string): Promise<void> => {
+    setError(null);
+
+    // The confirmation links open in the browser, which finishes the change
+    const { error: updateError } = await supabaseClient.auth.updateUser({
+      email: newEmail,
+    });
+
+    if (updateError) {
+      const errorObj = toAuthError(updateError);
+      setError(errorObj);
+      throw errorObj;
+    }
+  };
+
+  const changePassword = async (
+    currentPassword: string,
+    newPassword: string
+  ): Promise<void> => {
+    setError(null);
+
+    if (!user?.email) {
+      const errorObj = createAuthError(
+        { code: 'unknown' },
+        'Your account has no password to change'
+      );
+      setError(errorObj);
+      throw errorObj;
+    }
+
+    // Signing in again proves the current password. It also issues a fresh
+    // aal1 session, so users with two-factor auth are challenged again.
+    const { error: reauthError } = await supabaseClient.auth.signInWithPassword(
+      { email: user.email, password: currentPassword }
+    );
+
+    if (reauthError) {
+      // Only a rejected password means the current one is wrong; rate limits
+      // and network failures keep their own message
+      const reauthAuthError = toAuthError(reauthError);
+      const errorObj =
+        reauthAuthError.code === 'invalid_credentials'
+          ? createAuthError(
+              { code: 'invalid_credentials' },
+              'Current password is incorrect'
+            )
+          : reauthAuthError;
+      setError(errorObj);
+      throw errorObj;
+    }
+
+    const { error: updateError } = await supabaseClient.auth.updateUser({
+      password: newPassword,
+    });
+
+    if (updateError) {
+      const errorObj = toAuthError(updateError);
+      setError(errorObj);
+      throw errorObj;
+    }
+  };
+
+  const signInAsGuest = async (): Promise<void> => {
+    setLoading(true);
+    setError(null);
+
+    const { error: guestError } = await supabaseClient.auth.signInAnonymously();
+
+    setLoading(false);
+
+    if (guestError) {
+      const errorObj = toAuthError(guestError);
+      setError(errorObj);
+      throw errorObj;
+    }
+  };
+
+  const convertGuestToAccount = async (
+    email: string,
+    password: string
+  ): Promise<void> => {
+    setError(null);
+
+    if (!isGuest) {
+      const errorObj = createAuthError(
+        { code: 'unknown' },
+        'Only guest accounts can be converted'
+      );
+      setError(errorObj);
+      throw errorObj;
+    }
+
+    // Updating the anonymous user (rather than signing up) keeps the same
+    // user id, so the guest's profile and data carry over
+    const { error: updateError } = await supabaseClient.auth.updateUser({
+      email,
+      password,
+    });
+
+    if (updateError) {
+      const errorObj = toAuthError(updateError);
+      setError(errorObj);
+      throw errorObj;
+    }
+  };
+
+  const signInWithMagicLink = async (email: string): Promise<void> => {
+    setLoading(true);
+    setError(null);
+
+    // The email also carries a one-time code, which is what the app asks for
+    // (see verifyOtp); the link itself only works in a browser
+    const { error: otpError } = await supabaseClient.auth.signInWithOtp({
+      email,
+      options: { shouldCreateUser: false },
+    });
+
+    setLoading(false);
+
+    if (otpError) {
+      const errorObj = toAuthError(otpError);
+      setError(errorObj);
+      throw errorObj;
+    }
+  };
+
+  const verifyOtp = async (email: string, token: string): Promise<void> => {
+    setLoading(true);
+    setError(null);
+
+    const { error: verifyError } = await supabaseClient.auth.verifyOtp({
+      email,
+      token,
+      type: 'email',
+    });
+
+    setLoading(false);
+
+    if (verifyError) {
+      const errorObj = toAuthError(verifyError);
+      setError(errorObj);
+      throw errorObj;
+    }
+  };
+
+  const requestPasswordReset = async (email: string): Promise<void> => {
+    setLoading(true);
+    setError(null);
+
+    // No redirect URL on mobile - the recovery email includes a one-time code
+    // that the user enters in the app (see verifyPasswordResetCode)
+    const { error: resetError } =
+      await supabaseClient.auth.resetPasswordForEmail(email);
+
+    setLoading(false);
+
+    if (resetError) {
+      const errorObj = toAuthError(resetError);
+      setError(errorObj);
+      throw errorObj;
+    }
+  };
+
+  const verifyPasswordResetCode = async (
+    email: string,
+    code: string
+  ): Promise<void> => {
+    setLoading(true);
+    setError(null);
+
+    const { error: verifyError } = await supabaseClient.auth.verifyOtp({
+      email,
+      token: code,
+      type: 'recovery',
+    });
+
+    setLoading(false);
+
+    if (verifyError) {
+      const errorObj = toAuthError(verifyError);
+      setError(errorObj);
+      throw errorObj;
+    }
+  };
+
+  const updatePassword = async (newPassword: string): Promise<void> => {
+    setLoading(true);
+    setError(null);
+
+    const { error: updateError } = await supabaseClient.auth.updateUser({
+      password: newPassword,
+    });
+
+    setLoading(false);
+
+    if (updateError) {
+      const errorObj = toAuthError(updateError);
+      setError(errorObj);
+      throw errorObj;
+    }
+
+    setPasswordRecovery(false);
+  };
+
   return {
     user,
     session,
     loading,
     error,
+    passwordRecovery,
+    aal: currentLevel,
+    needsSecondFactor,
+    identities,
+    pendingEmailChange,
+    isGuest,
+    emailVerified,
+    roles,
     signIn,
     signUp,
+    resendVerificationEmail,
     signOut,
+    signOutOtherDevices,
+    signOutEverywhere,
     signInWithGoogle,
+    signInWithApple,
+    signInAsGuest,
+    convertGuestToAccount,
+    signInWithMagicLink,
+    verifyOtp,
+    requestPasswordReset,
+    verifyPasswordResetCode,
+    updatePassword,
+    linkIdentity,
+    unlinkIdentity,
+    deleteAccount,
+    changeEmail,
+    changePassword,
   };
 }
@@ -1,17 +1,70 @@
 import { useState, useEffect } from 'react';
-import { User, Session } from '@supabase/supabase-js';
+import { User, Session, UserIdentity } from '@supabase/supabase-js';
 import type { SupabaseClient } from '@supabase/supabase-js';
-import type { AuthHookReturn } from '../types/auth';
+import type {
+  AuthError,
+  AuthHookReturn,
+  SignUpProfile,
+  SignUpResult,
+  SocialProvider,
+} from '../types/auth';
 import { Logger } from '../utils/logger';
+import { getAssuranceLevel } from '../utils/assuranceLevel';
+import { getRoles } from '../utils/roles';
+import { createAuthError, toAuthError } from '../utils/authErrors';
+import { getSignUpMetadata } from '../validation/profileSchema';
+import { tabSync } from '../utils/tabSync';
+import { routePath } from '../config/routes';
 
-// Web platform does not require native Google configuration
+// Web platform does not require native Google or Apple configuration
 export function configureGoogleSignIn() {}
+export function configureAppleSignIn() {}
+
+// Build an absolute redirect URL for auth emails and OAuth round trips
+// Extract base path from current location (e.g., /pr-9 from /pr-9/login)
+// This handles path-based PR previews where the app is served from /pr-<N>/
+function getRedirectUrl(path: string): string | undefined {
+  if (typeof window === 'undefined' || !window.location) {
+    return undefined;
+  }
+  const basePath = window.location.pathname.match(/^(\/pr-\d+)/)?.[1] || '';
+  return `${window.location.origin}${basePath}${path}`;
+}
+
+// Directly clear Supabase's localStorage entries, for when signOut can't
+// Supabase uses a storage key format: sb-<project-ref>-auth-token
+// We'll clear all keys that start with 'sb-' to catch all Supabase storage
+function clearStoredSession(): void {
+  if (typeof window === 'undefined' || !window.localStorage) {
+    return;
+  }
+  const keysToRemove: string[] = [];
+  for (let i = 0; i < window.localStorage.length; i++) {
+    const key = window.localStorage.key(i);
+    if (key && (key.startsWith('sb-') || key.includes('supabase.auth.token'))) {
+      keysToRemove.push(key);
+    }
+  }
+  keysToRemove.forEach(key => window.localStorage.removeItem(key));
+}
 
 export function useAuth(supabaseClient: SupabaseClient): AuthHookReturn {
   const [user, setUser] = useState<User | null>(null);
   const [session, setSession] = useState<Session | null>(null);
   const [loading, setLoading] = useState<boolean>(true);
-  const [error, setError] = useState<Error | null>(null);
+  const [error, setError] = useState<AuthError | null>(null);
+  const [passwordRecovery, setPasswordRecovery] = useState<boolean>(false);
+
+  // Derived from the session so it can never lag behind a session change
+  const { currentLevel, nextLevel } = getAssuranceLevel(session);
+  const needsSecondFactor = nextLevel === 'aal2' && currentLevel !== 'aal2';
+  const identities = user?.identities ?? [];
+  const isGuest = user?.is_anonymous ?? false;
+  const emailVerified = !!user?.email_confirmed_at;
+  const roles = getRoles(session);
+  const pendingEmailChange = user?.new_email
+    ? { newEmail: user.new_email, sentAt: user.email_change_sent_at ?? null }
+    : null;
 
   useEffect(() => {
     // Get initial session
@@ -24,13 +77,49 @@ export function useAuth(supabaseClient: SupabaseClient): AuthHookReturn {
     // Listen for auth changes
     const {
       data: { subscription },
-    } = supabaseClient.auth.onAuthStateChange((_event, session) => {
+    } = supabaseClient.auth.onAuthStateChange((event, session) => {
+      // Recovery links sign the user in with a PASSWORD_RECOVERY event;
+      // keep the flag until the password is changed or the user signs out
+      if (event === 'PASSWORD_RECOVERY') {
+        setPasswordRecovery(true);
+      } else if (event === 'SIGNED_OUT' || event === 'USER_UPDATED') {
+        setPasswordRecovery(false);
+      }
       setSession(session);
       setUser(session?.user ?? null);
       setLoading(false);
+
+      if (
+        event === 'SIGNED_IN' ||
+        event === 'SIGNED_OUT' ||
+        event === 'USER_UPDATED'
+      ) {
+        tabSync.post({ type: 'auth', event });
+      }
+    });
+
+    // Other tabs changed the session: re-read it from storage. A sign out
+    // there may have only cleared storage, so drop this tab's copy as well.
+    const unsubscribeTabSync = tabSync.subscribe(message => {
+      if (message.type === 'auth') {
+        supabaseClient.auth.getSession().then(({ data: { session } }) => {
+          setSession(session);
+          setUser(session?.user ?? null);
+        });
+      } else if (message.type === 'signed-out') {
+        setSession(null);
+        setUser(null);
+        setPasswordRecovery(false);
+        supabaseClient.auth.signOut({ scope: 'local' }).catch(err => {
+          Logger.warn('[useAuth] Local sign out after other tab failed:', err);
+        });
+      }
     });
 
-    return () => subscription.unsubscribe();
+    return () => {
+      subscription.unsubscribe();
+      unsubscribeTabSync();
+    };
   }, [supabaseClient]);
 
   const signIn = async (email: string, password: string): Promise<void> => {
@@ -45,25 +134,54 @@ export function useAuth(supabaseClient: SupabaseClient): AuthHookReturn {
     setLoading(false);
 
     if (error) {
-      const errorObj = new Error(error.message);
+      const errorObj = toAuthError(error);
       setError(errorObj);
       throw errorObj;
     }
   };
 
-  const signUp = async (email: string, password: string): Promise<void> => {
+  const signUp = async (
+    email: string,
+    password: string,
+    profile: SignUpProfile = {}
+  ): Promise<SignUpResult> => {
     setLoading(true);
     setError(null);
 
-    const { error } = await supabaseClient.auth.signUp({
+    // The confirmation email links to /auth/callback
+    const emailRedirectTo = getRedirectUrl(routePath('AuthCallback'));
+    const { data, error } = await supabaseClient.auth.signUp({
       email,
       password,
+      options: {
+        ...(emailRedirectTo ? { emailRedirectTo } : {}),
+        data: getSignUpMetadata(profile),
+      },
     });
 
     setLoading(false);
 
     if (error) {
-      const errorObj = new Error(error.message);
+      const errorObj = toAuthError(error);
+      setError(errorObj);
+      throw errorObj;
+    }
+
+    return { emailVerificationRequired: !data.session };
+  };
+
+  const resendVerificationEmail = async (email: string): Promise<void> => {
+    setError(null);
+
+    const emailRedirectTo = getRedirectUrl(routePath('AuthCallback'));
+    const { error } = await supabaseClient.auth.resend({
+      type: 'signup',
+      email,
+      ...(emailRedirectTo ? { options: { emailRedirectTo } } : {}),
+    });
+
+    if (error) {
+      const errorObj = toAuthError(error);
       setError(errorObj);
       throw errorObj;
     }
@@ -84,28 +202,15 @@ export function useAuth(supabaseClient: SupabaseClient): AuthHookReturn {
           '[useAuth] signOut API call failed, manually clearing session storage:',
           error.message
         );
-        // Directly clear Supabase's localStorage entries
-        // Supabase stores session data with keys based on the URL
-        if (typeof window !== 'undefined' && window.localStorage) {
-          // Supabase uses a storage key format: sb-<project-ref>-auth-token
-          // We'll clear all keys that start with 'sb-' to catch all Supabase storage
-          const keysToRemove: string[] = [];
-          for (let i = 0; i < window.localStorage.length; i++) {
-            const key = window.localStorage.key(i);
-            if (
-              key &&
-              (key.startsWith('sb-') || key.includes('supabase.auth.token'))
-            ) {
-              keysToRemove.push(key);
-            }
-          }
-          keysToRemove.forEach(key => window.localStorage.removeItem(key));
-        }
+        clearStoredSession();
         // Clear state directly
         setSession(null);
         setUser(null);
       }
 
+      // Supabase only tells other tabs about a successful sign out, and not
+      // at all without BroadcastChannel
+      tabSync.post({ type: 'signed-out' });
       setLoading(false);
     } catch (err) {
       // If signOut throws an error, still clear the session storage
@@ -113,38 +218,50 @@ export function useAuth(supabaseClient: SupabaseClient): AuthHookReturn {
         '[useAuth] signOut threw error, manually clearing session storage:',
         err
       );
-      // Directly clear Supabase's localStorage entries
-      if (typeof window !== 'undefined' && window.localStorage) {
-        const keysToRemove: string[] = [];
-        for (let i = 0; i < window.localStorage.length; i++) {
-          const key = window.localStorage.key(i);
-          if (
-            key &&
-            (key.startsWith('sb-') || key.includes('supabase.auth.token'))
-          ) {
-            keysToRemove.push(key);
-          }
-        }
-        keysToRemove.forEach(key => window.localStorage.removeItem(key));
-      }
+      clearStoredSession();
       setSession(null);
       setUser(null);
+      tabSync.post({ type: 'signed-out' });
       setLoading(false);
       // Don't throw - we've cleared the session storage, which is what we wanted
     }
   };
 
+  const signOutOtherDevices = async (): Promise<void> => {
+    setError(null);
+
+    const { error: signOutError } = await supabaseClient.auth.signOut({
+      scope: 'others',
+    });
+
+    if (signOutError) {
+      const errorObj = toAuthError(signOutError);
+      setError(errorObj);
+      throw errorObj;
+    }
+  };
+
+  const signOutEverywhere = async (): Promise<void> => {
+    setError(null);
+
+    // Unlike signOut, a failure here must not look like success: the other
+    // sessions would still be valid
+    const { error: signOutError } = await supabaseClient.auth.signOut({
+      scope: 'global',
+    });
+
+    if (signOutError) {
+      const errorObj = toAuthError(signOutError);
+      setError(errorObj);
+      throw errorObj;
+    }
+  };
+
   const signInWithGoogle = async (): Promise<void> => {
     setLoading(true);
     setError(null);
 
-    let redirectTo: string | undefined;
-    if (typeof window !== 'undefined' && window.location) {
-      // Extract base path from current location (e.g., /pr-9 from /pr-9/login)
-      // This handles path-based PR previews where the app is served from /pr-<N>/
-      const basePath = window.location.pathname.match(/^(\/pr-\d+)/)?.[1] || '';
-      redirectTo = `${window.location.origin}${basePath}/auth/callback`;
-    }
+    const redirectTo = getRedirectUrl(routePath('AuthCallback'));
 
     const authArgs = redirectTo
       ? {
@@ -160,20 +277,346 @@ export function useAuth(supabaseClient: SupabaseClient): AuthHookReturn {
     setLoading(false);
 
     if (error) {
-      const errorObj = new Error(error.message);
+      const errorObj = toAuthError(error);
+      setError(errorObj);
+      throw errorObj;
+    }
+  };
+
+  const signInWithApple = async (): Promise<void> => {
+    setLoading(true);
+    setError(null);
+
+    const redirectTo = getRedirectUrl(routePath('AuthCallback'));
+
+    const authArgs = redirectTo
+      ? {
+          provider: 'apple' as const,
+          options: { redirectTo },
+        }
+      : {
+          provider: 'apple' as const,
+        };
+
+    const { error } = await supabaseClient.auth.signInWithOAuth(authArgs);
+
+    setLoading(false);
+
+    if (error) {
+      const errorObj = toAuthError(error);
+      setError(errorObj);
+      throw errorObj;
+    }
+  };
+
+  // Identity changes happen on protected pages, so they leave the global
+  // loading flag alone (ProtectedRoute would unmount the page while it is set)
+  const linkIdentity = async (provider: SocialProvider): Promise<void> => {
+    setError(null);
+
+    // The provider redirects back to the profile page's connected accounts
+    const redirectTo = getRedirectUrl(routePath('Profile'));
+
+    const linkArgs = redirectTo
+      ? { provider, options: { redirectTo } }
+      : { provider };
+
+    const { error } = await supabaseClient.auth.linkIdentity(linkArgs);
+
+    if (error) {
+      const errorObj = toAuthError(error);
+      setError(errorObj);
+      throw errorObj;
+    }
+  };
+
+  const unlinkIdentity = async (identity: UserIdentity): Promise<void> => {
+    setError(null);
+
+    if (identities.length <= 1) {
+      const errorObj = createAuthError({ code: 'last_identity' });
+      setError(errorObj);
+      throw errorObj;
+    }
+
+    const { error: unlinkError } =
+      await supabaseClient.auth.unlinkIdentity(identity);
+
+    if (unlinkError) {
+      const errorObj = toAuthError(unlinkError);
+      setError(errorObj);
+      throw errorObj;
+    }
+
+    // The session's user keeps listing the identity until it is refreshed
+    const { error: refreshError } = await supabaseClient.auth.refreshSession();
+
+    if (refreshError) {
+      Logger.warn('[useAuth] Failed to refresh session:', refreshError);
+    }
+  };
+
+  const deleteAccount = async (): Promise<void> => {
+    setError(null);
+
+    // Deleting the auth user needs the service role, so it runs server-side
+    const { error: deleteError } = await supabaseClient.functions.invoke(
+      'delete-account',
+      { method: 'POST' }
+    );
+
+    if (deleteError) {
+      const errorObj = toAuthError(deleteError);
+      setError(errorObj);
+      throw errorObj;
+    }
+
+    // The server-side session is already gone; this just clears local state
+    await signOut();
+  };
+
+  const changeEmail = async (newEmail: string): Promise<void> => {
+    setError(null);
+
+    const emailRedirectTo = getRedirectUrl(routePath('Profile'));
+    const { error: updateError } = await supabaseClient.auth.updateUser(
+      { email: newEmail },
+      emailRedirectTo ? { emailRedirectTo } : {}
+    );
+
+    if (updateError) {
+      const errorObj = toAuthError(updateError);
+      setError(errorObj);
+      throw errorObj;
+    }
+  };
+
+  const changePassword = async (
+    currentPassword: string,
+    newPassword: string
+  ): Promise<void> => {
+    setError(null);
+
+    if (!user?.email) {
+      const errorObj = createAuthError(
+        { code: 'unknown' },
+        'Your account has no password to change'
+      );
+      setError(errorObj);
+      throw errorObj;
+    }
+
+    // Signing in again proves the current password. It also issues a fresh
+    // aal1 session, so users with two-factor auth are challenged again.
+    const { error: reauthError } = await supabaseClient.auth.signInWithPassword(
+      { email: user.email, password: currentPassword }
+    );
+
+    if (reauthError) {
+      // Only a rejected password means the current one is wrong; rate limits
+      // and network failures keep their own message
+      const reauthAuthError = toAuthError(reauthError);
+      const errorObj =
+        reauthAuthError.code === 'invalid_credentials'
+          ? createAuthError(
+              { code: 'invalid_credentials' },
+              'Current password is incorrect'
+            )
+          : reauthAuthError;
+      setError(errorObj);
+      throw errorObj;
+    }
+
+    const { error: updateError } = await supabaseClient.auth.updateUser({
+      password: newPassword,
+    });
+
+    if (updateError) {
+      const errorObj = toAuthError(updateError);
+      setError(errorObj);
+      throw errorObj;
+    }
+  };
+
+  const signInAsGuest = async (): Promise<void> => {
+    setLoading(true);
+    setError(null);
+
+    const { error: guestError } = await supabaseClient.auth.signInAnonymously();
+
+    setLoading(false);
+
+    if (guestError) {
+      const errorObj = toAuthError(guestError);
+      setError(errorObj);
+      throw errorObj;
+    }
+  };
+
+  const convertGuestToAccount = async (
+    email: string,
+    password: string
+  ): Promise<void> => {
+    setError(null);
+
+    if (!isGuest) {
+      const errorObj = createAuthError(
+        { code: 'unknown' },
+        'Only guest accounts can be converted'
+      );
+      setError(errorObj);
+      throw errorObj;
+    }
+
+    // Updating the anonymous user (rather than signing up) keeps the same
+    // user id, so the guest's profile and data carry over
+    const emailRedirectTo = getRedirectUrl(routePath('Dashboard'));
+    const { error: updateError } = await supabaseClient.auth.updateUser(
+      { email, password },
+      emailRedirectTo ? { emailRedirectTo } : {}
+    );
+
+    if (updateError) {
+      const errorObj = toAuthError(updateError);
+      setError(errorObj);
+      throw errorObj;
+    }
+  };
+
+  const signInWithMagicLink = async (email: string): Promise<void> => {
+    setLoading(true);
+    setError(null);
+
+    // Only existing accounts can sign in this way; new users go through signUp
+    const emailRedirectTo = getRedirectUrl(routePath('AuthCallback'));
+    const { error } = await supabaseClient.auth.signInWithOtp({
+      email,
+      options: emailRedirectTo
+        ? { emailRedirectTo, shouldCreateUser: false }
+        : { shouldCreateUser: false },
+    });
+
+    setLoading(false);
+
+    if (error) {
+      const errorObj = toAuthError(error);
+      setError(errorObj);
+      throw errorObj;
+    }
+  };
+
+  const verifyOtp = async (email: string, token: string): Promise<void> => {
+    setLoading(true);
+    setError(null);
+
+    const { error } = await supabaseClient.auth.verifyOtp({
+      email,
+      token,
+      type: 'email',
+    });
+
+    setLoading(false);
+
+    if (error) {
+      const errorObj = toAuthError(error);
+      setError(errorObj);
+      throw errorObj;
+    }
+  };
+
+  const requestPasswordReset = async (email: string): Promise<void> => {
+    setLoading(true);
+    setError(null);
+
+    const redirectTo = getRedirectUrl(routePath('ResetPassword'));
+    const { error } = await supabaseClient.auth.resetPasswordForEmail(
+      email,
+      redirectTo ? { redirectTo } : undefined
+    );
+
+    setLoading(false);
+
+    if (error) {
+      const errorObj = toAuthError(error);
       setError(errorObj);
       throw errorObj;
     }
   };
 
+  const verifyPasswordResetCode = async (
+    email: string,
+    code: string
+  ): Promise<void> => {
+    setLoading(true);
+    setError(null);
+
+    // Successful verification emits PASSWORD_RECOVERY, which sets passwordRecovery
+    const { error } = await supabaseClient.auth.verifyOtp({
+      email,
+      token: code,
+      type: 'recovery',
+    });
+
+    setLoading(false);
+
+    if (error) {
+      const errorObj = toAuthError(error);
+      setError(errorObj);
+      throw errorObj;
+    }
+  };
+
+  const updatePassword = async (newPassword: string): Promise<void> => {
+    setLoading(true);
+    setError(null);
+
+    const { error } = await supabaseClient.auth.updateUser({
+      password: newPassword,
+    });
+
+    setLoading(false);
+
+    if (error) {
+      const errorObj = toAuthError(error);
+      setError(errorObj);
+      throw errorObj;
+    }
+
+    setPasswordRecovery(false);
+  };
+
   return {
     user,
     session,
     loading,
     error,
+    passwordRecovery,
+    aal: currentLevel,
+    needsSecondFactor,
+    identities,
+    pendingEmailChange,
+    isGuest,
+    emailVerified,
+    roles,
     signIn,
     signUp,
+    resendVerificationEmail,
     signOut,
+    signOutOtherDevices,
+    signOutEverywhere,
     signInWithGoogle,
+    signInWithApple,
+    signInAsGuest,
+    convertGuestToAccount,
+    signInWithMagicLink,
+    verifyOtp,
+    requestPasswordReset,
+    verifyPasswordResetCode,
+    updatePassword,
+    linkIdentity,
+    unlinkIdentity,
+    deleteAccount,
+    changeEmail,
+    changePassword,
   };
 }
@@ -0,0 +1,127 @@
+import { useCallback, useEffect, useState } from 'react';
+import type { PostgrestError, SupabaseClient } from '@supabase/supabase-js';
+import type { BlockedUser } from '../types/moderation';
+import { Logger } from '../utils/logger';
+
+export interface BlocksHookReturn {
+  // Most recently blocked first
+  blockedUsers: BlockedUser[];
+  loading: boolean;
+  // A block or unblock is being saved
+  updating: boolean;
+  error: Error | null;
+  isBlocked: (userId: string) => boolean;
+  blockUser: (userId: string) => Promise<void>;
+  unblockUser: (userId: string) => Promise<void>;
+  refresh: () => Promise<void>;
+}
+
+/**
+ * Users the current user blocked, and blocking or unblocking someone
+ * (web and native)
+ * Blocked users' profiles are hidden from the blocker by the database, so
+ * the list comes from get_blocked_users rather than public_profiles.
+ *
+ * @param currentUserId - The signed-in user, or null when they can't block
+ *   (signed out or a guest)
+ */
+export function useBlocks(
+  supabaseClient: SupabaseClient,
+  currentUserId: string | null
+): BlocksHookReturn {
+  const [blockedUsers, setBlockedUsers] = useState<BlockedUser[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [updating, setUpdating] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+
+  const fetchBlockedUsers = useCallback(async (): Promise<void> => {
+    if (!currentUserId) {
+      setBlockedUsers([]);
+      setLoading(false);
+      return;
+    }
+
+    setError(null);
+
+    try {
+      const { data, error: fetchError } =
+        await supabaseClient.rpc('get_blocked_users');
+
+      if (fetchError) {
+        throw new Error(fetchError.message);
+      }
+      setBlockedUsers((data ?? []) as BlockedUser[]);
+    } catch (err) {
+      const errorObj = err instanceof Error ? err : new Error(String(err));
+      setError(errorObj);
+      throw errorObj;
+    } finally {
+      setLoading(false);
+    }
+  }, [supabaseClient, currentUserId]);
+
+  useEffect(() => {
+    setLoading(true);
+    fetchBlockedUsers().catch(err => {
+      // Error is already set in state by fetchBlockedUsers
+      Logger.error('[useBlocks] Failed to load blocked users:', err);
+    });
+  }, [fetchBlockedUsers]);
+
+  const isBlocked = (userId: string) =>
+    blockedUsers.some(blocked => blocked.user_id === userId);
+
+  // Saves a block change, then reloads the list from the database
+  const update = async (
+    save: () => PromiseLike<{ error: PostgrestError | null }>
+  ): Promise<void> => {
+    setUpdating(true);
+    setError(null);
+
+    try {
+      if (!currentUserId) {
+        throw new Error('Sign in to block users');
+      }
+
+      const { error: saveError } = await save();
+      // Already blocked (e.g. from another tab) is what the user wanted
+      if (saveError && saveError.code !== '23505') {
+        throw new Error(saveError.message);
+      }
+      await fetchBlockedUsers();
+    } catch (err) {
+      const errorObj = err instanceof Error ? err : new Error(String(err));
+      setError(errorObj);
+      throw errorObj;
+    } finally {
+      setUpdating(false);
+    }
+  };
+
+  const blockUser = (userId: string) =>
+    update(() =>
+      supabaseClient
+        .from('user_blocks')
+        .insert({ blocker_id: currentUserId, blocked_id: userId })
+    );
+
+  const unblockUser = (userId: string) =>
+    update(() =>
+      supabaseClient
+        .from('user_blocks')
+        .delete()
+        .eq('blocker_id', currentUserId)
+        .eq('blocked_id', userId)
+    );
+
+  return {
+    blockedUsers,
+    loading,
+    updating,
+    error,
+    isBlocked,
+    blockUser,
+    unblockUser,
+    refresh: fetchBlockedUsers,
+  };
+}
@@ -0,0 +1,219 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Follow } from '../types/profile';
+import { Logger } from '../utils/logger';
+import { RealtimeRegistry } from '../utils/realtimeRegistry';
+
+export interface FollowHookReturn {
+  followerCount: number;
+  followingCount: number;
+  // The current user follows this user
+  isFollowing: boolean;
+  // There is a current user and it isn't this user
+  canFollow: boolean;
+  loading: boolean;
+  // A follow or unfollow is being saved
+  toggling: boolean;
+  error: Error | null;
+  toggleFollow: () => Promise<void>;
+  refresh: () => Promise<void>;
+}
+
+// One realtime channel per user for follows from or to them, shared by every
+// useFollow and useFollowList instance
+export const followRealtimeRegistry = new RealtimeRegistry<Partial<Follow>>(
+  'FollowRealtimeRegistry',
+  'follows',
+  (channel, userId, emit) =>
+    channel
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'follows',
+          filter: `following_id=eq.${userId}`,
+        },
+        payload => emit(payload.new as Follow)
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'follows',
+          filter: `follower_id=eq.${userId}`,
+        },
+        payload => emit(payload.new as Follow)
+      )
+      // Realtime can't filter DELETE events; the old row (the primary key,
+      // both user ids) says whether this user was involved
+      .on(
+        'postgres_changes',
+        { event: 'DELETE', schema: 'public', table: 'follows' },
+        payload => {
+          const follow = payload.old as Partial<Follow>;
+          if (follow.follower_id === userId || follow.following_id === userId) {
+            emit(follow);
+          }
+        }
+      )
+);
+
+/**
+ * Follower counts of a user and the current user's follow of them
+ * (web and native)
+ * toggleFollow updates the state right away and rolls it back if saving
+ * fails. Counts stay current through realtime while the hook is mounted.
+ *
+ * @param userId - The user being viewed
+ * @param currentUserId - The signed-in user, or null when they can't follow
+ *   (signed out or a guest)
+ */
+export function useFollow(
+  supabaseClient: SupabaseClient,
+  userId: string | null,
+  currentUserId: string | null = null
+): FollowHookReturn {
+  const [followerCount, setFollowerCount] = useState(0);
+  const [followingCount, setFollowingCount] = useState(0);
+  const [isFollowing, setIsFollowing] = useState(false);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [toggling, setToggling] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+  const canFollow = !!userId && !!currentUserId && userId !== currentUserId;
+
+  const supabaseClientRef = useRef(supabaseClient);
+
+  useEffect(() => {
+    supabaseClientRef.current = supabaseClient;
+  }, [supabaseClient]);
+
+  const fetchFollowState = useCallback(async (): Promise<void> => {
+    if (!userId) {
+      setFollowerCount(0);
+      setFollowingCount(0);
+      setIsFollowing(false);
+      setLoading(false);
+      return;
+    }
+
+    setError(null);
+
+    try {
+      const [followers, following, ownFollow] = await Promise.all([
+        supabaseClient
+          .from('follows')
+          .select('*', { count: 'exact', head: true })
+          .eq('following_id', userId),
+        supabaseClient
+          .from('follows')
+          .select('*', { count: 'exact', head: true })
+          .eq('follower_id', userId),
+        canFollow
+          ? supabaseClient
+              .from('follows')
+              .select('follower_id')
+              .eq('follower_id', currentUserId)
+              .eq('following_id', userId)
+              .maybeSingle()
+          : Promise.resolve({ data: null, error: null }),
+      ]);
+
+      const fetchError = followers.error ?? following.error ?? ownFollow.error;
+      if (fetchError) {
+        throw new Error(fetchError.message);
+      }
+
+      setFollowerCount(followers.count ?? 0);
+      setFollowingCount(following.count ?? 0);
+      setIsFollowing(!!ownFollow.data);
+    } catch (err) {
+      const errorObj = err instanceof Error ? err : new Error(String(err));
+      setError(errorObj);
+      throw errorObj;
+    } finally {
+      setLoading(false);
+    }
+  }, [supabaseClient, userId, currentUserId, canFollow]);
+
+  useEffect(() => {
+    setLoading(true);
+    fetchFollowState().catch(err => {
+      // Error is already set in state by fetchFollowState
+      Logger.error('[useFollow] Failed to load follows:', err);
+    });
+  }, [fetchFollowState]);
+
+  // Follows by anyone, in any tab or device, change the counts
+  useEffect(() => {
+    if (!userId) {
+      return;
+    }
+
+    return followRealtimeRegistry.subscribe(
+      supabaseClientRef.current,
+      userId,
+      () => {
+        fetchFollowState().catch(err => {
+          Logger.error('[useFollow] Failed to refresh follows:', err);
+        });
+      }
+    );
+  }, [userId, fetchFollowState]);
+
+  const toggleFollow = async (): Promise<void> => {
+    if (!canFollow || toggling) {
+      return;
+    }
+
+    const wasFollowing = isFollowing;
+    setIsFollowing(!wasFollowing);
+    setFollowerCount(count => Math.max(count + (wasFollowing ? -1 : 1), 0));
+    setToggling(true);
+    setError(null);
+
+    try {
+      const { error: saveError } = wasFollowing
+        ? await supabaseClient
+            .from('follows')
+            .delete()
+            .eq('follower_id', currentUserId)
+            .eq('following_id', userId)
+        : await supabaseClient
+            .from('follows')
+            .insert({ follower_id: currentUserId, following_id: userId });
+
+      // Already following (e.g. from another tab) is what the user wanted, but
+      // that follow was already counted and no insert event will correct the
+      // optimistic increment, so reload the counts
+      if (saveError?.code === '23505') {
+        fetchFollowState().catch(err => {
+          Logger.error('[useFollow] Failed to refresh follows:', err);
+        });
+      } else if (saveError) {
+        throw new Error(saveError.message);
+      }
+    } catch (err) {
+      setIsFollowing(wasFollowing);
+      setFollowerCount(count => Math.max(count + (wasFollowing ? 1 : -1), 0));
+      const errorObj = err instanceof Error ? err : new Error(String(err));
+      setError(errorObj);
+      throw errorObj;
+    } finally {
+      setToggling(false);
+    }
+  };
+
+  return {
+    followerCount,
+    followingCount,
+    isFollowing,
+    canFollow,
+    loading,
+    toggling,
+    error,
+    toggleFollow,
+    refresh: fetchFollowState,
+  };
+}
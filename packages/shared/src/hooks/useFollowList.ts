@@ -0,0 +1,168 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { PublicProfile } from '../types/profile';
+import { Logger } from '../utils/logger';
+import { followRealtimeRegistry } from './useFollow';
+
+export type FollowListKind = 'followers' | 'following';
+
+export const FOLLOW_LIST_PAGE_SIZE = 20;
+
+export interface FollowListHookReturn {
+  profiles: PublicProfile[];
+  loading: boolean;
+  loadingMore: boolean;
+  error: Error | null;
+  hasMore: boolean;
+  loadMore: () => Promise<void>;
+  refresh: () => Promise<void>;
+}
+
+const FOLLOW_LIST_RPC: Record<FollowListKind, string> = {
+  followers: 'get_followers',
+  following: 'get_following',
+};
+
+/**
+ * A user's followers or the users they follow (web and native)
+ * Ordered by username and paged like useProfileSearch; reloads from the first
+ * page when a follow of this user changes.
+ */
+export function useFollowList(
+  supabaseClient: SupabaseClient,
+  userId: string | null,
+  kind: FollowListKind,
+  pageSize: number = FOLLOW_LIST_PAGE_SIZE
+): FollowListHookReturn {
+  const [profiles, setProfiles] = useState<PublicProfile[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [loadingMore, setLoadingMore] = useState<boolean>(false);
+  const [error, setError] = useState<Error | null>(null);
+  const [hasMore, setHasMore] = useState<boolean>(false);
+  // Bumped by every reload, so pages of an older list are ignored
+  const requestIdRef = useRef(0);
+
+  const supabaseClientRef = useRef(supabaseClient);
+
+  useEffect(() => {
+    supabaseClientRef.current = supabaseClient;
+  }, [supabaseClient]);
+
+  const fetchPage = useCallback(
+    async (cursor: string | null): Promise<PublicProfile[]> => {
+      // One extra row tells whether there is another page
+      const { data, error: fetchError } = await supabaseClient.rpc(
+        FOLLOW_LIST_RPC[kind],
+        {
+          p_user_id: userId,
+          ...(cursor ? { p_cursor: cursor } : {}),
+          p_limit: pageSize + 1,
+        }
+      );
+
+      if (fetchError) {
+        throw new Error(fetchError.message);
+      }
+      return (data ?? []) as PublicProfile[];
+    },
+    [supabaseClient, userId, kind, pageSize]
+  );
+
+  const reload = useCallback(async (): Promise<void> => {
+    const requestId = ++requestIdRef.current;
+
+    if (!userId) {
+      setProfiles([]);
+      setHasMore(false);
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const page = await fetchPage(null);
+      if (requestId !== requestIdRef.current) {
+        return;
+      }
+      setProfiles(page.slice(0, pageSize));
+      setHasMore(page.length > pageSize);
+    } catch (err) {
+      if (requestId !== requestIdRef.current) {
+        return;
+      }
+      const errorObj = err instanceof Error ? err : new Error(String(err));
+      setError(errorObj);
+      throw errorObj;
+    } finally {
+      if (requestId === requestIdRef.current) {
+        setLoading(false);
+      }
+    }
+  }, [userId, fetchPage, pageSize]);
+
+  const loadMore = useCallback(async (): Promise<void> => {
+    const cursor = profiles[profiles.length - 1]?.username;
+    if (loading || loadingMore || !hasMore || !cursor) {
+      return;
+    }
+
+    const requestId = requestIdRef.current;
+    setLoadingMore(true);
+    setError(null);
+
+    try {
+      const page = await fetchPage(cursor);
+      if (requestId !== requestIdRef.current) {
+        return;
+      }
+      setProfiles(prev => [...prev, ...page.slice(0, pageSize)]);
+      setHasMore(page.length > pageSize);
+    } catch (err) {
+      if (requestId !== requestIdRef.current) {
+        return;
+      }
+      const errorObj = err instanceof Error ? err : new Error(String(err));
+      setError(errorObj);
+      throw errorObj;
+    } finally {
+      if (requestId === requestIdRef.current) {
+        setLoadingMore(false);
+      }
+    }
+  }, [profiles, loading, loadingMore, hasMore, fetchPage, pageSize]);
+
+  useEffect(() => {
+    reload().catch(err => {
+      // Error is already set in state by reload
+      Logger.error('[useFollowList] Failed to load follows:', err);
+    });
+  }, [reload]);
+
+  useEffect(() => {
+    if (!userId) {
+      return;
+    }
+
+    return followRealtimeRegistry.subscribe(
+      supabaseClientRef.current,
+      userId,
+      () => {
+        reload().catch(err => {
+          Logger.error('[useFollowList] Failed to refresh follows:', err);
+        });
+      }
+    );
+  }, [userId, reload]);
+
+  return {
+    profiles,
+    loading,
+    loadingMore,
+    error,
+    hasMore,
+    loadMore,
+    refresh: reload,
+  };
+}
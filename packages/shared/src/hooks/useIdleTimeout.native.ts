@@ -0,0 +1,104 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { AppState } from 'react-native';
+import {
+  IDLE_WARNING_MS,
+  getIdleStatus,
+  type IdleTimeoutOptions,
+  type IdleTimeoutState,
+} from '../utils/idleTimeout';
+
+const CHECK_INTERVAL_MS = 1000;
+
+export interface NativeIdleTimeoutState extends IdleTimeoutState {
+  // Call on touches; IdleTimeout does so for the whole screen
+  recordActivity: () => void;
+}
+
+/**
+ * Signs the user out after a period of inactivity (React Native)
+ * Touches reported through recordActivity count as activity; time spent in
+ * the background does not. Timers don't run while the app is backgrounded,
+ * so returning to the foreground checks straight away.
+ */
+export function useIdleTimeout({
+  timeoutMs,
+  warningMs = IDLE_WARNING_MS,
+  enabled = true,
+  onTimeout,
+}: IdleTimeoutOptions): NativeIdleTimeoutState {
+  const [warningSeconds, setWarningSeconds] = useState<number | null>(null);
+  const lastActivityAt = useRef(Date.now());
+  const isWarning = useRef(false);
+  const onTimeoutRef = useRef(onTimeout);
+
+  useEffect(() => {
+    onTimeoutRef.current = onTimeout;
+  }, [onTimeout]);
+
+  useEffect(() => {
+    isWarning.current = false;
+    setWarningSeconds(null);
+
+    if (!enabled || timeoutMs <= 0) {
+      return;
+    }
+
+    // Signing in or launching the app starts a new idle period
+    lastActivityAt.current = Date.now();
+    let timedOut = false;
+
+    const check = () => {
+      if (timedOut) {
+        return;
+      }
+      const status = getIdleStatus(
+        lastActivityAt.current,
+        Date.now(),
+        timeoutMs,
+        warningMs
+      );
+      isWarning.current = status.state === 'warning';
+      if (status.state === 'expired') {
+        timedOut = true;
+        setWarningSeconds(null);
+        onTimeoutRef.current();
+        return;
+      }
+      setWarningSeconds(
+        status.state === 'warning' ? status.remainingSeconds : null
+      );
+    };
+
+    const subscription = AppState.addEventListener('change', nextState => {
+      if (nextState === 'active') {
+        check();
+      }
+    });
+    const interval = setInterval(check, CHECK_INTERVAL_MS);
+
+    return () => {
+      subscription.remove();
+      clearInterval(interval);
+    };
+  }, [enabled, timeoutMs, warningMs]);
+
+  const recordActivity = useCallback(() => {
+    // While the warning shows only stayActive keeps the user signed in
+    if (!isWarning.current) {
+      lastActivityAt.current = Date.now();
+    }
+  }, []);
+
+  const stayActive = useCallback(() => {
+    isWarning.current = false;
+    setWarningSeconds(null);
+    lastActivityAt.current = Date.now();
+  }, []);
+
+  return {
+    isWarning: warningSeconds !== null,
+    remainingSeconds: warningSeconds ?? 0,
+    stayActive,
+    recordActivity,
+  };
+}
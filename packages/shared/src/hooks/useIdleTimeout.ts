@@ -0,0 +1,151 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  IDLE_WARNING_MS,
+  getIdleStatus,
+  type IdleTimeoutOptions,
+  type IdleTimeoutState,
+} from '../utils/idleTimeout';
+
+// Last activity in any tab; tabs follow each other through storage events so
+// typing in one tab keeps the others signed in too
+const STORAGE_KEY = 'auth.lastActivityAt';
+
+const ACTIVITY_EVENTS = [
+  'keydown',
+  'mousedown',
+  'mousemove',
+  'scroll',
+  'touchstart',
+  'wheel',
+] as const;
+
+// mousemove fires constantly; record activity at most this often
+const ACTIVITY_THROTTLE_MS = 1000;
+
+const CHECK_INTERVAL_MS = 1000;
+
+function writeSharedActivity(at: number): void {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, String(at));
+  } catch {
+    // Storage can be unavailable (e.g. Safari private mode); this tab still times out
+  }
+}
+
+/**
+ * Signs the user out after a period of inactivity (web)
+ * Keyboard, mouse, scroll and touch events count as activity, in any open tab.
+ * The warning shows for the last warningMs; once it is up only stayActive
+ * restarts the idle period. Coming back to a hidden tab checks straight away,
+ * since browsers throttle timers in background tabs.
+ */
+export function useIdleTimeout({
+  timeoutMs,
+  warningMs = IDLE_WARNING_MS,
+  enabled = true,
+  onTimeout,
+}: IdleTimeoutOptions): IdleTimeoutState {
+  const [warningSeconds, setWarningSeconds] = useState<number | null>(null);
+  const lastActivityAt = useRef(Date.now());
+  const isWarning = useRef(false);
+  const onTimeoutRef = useRef(onTimeout);
+
+  useEffect(() => {
+    onTimeoutRef.current = onTimeout;
+  }, [onTimeout]);
+
+  const markActive = useCallback((at: number) => {
+    lastActivityAt.current = at;
+    writeSharedActivity(at);
+  }, []);
+
+  useEffect(() => {
+    isWarning.current = false;
+    setWarningSeconds(null);
+
+    if (!enabled || timeoutMs <= 0) {
+      return;
+    }
+
+    // Signing in or loading the page starts a new idle period
+    markActive(Date.now());
+    let timedOut = false;
+
+    const check = () => {
+      if (timedOut) {
+        return;
+      }
+      const status = getIdleStatus(
+        lastActivityAt.current,
+        Date.now(),
+        timeoutMs,
+        warningMs
+      );
+      isWarning.current = status.state === 'warning';
+      if (status.state === 'expired') {
+        timedOut = true;
+        setWarningSeconds(null);
+        onTimeoutRef.current();
+        return;
+      }
+      setWarningSeconds(
+        status.state === 'warning' ? status.remainingSeconds : null
+      );
+    };
+
+    const handleActivity = () => {
+      const now = Date.now();
+      if (
+        !isWarning.current &&
+        now - lastActivityAt.current >= ACTIVITY_THROTTLE_MS
+      ) {
+        markActive(now);
+      }
+    };
+
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key !== STORAGE_KEY || !event.newValue) {
+        return;
+      }
+      const at = Number(event.newValue);
+      if (Number.isFinite(at) && at > lastActivityAt.current) {
+        lastActivityAt.current = at;
+        check();
+      }
+    };
+
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'visible') {
+        check();
+      }
+    };
+
+    ACTIVITY_EVENTS.forEach(name =>
+      window.addEventListener(name, handleActivity, { passive: true })
+    );
+    window.addEventListener('storage', handleStorage);
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    const interval = setInterval(check, CHECK_INTERVAL_MS);
+
+    return () => {
+      ACTIVITY_EVENTS.forEach(name =>
+        window.removeEventListener(name, handleActivity)
+      );
+      window.removeEventListener('storage', handleStorage);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      clearInterval(interval);
+    };
+  }, [enabled, timeoutMs, warningMs, markActive]);
+
+  const stayActive = useCallback(() => {
+    isWarning.current = false;
+    setWarningSeconds(null);
+    markActive(Date.now());
+  }, [markActive]);
+
+  return {
+    isWarning: warningSeconds !== null,
+    remainingSeconds: warningSeconds ?? 0,
+    stayActive,
+  };
+}
@@ -0,0 +1,145 @@
+import { useState, useEffect, useCallback } from 'react';
+import type { Factor, SupabaseClient } from '@supabase/supabase-js';
+import type { MfaHookReturn, TotpEnrollment } from '../types/mfa';
+import { Logger } from '../utils/logger';
+
+/**
+ * TOTP multi-factor authentication for the signed-in user
+ * Session assurance levels (and whether a second factor is still needed)
+ * live on AuthState; this hook manages the factors themselves.
+ */
+export function useMfa(supabaseClient: SupabaseClient): MfaHookReturn {
+  const [factors, setFactors] = useState<Factor[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<Error | null>(null);
+
+  const refreshFactors = useCallback(async (): Promise<void> => {
+    setLoading(true);
+    setError(null);
+
+    const { data, error: listError } =
+      await supabaseClient.auth.mfa.listFactors();
+
+    setLoading(false);
+
+    if (listError) {
+      const errorObj = new Error(listError.message);
+      setError(errorObj);
+      throw errorObj;
+    }
+
+    setFactors(data.totp);
+  }, [supabaseClient]);
+
+  useEffect(() => {
+    refreshFactors().catch(err => {
+      Logger.warn('[useMfa] Failed to load factors:', err);
+    });
+  }, [refreshFactors]);
+
+  const enroll = async (
+    friendlyName = 'Authenticator app'
+  ): Promise<TotpEnrollment> => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      // Abandoned enrollments stay behind as unverified factors and would
+      // clash with the friendly name, so clear them first
+      const { data: existing, error: listError } =
+        await supabaseClient.auth.mfa.listFactors();
+      if (listError) {
+        throw listError;
+      }
+      for (const factor of existing.all) {
+        if (factor.factor_type === 'totp' && factor.status === 'unverified') {
+          const { error: cleanupError } =
+            await supabaseClient.auth.mfa.unenroll({ factorId: factor.id });
+          if (cleanupError) {
+            throw cleanupError;
+          }
+        }
+      }
+
+      const { data, error: enrollError } = await supabaseClient.auth.mfa.enroll(
+        {
+          factorType: 'totp',
+          friendlyName,
+        }
+      );
+      if (enrollError) {
+        throw enrollError;
+      }
+
+      return {
+        factorId: data.id,
+        qrCode: data.totp.qr_code,
+        secret: data.totp.secret,
+        uri: data.totp.uri,
+      };
+    } catch (err) {
+      const errorObj = new Error(
+        err instanceof Error ? err.message : String(err)
+      );
+      setError(errorObj);
+      throw errorObj;
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const verify = async (factorId: string, code: string): Promise<void> => {
+    setLoading(true);
+    setError(null);
+
+    const { error: verifyError } =
+      await supabaseClient.auth.mfa.challengeAndVerify({ factorId, code });
+
+    setLoading(false);
+
+    if (verifyError) {
+      const errorObj = new Error(verifyError.message);
+      setError(errorObj);
+      throw errorObj;
+    }
+
+    await refreshFactors();
+  };
+
+  const unenroll = async (factorId: string): Promise<void> => {
+    setLoading(true);
+    setError(null);
+
+    const { error: unenrollError } = await supabaseClient.auth.mfa.unenroll({
+      factorId,
+    });
+
+    if (unenrollError) {
+      setLoading(false);
+      const errorObj = new Error(unenrollError.message);
+      setError(errorObj);
+      throw errorObj;
+    }
+
+    // Refresh so the session's user (and its factor list) reflects the removal
+    const { error: refreshError } = await supabaseClient.auth.refreshSession();
+
+    setLoading(false);
+
+    if (refreshError) {
+      Logger.warn('[useMfa] Failed to refresh session:', refreshError);
+    }
+
+    await refreshFactors();
+  };
+
+  return {
+    factors,
+    loading,
+    error,
+    refreshFactors,
+    enroll,
+    verify,
+    unenroll,
+  };
+}
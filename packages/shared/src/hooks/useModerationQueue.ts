@@ -0,0 +1,101 @@
+import { useCallback, useEffect, useState } from 'react';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { ModerationReport, ReportStatus } from '../types/moderation';
+import { Logger } from '../utils/logger';
+
+export interface ModerationQueueHookReturn {
+  // Oldest first
+  reports: ModerationReport[];
+  loading: boolean;
+  // Id of the report being reviewed
+  reviewingId: string | null;
+  error: Error | null;
+  reviewReport: (reportId: string, status: ReportStatus) => Promise<void>;
+  refresh: () => Promise<void>;
+}
+
+/**
+ * Reports in the admin review queue (web and native)
+ * Only admins can read other users' reports; for anyone else RLS leaves just
+ * their own. Reviewing a report moves it out of the listed status.
+ *
+ * @param status - Which reports to list, pending by default
+ */
+export function useModerationQueue(
+  supabaseClient: SupabaseClient,
+  status: ReportStatus = 'pending'
+): ModerationQueueHookReturn {
+  const [reports, setReports] = useState<ModerationReport[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [reviewingId, setReviewingId] = useState<string | null>(null);
+  const [error, setError] = useState<Error | null>(null);
+
+  const fetchReports = useCallback(async (): Promise<void> => {
+    setError(null);
+
+    try {
+      const { data, error: fetchError } = await supabaseClient.rpc(
+        'get_user_reports',
+        { p_status: status }
+      );
+
+      if (fetchError) {
+        throw new Error(fetchError.message);
+      }
+      setReports((data ?? []) as ModerationReport[]);
+    } catch (err) {
+      const errorObj = err instanceof Error ? err : new Error(String(err));
+      setError(errorObj);
+      throw errorObj;
+    } finally {
+      setLoading(false);
+    }
+  }, [supabaseClient, status]);
+
+  useEffect(() => {
+    setLoading(true);
+    fetchReports().catch(err => {
+      // Error is already set in state by fetchReports
+      Logger.error('[useModerationQueue] Failed to load reports:', err);
+    });
+  }, [fetchReports]);
+
+  const reviewReport = async (
+    reportId: string,
+    newStatus: ReportStatus
+  ): Promise<void> => {
+    setReviewingId(reportId);
+    setError(null);
+
+    try {
+      // The database records who reviewed the report and when
+      const { error: updateError } = await supabaseClient
+        .from('user_reports')
+        .update({ status: newStatus })
+        .eq('id', reportId);
+
+      if (updateError) {
+        throw new Error(updateError.message);
+      }
+
+      if (newStatus !== status) {
+        setReports(prev => prev.filter(report => report.id !== reportId));
+      }
+    } catch (err) {
+      const errorObj = err instanceof Error ? err : new Error(String(err));
+      setError(errorObj);
+      throw errorObj;
+    } finally {
+      setReviewingId(null);
+    }
+  };
+
+  return {
+    reports,
+    loading,
+    reviewingId,
+    error,
+    reviewReport,
+    refresh: fetchReports,
+  };
+}
@@ -1,9 +1,5 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
-import type {
-  SupabaseClient,
-  User,
-  RealtimeChannel,
-} from '@supabase/supabase-js';
+import type { SupabaseClient, User } from '@supabase/supabase-js';
 import type {
   UserProfile,
   UserProfileInsert,
@@ -11,6 +7,8 @@ import type {
 } from '../types/profile';
 import type { TablesInsert } from '../types/database';
 import { Logger } from '../utils/logger';
+import { tabSync } from '../utils/tabSync';
+import { RealtimeRegistry } from '../utils/realtimeRegistry';
 
 export interface ProfileHookReturn {
   supabaseClient: SupabaseClient;
@@ -30,141 +28,33 @@ export interface ProfileHookReturn {
   refreshProfile: () => Promise<void>;
 }
 
-// ============================================================================
-// Singleton Realtime Registry
-// ============================================================================
-// This ensures only ONE channel per userId exists globally, shared across all
-// hook instances. Each hook adds/removes its listener; the channel is only
-// unsubscribed when the last listener is removed.
-
-type RealtimeListener = (profile: UserProfile | null) => void;
-
-interface ChannelEntry {
-  channel: RealtimeChannel;
-  listeners: Set<RealtimeListener>;
-}
-
-class ProfileRealtimeRegistry {
-  private channels = new Map<string, ChannelEntry>();
-
-  subscribe(
-    supabaseClient: SupabaseClient,
-    userId: string,
-    listener: RealtimeListener
-  ): () => void {
-    let entry = this.channels.get(userId);
-
-    if (!entry) {
-      Logger.debug(
-        '[ProfileRealtimeRegistry] Creating new channel for user:',
-        userId
-      );
-
-      const channel = supabaseClient
-        .channel(`profile:${userId}`)
-        .on(
-          'postgres_changes',
-          {
-            event: '*',
-            schema: 'public',
-            table: 'user_profiles',
-            filter: `user_id=eq.${userId}`,
-          },
-          payload => {
-            Logger.debug(
-              '[ProfileRealtimeRegistry] Received realtime update:',
-              payload
-            );
-
-            const entry = this.channels.get(userId);
-            if (!entry) return;
-
-            let newProfile: UserProfile | null = null;
-            if (
-              payload.eventType === 'INSERT' ||
-              payload.eventType === 'UPDATE'
-            ) {
-              newProfile = payload.new as UserProfile;
-              Logger.debug(
-                '[ProfileRealtimeRegistry] Broadcasting update to',
-                entry.listeners.size,
-                'listeners'
-              );
-            } else if (payload.eventType === 'DELETE') {
-              Logger.debug(
-                '[ProfileRealtimeRegistry] Broadcasting delete to',
-                entry.listeners.size,
-                'listeners'
-              );
-            }
-
-            // Fan-out to all listeners
-            entry.listeners.forEach(fn => fn(newProfile));
-          }
-        )
-        .subscribe(status => {
-          Logger.debug(
-            '[ProfileRealtimeRegistry] Channel status for user',
-            userId,
-            ':',
-            status
-          );
-        });
-
-      entry = { channel, listeners: new Set() };
-      this.channels.set(userId, entry);
-    }
-
-    // Add this listener
-    entry.listeners.add(listener);
-    Logger.debug(
-      '[ProfileRealtimeRegistry] Added listener for user',
-      userId,
-      '(total:',
-      entry.listeners.size,
-      ')'
-    );
-
-    // Return unsubscribe function
-    return () => {
-      const entry = this.channels.get(userId);
-      if (!entry) return;
-
-      entry.listeners.delete(listener);
-      Logger.debug(
-        '[ProfileRealtimeRegistry] Removed listener for user',
-        userId,
-        '(remaining:',
-        entry.listeners.size,
-        ')'
-      );
-
-      // If no listeners remain, tear down the channel
-      if (entry.listeners.size === 0) {
+// One realtime channel per user, shared by every useProfile instance
+const realtimeRegistry = new RealtimeRegistry<UserProfile | null>(
+  'ProfileRealtimeRegistry',
+  'profile',
+  (channel, userId, emit) =>
+    channel.on(
+      'postgres_changes',
+      {
+        event: '*',
+        schema: 'public',
+        table: 'user_profiles',
+        filter: `user_id=eq.${userId}`,
+      },
+      payload => {
         Logger.debug(
-          '[ProfileRealtimeRegistry] No listeners remain, unsubscribing channel for user:',
-          userId
+          '[ProfileRealtimeRegistry] Received realtime update:',
+          payload
         );
-        // Check if unsubscribe exists before calling it
-        if (typeof entry.channel.unsubscribe === 'function') {
-          entry.channel.unsubscribe().catch(err => {
-            Logger.warn(
-              '[ProfileRealtimeRegistry] Channel unsubscribe error:',
-              err
-            );
-          });
-        } else {
-          Logger.warn(
-            '[ProfileRealtimeRegistry] Channel does not have unsubscribe method'
-          );
-        }
-        this.channels.delete(userId);
-      }
-    };
-  }
-}
 
-const realtimeRegistry = new ProfileRealtimeRegistry();
+        emit(
+          payload.eventType === 'INSERT' || payload.eventType === 'UPDATE'
+            ? (payload.new as UserProfile)
+            : null
+        );
+      }
+    )
+);
 
 export function useProfile(
   supabaseClient: SupabaseClient,
@@ -259,6 +149,21 @@ export function useProfile(
     };
   }, [user?.id]);
 
+  // Profile changes made in other tabs (web). Realtime covers this too, but
+  // only where realtime is enabled and connected.
+  useEffect(() => {
+    if (!user) {
+      return;
+    }
+
+    const userId = user.id;
+    return tabSync.subscribe(message => {
+      if (message.type === 'profile' && message.userId === userId) {
+        setProfile(message.profile);
+      }
+    });
+  }, [user?.id]);
+
   const createProfile = async (
     userId: string,
     data: UserProfileInsert
@@ -285,6 +190,7 @@ export function useProfile(
       }
 
       setProfile(createdProfile);
+      tabSync.post({ type: 'profile', userId, profile: createdProfile });
       return createdProfile;
     } catch (err) {
       const errorObj = err instanceof Error ? err : new Error(String(err));
@@ -344,6 +250,7 @@ export function useProfile(
         updatedProfile
       );
       setProfile(updatedProfile);
+      tabSync.post({ type: 'profile', userId, profile: updatedProfile });
       return updatedProfile;
     } catch (err) {
       Logger.error('[useProfile] Update caught error:', err);
@@ -0,0 +1,149 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { PublicProfile } from '../types/profile';
+import { Logger } from '../utils/logger';
+
+// Wait after the last keystroke before searching
+const SEARCH_DEBOUNCE_MS = 300;
+export const PROFILE_SEARCH_PAGE_SIZE = 20;
+
+export interface ProfileSearchOptions {
+  pageSize?: number;
+}
+
+export interface ProfileSearchHookReturn {
+  results: PublicProfile[];
+  // The first page of a search is loading
+  loading: boolean;
+  // A further page is loading
+  loadingMore: boolean;
+  error: Error | null;
+  hasMore: boolean;
+  loadMore: () => Promise<void>;
+  refresh: () => Promise<void>;
+}
+
+/**
+ * Searches the profile directory (web and native)
+ * Wraps the search_profiles RPC: an empty query lists everyone, results are
+ * ordered by username and each page continues after the last username of the
+ * one before. Responses for an outdated query or page are dropped.
+ */
+export function useProfileSearch(
+  supabaseClient: SupabaseClient,
+  query: string,
+  { pageSize = PROFILE_SEARCH_PAGE_SIZE }: ProfileSearchOptions = {}
+): ProfileSearchHookReturn {
+  const [results, setResults] = useState<PublicProfile[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [loadingMore, setLoadingMore] = useState<boolean>(false);
+  const [error, setError] = useState<Error | null>(null);
+  const [hasMore, setHasMore] = useState<boolean>(false);
+  const trimmed = query.trim();
+  // Bumped by every new search, so pages of an older one are ignored
+  const requestIdRef = useRef(0);
+
+  const fetchPage = useCallback(
+    async (cursor: string | null): Promise<PublicProfile[]> => {
+      // One extra row tells whether there is another page
+      const { data, error: searchError } = await supabaseClient.rpc(
+        'search_profiles',
+        {
+          p_query: trimmed,
+          ...(cursor ? { p_cursor: cursor } : {}),
+          p_limit: pageSize + 1,
+        }
+      );
+
+      if (searchError) {
+        throw new Error(searchError.message);
+      }
+      return (data ?? []) as PublicProfile[];
+    },
+    [supabaseClient, trimmed, pageSize]
+  );
+
+  const search = useCallback(async (): Promise<void> => {
+    const requestId = ++requestIdRef.current;
+    setLoading(true);
+    setLoadingMore(false);
+    setError(null);
+
+    try {
+      const page = await fetchPage(null);
+      if (requestId !== requestIdRef.current) {
+        return;
+      }
+      setResults(page.slice(0, pageSize));
+      setHasMore(page.length > pageSize);
+    } catch (err) {
+      if (requestId !== requestIdRef.current) {
+        return;
+      }
+      const errorObj = err instanceof Error ? err : new Error(String(err));
+      setError(errorObj);
+      throw errorObj;
+    } finally {
+      if (requestId === requestIdRef.current) {
+        setLoading(false);
+      }
+    }
+  }, [fetchPage, pageSize]);
+
+  const loadMore = useCallback(async (): Promise<void> => {
+    const cursor = results[results.length - 1]?.username;
+    if (loading || loadingMore || !hasMore || !cursor) {
+      return;
+    }
+
+    const requestId = requestIdRef.current;
+    setLoadingMore(true);
+    setError(null);
+
+    try {
+      const page = await fetchPage(cursor);
+      if (requestId !== requestIdRef.current) {
+        return;
+      }
+      setResults(prev => [...prev, ...page.slice(0, pageSize)]);
+      setHasMore(page.length > pageSize);
+    } catch (err) {
+      if (requestId !== requestIdRef.current) {
+        return;
+      }
+      const errorObj = err instanceof Error ? err : new Error(String(err));
+      setError(errorObj);
+      throw errorObj;
+    } finally {
+      if (requestId === requestIdRef.current) {
+        setLoadingMore(false);
+      }
+    }
+  }, [results, loading, loadingMore, hasMore, fetchPage, pageSize]);
+
+  useEffect(() => {
+    setLoading(true);
+    const timer = setTimeout(() => {
+      search().catch(err => {
+        // Error is already set in state by search
+        Logger.error('[useProfileSearch] Search failed:', err);
+      });
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      clearTimeout(timer);
+      // Drop the response of a search that's still running
+      requestIdRef.current++;
+    };
+  }, [search]);
+
+  return {
+    results,
+    loading,
+    loadingMore,
+    error,
+    hasMore,
+    loadMore,
+    refresh: search,
+  };
+}
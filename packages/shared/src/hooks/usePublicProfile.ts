@@ -0,0 +1,89 @@
+import { useCallback, useEffect, useState } from 'react';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { PublicProfile } from '../types/profile';
+import { Logger } from '../utils/logger';
+
+// Same format as the username check constraint; anything else can't exist
+const USERNAME_PATTERN = /^[a-zA-Z0-9_]{3,30}$/;
+
+export interface PublicProfileHookReturn {
+  profile: PublicProfile | null;
+  loading: boolean;
+  error: Error | null;
+  // No user has this username
+  notFound: boolean;
+  refresh: () => Promise<void>;
+}
+
+// Usernames may contain '_', which ILIKE treats as a wildcard
+function escapeLikePattern(value: string): string {
+  return value.replace(/[\\%_]/g, match => `\\${match}`);
+}
+
+/**
+ * Loads the profile behind a /u/:username link (web and native)
+ * Reads public_profiles, so fields the owner hid from the viewer are null.
+ * Usernames are unique case-insensitively, so /u/Ada and /u/ada show the same
+ * profile. Malformed usernames are reported as not found without a query.
+ */
+export function usePublicProfile(
+  supabaseClient: SupabaseClient,
+  username: string | null | undefined
+): PublicProfileHookReturn {
+  const [profile, setProfile] = useState<PublicProfile | null>(null);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<Error | null>(null);
+  const [notFound, setNotFound] = useState<boolean>(false);
+  const trimmed = username?.trim() ?? '';
+
+  const fetchPublicProfile = useCallback(async (): Promise<void> => {
+    setError(null);
+
+    if (!USERNAME_PATTERN.test(trimmed)) {
+      setProfile(null);
+      setNotFound(true);
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+
+    try {
+      const { data, error: fetchError } = await supabaseClient
+        .from('public_profiles')
+        .select('*')
+        .ilike('username', escapeLikePattern(trimmed))
+        .maybeSingle();
+
+      if (fetchError) {
+        throw new Error(fetchError.message);
+      }
+
+      setProfile(data);
+      setNotFound(!data);
+    } catch (err) {
+      const errorObj = err instanceof Error ? err : new Error(String(err));
+      setError(errorObj);
+      throw errorObj;
+    } finally {
+      setLoading(false);
+    }
+  }, [supabaseClient, trimmed]);
+
+  useEffect(() => {
+    setProfile(null);
+    setNotFound(false);
+    fetchPublicProfile().catch(err => {
+      // Error is already set in state by fetchPublicProfile
+      Logger.error('[usePublicProfile] Failed to load profile:', err);
+    });
+  }, [fetchPublicProfile]);
+
+  return {
+    profile,
+    loading,
+    error,
+    notFound,
+    refresh: fetchPublicProfile,
+  };
+}
@@ -0,0 +1,64 @@
+import { useState } from 'react';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { ReportInput } from '../types/moderation';
+
+export interface ReportUserHookReturn {
+  submitting: boolean;
+  error: Error | null;
+  reportUser: (userId: string, report: ReportInput) => Promise<void>;
+}
+
+/**
+ * Report a user to the admins (web and native)
+ * Reports join the review queue as pending; a user can have one pending
+ * report per person they reported.
+ *
+ * @param currentUserId - The signed-in user, or null when they can't report
+ *   (signed out or a guest)
+ */
+export function useReportUser(
+  supabaseClient: SupabaseClient,
+  currentUserId: string | null
+): ReportUserHookReturn {
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+
+  const reportUser = async (
+    userId: string,
+    { reason, details }: ReportInput
+  ): Promise<void> => {
+    setSubmitting(true);
+    setError(null);
+
+    try {
+      if (!currentUserId) {
+        throw new Error('Sign in to report users');
+      }
+
+      const { error: insertError } = await supabaseClient
+        .from('user_reports')
+        .insert({
+          reporter_id: currentUserId,
+          reported_id: userId,
+          reason,
+          details: details?.trim() || null,
+        });
+
+      if (insertError) {
+        throw new Error(
+          insertError.code === '23505'
+            ? "You've already reported this user. We'll review it soon."
+            : insertError.message
+        );
+      }
+    } catch (err) {
+      const errorObj = err instanceof Error ? err : new Error(String(err));
+      setError(errorObj);
+      throw errorObj;
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return { submitting, error, reportUser };
+}
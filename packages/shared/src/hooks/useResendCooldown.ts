@@ -0,0 +1,38 @@
+import { useCallback, useEffect, useState } from 'react';
+
+// Wait between resends of a confirmation email; GoTrue rate limits email sends
+// per address, so resending sooner would only fail
+export const RESEND_COOLDOWN_SECONDS = 60;
+
+export interface ResendCooldown {
+  // Seconds until the email can be sent again, 0 when it can be sent now
+  remainingSeconds: number;
+  start: () => void;
+}
+
+/**
+ * Countdown for "Resend email" buttons (web and native)
+ */
+export function useResendCooldown(
+  seconds: number = RESEND_COOLDOWN_SECONDS
+): ResendCooldown {
+  const [remainingSeconds, setRemainingSeconds] = useState(0);
+  const isCoolingDown = remainingSeconds > 0;
+
+  useEffect(() => {
+    if (!isCoolingDown) {
+      return;
+    }
+
+    const interval = setInterval(() => {
+      setRemainingSeconds(current => Math.max(current - 1, 0));
+    }, 1000);
+    return () => clearInterval(interval);
+  }, [isCoolingDown]);
+
+  const start = useCallback(() => {
+    setRemainingSeconds(seconds);
+  }, [seconds]);
+
+  return { remainingSeconds, start };
+}
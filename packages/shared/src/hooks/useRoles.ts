@@ -0,0 +1,23 @@
+import { useAuthContext } from '../contexts/AuthContext';
+import type { AppRole } from '../types/auth';
+import { hasRole as userHasRole } from '../utils/roles';
+
+export interface RolesHookReturn {
+  roles: AppRole[];
+  // True when the user holds at least one of the given roles
+  hasRole: (required: AppRole | AppRole[]) => boolean;
+}
+
+/**
+ * Roles of the signed-in user, for showing or hiding role-gated UI
+ * This is a convenience for the client only; RLS (has_role / is_admin) is what
+ * actually protects the data.
+ */
+export function useRoles(): RolesHookReturn {
+  const { roles } = useAuthContext();
+
+  const hasRole = (required: AppRole | AppRole[]) =>
+    userHasRole(roles, required);
+
+  return { roles, hasRole };
+}
@@ -0,0 +1,60 @@
+import { useEffect } from 'react';
+import { Platform } from 'react-native';
+import type { Session, SupabaseClient } from '@supabase/supabase-js';
+import { getSessionId } from '../utils/jwt';
+import { Logger } from '../utils/logger';
+
+// How often a foregrounded app refreshes its last-seen time
+const HEARTBEAT_INTERVAL_MS = 5 * 60 * 1000;
+
+let deviceName: string | null = null;
+
+// The user-assigned device name (e.g. "Alex's iPhone") when expo-constants
+// provides one, otherwise the OS and version
+async function getDeviceName(): Promise<string> {
+  if (!deviceName) {
+    let name: string | null | undefined;
+    try {
+      const module = await import('expo-constants');
+      name = module.default.deviceName;
+    } catch (err) {
+      Logger.warn('[useSessionHeartbeat] expo-constants not available:', err);
+    }
+    deviceName =
+      name ||
+      `${Platform.OS === 'ios' ? 'iOS' : 'Android'} ${String(Platform.Version)}`;
+  }
+  return deviceName;
+}
+
+/**
+ * Keeps this device's row in user_sessions up to date (React Native)
+ * Records the session as soon as it exists and then refreshes last_seen_at
+ * periodically while the app is open.
+ */
+export function useSessionHeartbeat(
+  supabaseClient: SupabaseClient,
+  session: Session | null
+): void {
+  const sessionId = getSessionId(session);
+
+  useEffect(() => {
+    if (!sessionId) {
+      return;
+    }
+
+    const beat = async () => {
+      const { error } = await supabaseClient.rpc('record_session_heartbeat', {
+        p_device_name: await getDeviceName(),
+        p_platform: Platform.OS === 'ios' ? 'ios' : 'android',
+      });
+      if (error) {
+        Logger.warn('[useSessionHeartbeat] Heartbeat failed:', error.message);
+      }
+    };
+
+    beat();
+    const interval = setInterval(beat, HEARTBEAT_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [supabaseClient, sessionId]);
+}
@@ -0,0 +1,65 @@
+import { useEffect } from 'react';
+import type { Session, SupabaseClient } from '@supabase/supabase-js';
+import { getSessionId } from '../utils/jwt';
+import { Logger } from '../utils/logger';
+
+// How often an open tab refreshes its last-seen time
+const HEARTBEAT_INTERVAL_MS = 5 * 60 * 1000;
+
+const BROWSERS: [RegExp, string][] = [
+  [/Edg\//, 'Edge'],
+  [/Firefox\//, 'Firefox'],
+  [/Chrome\//, 'Chrome'],
+  [/Safari\//, 'Safari'],
+];
+
+const OPERATING_SYSTEMS: [RegExp, string][] = [
+  [/iPhone|iPad/, 'iOS'],
+  [/Android/, 'Android'],
+  [/Mac OS X/, 'macOS'],
+  [/Windows/, 'Windows'],
+  [/Linux/, 'Linux'],
+];
+
+// e.g. "Chrome on macOS"
+function getDeviceName(): string {
+  const userAgent = typeof navigator !== 'undefined' ? navigator.userAgent : '';
+  const browser =
+    BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1] ?? 'Browser';
+  const os = OPERATING_SYSTEMS.find(([pattern]) =>
+    pattern.test(userAgent)
+  )?.[1];
+  return os ? `${browser} on ${os}` : browser;
+}
+
+/**
+ * Keeps this device's row in user_sessions up to date (web)
+ * Records the session as soon as it exists and then refreshes last_seen_at
+ * periodically while the app is open.
+ */
+export function useSessionHeartbeat(
+  supabaseClient: SupabaseClient,
+  session: Session | null
+): void {
+  const sessionId = getSessionId(session);
+
+  useEffect(() => {
+    if (!sessionId) {
+      return;
+    }
+
+    const beat = async () => {
+      const { error } = await supabaseClient.rpc('record_session_heartbeat', {
+        p_device_name: getDeviceName(),
+        p_platform: 'web',
+      });
+      if (error) {
+        Logger.warn('[useSessionHeartbeat] Heartbeat failed:', error.message);
+      }
+    };
+
+    beat();
+    const interval = setInterval(beat, HEARTBEAT_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [supabaseClient, sessionId]);
+}
@@ -0,0 +1,66 @@
+import { useState, useEffect, useCallback } from 'react';
+import type { Session, SupabaseClient } from '@supabase/supabase-js';
+import type {
+  DeviceSession,
+  SessionPlatform,
+  SessionsHookReturn,
+} from '../types/sessions';
+import { getSessionId } from '../utils/jwt';
+import { Logger } from '../utils/logger';
+
+/**
+ * Devices the signed-in user is signed in on
+ * Rows are written by useSessionHeartbeat; revoking sessions is done through
+ * signOutOtherDevices / signOutEverywhere in AuthActions.
+ */
+export function useSessions(
+  supabaseClient: SupabaseClient,
+  session: Session | null
+): SessionsHookReturn {
+  const [sessions, setSessions] = useState<DeviceSession[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<Error | null>(null);
+  const currentSessionId = getSessionId(session);
+
+  const refreshSessions = useCallback(async (): Promise<void> => {
+    setLoading(true);
+    setError(null);
+
+    const { data, error: listError } = await supabaseClient
+      .from('user_sessions')
+      .select('id, device_name, platform, created_at, last_seen_at')
+      .order('last_seen_at', { ascending: false });
+
+    setLoading(false);
+
+    if (listError) {
+      const errorObj = new Error(listError.message);
+      setError(errorObj);
+      throw errorObj;
+    }
+
+    setSessions(
+      (data ?? []).map(row => ({
+        id: row.id,
+        deviceName: row.device_name,
+        platform: row.platform as SessionPlatform,
+        createdAt: row.created_at,
+        lastSeenAt: row.last_seen_at,
+        isCurrent: row.id === currentSessionId,
+      }))
+    );
+  }, [supabaseClient, currentSessionId]);
+
+  useEffect(() => {
+    refreshSessions().catch(err => {
+      Logger.warn('[useSessions] Failed to load sessions:', err);
+    });
+  }, [refreshSessions]);
+
+  return {
+    sessions,
+    loading,
+    error,
+    refreshSessions,
+  };
+}
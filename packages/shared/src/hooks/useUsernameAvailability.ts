@@ -0,0 +1,115 @@
+import { useEffect, useState } from 'react';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  getSignupProfileFieldError,
+  isReservedUsername,
+} from '../validation/profileSchema';
+import { Logger } from '../utils/logger';
+
+// Wait after the last keystroke before asking the server
+const CHECK_DEBOUNCE_MS = 400;
+
+export type UsernameAvailabilityStatus =
+  // Nothing to check: empty, unchanged or failing the format rules
+  | 'idle'
+  | 'checking'
+  | 'available'
+  | 'taken'
+  | 'reserved'
+  // The check itself failed; the form shouldn't block on it
+  | 'error';
+
+export interface UsernameAvailability {
+  status: UsernameAvailabilityStatus;
+  // Inline text for the status, null when there's nothing to show
+  message: string | null;
+  // The username can't be saved: show message as an error
+  isUnavailable: boolean;
+}
+
+export interface UsernameAvailabilityOptions {
+  // The user's current username, which needs no check
+  currentUsername?: string | null;
+  enabled?: boolean;
+}
+
+const MESSAGES: Record<UsernameAvailabilityStatus, string | null> = {
+  idle: null,
+  checking: 'Checking availability...',
+  available: 'Username is available',
+  taken: 'This username is already taken',
+  reserved: 'This username is reserved',
+  error: null,
+};
+
+function toAvailability(status: UsernameAvailabilityStatus) {
+  return {
+    status,
+    message: MESSAGES[status],
+    isUnavailable: status === 'taken' || status === 'reserved',
+  };
+}
+
+/**
+ * Checks whether a username can be taken while the user types (web and native)
+ * Formats that fail profileSchema aren't sent to the server; the form shows
+ * those errors itself. The server compares case-insensitively and also knows
+ * names reserved after release. Results for outdated input are dropped.
+ */
+export function useUsernameAvailability(
+  supabaseClient: SupabaseClient,
+  username: string,
+  { currentUsername = null, enabled = true }: UsernameAvailabilityOptions = {}
+): UsernameAvailability {
+  const [status, setStatus] = useState<UsernameAvailabilityStatus>('idle');
+  const trimmed = username.trim();
+  const isChanged =
+    enabled &&
+    trimmed !== '' &&
+    trimmed.toLowerCase() !== currentUsername?.toLowerCase();
+  // Names on the built-in reserved list need no round trip
+  const isKnownReserved = isChanged && isReservedUsername(trimmed);
+  const needsCheck =
+    isChanged &&
+    !isKnownReserved &&
+    !getSignupProfileFieldError('username', trimmed);
+
+  useEffect(() => {
+    if (!needsCheck) {
+      return;
+    }
+
+    let cancelled = false;
+    setStatus('checking');
+
+    const timer = setTimeout(async () => {
+      const { data, error } = await supabaseClient.rpc(
+        'check_username_available',
+        { p_username: trimmed }
+      );
+      if (cancelled) {
+        return;
+      }
+      if (error) {
+        Logger.warn('[useUsernameAvailability] Check failed:', error.message);
+        setStatus('error');
+        return;
+      }
+      setStatus(
+        data === 'taken' || data === 'reserved' || data === 'available'
+          ? data
+          : 'idle'
+      );
+    }, CHECK_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [supabaseClient, trimmed, needsCheck]);
+
+  if (isKnownReserved) {
+    return toAvailability('reserved');
+  }
+  return toAvailability(needsCheck ? status : 'idle');
+}
@@ -23,6 +23,7 @@ export * from './types/database';
 export * from './types/auth';
 export * from './hooks/useAuth';
 export * from './contexts/AuthContext';
+export * from './hooks/useRoles';
 
 // Profile types and hooks
 export * from './types/profile';
@@ -1,17 +1,138 @@
-import { User, Session } from '@supabase/supabase-js';
+import {
+  User,
+  Session,
+  AuthenticatorAssuranceLevels,
+  UserIdentity,
+} from '@supabase/supabase-js';
+import type { Database } from './database';
+
+// Roles from public.user_roles, carried in the access token's user_roles claim
+export type AppRole = Database['public']['Enums']['app_role'];
+
+// Screen to return to after signing in on mobile. ProtectedRoute passes it to
+// the login, signup and MFA screens as their redirectTo navigation param.
+export interface AuthRedirectTarget {
+  name: string;
+  params?: object;
+}
+
+// Social providers the apps offer for sign-in and account linking
+export type SocialProvider = 'google' | 'apple';
+
+// An email change waiting for confirmation. With double_confirm_changes both
+// the current and the new address have to confirm before it takes effect.
+export interface PendingEmailChange {
+  newEmail: string;
+  sentAt: string | null;
+}
+
+// Why a password was rejected by the server's password requirements
+export type WeakPasswordReason = 'length' | 'characters' | 'pwned';
+
+// What went wrong, independent of the server's wording. Screens switch on
+// code to offer guidance (reset the password, resend a link, wait, ...).
+export type AuthErrorInfo =
+  | { code: 'invalid_credentials' }
+  | { code: 'email_not_confirmed' }
+  | { code: 'rate_limited' }
+  | { code: 'weak_password'; reasons: WeakPasswordReason[] }
+  | { code: 'same_password' }
+  | { code: 'user_already_exists' }
+  | { code: 'invalid_input' }
+  | { code: 'otp_expired' }
+  | { code: 'session_expired' }
+  | { code: 'signup_disabled' }
+  | { code: 'provider_disabled' }
+  | { code: 'last_identity' }
+  | { code: 'network' }
+  | { code: 'cancelled' }
+  | { code: 'unknown' };
+
+export type AuthErrorCode = AuthErrorInfo['code'];
+
+// Error thrown by the useAuth actions. message is user-facing text for the
+// code (see utils/authErrors); hint suggests what to do next, when we know.
+export type AuthError = Error &
+  AuthErrorInfo & {
+    name: 'AuthError';
+    hint: string | null;
+  };
+
+// Profile details chosen on the signup form; handle_new_user creates the
+// profile with them (see signupProfileSchema)
+export interface SignUpProfile {
+  username?: string;
+  displayName?: string;
+}
+
+export interface SignUpResult {
+  // With email confirmations on, signUp creates the user without a session;
+  // they can sign in once they open the link in the confirmation email
+  emailVerificationRequired: boolean;
+}
 
 export interface AuthState {
   user: User | null;
   session: Session | null;
   loading: boolean;
-  error: Error | null;
+  error: AuthError | null;
+  // True while the session came from a password recovery link or code
+  // and the user still needs to choose a new password
+  passwordRecovery: boolean;
+  // Authenticator assurance level of the current session (aal2 after MFA)
+  aal: AuthenticatorAssuranceLevels | null;
+  // True when the user has a verified MFA factor but the session is still aal1
+  needsSecondFactor: boolean;
+  // Sign-in methods linked to the user (email, google, apple, ...)
+  identities: UserIdentity[];
+  pendingEmailChange: PendingEmailChange | null;
+  // Signed in anonymously; the account has no email or password yet
+  isGuest: boolean;
+  // The user's email address has been confirmed (always true for accounts
+  // created while email confirmations are off, false for guests)
+  emailVerified: boolean;
+  // Roles from the access token; refreshed with the token, so a role change
+  // reaches the client on the next refresh (the database enforces it at once)
+  roles: AppRole[];
 }
 
 export interface AuthActions {
   signIn: (email: string, password: string) => Promise<void>;
-  signUp: (email: string, password: string) => Promise<void>;
+  signUp: (
+    email: string,
+    password: string,
+    profile?: SignUpProfile
+  ) => Promise<SignUpResult>;
+  // Sends the signup confirmation email again
+  resendVerificationEmail: (email: string) => Promise<void>;
   signOut: () => Promise<void>;
+  // Revokes every other session of the user; this device stays signed in
+  signOutOtherDevices: () => Promise<void>;
+  // Revokes all sessions, including this one
+  signOutEverywhere: () => Promise<void>;
   signInWithGoogle: () => Promise<void>;
+  signInWithApple: () => Promise<void>;
+  signInAsGuest: () => Promise<void>;
+  // Adds an email and password to the guest account, keeping its user id
+  // (and therefore its profile). Completes once the email is confirmed.
+  convertGuestToAccount: (email: string, password: string) => Promise<void>;
+  // Passwordless sign-in: emails a magic link plus a one-time code
+  signInWithMagicLink: (email: string) => Promise<void>;
+  verifyOtp: (email: string, token: string) => Promise<void>;
+  requestPasswordReset: (email: string) => Promise<void>;
+  verifyPasswordResetCode: (email: string, code: string) => Promise<void>;
+  updatePassword: (newPassword: string) => Promise<void>;
+  linkIdentity: (provider: SocialProvider) => Promise<void>;
+  // Refuses to remove the user's last identity so they can still sign in
+  unlinkIdentity: (identity: UserIdentity) => Promise<void>;
+  // Permanently deletes the account and its data, then signs out locally
+  deleteAccount: () => Promise<void>;
+  changeEmail: (newEmail: string) => Promise<void>;
+  // Re-authenticates with the current password before setting the new one
+  changePassword: (
+    currentPassword: string,
+    newPassword: string
+  ) => Promise<void>;
 }
 
 export type AuthHookReturn = AuthState & AuthActions;
@@ -39,55 +39,328 @@ export type Database = {
   }
   public: {
     Tables: {
+      follows: {
+        Row: {
+          created_at: string
+          follower_id: string
+          following_id: string
+        }
+        Insert: {
+          created_at?: string
+          follower_id: string
+          following_id: string
+        }
+        Update: {
+          created_at?: string
+          follower_id?: string
+          following_id?: string
+        }
+        Relationships: []
+      }
+      reserved_usernames: {
+        Row: {
+          created_at: string
+          username: string
+        }
+        Insert: {
+          created_at?: string
+          username: string
+        }
+        Update: {
+          created_at?: string
+          username?: string
+        }
+        Relationships: []
+      }
+      user_blocks: {
+        Row: {
+          blocked_id: string
+          blocker_id: string
+          created_at: string
+        }
+        Insert: {
+          blocked_id: string
+          blocker_id: string
+          created_at?: string
+        }
+        Update: {
+          blocked_id?: string
+          blocker_id?: string
+          created_at?: string
+        }
+        Relationships: []
+      }
       user_profiles: {
         Row: {
           avatar_url: string | null
           bio: string | null
+          bio_visibility: Database["public"]["Enums"]["profile_visibility"]
           created_at: string | null
           display_name: string | null
           id: string
           location: string | null
+          location_visibility: Database["public"]["Enums"]["profile_visibility"]
           updated_at: string | null
           user_id: string
           username: string | null
           website: string | null
+          website_visibility: Database["public"]["Enums"]["profile_visibility"]
         }
         Insert: {
           avatar_url?: string | null
           bio?: string | null
+          bio_visibility?: Database["public"]["Enums"]["profile_visibility"]
           created_at?: string | null
           display_name?: string | null
           id?: string
           location?: string | null
+          location_visibility?: Database["public"]["Enums"]["profile_visibility"]
           updated_at?: string | null
           user_id: string
           username?: string | null
           website?: string | null
+          website_visibility?: Database["public"]["Enums"]["profile_visibility"]
         }
         Update: {
           avatar_url?: string | null
           bio?: string | null
+          bio_visibility?: Database["public"]["Enums"]["profile_visibility"]
           created_at?: string | null
           display_name?: string | null
           id?: string
           location?: string | null
+          location_visibility?: Database["public"]["Enums"]["profile_visibility"]
           updated_at?: string | null
           user_id?: string
           username?: string | null
           website?: string | null
+          website_visibility?: Database["public"]["Enums"]["profile_visibility"]
+        }
+        Relationships: []
+      }
+      user_reports: {
+        Row: {
+          created_at: string
+          details: string | null
+          id: string
+          reason: Database["public"]["Enums"]["report_reason"]
+          reported_id: string
+          reporter_id: string
+          reviewed_at: string | null
+          reviewed_by: string | null
+          status: Database["public"]["Enums"]["report_status"]
+        }
+        Insert: {
+          created_at?: string
+          details?: string | null
+          id?: string
+          reason: Database["public"]["Enums"]["report_reason"]
+          reported_id: string
+          reporter_id: string
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: Database["public"]["Enums"]["report_status"]
+        }
+        Update: {
+          created_at?: string
+          details?: string | null
+          id?: string
+          reason?: Database["public"]["Enums"]["report_reason"]
+          reported_id?: string
+          reporter_id?: string
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: Database["public"]["Enums"]["report_status"]
+        }
+        Relationships: []
+      }
+      user_roles: {
+        Row: {
+          created_at: string
+          role: Database["public"]["Enums"]["app_role"]
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          role: Database["public"]["Enums"]["app_role"]
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          role?: Database["public"]["Enums"]["app_role"]
+          user_id?: string
+        }
+        Relationships: []
+      }
+      user_sessions: {
+        Row: {
+          created_at: string
+          device_name: string
+          id: string
+          last_seen_at: string
+          platform: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          device_name: string
+          id: string
+          last_seen_at?: string
+          platform: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          device_name?: string
+          id?: string
+          last_seen_at?: string
+          platform?: string
+          user_id?: string
         }
         Relationships: []
       }
     }
     Views: {
-      [_ in never]: never
+      public_profiles: {
+        Row: {
+          avatar_url: string | null
+          bio: string | null
+          created_at: string | null
+          display_name: string | null
+          id: string | null
+          location: string | null
+          user_id: string | null
+          username: string | null
+          website: string | null
+        }
+        Relationships: []
+      }
     }
     Functions: {
+      can_view_profile_field: {
+        Args: {
+          p_owner: string
+          p_visibility: Database["public"]["Enums"]["profile_visibility"]
+        }
+        Returns: boolean
+      }
+      check_username_available: {
+        Args: { p_username: string }
+        Returns: string
+      }
+      custom_access_token_hook: { Args: { event: Json }; Returns: Json }
       generate_username: { Args: never; Returns: string }
+      get_blocked_users: {
+        Args: never
+        Returns: {
+          avatar_url: string
+          blocked_at: string
+          display_name: string
+          user_id: string
+          username: string
+        }[]
+      }
+      get_followers: {
+        Args: { p_cursor?: string; p_limit?: number; p_user_id: string }
+        Returns: {
+          avatar_url: string | null
+          bio: string | null
+          created_at: string | null
+          display_name: string | null
+          id: string | null
+          location: string | null
+          user_id: string | null
+          username: string | null
+          website: string | null
+        }[]
+        SetofOptions: {
+          from: "*"
+          to: "public_profiles"
+          isOneToOne: false
+          isSetofReturn: true
+        }
+      }
+      get_following: {
+        Args: { p_cursor?: string; p_limit?: number; p_user_id: string }
+        Returns: {
+          avatar_url: string | null
+          bio: string | null
+          created_at: string | null
+          display_name: string | null
+          id: string | null
+          location: string | null
+          user_id: string | null
+          username: string | null
+          website: string | null
+        }[]
+        SetofOptions: {
+          from: "*"
+          to: "public_profiles"
+          isOneToOne: false
+          isSetofReturn: true
+        }
+      }
+      get_user_reports: {
+        Args: {
+          p_limit?: number
+          p_status?: Database["public"]["Enums"]["report_status"]
+        }
+        Returns: {
+          created_at: string
+          details: string
+          id: string
+          reason: Database["public"]["Enums"]["report_reason"]
+          reported_id: string
+          reported_username: string
+          reporter_id: string
+          reporter_username: string
+          reviewed_at: string
+          status: Database["public"]["Enums"]["report_status"]
+        }[]
+      }
+      has_block_with: { Args: { p_user_id: string }; Returns: boolean }
+      has_role: {
+        Args: { p_role: Database["public"]["Enums"]["app_role"] }
+        Returns: boolean
+      }
+      is_admin: { Args: never; Returns: boolean }
+      is_reserved_username: { Args: { p_username: string }; Returns: boolean }
       is_valid_email: { Args: { email: string }; Returns: boolean }
+      record_session_heartbeat: {
+        Args: { p_device_name: string; p_platform: string }
+        Returns: undefined
+      }
+      search_profiles: {
+        Args: { p_cursor?: string; p_limit?: number; p_query?: string }
+        Returns: {
+          avatar_url: string | null
+          bio: string | null
+          created_at: string | null
+          display_name: string | null
+          id: string | null
+          location: string | null
+          user_id: string | null
+          username: string | null
+          website: string | null
+        }[]
+        SetofOptions: {
+          from: "*"
+          to: "public_profiles"
+          isOneToOne: false
+          isSetofReturn: true
+        }
+      }
     }
     Enums: {
-      [_ in never]: never
+      app_role: "admin" | "member"
+      profile_visibility: "public" | "authenticated" | "private"
+      report_reason:
+        | "spam"
+        | "harassment"
+        | "inappropriate"
+        | "impersonation"
+        | "other"
+      report_status: "pending" | "resolved" | "dismissed"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -217,6 +490,17 @@ export const Constants = {
     Enums: {},
   },
   public: {
-    Enums: {},
+    Enums: {
+      app_role: ["admin", "member"],
+      profile_visibility: ["public", "authenticated", "private"],
+      report_reason: [
+        "spam",
+        "harassment",
+        "inappropriate",
+        "impersonation",
+        "other",
+      ],
+      report_status: ["pending", "resolved", "dismissed"],
+    },
   },
 } as const
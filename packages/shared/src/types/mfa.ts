@@ -0,0 +1,28 @@
+import type { Factor } from '@supabase/supabase-js';
+
+// A TOTP enrollment in progress: the QR code (SVG data URI) and secret are
+// shown to the user until the first code from their authenticator app is verified
+export interface TotpEnrollment {
+  factorId: string;
+  qrCode: string;
+  secret: string;
+  uri: string;
+}
+
+export interface MfaState {
+  // Verified TOTP factors for the current user
+  factors: Factor[];
+  loading: boolean;
+  error: Error | null;
+}
+
+export interface MfaActions {
+  refreshFactors: () => Promise<void>;
+  enroll: (friendlyName?: string) => Promise<TotpEnrollment>;
+  // Challenges the factor and verifies the code; used both to finish
+  // enrollment and to step a session up to AAL2
+  verify: (factorId: string, code: string) => Promise<void>;
+  unenroll: (factorId: string) => Promise<void>;
+}
+
+export type MfaHookReturn = MfaState & MfaActions;
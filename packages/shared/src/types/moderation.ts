@@ -0,0 +1,31 @@
+import type { Database, Enums, Tables } from './database';
+
+type PublicFunctions = Database['public']['Functions'];
+
+// A user the current user blocked
+export type UserBlock = Tables<'user_blocks'>;
+
+// A report of a user, as stored
+export type UserReport = Tables<'user_reports'>;
+
+// Why a user was reported
+export type ReportReason = Enums<'report_reason'>;
+
+// Where a report is in the review queue
+export type ReportStatus = Enums<'report_status'>;
+
+// A blocked user with their name, from get_blocked_users; blocked profiles
+// are hidden from public_profiles
+export type BlockedUser =
+  PublicFunctions['get_blocked_users']['Returns'][number];
+
+// A report in the review queue with the usernames of both users, from
+// get_user_reports
+export type ModerationReport =
+  PublicFunctions['get_user_reports']['Returns'][number];
+
+// What the reporter fills in
+export interface ReportInput {
+  reason: ReportReason;
+  details?: string;
+}
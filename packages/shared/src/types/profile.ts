@@ -1,4 +1,4 @@
-import type { Tables, TablesInsert, TablesUpdate } from './database';
+import type { Enums, Tables, TablesInsert, TablesUpdate } from './database';
 
 // Profile type based on the database schema
 export type UserProfile = Tables<'user_profiles'>;
@@ -15,3 +15,16 @@ export type UserProfileUpdate = Omit<
   TablesUpdate<'user_profiles'>,
   'id' | 'user_id' | 'created_at' | 'updated_at'
 >;
+
+// A profile as other users see it (the public_profiles view): fields the
+// owner hid from the viewer are null
+export type PublicProfile = Tables<'public_profiles'>;
+
+// Who can see a profile field: everyone, signed-in users or only the owner
+export type ProfileVisibility = Enums<'profile_visibility'>;
+
+// Profile fields with their own visibility setting
+export type PrivacyField = 'bio' | 'location' | 'website';
+
+// One user following another
+export type Follow = Tables<'follows'>;
@@ -0,0 +1,25 @@
+export type SessionPlatform = 'web' | 'ios' | 'android';
+
+// One signed-in device, from the user_sessions table
+export interface DeviceSession {
+  id: string;
+  deviceName: string;
+  platform: SessionPlatform;
+  createdAt: string;
+  lastSeenAt: string;
+  // True for the session this client is using
+  isCurrent: boolean;
+}
+
+export interface SessionsState {
+  // Most recently active first
+  sessions: DeviceSession[];
+  loading: boolean;
+  error: Error | null;
+}
+
+export interface SessionsActions {
+  refreshSessions: () => Promise<void>;
+}
+
+export type SessionsHookReturn = SessionsState & SessionsActions;
@@ -1 +1,3 @@
 declare module '@react-native-google-signin/google-signin';
+declare module 'expo-apple-authentication';
+declare module 'expo-web-browser';
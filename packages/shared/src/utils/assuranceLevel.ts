@@ -0,0 +1,36 @@
+import type {
+  AuthenticatorAssuranceLevels,
+  Session,
+} from '@supabase/supabase-js';
+import { decodeJwtPayload } from './jwt';
+
+export interface AssuranceLevel {
+  currentLevel: AuthenticatorAssuranceLevels | null;
+  nextLevel: AuthenticatorAssuranceLevels | null;
+}
+
+/**
+ * Synchronous equivalent of supabase.auth.mfa.getAuthenticatorAssuranceLevel()
+ * currentLevel is the `aal` claim of the access token; nextLevel becomes aal2
+ * once the user has a verified factor. Calling the async API from
+ * onAuthStateChange can deadlock the auth client, so the hooks derive it here.
+ */
+export function getAssuranceLevel(session: Session | null): AssuranceLevel {
+  if (!session) {
+    return { currentLevel: null, nextLevel: null };
+  }
+
+  const claims = session.access_token
+    ? decodeJwtPayload(session.access_token)
+    : null;
+  const aal = claims?.['aal'];
+  const currentLevel = aal === 'aal1' || aal === 'aal2' ? aal : null;
+  const hasVerifiedFactor = (session.user?.factors ?? []).some(
+    factor => factor.status === 'verified'
+  );
+
+  return {
+    currentLevel,
+    nextLevel: hasVerifiedFactor ? 'aal2' : currentLevel,
+  };
+}
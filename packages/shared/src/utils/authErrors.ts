@@ -0,0 +1,268 @@
+import type {
+  AuthError,
+  AuthErrorCode,
+  AuthErrorInfo,
+  WeakPasswordReason,
+} from '../types/auth';
+
+// ============================================================================
+// Auth errors
+// ============================================================================
+// Supabase (GoTrue) errors are mapped to an AuthErrorInfo code so screens can
+// react to what went wrong rather than to the server's wording, and shown to
+// users with the messages below instead of the raw server message.
+
+export type AuthErrorLocale = 'en';
+
+interface AuthErrorText {
+  message: string;
+  hint?: string;
+}
+
+interface AuthErrorMessages {
+  errors: Record<AuthErrorCode, AuthErrorText>;
+  weakPasswordReasons: Record<WeakPasswordReason, string>;
+}
+
+export const AUTH_ERROR_MESSAGES: Record<AuthErrorLocale, AuthErrorMessages> = {
+  en: {
+    errors: {
+      invalid_credentials: {
+        message: 'Incorrect email or password.',
+        hint: 'Check for typos, or reset your password if you forgot it.',
+      },
+      email_not_confirmed: {
+        message: "You haven't confirmed your email address yet.",
+        hint: 'Open the confirmation link we emailed you, or sign in with a one-time code instead.',
+      },
+      rate_limited: {
+        message: 'Too many attempts.',
+        hint: 'Please wait a minute before trying again.',
+      },
+      weak_password: {
+        message: 'That password is too weak.',
+      },
+      same_password: {
+        message: 'Your new password must be different from the current one.',
+      },
+      user_already_exists: {
+        message: 'An account with this email address already exists.',
+        hint: 'Sign in instead, or reset your password if you forgot it.',
+      },
+      invalid_input: {
+        message: 'Please check the details you entered.',
+      },
+      otp_expired: {
+        message: 'This code or link is invalid or has expired.',
+        hint: 'Request a new one and use it right away.',
+      },
+      session_expired: {
+        message: 'Your session has expired.',
+        hint: 'Please sign in again.',
+      },
+      signup_disabled: {
+        message: 'New sign-ups are currently disabled.',
+      },
+      provider_disabled: {
+        message: 'This sign-in method is not available.',
+        hint: 'Try another way to sign in.',
+      },
+      last_identity: {
+        message: "You can't disconnect your only way to sign in.",
+        hint: 'Connect another account or set a password first.',
+      },
+      network: {
+        message: "Couldn't reach the server.",
+        hint: 'Check your internet connection and try again.',
+      },
+      cancelled: {
+        message: 'Sign-in was cancelled.',
+      },
+      unknown: {
+        message: 'Something went wrong. Please try again.',
+      },
+    },
+    weakPasswordReasons: {
+      length: 'Use a longer password.',
+      characters: 'Mix uppercase and lowercase letters, numbers and symbols.',
+      pwned:
+        'This password has appeared in a data breach; choose a different one.',
+    },
+  },
+};
+
+const DEFAULT_LOCALE: AuthErrorLocale = 'en';
+
+// GoTrue error codes (error.code) by the code we report them as
+const SUPABASE_ERROR_CODES: Record<string, AuthErrorCode> = {
+  invalid_credentials: 'invalid_credentials',
+  email_not_confirmed: 'email_not_confirmed',
+  over_request_rate_limit: 'rate_limited',
+  over_email_send_rate_limit: 'rate_limited',
+  over_sms_send_rate_limit: 'rate_limited',
+  weak_password: 'weak_password',
+  same_password: 'same_password',
+  user_already_exists: 'user_already_exists',
+  email_exists: 'user_already_exists',
+  validation_failed: 'invalid_input',
+  email_address_invalid: 'invalid_input',
+  otp_expired: 'otp_expired',
+  flow_state_expired: 'otp_expired',
+  flow_state_not_found: 'otp_expired',
+  session_expired: 'session_expired',
+  session_not_found: 'session_expired',
+  refresh_token_not_found: 'session_expired',
+  refresh_token_already_used: 'session_expired',
+  signup_disabled: 'signup_disabled',
+  email_provider_disabled: 'provider_disabled',
+  provider_disabled: 'provider_disabled',
+  anonymous_provider_disabled: 'provider_disabled',
+  oauth_provider_not_supported: 'provider_disabled',
+  single_identity_not_deletable: 'last_identity',
+  request_timeout: 'network',
+};
+
+// Older GoTrue versions (and some endpoints) send no code; fall back to the
+// well-known messages
+const SUPABASE_ERROR_MESSAGES: [RegExp, AuthErrorCode][] = [
+  [/invalid login credentials/i, 'invalid_credentials'],
+  [/email not confirmed/i, 'email_not_confirmed'],
+  [/rate limit|too many requests/i, 'rate_limited'],
+  [/password should (be|contain)/i, 'weak_password'],
+  [/should be different from the old password/i, 'same_password'],
+  [/already (been )?registered|already exists/i, 'user_already_exists'],
+  [/token has expired or is invalid|otp.*expired/i, 'otp_expired'],
+  [/auth session missing/i, 'session_expired'],
+  [/signups not allowed/i, 'signup_disabled'],
+  [/failed to fetch|network request failed/i, 'network'],
+];
+
+const WEAK_PASSWORD_REASONS: readonly string[] = [
+  'length',
+  'characters',
+  'pwned',
+];
+
+interface SupabaseLikeError {
+  message?: unknown;
+  code?: unknown;
+  status?: unknown;
+  name?: unknown;
+  reasons?: unknown;
+}
+
+function getCode(error: SupabaseLikeError): AuthErrorCode {
+  if (typeof error.code === 'string' && SUPABASE_ERROR_CODES[error.code]) {
+    return SUPABASE_ERROR_CODES[error.code] as AuthErrorCode;
+  }
+  if (error.name === 'AuthRetryableFetchError') {
+    return 'network';
+  }
+  if (error.name === 'AuthSessionMissingError') {
+    return 'session_expired';
+  }
+  if (error.status === 429) {
+    return 'rate_limited';
+  }
+  const message = typeof error.message === 'string' ? error.message : '';
+  return (
+    SUPABASE_ERROR_MESSAGES.find(([pattern]) => pattern.test(message))?.[1] ??
+    'unknown'
+  );
+}
+
+function getWeakPasswordReasons(reasons: unknown): WeakPasswordReason[] {
+  return Array.isArray(reasons)
+    ? reasons.filter((reason): reason is WeakPasswordReason =>
+        WEAK_PASSWORD_REASONS.includes(reason)
+      )
+    : [];
+}
+
+export function isAuthError(value: unknown): value is AuthError {
+  return (
+    value instanceof Error &&
+    value.name === 'AuthError' &&
+    typeof (value as { code?: unknown }).code === 'string'
+  );
+}
+
+/**
+ * Builds an AuthError for a code
+ * The message defaults to the localized text for the code; pass one when the
+ * app knows better (e.g. "Current password is incorrect").
+ */
+export function createAuthError(
+  info: AuthErrorInfo,
+  message?: string,
+  locale: AuthErrorLocale = DEFAULT_LOCALE
+): AuthError {
+  const text = AUTH_ERROR_MESSAGES[locale].errors[info.code];
+  const error = new Error(message ?? text.message) as AuthError;
+  error.name = 'AuthError';
+  error.hint = text.hint ?? null;
+  return Object.assign(error, info);
+}
+
+/**
+ * Maps anything a Supabase auth call can fail with to an AuthError
+ * Errors without a recognizable code keep their own message as 'unknown'.
+ */
+export function toAuthError(
+  error: unknown,
+  locale: AuthErrorLocale = DEFAULT_LOCALE
+): AuthError {
+  if (isAuthError(error)) {
+    return error;
+  }
+
+  const source: SupabaseLikeError =
+    error && typeof error === 'object'
+      ? (error as SupabaseLikeError)
+      : { message: String(error) };
+  const code = getCode(source);
+
+  if (code === 'weak_password') {
+    return createAuthError(
+      { code, reasons: getWeakPasswordReasons(source.reasons) },
+      undefined,
+      locale
+    );
+  }
+  if (code === 'unknown') {
+    const message =
+      typeof source.message === 'string' && source.message
+        ? source.message
+        : undefined;
+    return createAuthError({ code }, message, locale);
+  }
+  return createAuthError({ code }, undefined, locale);
+}
+
+// What to tell the user about a rejected password, one line per reason
+export function describeWeakPassword(
+  reasons: WeakPasswordReason[],
+  locale: AuthErrorLocale = DEFAULT_LOCALE
+): string[] {
+  const text = AUTH_ERROR_MESSAGES[locale].weakPasswordReasons;
+  return reasons.map(reason => text[reason]);
+}
+
+/**
+ * Full text for alerts and inline errors: the message, the hint and, for weak
+ * passwords, what to change
+ */
+export function formatAuthError(
+  error: unknown,
+  locale: AuthErrorLocale = DEFAULT_LOCALE
+): string {
+  const authError = toAuthError(error, locale);
+  const lines = [authError.message];
+  if (authError.code === 'weak_password') {
+    lines.push(...describeWeakPassword(authError.reasons, locale));
+  }
+  if (authError.hint) {
+    lines.push(authError.hint);
+  }
+  return lines.join('\n');
+}
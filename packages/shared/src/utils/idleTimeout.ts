@@ -0,0 +1,59 @@
+// Timing shared by the web and native useIdleTimeout hooks
+
+// How long the "you'll be signed out" warning shows before signing out
+export const IDLE_WARNING_MS = 60 * 1000;
+
+export interface IdleTimeoutOptions {
+  // Inactivity after which the user is signed out
+  timeoutMs: number;
+  warningMs?: number;
+  enabled?: boolean;
+  onTimeout: () => void;
+}
+
+export interface IdleTimeoutState {
+  isWarning: boolean;
+  // Seconds until sign-out while the warning shows, otherwise 0
+  remainingSeconds: number;
+  // Dismisses the warning and restarts the idle period
+  stayActive: () => void;
+}
+
+export type IdleStatus =
+  | { state: 'active' }
+  | { state: 'warning'; remainingSeconds: number }
+  | { state: 'expired' };
+
+export function getIdleStatus(
+  lastActivityAt: number,
+  now: number,
+  timeoutMs: number,
+  warningMs: number = IDLE_WARNING_MS
+): IdleStatus {
+  const remainingMs = lastActivityAt + timeoutMs - now;
+  if (remainingMs <= 0) {
+    return { state: 'expired' };
+  }
+  if (remainingMs <= warningMs) {
+    return {
+      state: 'warning',
+      remainingSeconds: Math.ceil(remainingMs / 1000),
+    };
+  }
+  return { state: 'active' };
+}
+
+/**
+ * Parses an idle timeout in minutes from an environment variable
+ * Unset, empty or invalid values fall back to the default; 0 disables the timeout.
+ */
+export function parseIdleTimeoutMinutes(
+  value: string | undefined,
+  defaultMinutes: number
+): number {
+  if (value === undefined || value.trim() === '') {
+    return defaultMinutes;
+  }
+  const minutes = Number(value);
+  return Number.isFinite(minutes) && minutes >= 0 ? minutes : defaultMinutes;
+}
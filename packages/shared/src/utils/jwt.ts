@@ -0,0 +1,53 @@
+import type { Session } from '@supabase/supabase-js';
+
+const BASE64URL_ALPHABET =
+  'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_';
+
+// Decode the payload of a JWT without verifying it. Hermes on React Native
+// 0.73 has no atob, so the base64url segment is decoded by hand.
+export function decodeJwtPayload(
+  token: string
+): Record<string, unknown> | null {
+  const segment = token.split('.')[1];
+  if (!segment) {
+    return null;
+  }
+
+  let buffer = 0;
+  let bits = 0;
+  let encoded = '';
+  for (const char of segment.replace(/=+$/, '')) {
+    const index = BASE64URL_ALPHABET.indexOf(char);
+    if (index === -1) {
+      return null;
+    }
+    buffer = (buffer << 6) | index;
+    bits += 6;
+    if (bits >= 8) {
+      bits -= 8;
+      encoded += `%${((buffer >> bits) & 0xff).toString(16).padStart(2, '0')}`;
+      buffer &= (1 << bits) - 1;
+    }
+  }
+
+  try {
+    const payload: unknown = JSON.parse(decodeURIComponent(encoded));
+    return payload && typeof payload === 'object'
+      ? (payload as Record<string, unknown>)
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Id of the auth session behind the access token (the `session_id` claim)
+ * Matches auth.sessions.id and therefore user_sessions.id.
+ */
+export function getSessionId(session: Session | null): string | null {
+  const claims = session?.access_token
+    ? decodeJwtPayload(session.access_token)
+    : null;
+  const sessionId = claims?.['session_id'];
+  return typeof sessionId === 'string' ? sessionId : null;
+}
@@ -0,0 +1,116 @@
+import type { RealtimeChannel, SupabaseClient } from '@supabase/supabase-js';
+import { Logger } from './logger';
+
+// ============================================================================
+// Singleton Realtime Registry
+// ============================================================================
+// This ensures only ONE channel per key (e.g. a user id) exists globally,
+// shared across all hook instances. Each hook adds/removes its listener; the
+// channel is only unsubscribed when the last listener is removed.
+
+type RealtimeListener<T> = (event: T) => void;
+
+interface ChannelEntry<T> {
+  channel: RealtimeChannel;
+  listeners: Set<RealtimeListener<T>>;
+}
+
+// Adds the channel's postgres_changes handlers; they call emit to fan an
+// event out to every listener of the key
+export type RealtimeChannelSetup<T> = (
+  channel: RealtimeChannel,
+  key: string,
+  emit: (event: T) => void
+) => RealtimeChannel;
+
+export class RealtimeRegistry<T> {
+  private channels = new Map<string, ChannelEntry<T>>();
+
+  constructor(
+    // Log prefix, e.g. 'ProfileRealtimeRegistry'
+    private readonly name: string,
+    // Channel names are `${channelPrefix}:${key}`
+    private readonly channelPrefix: string,
+    private readonly setup: RealtimeChannelSetup<T>
+  ) {}
+
+  subscribe(
+    supabaseClient: SupabaseClient,
+    key: string,
+    listener: RealtimeListener<T>
+  ): () => void {
+    let entry = this.channels.get(key);
+
+    if (!entry) {
+      Logger.debug(`[${this.name}] Creating new channel for:`, key);
+
+      const emit = (event: T) => {
+        const entry = this.channels.get(key);
+        if (!entry) return;
+
+        Logger.debug(
+          `[${this.name}] Broadcasting update to`,
+          entry.listeners.size,
+          'listeners'
+        );
+        // Fan-out to all listeners
+        entry.listeners.forEach(fn => fn(event));
+      };
+
+      const channel = this.setup(
+        supabaseClient.channel(`${this.channelPrefix}:${key}`),
+        key,
+        emit
+      ).subscribe(status => {
+        Logger.debug(`[${this.name}] Channel status for`, key, ':', status);
+      });
+
+      entry = { channel, listeners: new Set() };
+      this.channels.set(key, entry);
+    }
+
+    // Add this listener
+    entry.listeners.add(listener);
+    Logger.debug(
+      `[${this.name}] Added listener for`,
+      key,
+      '(total:',
+      entry.listeners.size,
+      ')'
+    );
+
+    // Return unsubscribe function
+    return () => {
+      const entry = this.channels.get(key);
+      if (!entry) return;
+
+      entry.listeners.delete(listener);
+      Logger.debug(
+        `[${this.name}] Removed listener for`,
+        key,
+        '(remaining:',
+        entry.listeners.size,
+        ')'
+      );
+
+      // If no listeners remain, tear down the channel
+      if (entry.listeners.size === 0) {
+        Logger.debug(
+          `[${this.name}] No listeners remain, unsubscribing channel for:`,
+          key
+        );
+        // Check if unsubscribe exists before calling it
+        if (typeof entry.channel.unsubscribe === 'function') {
+          entry.channel.unsubscribe().catch(err => {
+            Logger.warn(`[${this.name}] Channel unsubscribe error:`, err);
+          });
+        } else {
+          Logger.warn(
+            `[${this.name}] Channel does not have unsubscribe method`
+          );
+        }
+        this.channels.delete(key);
+      }
+    };
+  }
+}
@@ -0,0 +1,34 @@
+import type { Session } from '@supabase/supabase-js';
+import type { AppRole } from '../types/auth';
+import { Constants } from '../types/database';
+import { decodeJwtPayload } from './jwt';
+
+const APP_ROLES: readonly string[] = Constants.public.Enums.app_role;
+
+/**
+ * Roles of the signed-in user, read from the access token's user_roles claim
+ * The claim is added by the custom_access_token_hook; unknown values are dropped.
+ */
+export function getRoles(session: Session | null): AppRole[] {
+  const claims = session?.access_token
+    ? decodeJwtPayload(session.access_token)
+    : null;
+  const claim = claims?.['user_roles'];
+  if (!Array.isArray(claim)) {
+    return [];
+  }
+
+  return claim.filter(
+    (role): role is AppRole =>
+      typeof role === 'string' && APP_ROLES.includes(role)
+  );
+}
+
+// True when the user holds at least one of the required roles
+export function hasRole(
+  roles: AppRole[],
+  required: AppRole | AppRole[]
+): boolean {
+  const requiredRoles = Array.isArray(required) ? required : [required];
+  return requiredRoles.some(role => roles.includes(role));
+}
@@ -0,0 +1,118 @@
+import { BRANDING } from '../config/branding';
+import type { UserProfile } from '../types/profile';
+import { Logger } from './logger';
+
+// ============================================================================
+// Cross-tab sync (web)
+// ============================================================================
+// Lets open tabs of the app tell each other about sign-ins, sign-outs and
+// profile changes so none of them keeps showing stale state until a reload.
+// Messages go over a BroadcastChannel; browsers without one get them through
+// localStorage 'storage' events instead. Neither delivers a message back to
+// the tab that sent it. On React Native there are no tabs and this is a no-op.
+
+export type TabSyncMessage =
+  // The session changed in another tab; re-read it from storage
+  | { type: 'auth'; event: 'SIGNED_IN' | 'SIGNED_OUT' | 'USER_UPDATED' }
+  // Another tab signed out, possibly by clearing storage without an auth event
+  | { type: 'signed-out' }
+  | { type: 'profile'; userId: string; profile: UserProfile | null };
+
+type TabSyncListener = (message: TabSyncMessage) => void;
+
+const CHANNEL_NAME = `${BRANDING.slug}.tab-sync`;
+
+function isTabSyncMessage(value: unknown): value is TabSyncMessage {
+  return (
+    !!value &&
+    typeof value === 'object' &&
+    typeof (value as { type?: unknown }).type === 'string'
+  );
+}
+
+function hasStorageEvents(): boolean {
+  return (
+    typeof window !== 'undefined' &&
+    typeof window.addEventListener === 'function' &&
+    !!window.localStorage
+  );
+}
+
+class TabSync {
+  private listeners = new Set<TabSyncListener>();
+  private channel: BroadcastChannel | null = null;
+  private started = false;
+
+  post(message: TabSyncMessage): void {
+    this.start();
+
+    if (this.channel) {
+      this.channel.postMessage(message);
+      return;
+    }
+
+    if (hasStorageEvents()) {
+      try {
+        // Setting and removing right away fires a storage event in other tabs
+        // without leaving anything behind; the nonce makes repeats fire too
+        window.localStorage.setItem(
+          CHANNEL_NAME,
+          JSON.stringify({ message, nonce: Math.random() })
+        );
+        window.localStorage.removeItem(CHANNEL_NAME);
+      } catch (err) {
+        Logger.warn('[TabSync] Failed to post message:', err);
+      }
+    }
+  }
+
+  subscribe(listener: TabSyncListener): () => void {
+    this.start();
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Connects on first use so importing this module has no side effects
+  private start(): void {
+    if (this.started) {
+      return;
+    }
+    this.started = true;
+
+    if (typeof BroadcastChannel !== 'undefined') {
+      try {
+        this.channel = new BroadcastChannel(CHANNEL_NAME);
+        this.channel.onmessage = event => this.deliver(event.data);
+        return;
+      } catch (err) {
+        Logger.warn('[TabSync] BroadcastChannel unavailable:', err);
+      }
+    }
+
+    if (hasStorageEvents()) {
+      window.addEventListener('storage', event => {
+        if (event.key !== CHANNEL_NAME || !event.newValue) {
+          return;
+        }
+        try {
+          this.deliver(
+            (JSON.parse(event.newValue) as { message?: unknown }).message
+          );
+        } catch {
+          // Not one of ours
+        }
+      });
+    }
+  }
+
+  private deliver(message: unknown): void {
+    if (!isTabSyncMessage(message)) {
+      return;
+    }
+    this.listeners.forEach(listener => listener(message));
+  }
+}
+
+export const tabSync = new TabSync();
@@ -1,11 +1,65 @@
 import { z } from 'zod';
-import type { UserProfileInsert, UserProfileUpdate } from '../types/profile';
+import type { SignUpProfile } from '../types/auth';
+import type {
+  PrivacyField,
+  ProfileVisibility,
+  UserProfileInsert,
+  UserProfileUpdate,
+} from '../types/profile';
 
 /**
- * Username validation: 3-30 characters, alphanumeric + underscore only
+ * Usernames nobody can take, compared case-insensitively
+ * Mirrors the seed data of the reserved_usernames table, which the database
+ * enforces; admins can reserve more there.
+ */
+export const RESERVED_USERNAMES: readonly string[] = [
+  'abuse',
+  'admin',
+  'administrator',
+  'api',
+  'app',
+  'auth',
+  'billing',
+  'contact',
+  'dashboard',
+  'help',
+  'info',
+  'login',
+  'logout',
+  'me',
+  'mod',
+  'moderator',
+  'null',
+  'official',
+  'owner',
+  'postmaster',
+  'profile',
+  'root',
+  'security',
+  'settings',
+  'signup',
+  'staff',
+  'support',
+  'system',
+  'team',
+  'undefined',
+  'webmaster',
+  'www',
+];
+
+export function isReservedUsername(username: string): boolean {
+  return RESERVED_USERNAMES.includes(username.trim().toLowerCase());
+}
+
+const RESERVED_USERNAME_MESSAGE = 'This username is reserved';
+
+/**
+ * Username validation: 3-30 characters, alphanumeric + underscore only, not reserved
  * Matches database constraint: length(username) >= 3 AND length(username) <= 30 AND username ~ '^[a-zA-Z0-9_]+$'
+ * Uniqueness is case-insensitive ("Admin" and "admin" are the same username);
+ * that is checked by the database, see useUsernameAvailability.
  */
-const usernameSchema = z
+const usernameRules = z
   .string()
   .min(3, 'Username must be at least 3 characters')
   .max(30, 'Username must be no more than 30 characters')
@@ -13,18 +67,17 @@ const usernameSchema = z
     /^[a-zA-Z0-9_]+$/,
     'Username can only contain letters, numbers, and underscores'
   )
-  .nullable()
-  .optional();
+  .refine(val => !isReservedUsername(val), RESERVED_USERNAME_MESSAGE);
+const usernameSchema = usernameRules.nullable().optional();
 
 /**
  * Display name validation: max 100 characters
  * Matches database constraint: length(display_name) <= 100
  */
-const displayNameSchema = z
+const displayNameRules = z
   .string()
-  .max(100, 'Display name must be no more than 100 characters')
-  .nullable()
-  .optional();
+  .max(100, 'Display name must be no more than 100 characters');
+const displayNameSchema = displayNameRules.nullable().optional();
 
 /**
  * Bio validation: max 500 characters
@@ -64,6 +117,29 @@ const avatarUrlSchema = z
  */
 const locationSchema = z.string().nullable().optional();
 
+/**
+ * Field visibility: matches the profile_visibility enum
+ */
+const visibilitySchema = z
+  .enum(['public', 'authenticated', 'private'])
+  .optional();
+
+// Fields with a visibility setting, in the order the profile editor shows them
+export const PRIVACY_FIELDS: readonly PrivacyField[] = [
+  'bio',
+  'website',
+  'location',
+];
+
+export const PROFILE_VISIBILITY_OPTIONS: readonly {
+  value: ProfileVisibility;
+  label: string;
+}[] = [
+  { value: 'public', label: 'Everyone' },
+  { value: 'authenticated', label: 'Signed-in users' },
+  { value: 'private', label: 'Only me' },
+];
+
 /**
  * Schema for creating a new profile
  * All fields are optional except user_id (which is provided by the hook)
@@ -75,6 +151,9 @@ export const profileInsertSchema = z.object({
   avatar_url: avatarUrlSchema,
   website: websiteSchema,
   location: locationSchema,
+  bio_visibility: visibilitySchema,
+  location_visibility: visibilitySchema,
+  website_visibility: visibilitySchema,
 });
 
 /**
@@ -88,61 +167,131 @@ export const profileUpdateSchema = z.object({
   avatar_url: avatarUrlSchema,
   website: websiteSchema,
   location: locationSchema,
+  bio_visibility: visibilitySchema,
+  location_visibility: visibilitySchema,
+  website_visibility: visibilitySchema,
 });
 
 /**
- * Schema for profile form data (used in UI forms)
+ * Builds the schema for profile form data (used in UI forms)
  * This allows empty strings which will be converted to null for database
  * All fields are optional and can be empty strings
+ * The profile's current username passes the reserved check, so a profile
+ * holding a name that became reserved can still save other edits.
+ */
+export function createProfileFormSchema(currentUsername?: string | null) {
+  return z.object({
+    username: z
+      .string()
+      .refine(
+        val =>
+          !val ||
+          val.trim() === '' ||
+          (val.length >= 3 && val.length <= 30 && /^[a-zA-Z0-9_]+$/.test(val)),
+        'Username must be 3-30 characters and contain only letters, numbers, and underscores'
+      )
+      .refine(
+        val =>
+          !val ||
+          val.toLowerCase() === currentUsername?.toLowerCase() ||
+          !isReservedUsername(val),
+        RESERVED_USERNAME_MESSAGE
+      )
+      .optional(),
+    display_name: z
+      .string()
+      .refine(
+        val => !val || val.trim() === '' || val.length <= 100,
+        'Display name must be no more than 100 characters'
+      )
+      .optional(),
+    bio: z
+      .string()
+      .refine(
+        val => !val || val.trim() === '' || val.length <= 500,
+        'Bio must be no more than 500 characters'
+      )
+      .optional(),
+    website: z
+      .string()
+      .refine(
+        val =>
+          !val ||
+          val.trim() === '' ||
+          /^https?:\/\/[^\s/$.?#].[^\s]*$/.test(val),
+        'Website must be a valid URL starting with http:// or https://'
+      )
+      .optional(),
+    location: z.string().optional(),
+    avatar_url: z
+      .string()
+      .refine(
+        val =>
+          !val || val.trim() === '' || z.string().url().safeParse(val).success,
+        'Avatar URL must be a valid URL'
+      )
+      .optional(),
+    bio_visibility: visibilitySchema,
+    location_visibility: visibilitySchema,
+    website_visibility: visibilitySchema,
+  });
+}
+
+/**
+ * Schema for profile form data without a current username
+ */
+export const profileFormSchema = createProfileFormSchema();
+
+/**
+ * Schema for the profile fields of the signup form
+ * The username is required; the display name may be left empty. handle_new_user
+ * applies the same rules and falls back to defaults for anything invalid.
  */
-export const profileFormSchema = z.object({
-  username: z
-    .string()
-    .refine(
-      val =>
-        !val ||
-        val.trim() === '' ||
-        (val.length >= 3 && val.length <= 30 && /^[a-zA-Z0-9_]+$/.test(val)),
-      'Username must be 3-30 characters and contain only letters, numbers, and underscores'
-    )
-    .optional(),
-  display_name: z
-    .string()
-    .refine(
-      val => !val || val.trim() === '' || val.length <= 100,
-      'Display name must be no more than 100 characters'
-    )
-    .optional(),
-  bio: z
-    .string()
-    .refine(
-      val => !val || val.trim() === '' || val.length <= 500,
-      'Bio must be no more than 500 characters'
-    )
-    .optional(),
-  website: z
-    .string()
-    .refine(
-      val =>
-        !val || val.trim() === '' || /^https?:\/\/[^\s/$.?#].[^\s]*$/.test(val),
-      'Website must be a valid URL starting with http:// or https://'
-    )
-    .optional(),
-  location: z.string().optional(),
-  avatar_url: z
-    .string()
-    .refine(
-      val =>
-        !val || val.trim() === '' || z.string().url().safeParse(val).success,
-      'Avatar URL must be a valid URL'
-    )
-    .optional(),
+export const signupProfileSchema = z.object({
+  username: usernameRules,
+  display_name: displayNameRules.optional(),
 });
 
 // Type inference from schemas
 export type ProfileInsertInput = z.infer<typeof profileInsertSchema>;
 export type ProfileUpdateInput = z.infer<typeof profileUpdateSchema>;
 export type ProfileFormInput = z.infer<typeof profileFormSchema>;
+export type SignupProfileInput = z.infer<typeof signupProfileSchema>;
+
+/**
+ * Validates one signup profile field as the user types
+ * Returns the first error message, or null when the value is valid.
+ */
+export function getSignupProfileFieldError(
+  field: keyof SignupProfileInput,
+  value: string
+): string | null {
+  const trimmed = value.trim();
+  const result = signupProfileSchema.shape[field].safeParse(
+    field === 'display_name' && trimmed === '' ? undefined : trimmed
+  );
+  return result.success ? null : (result.error.issues[0]?.message ?? null);
+}
+
+// Visibility settings present in the form; unset ones keep their database value
+function getVisibilitySettings(
+  formData: ProfileFormInput
+): Pick<
+  UserProfileUpdate,
+  'bio_visibility' | 'location_visibility' | 'website_visibility'
+> {
+  return {
+    ...(formData.bio_visibility
+      ? { bio_visibility: formData.bio_visibility }
+      : {}),
+    ...(formData.location_visibility
+      ? { location_visibility: formData.location_visibility }
+      : {}),
+    ...(formData.website_visibility
+      ? { website_visibility: formData.website_visibility }
+      : {}),
+  };
+}
 
 /**
  * Helper function to transform form data to database input
@@ -175,6 +324,7 @@ export function transformFormToInsert(
       formData.avatar_url && formData.avatar_url.trim() !== ''
         ? formData.avatar_url.trim()
         : null,
+    ...getVisibilitySettings(formData),
   };
   return result;
 }
@@ -210,6 +360,23 @@ export function transformFormToUpdate(
       formData.avatar_url && formData.avatar_url.trim() !== ''
         ? formData.avatar_url.trim()
         : null,
+    ...getVisibilitySettings(formData),
   };
   return result;
 }
+
+/**
+ * User metadata for supabase.auth.signUp
+ * handle_new_user reads the username and display_name keys when it creates
+ * the profile. Empty fields are left out.
+ */
+export function getSignUpMetadata(
+  profile: SignUpProfile
+): Record<string, string> {
+  const username = profile.username?.trim();
+  const displayName = profile.displayName?.trim();
+  return {
+    ...(username ? { username } : {}),
+    ...(displayName ? { display_name: displayName } : {}),
+  };
+}
@@ -0,0 +1,47 @@
+import { z } from 'zod';
+import type { ReportReason, ReportStatus } from '../types/moderation';
+
+// Matches the details_length constraint of user_reports
+export const REPORT_DETAILS_MAX_LENGTH = 1000;
+
+// Reasons in the order the report form lists them
+export const REPORT_REASON_OPTIONS: readonly {
+  value: ReportReason;
+  label: string;
+}[] = [
+  { value: 'spam', label: 'Spam' },
+  { value: 'harassment', label: 'Harassment or bullying' },
+  { value: 'inappropriate', label: 'Inappropriate content' },
+  { value: 'impersonation', label: 'Pretending to be someone else' },
+  { value: 'other', label: 'Something else' },
+];
+
+export const REPORT_STATUS_LABELS: Record<ReportStatus, string> = {
+  pending: 'Pending',
+  resolved: 'Resolved',
+  dismissed: 'Dismissed',
+};
+
+/**
+ * Schema for the report form
+ * Details are optional; blank details are dropped rather than saved as ''.
+ */
+export const reportSchema = z.object({
+  reason: z.enum(
+    ['spam', 'harassment', 'inappropriate', 'impersonation', 'other'],
+    {
+      errorMap: () => ({ message: 'Choose a reason' }),
+    }
+  ),
+  details: z
+    .string()
+    .trim()
+    .max(
+      REPORT_DETAILS_MAX_LENGTH,
+      `Details must be ${REPORT_DETAILS_MAX_LENGTH} characters or less`
+    )
+    .optional()
+    .transform(details => details || undefined),
+});
+
+export type ReportFormInput = z.infer<typeof reportSchema>;
@@ -0,0 +1,97 @@
+/**
+ * delete-account Edge Function
+ * Permanently deletes the calling user. Runs with the service role so it can
+ * remove the auth user; user_profiles rows go with it via ON DELETE CASCADE,
+ * and everything under {user_id}/ in the avatars bucket is purged first since
+ * storage objects are not tied to auth.users.
+ */
+
+import { createClient } from 'npm:@supabase/supabase-js@2';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers':
+    'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+const AVATARS_BUCKET = 'avatars';
+const LIST_PAGE_SIZE = 100;
+
+function jsonResponse(body: Record<string, unknown>, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+Deno.serve(async req => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  if (req.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, 405);
+  }
+
+  const authHeader = req.headers.get('Authorization');
+  if (!authHeader) {
+    return jsonResponse({ error: 'Missing authorization header' }, 401);
+  }
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+  const admin = createClient(
+    supabaseUrl,
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!,
+    { auth: { autoRefreshToken: false, persistSession: false } }
+  );
+
+  // Resolve the caller from their own JWT - never trust a user id in the body
+  const token = authHeader.replace(/^Bearer\s+/i, '');
+  const {
+    data: { user },
+    error: userError,
+  } = await admin.auth.getUser(token);
+
+  if (userError || !user) {
+    return jsonResponse({ error: 'Invalid or expired session' }, 401);
+  }
+
+  // Purge avatars first: if this fails the account still exists and the
+  // user can retry, whereas orphaned files would have no owner left
+  const folder = user.id;
+  for (;;) {
+    const { data: objects, error: listError } = await admin.storage
+      .from(AVATARS_BUCKET)
+      .list(folder, { limit: LIST_PAGE_SIZE });
+
+    if (listError) {
+      console.error('Failed to list avatars:', listError);
+      return jsonResponse({ error: 'Failed to delete account data' }, 500);
+    }
+
+    // Entries without an id are sub-folders, which uploads never create
+    const files = (objects ?? []).filter(object => object.id !== null);
+    if (files.length === 0) {
+      break;
+    }
+
+    const { error: removeError } = await admin.storage
+      .from(AVATARS_BUCKET)
+      .remove(files.map(file => `${folder}/${file.name}`));
+
+    if (removeError) {
+      console.error('Failed to remove avatars:', removeError);
+      return jsonResponse({ error: 'Failed to delete account data' }, 500);
+    }
+  }
+
+  const { error: deleteError } = await admin.auth.admin.deleteUser(user.id);
+
+  if (deleteError) {
+    console.error('Failed to delete user:', deleteError);
+    return jsonResponse({ error: 'Failed to delete account' }, 500);
+  }
+
+  return jsonResponse({ success: true });
+});
@@ -0,0 +1,49 @@
+-- Active sessions per device
+-- One row per auth session, kept fresh by a client heartbeat. Rows reference
+-- auth.sessions, so revoking sessions (sign out elsewhere/everywhere) removes
+-- them automatically.
+
+CREATE TABLE IF NOT EXISTS public.user_sessions (
+    id UUID PRIMARY KEY REFERENCES auth.sessions(id) ON DELETE CASCADE,
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    device_name TEXT NOT NULL,
+    platform TEXT NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+    last_seen_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+
+    -- Constraints
+    CONSTRAINT valid_platform CHECK (platform IN ('web', 'ios', 'android')),
+    CONSTRAINT valid_device_name CHECK (length(device_name) <= 100)
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_sessions_user_id ON public.user_sessions(user_id);
+
+-- Enable Row Level Security
+ALTER TABLE public.user_sessions ENABLE ROW LEVEL SECURITY;
+
+-- Users can list their own sessions; writes only go through the heartbeat
+CREATE POLICY "Users can view own sessions" ON public.user_sessions
+    FOR SELECT USING (auth.uid() = user_id);
+
+-- Record or refresh the caller's current session.
+-- The session id comes from the JWT, so a client can only touch its own row.
+CREATE OR REPLACE FUNCTION public.record_session_heartbeat(
+    p_device_name TEXT,
+    p_platform TEXT
+)
+RETURNS VOID AS $$
+DECLARE
+    v_session_id UUID := (auth.jwt() ->> 'session_id')::uuid;
+BEGIN
+    IF auth.uid() IS NULL OR v_session_id IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    INSERT INTO public.user_sessions (id, user_id, device_name, platform)
+    VALUES (v_session_id, auth.uid(), left(p_device_name, 100), p_platform)
+    ON CONFLICT (id) DO UPDATE
+        SET device_name = EXCLUDED.device_name,
+            platform = EXCLUDED.platform,
+            last_seen_at = NOW();
+END;
+$$ language 'plpgsql' SECURITY DEFINER SET search_path = public;
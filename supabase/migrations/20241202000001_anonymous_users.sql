@@ -0,0 +1,38 @@
+-- Profiles for anonymous (guest) users
+-- Guests have no email or metadata, so handle_new_user would leave their
+-- display name empty. They get "Guest" instead, and once the guest converts
+-- to a permanent account the same profile row is kept and that placeholder
+-- is swapped for their email.
+
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER AS $$
+BEGIN
+    INSERT INTO public.user_profiles (user_id, username, display_name)
+    VALUES (
+        NEW.id,
+        public.generate_username(),
+        CASE
+            WHEN NEW.is_anonymous THEN 'Guest'
+            ELSE COALESCE(NEW.raw_user_meta_data->>'full_name', NEW.email)
+        END
+    );
+    RETURN NEW;
+END;
+$$ language 'plpgsql' SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.handle_guest_converted()
+RETURNS TRIGGER AS $$
+BEGIN
+    UPDATE public.user_profiles
+    SET display_name = COALESCE(NEW.raw_user_meta_data->>'full_name', NEW.email)
+    WHERE user_id = NEW.id
+    AND display_name = 'Guest';
+    RETURN NEW;
+END;
+$$ language 'plpgsql' SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER on_auth_guest_converted
+    AFTER UPDATE OF is_anonymous ON auth.users
+    FOR EACH ROW
+    WHEN (OLD.is_anonymous AND NOT NEW.is_anonymous)
+    EXECUTE FUNCTION public.handle_guest_converted();
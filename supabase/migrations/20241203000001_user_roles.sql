@@ -0,0 +1,97 @@
+-- Role-based access control
+-- Roles live in user_roles and are copied into the access token as the
+-- user_roles claim by custom_access_token_hook, so clients can gate routes
+-- without a query. RLS uses has_role(), which reads the table, so a role
+-- change is enforced by the database immediately rather than on token refresh.
+
+CREATE TYPE public.app_role AS ENUM ('admin', 'member');
+
+CREATE TABLE IF NOT EXISTS public.user_roles (
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    role public.app_role NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+
+    PRIMARY KEY (user_id, role)
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.user_roles ENABLE ROW LEVEL SECURITY;
+
+-- Check whether the current user holds a role.
+-- SECURITY DEFINER so policies on user_roles itself can call it without recursing.
+CREATE OR REPLACE FUNCTION public.has_role(p_role public.app_role)
+RETURNS BOOLEAN AS $$
+    SELECT EXISTS (
+        SELECT 1 FROM public.user_roles
+        WHERE user_id = auth.uid() AND role = p_role
+    );
+$$ language 'sql' STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.is_admin()
+RETURNS BOOLEAN AS $$
+    SELECT public.has_role('admin');
+$$ language 'sql' STABLE SECURITY DEFINER SET search_path = public;
+
+-- Users can see their own roles; admins can see and manage everyone's
+CREATE POLICY "Users can view own roles" ON public.user_roles
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all roles" ON public.user_roles
+    FOR SELECT USING (public.is_admin());
+
+CREATE POLICY "Admins can grant roles" ON public.user_roles
+    FOR INSERT WITH CHECK (public.is_admin());
+
+CREATE POLICY "Admins can revoke roles" ON public.user_roles
+    FOR DELETE USING (public.is_admin());
+
+-- Every new user starts out as a member
+CREATE OR REPLACE FUNCTION public.assign_default_role()
+RETURNS TRIGGER AS $$
+BEGIN
+    INSERT INTO public.user_roles (user_id, role)
+    VALUES (NEW.id, 'member')
+    ON CONFLICT DO NOTHING;
+
+    RETURN NEW;
+END;
+$$ language 'plpgsql' SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER on_auth_user_created_assign_role
+    AFTER INSERT ON auth.users
+    FOR EACH ROW
+    EXECUTE FUNCTION public.assign_default_role();
+
+-- Backfill users created before this migration
+INSERT INTO public.user_roles (user_id, role)
+SELECT id, 'member' FROM auth.users
+ON CONFLICT DO NOTHING;
+
+-- Custom access token hook: adds the user's roles as the user_roles claim.
+-- Registered in config.toml under [auth.hook.custom_access_token].
+CREATE OR REPLACE FUNCTION public.custom_access_token_hook(event JSONB)
+RETURNS JSONB AS $$
+DECLARE
+    v_claims JSONB := event -> 'claims';
+    v_roles JSONB;
+BEGIN
+    SELECT COALESCE(jsonb_agg(role ORDER BY role), '[]'::jsonb)
+    INTO v_roles
+    FROM public.user_roles
+    WHERE user_id = (event ->> 'user_id')::uuid;
+
+    RETURN jsonb_set(event, '{claims}', jsonb_set(v_claims, '{user_roles}', v_roles));
+END;
+$$ language 'plpgsql' STABLE;
+
+-- Only the auth server may run the hook, and it needs to read user_roles to do so
+GRANT USAGE ON SCHEMA public TO supabase_auth_admin;
+GRANT EXECUTE ON FUNCTION public.custom_access_token_hook TO supabase_auth_admin;
+REVOKE EXECUTE ON FUNCTION public.custom_access_token_hook FROM authenticated, anon, public;
+
+GRANT SELECT ON TABLE public.user_roles TO supabase_auth_admin;
+
+CREATE POLICY "Auth admin can read roles for the token hook" ON public.user_roles
+    AS PERMISSIVE FOR SELECT
+    TO supabase_auth_admin
+    USING (true);
@@ -0,0 +1,51 @@
+-- Username and display name chosen at signup
+-- signUp passes them as user metadata (username, display_name). A requested
+-- username that breaks the valid_username constraint or is already taken falls
+-- back to a generated one, and an invalid display name to the usual default
+-- (the chosen username when it was kept, otherwise the email), so a bad or
+-- conflicting choice never makes the signup itself fail.
+
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER AS $$
+DECLARE
+    requested_username TEXT := btrim(NEW.raw_user_meta_data->>'username');
+    requested_display_name TEXT := btrim(NEW.raw_user_meta_data->>'display_name');
+    new_display_name TEXT;
+BEGIN
+    IF requested_username !~ '^[a-zA-Z0-9_]{3,30}$' THEN
+        requested_username := NULL;
+    END IF;
+
+    IF requested_display_name = '' OR length(requested_display_name) > 100 THEN
+        requested_display_name := NULL;
+    END IF;
+
+    new_display_name := CASE
+        WHEN NEW.is_anonymous THEN 'Guest'
+        ELSE COALESCE(requested_display_name, NEW.raw_user_meta_data->>'full_name')
+    END;
+
+    IF requested_username IS NOT NULL THEN
+        BEGIN
+            INSERT INTO public.user_profiles (user_id, username, display_name)
+            VALUES (
+                NEW.id,
+                requested_username,
+                COALESCE(new_display_name, requested_username)
+            );
+            RETURN NEW;
+        EXCEPTION WHEN unique_violation THEN
+            -- Taken, possibly by a signup that raced this one
+            NULL;
+        END;
+    END IF;
+
+    INSERT INTO public.user_profiles (user_id, username, display_name)
+    VALUES (
+        NEW.id,
+        public.generate_username(),
+        COALESCE(new_display_name, NEW.email)
+    );
+    RETURN NEW;
+END;
+$$ language 'plpgsql' SECURITY DEFINER SET search_path = public;
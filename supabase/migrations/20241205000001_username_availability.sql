@@ -0,0 +1,46 @@
+-- Username availability for the profile and signup forms
+-- Lets the forms say a username is taken or reserved while the user types,
+-- instead of after updateProfile fails on the unique constraint. Names compare
+-- case-insensitively, and the caller's own username counts as available.
+
+-- Names that could pass for the app, its staff or one of its pages
+CREATE OR REPLACE FUNCTION public.is_reserved_username(p_username TEXT)
+RETURNS BOOLEAN AS $$
+    SELECT lower(p_username) = ANY (ARRAY[
+        'abuse', 'admin', 'administrator', 'api', 'auth', 'dashboard', 'help',
+        'login', 'me', 'mod', 'moderator', 'null', 'official', 'postmaster',
+        'profile', 'root', 'security', 'settings', 'signup', 'staff',
+        'support', 'system', 'undefined', 'webmaster', 'www'
+    ]);
+$$ language 'sql' IMMUTABLE;
+
+-- Returns 'available', 'taken', 'reserved' or 'invalid' (breaks valid_username)
+-- SECURITY DEFINER so the answer doesn't depend on who may read user_profiles.
+CREATE OR REPLACE FUNCTION public.check_username_available(p_username TEXT)
+RETURNS TEXT AS $$
+BEGIN
+    IF p_username IS NULL OR p_username !~ '^[a-zA-Z0-9_]{3,30}$' THEN
+        RETURN 'invalid';
+    END IF;
+
+    IF public.is_reserved_username(p_username) THEN
+        RETURN 'reserved';
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM public.user_profiles
+        WHERE lower(username) = lower(p_username)
+        AND user_id IS DISTINCT FROM auth.uid()
+    ) THEN
+        RETURN 'taken';
+    END IF;
+
+    RETURN 'available';
+END;
+$$ language 'plpgsql' STABLE SECURITY DEFINER SET search_path = public;
+
+-- The signup form asks before the user has an account
+GRANT EXECUTE ON FUNCTION public.check_username_available(TEXT) TO anon, authenticated;
+
+CREATE INDEX IF NOT EXISTS idx_user_profiles_username_lower
+    ON public.user_profiles (lower(username));
@@ -0,0 +1,130 @@
+-- Case-insensitive usernames and reserved names
+-- "Admin" and "admin" could both be registered because the username unique
+-- constraint compares case-sensitively, and nothing kept anyone from calling
+-- themselves "support" or "root". Usernames are now unique regardless of case
+-- and may not be on the reserved_usernames list. The list is mirrored in
+-- RESERVED_USERNAMES in profileSchema.ts for form validation.
+
+-- Rename existing case-insensitive duplicates, keeping the oldest profile's name
+UPDATE public.user_profiles p
+SET username = public.generate_username()
+WHERE EXISTS (
+    SELECT 1 FROM public.user_profiles other
+    WHERE lower(other.username) = lower(p.username)
+    AND (other.created_at, other.id) < (p.created_at, p.id)
+);
+
+DROP INDEX IF EXISTS public.idx_user_profiles_username_lower;
+CREATE UNIQUE INDEX IF NOT EXISTS user_profiles_username_lower_key
+    ON public.user_profiles (lower(username));
+
+-- Reserved usernames, stored lowercase
+CREATE TABLE IF NOT EXISTS public.reserved_usernames (
+    username TEXT PRIMARY KEY,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+
+    CONSTRAINT reserved_username_lowercase CHECK (username = lower(username))
+);
+
+ALTER TABLE public.reserved_usernames ENABLE ROW LEVEL SECURITY;
+
+-- The list is public so clients can explain why a name was refused;
+-- only admins can change it
+CREATE POLICY "Anyone can view reserved usernames" ON public.reserved_usernames
+    FOR SELECT USING (true);
+
+CREATE POLICY "Admins can reserve usernames" ON public.reserved_usernames
+    FOR INSERT WITH CHECK (public.is_admin());
+
+CREATE POLICY "Admins can release usernames" ON public.reserved_usernames
+    FOR DELETE USING (public.is_admin());
+
+INSERT INTO public.reserved_usernames (username) VALUES
+    ('abuse'), ('admin'), ('administrator'), ('api'), ('app'), ('auth'),
+    ('billing'), ('contact'), ('dashboard'), ('help'), ('info'), ('login'),
+    ('logout'), ('me'), ('mod'), ('moderator'), ('null'), ('official'),
+    ('owner'), ('postmaster'), ('profile'), ('root'), ('security'),
+    ('settings'), ('signup'), ('staff'), ('support'), ('system'), ('team'),
+    ('undefined'), ('webmaster'), ('www')
+ON CONFLICT DO NOTHING;
+
+-- Replaces the hard-coded list from check_username_available's migration
+CREATE OR REPLACE FUNCTION public.is_reserved_username(p_username TEXT)
+RETURNS BOOLEAN AS $$
+    SELECT EXISTS (
+        SELECT 1 FROM public.reserved_usernames
+        WHERE username = lower(p_username)
+    );
+$$ language 'sql' STABLE SECURITY DEFINER SET search_path = public;
+
+-- Refuse reserved names when a username is set or changed. Profiles that
+-- already had one keep it until they change it, so an update that re-sends
+-- the same name (as the profile form does) is let through.
+CREATE OR REPLACE FUNCTION public.check_username_not_reserved()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP = 'UPDATE' AND lower(NEW.username) = lower(OLD.username) THEN
+        RETURN NEW;
+    END IF;
+
+    IF public.is_reserved_username(NEW.username) THEN
+        RAISE EXCEPTION 'Username "%" is reserved', NEW.username
+            USING ERRCODE = 'check_violation';
+    END IF;
+    RETURN NEW;
+END;
+$$ language 'plpgsql' SET search_path = public;
+
+CREATE TRIGGER check_username_not_reserved
+    BEFORE INSERT OR UPDATE OF username ON public.user_profiles
+    FOR EACH ROW
+    WHEN (NEW.username IS NOT NULL)
+    EXECUTE FUNCTION public.check_username_not_reserved();
+
+-- handle_new_user: a reserved username requested at signup falls back to a
+-- generated one, like a taken one
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER AS $$
+DECLARE
+    requested_username TEXT := btrim(NEW.raw_user_meta_data->>'username');
+    requested_display_name TEXT := btrim(NEW.raw_user_meta_data->>'display_name');
+    new_display_name TEXT;
+BEGIN
+    IF requested_username !~ '^[a-zA-Z0-9_]{3,30}$'
+        OR public.is_reserved_username(requested_username) THEN
+        requested_username := NULL;
+    END IF;
+
+    IF requested_display_name = '' OR length(requested_display_name) > 100 THEN
+        requested_display_name := NULL;
+    END IF;
+
+    new_display_name := CASE
+        WHEN NEW.is_anonymous THEN 'Guest'
+        ELSE COALESCE(requested_display_name, NEW.raw_user_meta_data->>'full_name')
+    END;
+
+    IF requested_username IS NOT NULL THEN
+        BEGIN
+            INSERT INTO public.user_profiles (user_id, username, display_name)
+            VALUES (
+                NEW.id,
+                requested_username,
+                COALESCE(new_display_name, requested_username)
+            );
+            RETURN NEW;
+        EXCEPTION WHEN unique_violation THEN
+            -- Taken, possibly by a signup that raced this one
+            NULL;
+        END;
+    END IF;
+
+    INSERT INTO public.user_profiles (user_id, username, display_name)
+    VALUES (
+        NEW.id,
+        public.generate_username(),
+        COALESCE(new_display_name, NEW.email)
+    );
+    RETURN NEW;
+END;
+$$ language 'plpgsql' SECURITY DEFINER SET search_path = public;
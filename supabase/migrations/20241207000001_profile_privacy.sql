@@ -0,0 +1,58 @@
+-- Per-field profile privacy
+-- bio, location and website each have a visibility: 'public' (anyone),
+-- 'authenticated' (signed-in users; guests don't count) or 'private' (only
+-- the owner). Username, display name and avatar are always public.
+-- Reading user_profiles directly is limited to the owner and admins; everyone
+-- else reads public_profiles, which blanks the fields they may not see, so a
+-- hidden field can't be fetched by querying the table.
+
+CREATE TYPE public.profile_visibility AS ENUM ('public', 'authenticated', 'private');
+
+ALTER TABLE public.user_profiles
+    ADD COLUMN bio_visibility public.profile_visibility NOT NULL DEFAULT 'public',
+    ADD COLUMN location_visibility public.profile_visibility NOT NULL DEFAULT 'public',
+    ADD COLUMN website_visibility public.profile_visibility NOT NULL DEFAULT 'public';
+
+-- Whether the current user may see a field of p_owner's profile
+CREATE OR REPLACE FUNCTION public.can_view_profile_field(
+    p_owner UUID,
+    p_visibility public.profile_visibility
+)
+RETURNS BOOLEAN AS $$
+    SELECT COALESCE(auth.uid() = p_owner, false)
+        OR p_visibility = 'public'
+        OR (
+            p_visibility = 'authenticated'
+            AND auth.uid() IS NOT NULL
+            AND NOT COALESCE((auth.jwt() ->> 'is_anonymous')::boolean, false)
+        );
+$$ language 'sql' STABLE SET search_path = public;
+
+-- Replace "Users can view all profiles"
+DROP POLICY IF EXISTS "Users can view all profiles" ON public.user_profiles;
+
+CREATE POLICY "Users can view their own profile" ON public.user_profiles
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all profiles" ON public.user_profiles
+    FOR SELECT USING (public.is_admin());
+
+-- Profiles as other users see them.
+-- The view runs with its owner's rights (it isn't security_invoker), which
+-- lets it read every row past the owner-only policy above; the field checks
+-- below are what protects hidden fields.
+CREATE OR REPLACE VIEW public.public_profiles AS
+SELECT
+    id,
+    user_id,
+    username,
+    display_name,
+    avatar_url,
+    CASE WHEN public.can_view_profile_field(user_id, bio_visibility) THEN bio END AS bio,
+    CASE WHEN public.can_view_profile_field(user_id, location_visibility) THEN location END AS location,
+    CASE WHEN public.can_view_profile_field(user_id, website_visibility) THEN website END AS website,
+    created_at
+FROM public.user_profiles;
+
+REVOKE ALL ON public.public_profiles FROM anon, authenticated;
+GRANT SELECT ON public.public_profiles TO anon, authenticated;
@@ -0,0 +1,63 @@
+-- Profile directory search
+-- search_profiles matches usernames, display names and locations by substring
+-- (trigram indexes) and bios by words (full-text index). Bio and location
+-- only match when the caller may see them, so a search can't reveal a hidden
+-- field; rows come back as public_profiles shows them. Guests aren't listed.
+-- Results are ordered by username and paged with the last username seen as
+-- the cursor.
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm WITH SCHEMA extensions;
+
+CREATE INDEX IF NOT EXISTS idx_user_profiles_username_trgm
+    ON public.user_profiles USING gin (username extensions.gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_user_profiles_display_name_trgm
+    ON public.user_profiles USING gin (display_name extensions.gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_user_profiles_location_trgm
+    ON public.user_profiles USING gin (location extensions.gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_user_profiles_bio_fts
+    ON public.user_profiles USING gin (to_tsvector('simple', COALESCE(bio, '')));
+
+-- An empty query lists everyone. p_cursor is the username of the last row of
+-- the previous page; p_limit is capped at 50.
+CREATE OR REPLACE FUNCTION public.search_profiles(
+    p_query TEXT DEFAULT NULL,
+    p_cursor TEXT DEFAULT NULL,
+    p_limit INTEGER DEFAULT 20
+)
+RETURNS SETOF public.public_profiles AS $$
+DECLARE
+    v_query TEXT := NULLIF(btrim(COALESCE(p_query, '')), '');
+    -- The query as an ILIKE pattern, with its own wildcards escaped
+    v_pattern TEXT := '%' || regexp_replace(v_query, '([\\%_])', '\\\1', 'g') || '%';
+    v_tsquery tsquery := websearch_to_tsquery('simple', COALESCE(v_query, ''));
+    v_limit INTEGER := LEAST(GREATEST(COALESCE(p_limit, 20), 1), 50);
+BEGIN
+    RETURN QUERY
+    SELECT pp.*
+    FROM public.user_profiles p
+    JOIN public.public_profiles pp ON pp.id = p.id
+    JOIN auth.users u ON u.id = p.user_id
+    WHERE NOT u.is_anonymous
+        AND p.username IS NOT NULL
+        AND (p_cursor IS NULL OR lower(p.username) > lower(p_cursor))
+        AND (
+            v_query IS NULL
+            OR p.username ILIKE v_pattern
+            OR p.display_name ILIKE v_pattern
+            OR (
+                p.location ILIKE v_pattern
+                AND public.can_view_profile_field(p.user_id, p.location_visibility)
+            )
+            OR (
+                to_tsvector('simple', COALESCE(p.bio, '')) @@ v_tsquery
+                AND public.can_view_profile_field(p.user_id, p.bio_visibility)
+            )
+        )
+    ORDER BY lower(p.username)
+    LIMIT v_limit;
+END;
+$$ language 'plpgsql' STABLE SECURITY DEFINER SET search_path = public, extensions;
+
+-- The directory is for signed-in users
+REVOKE EXECUTE ON FUNCTION public.search_profiles(TEXT, TEXT, INTEGER) FROM public, anon;
+GRANT EXECUTE ON FUNCTION public.search_profiles(TEXT, TEXT, INTEGER) TO authenticated;
@@ -0,0 +1,75 @@
+-- Follows between users
+-- One row per follower/followed pair. The graph is public, like follower
+-- counts on most social products; only signed-in, non-guest users can follow,
+-- and only as themselves. Profiles in follower lists come from
+-- public_profiles, so they respect each member's privacy settings.
+
+CREATE TABLE IF NOT EXISTS public.follows (
+    follower_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    following_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+
+    PRIMARY KEY (follower_id, following_id),
+
+    -- Constraints
+    CONSTRAINT no_self_follow CHECK (follower_id <> following_id)
+);
+
+-- The primary key covers lookups by follower; this one covers followers of a user
+CREATE INDEX IF NOT EXISTS idx_follows_following_id ON public.follows(following_id);
+
+-- Enable Row Level Security
+ALTER TABLE public.follows ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view follows" ON public.follows
+    FOR SELECT USING (true);
+
+CREATE POLICY "Users can follow others" ON public.follows
+    FOR INSERT WITH CHECK (
+        auth.uid() = follower_id
+        AND NOT COALESCE((auth.jwt() ->> 'is_anonymous')::boolean, false)
+    );
+
+CREATE POLICY "Users can unfollow" ON public.follows
+    FOR DELETE USING (auth.uid() = follower_id);
+
+-- Realtime keeps follower counts current. With RLS on, DELETE events carry
+-- only the primary key, which here is both user ids.
+ALTER PUBLICATION supabase_realtime ADD TABLE public.follows;
+ALTER TABLE public.follows REPLICA IDENTITY FULL;
+
+-- Profiles following p_user_id, ordered by username and paged with the last
+-- username seen as the cursor (as search_profiles does). Profiles without a
+-- username can't serve as a cursor, so they are left out.
+CREATE OR REPLACE FUNCTION public.get_followers(
+    p_user_id UUID,
+    p_cursor TEXT DEFAULT NULL,
+    p_limit INTEGER DEFAULT 20
+)
+RETURNS SETOF public.public_profiles AS $$
+    SELECT pp.*
+    FROM public.follows f
+    JOIN public.public_profiles pp ON pp.user_id = f.follower_id
+    WHERE f.following_id = p_user_id
+        AND pp.username IS NOT NULL
+        AND (p_cursor IS NULL OR lower(pp.username) > lower(p_cursor))
+    ORDER BY lower(pp.username)
+    LIMIT LEAST(GREATEST(COALESCE(p_limit, 20), 1), 50);
+$$ language 'sql' STABLE SET search_path = public;
+
+-- Profiles p_user_id follows, paged like get_followers
+CREATE OR REPLACE FUNCTION public.get_following(
+    p_user_id UUID,
+    p_cursor TEXT DEFAULT NULL,
+    p_limit INTEGER DEFAULT 20
+)
+RETURNS SETOF public.public_profiles AS $$
+    SELECT pp.*
+    FROM public.follows f
+    JOIN public.public_profiles pp ON pp.user_id = f.following_id
+    WHERE f.follower_id = p_user_id
+        AND pp.username IS NOT NULL
+        AND (p_cursor IS NULL OR lower(pp.username) > lower(p_cursor))
+    ORDER BY lower(pp.username)
+    LIMIT LEAST(GREATEST(COALESCE(p_limit, 20), 1), 50);
+$$ language 'sql' STABLE SET search_path = public;
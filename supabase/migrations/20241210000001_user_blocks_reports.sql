@@ -0,0 +1,234 @@
+-- Blocking and reporting users
+-- A block hides the blocked user's profile from the blocker everywhere
+-- profiles are read through public_profiles (profile pages, search, follower
+-- lists), removes follows between the two and stops either following the
+-- other. Reports go to a queue that only admins can read and review.
+
+-- ============================================================================
+-- Blocks
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.user_blocks (
+    blocker_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    blocked_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+
+    PRIMARY KEY (blocker_id, blocked_id),
+
+    -- Constraints
+    CONSTRAINT no_self_block CHECK (blocker_id <> blocked_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_blocks_blocked_id ON public.user_blocks(blocked_id);
+
+-- Enable Row Level Security
+ALTER TABLE public.user_blocks ENABLE ROW LEVEL SECURITY;
+
+-- Blocks are private to the blocker; the blocked user isn't told
+CREATE POLICY "Users can view their blocks" ON public.user_blocks
+    FOR SELECT USING (auth.uid() = blocker_id);
+
+CREATE POLICY "Users can block others" ON public.user_blocks
+    FOR INSERT WITH CHECK (
+        auth.uid() = blocker_id
+        AND NOT COALESCE((auth.jwt() ->> 'is_anonymous')::boolean, false)
+    );
+
+CREATE POLICY "Users can unblock" ON public.user_blocks
+    FOR DELETE USING (auth.uid() = blocker_id);
+
+-- Whether the current user and p_user_id have blocked each other, either way.
+-- SECURITY DEFINER so the follows policy can see blocks made by the other user.
+CREATE OR REPLACE FUNCTION public.has_block_with(p_user_id UUID)
+RETURNS BOOLEAN AS $$
+    SELECT EXISTS (
+        SELECT 1 FROM public.user_blocks
+        WHERE (blocker_id = auth.uid() AND blocked_id = p_user_id)
+            OR (blocker_id = p_user_id AND blocked_id = auth.uid())
+    );
+$$ language 'sql' STABLE SECURITY DEFINER SET search_path = public;
+
+-- Blocking someone ends follows in both directions
+CREATE OR REPLACE FUNCTION public.remove_follows_on_block()
+RETURNS TRIGGER AS $$
+BEGIN
+    DELETE FROM public.follows
+    WHERE (follower_id = NEW.blocker_id AND following_id = NEW.blocked_id)
+        OR (follower_id = NEW.blocked_id AND following_id = NEW.blocker_id);
+
+    RETURN NEW;
+END;
+$$ language 'plpgsql' SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER on_user_block_remove_follows
+    AFTER INSERT ON public.user_blocks
+    FOR EACH ROW
+    EXECUTE FUNCTION public.remove_follows_on_block();
+
+DROP POLICY IF EXISTS "Users can follow others" ON public.follows;
+
+CREATE POLICY "Users can follow others" ON public.follows
+    FOR INSERT WITH CHECK (
+        auth.uid() = follower_id
+        AND NOT COALESCE((auth.jwt() ->> 'is_anonymous')::boolean, false)
+        AND NOT public.has_block_with(following_id)
+    );
+
+-- Same view as before, minus users the viewer has blocked
+CREATE OR REPLACE VIEW public.public_profiles AS
+SELECT
+    id,
+    user_id,
+    username,
+    display_name,
+    avatar_url,
+    CASE WHEN public.can_view_profile_field(user_id, bio_visibility) THEN bio END AS bio,
+    CASE WHEN public.can_view_profile_field(user_id, location_visibility) THEN location END AS location,
+    CASE WHEN public.can_view_profile_field(user_id, website_visibility) THEN website END AS website,
+    created_at
+FROM public.user_profiles p
+WHERE NOT EXISTS (
+    SELECT 1 FROM public.user_blocks b
+    WHERE b.blocker_id = auth.uid() AND b.blocked_id = p.user_id
+);
+
+-- The blocker's blocked users, most recent first. Their profiles are hidden
+-- from public_profiles, so this reads the names past it to allow unblocking.
+CREATE OR REPLACE FUNCTION public.get_blocked_users()
+RETURNS TABLE (
+    user_id UUID,
+    username TEXT,
+    display_name TEXT,
+    avatar_url TEXT,
+    blocked_at TIMESTAMP WITH TIME ZONE
+) AS $$
+    SELECT b.blocked_id, p.username, p.display_name, p.avatar_url, b.created_at
+    FROM public.user_blocks b
+    LEFT JOIN public.user_profiles p ON p.user_id = b.blocked_id
+    WHERE b.blocker_id = auth.uid()
+    ORDER BY b.created_at DESC;
+$$ language 'sql' STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.get_blocked_users() FROM public, anon;
+GRANT EXECUTE ON FUNCTION public.get_blocked_users() TO authenticated;
+
+-- ============================================================================
+-- Reports
+-- ============================================================================
+
+CREATE TYPE public.report_reason AS ENUM (
+    'spam',
+    'harassment',
+    'inappropriate',
+    'impersonation',
+    'other'
+);
+
+-- pending: waiting for review; resolved: acted on; dismissed: no action needed
+CREATE TYPE public.report_status AS ENUM ('pending', 'resolved', 'dismissed');
+
+CREATE TABLE IF NOT EXISTS public.user_reports (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    reporter_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    reported_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    reason public.report_reason NOT NULL,
+    details TEXT,
+    status public.report_status DEFAULT 'pending' NOT NULL,
+    reviewed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    reviewed_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+
+    -- Constraints
+    CONSTRAINT no_self_report CHECK (reporter_id <> reported_id),
+    CONSTRAINT details_length CHECK (details IS NULL OR LENGTH(details) <= 1000)
+);
+
+-- One open report per reporter and user; a second one adds nothing to review
+CREATE UNIQUE INDEX IF NOT EXISTS idx_user_reports_pending
+    ON public.user_reports(reporter_id, reported_id)
+    WHERE status = 'pending';
+
+CREATE INDEX IF NOT EXISTS idx_user_reports_status_created_at
+    ON public.user_reports(status, created_at);
+
+-- Enable Row Level Security
+ALTER TABLE public.user_reports ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can report others" ON public.user_reports
+    FOR INSERT WITH CHECK (
+        auth.uid() = reporter_id
+        AND NOT COALESCE((auth.jwt() ->> 'is_anonymous')::boolean, false)
+        AND status = 'pending'
+        AND reviewed_by IS NULL
+        AND reviewed_at IS NULL
+    );
+
+CREATE POLICY "Users can view their reports" ON public.user_reports
+    FOR SELECT USING (auth.uid() = reporter_id);
+
+CREATE POLICY "Admins can view all reports" ON public.user_reports
+    FOR SELECT USING (public.is_admin());
+
+CREATE POLICY "Admins can review reports" ON public.user_reports
+    FOR UPDATE USING (public.is_admin()) WITH CHECK (public.is_admin());
+
+-- Record who reviewed a report and when, whatever the client sends
+CREATE OR REPLACE FUNCTION public.set_report_reviewed()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.status IS DISTINCT FROM OLD.status THEN
+        IF NEW.status = 'pending' THEN
+            NEW.reviewed_by := NULL;
+            NEW.reviewed_at := NULL;
+        ELSE
+            NEW.reviewed_by := auth.uid();
+            NEW.reviewed_at := NOW();
+        END IF;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ language 'plpgsql' SET search_path = public;
+
+CREATE TRIGGER on_user_report_reviewed
+    BEFORE UPDATE ON public.user_reports
+    FOR EACH ROW
+    EXECUTE FUNCTION public.set_report_reviewed();
+
+-- Reports with the usernames of both users, oldest first so the queue is
+-- worked in order. Runs with the caller's rights: admins see every report and
+-- profile, anyone else only their own reports.
+CREATE OR REPLACE FUNCTION public.get_user_reports(
+    p_status public.report_status DEFAULT 'pending',
+    p_limit INTEGER DEFAULT 50
+)
+RETURNS TABLE (
+    id UUID,
+    reason public.report_reason,
+    details TEXT,
+    status public.report_status,
+    created_at TIMESTAMP WITH TIME ZONE,
+    reviewed_at TIMESTAMP WITH TIME ZONE,
+    reporter_id UUID,
+    reporter_username TEXT,
+    reported_id UUID,
+    reported_username TEXT
+) AS $$
+    SELECT
+        r.id,
+        r.reason,
+        r.details,
+        r.status,
+        r.created_at,
+        r.reviewed_at,
+        r.reporter_id,
+        reporter.username,
+        r.reported_id,
+        reported.username
+    FROM public.user_reports r
+    LEFT JOIN public.user_profiles reporter ON reporter.user_id = r.reporter_id
+    LEFT JOIN public.user_profiles reported ON reported.user_id = r.reported_id
+    WHERE r.status = p_status
+    ORDER BY r.created_at
+    LIMIT LEAST(GREATEST(COALESCE(p_limit, 50), 1), 100);
+$$ language 'sql' STABLE SET search_path = public;
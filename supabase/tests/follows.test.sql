@@ -0,0 +1,209 @@
+-- Tests for follows, its policies and the follower list functions
+
+BEGIN;
+
+SELECT plan(14);
+
+-- Test 1: The table exists with RLS and realtime enabled
+SELECT has_table('public', 'follows', 'follows table should exist');
+
+SELECT ok(
+  (SELECT relrowsecurity FROM pg_class WHERE oid = 'public.follows'::regclass),
+  'RLS should be enabled on follows table'
+);
+
+SELECT ok(
+  EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime'
+    AND schemaname = 'public'
+    AND tablename = 'follows'
+  ),
+  'follows should be in the realtime publication'
+);
+
+INSERT INTO auth.users (
+    id,
+    instance_id,
+    email,
+    raw_app_meta_data,
+    raw_user_meta_data,
+    created_at,
+    updated_at,
+    aud,
+    role,
+    is_anonymous
+) VALUES (
+    '00000000-0000-0000-0000-000000000060',
+    '00000000-0000-0000-0000-000000000000',
+    'follow-a@example.com',
+    '{}'::jsonb,
+    '{"username":"follow_a"}'::jsonb,
+    now(),
+    now(),
+    'authenticated',
+    'authenticated',
+    false
+), (
+    '00000000-0000-0000-0000-000000000061',
+    '00000000-0000-0000-0000-000000000000',
+    'follow-b@example.com',
+    '{}'::jsonb,
+    '{"username":"follow_b"}'::jsonb,
+    now(),
+    now(),
+    'authenticated',
+    'authenticated',
+    false
+), (
+    '00000000-0000-0000-0000-000000000062',
+    '00000000-0000-0000-0000-000000000000',
+    'follow-c@example.com',
+    '{}'::jsonb,
+    '{"username":"follow_c"}'::jsonb,
+    now(),
+    now(),
+    'authenticated',
+    'authenticated',
+    false
+);
+
+-- Act as follow_a
+SELECT set_config(
+  'request.jwt.claims',
+  '{"sub":"00000000-0000-0000-0000-000000000060","role":"authenticated"}',
+  true
+);
+SET LOCAL ROLE authenticated;
+
+-- Test 2: Users can follow others as themselves only
+SELECT lives_ok(
+  $$ INSERT INTO public.follows (follower_id, following_id)
+     VALUES ('00000000-0000-0000-0000-000000000060', '00000000-0000-0000-0000-000000000061') $$,
+  'Users should be able to follow another user'
+);
+
+SELECT throws_ok(
+  $$ INSERT INTO public.follows (follower_id, following_id)
+     VALUES ('00000000-0000-0000-0000-000000000062', '00000000-0000-0000-0000-000000000061') $$,
+  '42501',
+  NULL,
+  'Users should not be able to create follows for someone else'
+);
+
+-- Test 3: Nobody can follow themselves
+SELECT throws_ok(
+  $$ INSERT INTO public.follows (follower_id, following_id)
+     VALUES ('00000000-0000-0000-0000-000000000060', '00000000-0000-0000-0000-000000000060') $$,
+  '23514',
+  NULL,
+  'Users should not be able to follow themselves'
+);
+
+RESET ROLE;
+
+-- Test 4: Guests can't follow
+SELECT set_config(
+  'request.jwt.claims',
+  '{"sub":"00000000-0000-0000-0000-000000000062","role":"authenticated","is_anonymous":true}',
+  true
+);
+SET LOCAL ROLE authenticated;
+
+SELECT throws_ok(
+  $$ INSERT INTO public.follows (follower_id, following_id)
+     VALUES ('00000000-0000-0000-0000-000000000062', '00000000-0000-0000-0000-000000000061') $$,
+  '42501',
+  NULL,
+  'Guests should not be able to follow'
+);
+
+RESET ROLE;
+
+INSERT INTO public.follows (follower_id, following_id)
+VALUES ('00000000-0000-0000-0000-000000000062', '00000000-0000-0000-0000-000000000061');
+
+-- Test 5: Anyone can see the graph
+SELECT set_config('request.jwt.claims', '{"role":"anon"}', true);
+SET LOCAL ROLE anon;
+
+SELECT is(
+  (SELECT count(*)::int FROM public.follows
+   WHERE following_id = '00000000-0000-0000-0000-000000000061'),
+  2,
+  'Signed-out visitors should be able to count followers'
+);
+
+-- Test 6: Follower lists are ordered by username and paged
+SELECT results_eq(
+  $$ SELECT username FROM public.get_followers('00000000-0000-0000-0000-000000000061') $$,
+  $$ VALUES ('follow_a'::text), ('follow_c'::text) $$,
+  'get_followers should list followers by username'
+);
+
+SELECT results_eq(
+  $$ SELECT username FROM public.get_followers('00000000-0000-0000-0000-000000000061', 'follow_a', 1) $$,
+  $$ VALUES ('follow_c'::text) $$,
+  'get_followers should continue after the cursor'
+);
+
+SELECT results_eq(
+  $$ SELECT username FROM public.get_following('00000000-0000-0000-0000-000000000060') $$,
+  $$ VALUES ('follow_b'::text) $$,
+  'get_following should list followed users'
+);
+
+RESET ROLE;
+
+-- Test 7: Followers without a username are left out of the pages
+UPDATE public.user_profiles SET username = NULL
+WHERE user_id = '00000000-0000-0000-0000-000000000062';
+
+SELECT results_eq(
+  $$ SELECT username FROM public.get_followers('00000000-0000-0000-0000-000000000061') $$,
+  $$ VALUES ('follow_a'::text) $$,
+  'get_followers should skip profiles without a username'
+);
+
+-- Test 8: Only the follower can remove a follow
+SELECT set_config(
+  'request.jwt.claims',
+  '{"sub":"00000000-0000-0000-0000-000000000062","role":"authenticated"}',
+  true
+);
+SET LOCAL ROLE authenticated;
+
+DELETE FROM public.follows
+WHERE follower_id = '00000000-0000-0000-0000-000000000060';
+
+RESET ROLE;
+
+SELECT set_config(
+  'request.jwt.claims',
+  '{"sub":"00000000-0000-0000-0000-000000000060","role":"authenticated"}',
+  true
+);
+SET LOCAL ROLE authenticated;
+
+SELECT is(
+  (SELECT count(*)::int FROM public.follows
+   WHERE follower_id = '00000000-0000-0000-0000-000000000060'),
+  1,
+  'Users should not be able to remove other users'' follows'
+);
+
+DELETE FROM public.follows
+WHERE follower_id = '00000000-0000-0000-0000-000000000060'
+AND following_id = '00000000-0000-0000-0000-000000000061';
+
+SELECT is(
+  (SELECT count(*)::int FROM public.follows
+   WHERE follower_id = '00000000-0000-0000-0000-000000000060'),
+  0,
+  'Users should be able to unfollow'
+);
+
+RESET ROLE;
+
+SELECT * FROM finish();
+ROLLBACK;
@@ -0,0 +1,192 @@
+-- Tests for per-field profile privacy: public_profiles and the owner-only
+-- user_profiles policy
+
+BEGIN;
+
+SELECT plan(14);
+
+-- Test 1: The view and the visibility check exist
+SELECT has_view(
+  'public',
+  'public_profiles',
+  'public_profiles view should exist'
+);
+
+SELECT has_function(
+  'public',
+  'can_view_profile_field',
+  ARRAY['uuid', 'profile_visibility'],
+  'can_view_profile_field(uuid, profile_visibility) should exist'
+);
+
+-- Test 2: Fields are public unless the owner hides them
+INSERT INTO auth.users (
+    id,
+    instance_id,
+    email,
+    raw_app_meta_data,
+    raw_user_meta_data,
+    created_at,
+    updated_at,
+    aud,
+    role
+) VALUES (
+    '00000000-0000-0000-0000-000000000040',
+    '00000000-0000-0000-0000-000000000000',
+    'privacy-owner@example.com',
+    '{}'::jsonb,
+    '{"username":"privacy_owner"}'::jsonb,
+    now(),
+    now(),
+    'authenticated',
+    'authenticated'
+), (
+    '00000000-0000-0000-0000-000000000041',
+    '00000000-0000-0000-0000-000000000000',
+    'privacy-viewer@example.com',
+    '{}'::jsonb,
+    '{"username":"privacy_viewer"}'::jsonb,
+    now(),
+    now(),
+    'authenticated',
+    'authenticated'
+);
+
+SELECT is(
+  (SELECT bio_visibility::text FROM public.user_profiles
+   WHERE user_id = '00000000-0000-0000-0000-000000000040'),
+  'public',
+  'Fields should be public by default'
+);
+
+-- Bio for everyone, location for signed-in users, website for the owner only
+UPDATE public.user_profiles
+SET bio = 'Hello there',
+    location = 'London',
+    website = 'https://example.com',
+    bio_visibility = 'public',
+    location_visibility = 'authenticated',
+    website_visibility = 'private'
+WHERE user_id = '00000000-0000-0000-0000-000000000040';
+
+-- Test 3: Signed-out visitors only see public fields
+SELECT set_config('request.jwt.claims', '{"role":"anon"}', true);
+SET LOCAL ROLE anon;
+
+SELECT results_eq(
+  $$ SELECT bio, location, website FROM public.public_profiles
+     WHERE username = 'privacy_owner' $$,
+  $$ VALUES ('Hello there'::text, NULL::text, NULL::text) $$,
+  'Signed-out visitors should only see public fields'
+);
+
+SELECT is_empty(
+  $$ SELECT 1 FROM public.user_profiles $$,
+  'Signed-out visitors should not read user_profiles directly'
+);
+
+RESET ROLE;
+
+-- Test 4: Signed-in users also see fields shared with signed-in users
+SELECT set_config(
+  'request.jwt.claims',
+  '{"sub":"00000000-0000-0000-0000-000000000041","role":"authenticated"}',
+  true
+);
+SET LOCAL ROLE authenticated;
+
+SELECT results_eq(
+  $$ SELECT bio, location, website FROM public.public_profiles
+     WHERE username = 'privacy_owner' $$,
+  $$ VALUES ('Hello there'::text, 'London'::text, NULL::text) $$,
+  'Signed-in users should see public and signed-in fields'
+);
+
+SELECT is_empty(
+  $$ SELECT website FROM public.user_profiles
+     WHERE user_id = '00000000-0000-0000-0000-000000000040' $$,
+  'Other users should not read private fields from user_profiles'
+);
+
+SELECT is(
+  (SELECT count(*)::int FROM public.user_profiles),
+  1,
+  'Users should read only their own row of user_profiles'
+);
+
+RESET ROLE;
+
+-- Test 5: Guests count as signed out
+SELECT set_config(
+  'request.jwt.claims',
+  '{"sub":"00000000-0000-0000-0000-000000000041","role":"authenticated","is_anonymous":true}',
+  true
+);
+SET LOCAL ROLE authenticated;
+
+SELECT is(
+  (SELECT location FROM public.public_profiles WHERE username = 'privacy_owner'),
+  NULL,
+  'Guests should not see fields shared with signed-in users'
+);
+
+RESET ROLE;
+
+-- Test 6: Owners see all their fields
+SELECT set_config(
+  'request.jwt.claims',
+  '{"sub":"00000000-0000-0000-0000-000000000040","role":"authenticated"}',
+  true
+);
+SET LOCAL ROLE authenticated;
+
+SELECT results_eq(
+  $$ SELECT bio, location, website FROM public.public_profiles
+     WHERE username = 'privacy_owner' $$,
+  $$ VALUES ('Hello there'::text, 'London'::text, 'https://example.com'::text) $$,
+  'Owners should see all of their fields in public_profiles'
+);
+
+SELECT is(
+  (SELECT website FROM public.user_profiles
+   WHERE user_id = '00000000-0000-0000-0000-000000000040'),
+  'https://example.com',
+  'Owners should read their own row of user_profiles'
+);
+
+RESET ROLE;
+
+-- Test 7: Private fields are hidden from everyone else, whatever they query
+SELECT set_config(
+  'request.jwt.claims',
+  '{"sub":"00000000-0000-0000-0000-000000000041","role":"authenticated"}',
+  true
+);
+SET LOCAL ROLE authenticated;
+
+SELECT is_empty(
+  $$ SELECT 1 FROM public.public_profiles
+     WHERE username = 'privacy_owner' AND website IS NOT NULL $$,
+  'Private fields should not be filterable through public_profiles'
+);
+
+RESET ROLE;
+
+-- Test 8: The view can't be written to
+SELECT ok(
+  NOT has_table_privilege('authenticated', 'public.public_profiles', 'UPDATE'),
+  'authenticated should not be able to update public_profiles'
+);
+
+SELECT ok(
+  NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE schemaname = 'public'
+    AND tablename = 'user_profiles'
+    AND policyname = 'Users can view all profiles'
+  ),
+  'Policy "Users can view all profiles" should be gone'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
@@ -0,0 +1,167 @@
+-- Tests for search_profiles: matching, privacy, guests and pagination
+
+BEGIN;
+
+SELECT plan(12);
+
+-- Test 1: The RPC and its indexes exist
+SELECT has_function(
+  'public',
+  'search_profiles',
+  ARRAY['text', 'text', 'integer'],
+  'search_profiles(text, text, integer) should exist'
+);
+
+SELECT ok(
+  (
+    SELECT count(*) = 4 FROM pg_indexes
+    WHERE schemaname = 'public'
+    AND tablename = 'user_profiles'
+    AND indexname IN (
+      'idx_user_profiles_username_trgm',
+      'idx_user_profiles_display_name_trgm',
+      'idx_user_profiles_location_trgm',
+      'idx_user_profiles_bio_fts'
+    )
+  ),
+  'Trigram and full-text indexes should exist on user_profiles'
+);
+
+INSERT INTO auth.users (
+    id,
+    instance_id,
+    email,
+    raw_app_meta_data,
+    raw_user_meta_data,
+    created_at,
+    updated_at,
+    aud,
+    role,
+    is_anonymous
+) VALUES (
+    '00000000-0000-0000-0000-000000000050',
+    '00000000-0000-0000-0000-000000000000',
+    'search-ada@example.com',
+    '{}'::jsonb,
+    '{"username":"search_ada","display_name":"Ada Lovelace"}'::jsonb,
+    now(),
+    now(),
+    'authenticated',
+    'authenticated',
+    false
+), (
+    '00000000-0000-0000-0000-000000000051',
+    '00000000-0000-0000-0000-000000000000',
+    'search-alan@example.com',
+    '{}'::jsonb,
+    '{"username":"search_alan","display_name":"Alan Turing"}'::jsonb,
+    now(),
+    now(),
+    'authenticated',
+    'authenticated',
+    false
+), (
+    '00000000-0000-0000-0000-000000000052',
+    '00000000-0000-0000-0000-000000000000',
+    NULL,
+    '{}'::jsonb,
+    '{}'::jsonb,
+    now(),
+    now(),
+    'authenticated',
+    'authenticated',
+    true
+);
+
+UPDATE public.user_profiles
+SET bio = 'Mathematician and writer',
+    location = 'London',
+    location_visibility = 'private'
+WHERE user_id = '00000000-0000-0000-0000-000000000050';
+
+UPDATE public.user_profiles
+SET bio = 'Code breaker',
+    location = 'Manchester'
+WHERE user_id = '00000000-0000-0000-0000-000000000051';
+
+UPDATE public.user_profiles
+SET username = 'search_guest'
+WHERE user_id = '00000000-0000-0000-0000-000000000052';
+
+-- Search as Alan
+SELECT set_config(
+  'request.jwt.claims',
+  '{"sub":"00000000-0000-0000-0000-000000000051","role":"authenticated"}',
+  true
+);
+SET LOCAL ROLE authenticated;
+
+-- Test 2: Display names match by substring, case-insensitively
+SELECT results_eq(
+  $$ SELECT username FROM public.search_profiles('lovelace') $$,
+  $$ VALUES ('search_ada'::text) $$,
+  'Display names should match by substring'
+);
+
+-- Test 3: Bios match by word
+SELECT results_eq(
+  $$ SELECT username FROM public.search_profiles('mathematician') $$,
+  $$ VALUES ('search_ada'::text) $$,
+  'Bios should match by word'
+);
+
+-- Test 4: Visible locations match
+SELECT results_eq(
+  $$ SELECT username FROM public.search_profiles('manchester') $$,
+  $$ VALUES ('search_alan'::text) $$,
+  'Visible locations should match'
+);
+
+-- Test 5: Hidden fields don't match and aren't returned
+SELECT is_empty(
+  $$ SELECT 1 FROM public.search_profiles('london') $$,
+  'Locations hidden from the caller should not match'
+);
+
+SELECT is(
+  (SELECT location FROM public.search_profiles('search_ada')),
+  NULL,
+  'Hidden fields should be null in the results'
+);
+
+-- Test 6: Guests aren't listed; results are ordered by username
+SELECT results_eq(
+  $$ SELECT username FROM public.search_profiles('search_') $$,
+  $$ VALUES ('search_ada'::text), ('search_alan'::text) $$,
+  'Guests should not be listed and results should be ordered by username'
+);
+
+-- Test 7: Wildcards in the query are matched literally
+SELECT is_empty(
+  $$ SELECT 1 FROM public.search_profiles('search%alan') $$,
+  'ILIKE wildcards in the query should be matched literally'
+);
+
+-- Test 8: Pages continue after the cursor
+SELECT results_eq(
+  $$ SELECT username FROM public.search_profiles('search_', NULL, 1) $$,
+  $$ VALUES ('search_ada'::text) $$,
+  'The first page should stop at the limit'
+);
+
+SELECT results_eq(
+  $$ SELECT username FROM public.search_profiles('search_', 'search_ada', 1) $$,
+  $$ VALUES ('search_alan'::text) $$,
+  'The next page should start after the cursor'
+);
+
+RESET ROLE;
+
+-- Test 9: Signed-out visitors can't search
+SELECT ok(
+  NOT has_function_privilege('anon', 'public.search_profiles(text, text, integer)', 'EXECUTE'),
+  'anon should not be able to execute search_profiles'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
@@ -28,10 +28,10 @@ SELECT ok(
     SELECT 1 FROM pg_policies
     WHERE schemaname = 'public'
     AND tablename = 'user_profiles'
-    AND policyname = 'Users can view all profiles'
+    AND policyname = 'Users can view their own profile'
     AND cmd = 'SELECT'
   ),
-  'Policy "Users can view all profiles" should exist for SELECT'
+  'Policy "Users can view their own profile" should exist for SELECT'
 );
 
 SELECT ok(
@@ -67,23 +67,19 @@ SELECT ok(
   'Policy "Users can delete their own profile" should exist for DELETE'
 );
 
--- Test 3: Verify SELECT policy allows viewing all profiles
--- Note: This test assumes the policy allows viewing all profiles (USING (true))
--- In a real test environment, you would:
--- 1. Create test users
--- 2. Authenticate as each user
--- 3. Verify they can SELECT all profiles
-
+-- Test 3: Verify SELECT policy checks user_id matches auth.uid()
+-- Other users' profiles are read through public_profiles, which hides private
+-- fields (see profile_privacy.test.sql)
 SELECT ok(
   (
-    SELECT qual::text LIKE '%true%' OR qual::text = ''
+    SELECT qual::text LIKE '%auth.uid()%'
     FROM pg_policies
     WHERE schemaname = 'public'
     AND tablename = 'user_profiles'
-    AND policyname = 'Users can view all profiles'
+    AND policyname = 'Users can view their own profile'
     AND cmd = 'SELECT'
   ),
-  'SELECT policy should allow viewing all profiles'
+  'SELECT policy should check that user_id matches auth.uid()'
 );
 
 -- Test 4: Verify INSERT policy checks user_id matches auth.uid()
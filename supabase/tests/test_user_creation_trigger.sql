@@ -4,7 +4,7 @@
 
 BEGIN;
 
-SELECT plan(8);
+SELECT plan(15);
 
 -- Test 1: Verify the trigger function exists
 SELECT has_function(
@@ -95,6 +95,140 @@ SELECT is(
     'Profile user_id should match auth.users id'
 );
 
+-- Test 9-11: Anonymous (guest) users get a placeholder profile that is kept
+-- when they convert to a permanent account
+INSERT INTO auth.users (
+    id,
+    instance_id,
+    is_anonymous,
+    raw_app_meta_data,
+    raw_user_meta_data,
+    created_at,
+    updated_at,
+    aud,
+    role
+) VALUES (
+    '00000000-0000-0000-0000-000000000002',
+    '00000000-0000-0000-0000-000000000000',
+    true,
+    '{}'::jsonb,
+    '{}'::jsonb,
+    now(),
+    now(),
+    'authenticated',
+    'authenticated'
+);
+
+-- Test 9: Verify the guest profile is named "Guest"
+SELECT is(
+    (SELECT display_name FROM public.user_profiles WHERE user_id = '00000000-0000-0000-0000-000000000002'),
+    'Guest',
+    'Guest profile display_name should be "Guest"'
+);
+
+UPDATE auth.users
+SET is_anonymous = false,
+    email = 'converted-guest@example.com'
+WHERE id = '00000000-0000-0000-0000-000000000002';
+
+-- Test 10: Verify the placeholder name is replaced on conversion
+SELECT is(
+    (SELECT display_name FROM public.user_profiles WHERE user_id = '00000000-0000-0000-0000-000000000002'),
+    'converted-guest@example.com',
+    'Converted guest display_name should be set to their email'
+);
+
+-- Test 11: Verify the guest's profile row is kept
+SELECT is(
+    (SELECT count(*)::int FROM public.user_profiles WHERE user_id = '00000000-0000-0000-0000-000000000002'),
+    1,
+    'Converting a guest should keep their single profile row'
+);
+
+-- Test 12-15: Username and display name chosen at signup
+INSERT INTO auth.users (
+    id,
+    instance_id,
+    email,
+    raw_app_meta_data,
+    raw_user_meta_data,
+    created_at,
+    updated_at,
+    aud,
+    role
+) VALUES (
+    '00000000-0000-0000-0000-000000000003',
+    '00000000-0000-0000-0000-000000000000',
+    'chosen-name@example.com',
+    '{"provider":"email","providers":["email"]}'::jsonb,
+    '{"username":"ada_l","display_name":"Ada Lovelace"}'::jsonb,
+    now(),
+    now(),
+    'authenticated',
+    'authenticated'
+);
+
+-- Test 12: Verify the chosen username and display name are used
+SELECT is(
+    (SELECT username || '|' || display_name FROM public.user_profiles WHERE user_id = '00000000-0000-0000-0000-000000000003'),
+    'ada_l|Ada Lovelace',
+    'Profile should use the username and display name from signup metadata'
+);
+
+-- The same username again, and an invalid one
+INSERT INTO auth.users (
+    id,
+    instance_id,
+    email,
+    raw_app_meta_data,
+    raw_user_meta_data,
+    created_at,
+    updated_at,
+    aud,
+    role
+) VALUES (
+    '00000000-0000-0000-0000-000000000004',
+    '00000000-0000-0000-0000-000000000000',
+    'taken-name@example.com',
+    '{"provider":"email","providers":["email"]}'::jsonb,
+    '{"username":"ada_l"}'::jsonb,
+    now(),
+    now(),
+    'authenticated',
+    'authenticated'
+), (
+    '00000000-0000-0000-0000-000000000005',
+    '00000000-0000-0000-0000-000000000000',
+    'invalid-name@example.com',
+    '{"provider":"email","providers":["email"]}'::jsonb,
+    '{"username":"no spaces!","display_name":"   "}'::jsonb,
+    now(),
+    now(),
+    'authenticated',
+    'authenticated'
+);
+
+-- Test 13: Verify a taken username falls back to a generated one
+SELECT matches(
+    (SELECT username FROM public.user_profiles WHERE user_id = '00000000-0000-0000-0000-000000000004'),
+    '^user_[a-f0-9]{8}$',
+    'Taken username should fall back to a generated username'
+);
+
+-- Test 14: Verify the display name doesn't claim the taken username
+SELECT is(
+    (SELECT display_name FROM public.user_profiles WHERE user_id = '00000000-0000-0000-0000-000000000004'),
+    'taken-name@example.com',
+    'Display name should fall back to the email when the username was taken'
+);
+
+-- Test 15: Verify invalid values fall back to the defaults
+SELECT is(
+    (SELECT display_name FROM public.user_profiles WHERE user_id = '00000000-0000-0000-0000-000000000005'),
+    'invalid-name@example.com',
+    'Invalid username and blank display name should fall back to the email'
+);
+
 SELECT * FROM finish();
 
 ROLLBACK;
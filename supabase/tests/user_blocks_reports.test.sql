@@ -0,0 +1,220 @@
+-- Tests for blocking users, reporting them and the review queue
+
+BEGIN;
+
+SELECT plan(18);
+
+-- Test 1: Both tables exist with RLS enabled
+SELECT has_table('public', 'user_blocks', 'user_blocks table should exist');
+SELECT has_table('public', 'user_reports', 'user_reports table should exist');
+
+SELECT ok(
+  (SELECT relrowsecurity FROM pg_class WHERE oid = 'public.user_blocks'::regclass),
+  'RLS should be enabled on user_blocks table'
+);
+
+SELECT ok(
+  (SELECT relrowsecurity FROM pg_class WHERE oid = 'public.user_reports'::regclass),
+  'RLS should be enabled on user_reports table'
+);
+
+INSERT INTO auth.users (
+    id,
+    instance_id,
+    email,
+    raw_app_meta_data,
+    raw_user_meta_data,
+    created_at,
+    updated_at,
+    aud,
+    role,
+    is_anonymous
+) VALUES (
+    '00000000-0000-0000-0000-000000000070',
+    '00000000-0000-0000-0000-000000000000',
+    'block-a@example.com',
+    '{}'::jsonb,
+    '{"username":"block_a"}'::jsonb,
+    now(),
+    now(),
+    'authenticated',
+    'authenticated',
+    false
+), (
+    '00000000-0000-0000-0000-000000000071',
+    '00000000-0000-0000-0000-000000000000',
+    'block-b@example.com',
+    '{}'::jsonb,
+    '{"username":"block_b"}'::jsonb,
+    now(),
+    now(),
+    'authenticated',
+    'authenticated',
+    false
+), (
+    '00000000-0000-0000-0000-000000000072',
+    '00000000-0000-0000-0000-000000000000',
+    'block-admin@example.com',
+    '{}'::jsonb,
+    '{"username":"block_admin"}'::jsonb,
+    now(),
+    now(),
+    'authenticated',
+    'authenticated',
+    false
+);
+
+INSERT INTO public.user_roles (user_id, role)
+VALUES ('00000000-0000-0000-0000-000000000072', 'admin');
+
+-- block_b follows block_a and the other way round
+INSERT INTO public.follows (follower_id, following_id)
+VALUES
+  ('00000000-0000-0000-0000-000000000070', '00000000-0000-0000-0000-000000000071'),
+  ('00000000-0000-0000-0000-000000000071', '00000000-0000-0000-0000-000000000070');
+
+-- Act as block_a
+SELECT set_config(
+  'request.jwt.claims',
+  '{"sub":"00000000-0000-0000-0000-000000000070","role":"authenticated"}',
+  true
+);
+SET LOCAL ROLE authenticated;
+
+-- Test 2: Users can block others as themselves only
+SELECT lives_ok(
+  $$ INSERT INTO public.user_blocks (blocker_id, blocked_id)
+     VALUES ('00000000-0000-0000-0000-000000000070', '00000000-0000-0000-0000-000000000071') $$,
+  'Users should be able to block another user'
+);
+
+SELECT throws_ok(
+  $$ INSERT INTO public.user_blocks (blocker_id, blocked_id)
+     VALUES ('00000000-0000-0000-0000-000000000071', '00000000-0000-0000-0000-000000000072') $$,
+  '42501',
+  NULL,
+  'Users should not be able to create blocks for someone else'
+);
+
+-- Test 3: Blocked users disappear from the blocker's profile queries
+SELECT is(
+  (SELECT count(*)::int FROM public.public_profiles WHERE username = 'block_b'),
+  0,
+  'Blocked profiles should be hidden from the blocker'
+);
+
+SELECT is(
+  (SELECT count(*)::int FROM public.search_profiles('block_b')),
+  0,
+  'Blocked profiles should not be found by the blocker''s searches'
+);
+
+SELECT results_eq(
+  $$ SELECT username FROM public.get_blocked_users() $$,
+  $$ VALUES ('block_b'::text) $$,
+  'get_blocked_users should list the blocked user'
+);
+
+-- Test 4: Blocking removes follows in both directions
+SELECT is(
+  (SELECT count(*)::int FROM public.follows
+   WHERE '00000000-0000-0000-0000-000000000071' IN (follower_id, following_id)),
+  0,
+  'Blocking should remove follows between the two users'
+);
+
+RESET ROLE;
+
+-- Act as block_b, the blocked user
+SELECT set_config(
+  'request.jwt.claims',
+  '{"sub":"00000000-0000-0000-0000-000000000071","role":"authenticated"}',
+  true
+);
+SET LOCAL ROLE authenticated;
+
+-- Test 5: The blocked user isn't told, but can't follow the blocker
+SELECT is(
+  (SELECT count(*)::int FROM public.user_blocks),
+  0,
+  'Blocked users should not see who blocked them'
+);
+
+SELECT throws_ok(
+  $$ INSERT INTO public.follows (follower_id, following_id)
+     VALUES ('00000000-0000-0000-0000-000000000071', '00000000-0000-0000-0000-000000000070') $$,
+  '42501',
+  NULL,
+  'Blocked users should not be able to follow the blocker'
+);
+
+-- Test 6: Users can report others, once while the report is pending
+SELECT lives_ok(
+  $$ INSERT INTO public.user_reports (reporter_id, reported_id, reason, details)
+     VALUES ('00000000-0000-0000-0000-000000000071', '00000000-0000-0000-0000-000000000070',
+             'harassment', 'Sent me abusive messages') $$,
+  'Users should be able to report another user'
+);
+
+SELECT throws_ok(
+  $$ INSERT INTO public.user_reports (reporter_id, reported_id, reason)
+     VALUES ('00000000-0000-0000-0000-000000000071', '00000000-0000-0000-0000-000000000070', 'spam') $$,
+  '23505',
+  NULL,
+  'Users should not be able to open a second report on the same user'
+);
+
+SELECT throws_ok(
+  $$ INSERT INTO public.user_reports (reporter_id, reported_id, reason, status)
+     VALUES ('00000000-0000-0000-0000-000000000071', '00000000-0000-0000-0000-000000000072', 'spam', 'dismissed') $$,
+  '42501',
+  NULL,
+  'Users should not be able to file reports as already reviewed'
+);
+
+RESET ROLE;
+
+-- Test 7: Only admins can read and review other users' reports
+SELECT set_config(
+  'request.jwt.claims',
+  '{"sub":"00000000-0000-0000-0000-000000000070","role":"authenticated"}',
+  true
+);
+SET LOCAL ROLE authenticated;
+
+SELECT is(
+  (SELECT count(*)::int FROM public.get_user_reports()),
+  0,
+  'Reported users should not see reports about them'
+);
+
+RESET ROLE;
+
+SELECT set_config(
+  'request.jwt.claims',
+  '{"sub":"00000000-0000-0000-0000-000000000072","role":"authenticated"}',
+  true
+);
+SET LOCAL ROLE authenticated;
+
+SELECT results_eq(
+  $$ SELECT reporter_username, reported_username, reason::text
+     FROM public.get_user_reports() $$,
+  $$ VALUES ('block_b'::text, 'block_a'::text, 'harassment'::text) $$,
+  'Admins should see pending reports with both usernames'
+);
+
+UPDATE public.user_reports SET status = 'resolved'
+WHERE reporter_id = '00000000-0000-0000-0000-000000000071';
+
+SELECT is(
+  (SELECT reviewed_by FROM public.user_reports
+   WHERE reporter_id = '00000000-0000-0000-0000-000000000071'),
+  '00000000-0000-0000-0000-000000000072'::uuid,
+  'Reviewing a report should record the reviewer'
+);
+
+RESET ROLE;
+
+SELECT * FROM finish();
+ROLLBACK;
@@ -0,0 +1,107 @@
+-- Tests for user_roles, the role helpers and the access token hook
+
+BEGIN;
+
+SELECT plan(8);
+
+-- Test 1: RLS is enabled
+SELECT ok(
+  EXISTS (
+    SELECT 1 FROM pg_class c
+    JOIN pg_namespace n ON n.oid = c.relnamespace
+    WHERE n.nspname = 'public'
+    AND c.relname = 'user_roles'
+    AND c.relrowsecurity = true
+  ),
+  'RLS should be enabled on user_roles table'
+);
+
+-- Test 2: Users can read their own roles
+SELECT ok(
+  EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE schemaname = 'public'
+    AND tablename = 'user_roles'
+    AND policyname = 'Users can view own roles'
+    AND cmd = 'SELECT'
+  ),
+  'Policy "Users can view own roles" should exist for SELECT'
+);
+
+-- Test 3: Only admins can change roles (no UPDATE policy, writes gated by is_admin)
+SELECT is(
+  (
+    SELECT count(*)::int FROM pg_policies
+    WHERE schemaname = 'public'
+    AND tablename = 'user_roles'
+    AND cmd IN ('INSERT', 'DELETE')
+    AND coalesce(qual, with_check) LIKE '%is_admin()%'
+  ),
+  2,
+  'INSERT and DELETE on user_roles should require is_admin()'
+);
+
+-- Test 4-5: RLS helpers exist
+SELECT has_function(
+  'public',
+  'has_role',
+  ARRAY['app_role'],
+  'has_role(app_role) should exist'
+);
+
+SELECT has_function(
+  'public',
+  'is_admin',
+  'is_admin() should exist'
+);
+
+-- Test 6: New users are assigned the member role
+INSERT INTO auth.users (
+    id,
+    instance_id,
+    email,
+    raw_app_meta_data,
+    raw_user_meta_data,
+    created_at,
+    updated_at,
+    aud,
+    role
+) VALUES (
+    '00000000-0000-0000-0000-000000000010',
+    '00000000-0000-0000-0000-000000000000',
+    'roles-test@example.com',
+    '{}'::jsonb,
+    '{}'::jsonb,
+    now(),
+    now(),
+    'authenticated',
+    'authenticated'
+);
+
+SELECT results_eq(
+  $$ SELECT role::text FROM public.user_roles WHERE user_id = '00000000-0000-0000-0000-000000000010' $$,
+  ARRAY['member'],
+  'New users should get the member role'
+);
+
+-- Test 7: The token hook adds the roles claim and keeps existing claims
+INSERT INTO public.user_roles (user_id, role)
+VALUES ('00000000-0000-0000-0000-000000000010', 'admin');
+
+SELECT is(
+  public.custom_access_token_hook(jsonb_build_object(
+    'user_id', '00000000-0000-0000-0000-000000000010',
+    'claims', jsonb_build_object('aal', 'aal1')
+  )) -> 'claims',
+  '{"aal": "aal1", "user_roles": ["admin", "member"]}'::jsonb,
+  'custom_access_token_hook should add the user_roles claim'
+);
+
+-- Test 8: Clients cannot call the hook directly
+SELECT ok(
+  NOT has_function_privilege('authenticated', 'public.custom_access_token_hook(jsonb)', 'EXECUTE'),
+  'authenticated should not be able to execute custom_access_token_hook'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
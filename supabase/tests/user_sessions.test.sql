@@ -0,0 +1,63 @@
+-- Tests for the user_sessions table and heartbeat function
+
+BEGIN;
+
+SELECT plan(5);
+
+-- Test 1: RLS is enabled
+SELECT ok(
+  EXISTS (
+    SELECT 1 FROM pg_class c
+    JOIN pg_namespace n ON n.oid = c.relnamespace
+    WHERE n.nspname = 'public'
+    AND c.relname = 'user_sessions'
+    AND c.relrowsecurity = true
+  ),
+  'RLS should be enabled on user_sessions table'
+);
+
+-- Test 2: Users can only read their own sessions
+SELECT ok(
+  EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE schemaname = 'public'
+    AND tablename = 'user_sessions'
+    AND policyname = 'Users can view own sessions'
+    AND cmd = 'SELECT'
+  ),
+  'Policy "Users can view own sessions" should exist for SELECT'
+);
+
+-- Test 3: Clients have no direct write policies (writes go through the heartbeat)
+SELECT is(
+  (
+    SELECT count(*)::int FROM pg_policies
+    WHERE schemaname = 'public'
+    AND tablename = 'user_sessions'
+    AND cmd <> 'SELECT'
+  ),
+  0,
+  'user_sessions should have no INSERT/UPDATE/DELETE policies'
+);
+
+-- Test 4: Rows are removed together with their auth session
+SELECT ok(
+  EXISTS (
+    SELECT 1 FROM pg_constraint
+    WHERE conrelid = 'public.user_sessions'::regclass
+    AND confrelid = 'auth.sessions'::regclass
+    AND confdeltype = 'c'
+  ),
+  'user_sessions.id should reference auth.sessions with ON DELETE CASCADE'
+);
+
+-- Test 5: Heartbeat function exists
+SELECT has_function(
+  'public',
+  'record_session_heartbeat',
+  ARRAY['text', 'text'],
+  'record_session_heartbeat(text, text) should exist'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
@@ -0,0 +1,81 @@
+-- Tests for check_username_available and the reserved-name check
+
+BEGIN;
+
+SELECT plan(7);
+
+-- Test 1: The RPC exists
+SELECT has_function(
+  'public',
+  'check_username_available',
+  ARRAY['text'],
+  'check_username_available(text) should exist'
+);
+
+INSERT INTO auth.users (
+    id,
+    instance_id,
+    email,
+    raw_app_meta_data,
+    raw_user_meta_data,
+    created_at,
+    updated_at,
+    aud,
+    role
+) VALUES (
+    '00000000-0000-0000-0000-000000000020',
+    '00000000-0000-0000-0000-000000000000',
+    'availability-test@example.com',
+    '{}'::jsonb,
+    '{"username":"Taken_Name"}'::jsonb,
+    now(),
+    now(),
+    'authenticated',
+    'authenticated'
+);
+
+-- Test 2: Unused names are available
+SELECT is(
+  public.check_username_available('free_name'),
+  'available',
+  'An unused username should be available'
+);
+
+-- Test 3: Taken names match case-insensitively
+SELECT is(
+  public.check_username_available('taken_name'),
+  'taken',
+  'A username taken with different casing should be taken'
+);
+
+-- Test 4: Reserved names are reported, in any casing
+SELECT is(
+  public.check_username_available('Admin'),
+  'reserved',
+  'Reserved usernames should be reported as reserved'
+);
+
+-- Test 5: Names the profile constraint would reject are invalid
+SELECT is(
+  public.check_username_available('no spaces'),
+  'invalid',
+  'Usernames breaking valid_username should be invalid'
+);
+
+-- Test 6: The caller's own username is available to them
+SELECT set_config('request.jwt.claim.sub', '00000000-0000-0000-0000-000000000020', true);
+
+SELECT is(
+  public.check_username_available('TAKEN_NAME'),
+  'available',
+  'The caller''s own username should be available to them'
+);
+
+-- Test 7: Signed-out visitors (the signup form) can call it
+SELECT ok(
+  has_function_privilege('anon', 'public.check_username_available(text)', 'EXECUTE'),
+  'anon should be able to execute check_username_available'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
@@ -0,0 +1,124 @@
+-- Tests for case-insensitive username uniqueness and reserved usernames
+
+BEGIN;
+
+SELECT plan(9);
+
+-- Test 1: The reserved list exists and has RLS enabled
+SELECT has_table(
+  'public',
+  'reserved_usernames',
+  'reserved_usernames table should exist'
+);
+
+SELECT ok(
+  EXISTS (
+    SELECT 1 FROM pg_class c
+    JOIN pg_namespace n ON n.oid = c.relnamespace
+    WHERE n.nspname = 'public'
+    AND c.relname = 'reserved_usernames'
+    AND c.relrowsecurity = true
+  ),
+  'RLS should be enabled on reserved_usernames table'
+);
+
+-- Test 3: The seed data is there
+SELECT ok(
+  public.is_reserved_username('Support') AND public.is_reserved_username('root'),
+  'Seeded names should be reserved in any casing'
+);
+
+INSERT INTO auth.users (
+    id,
+    instance_id,
+    email,
+    raw_app_meta_data,
+    raw_user_meta_data,
+    created_at,
+    updated_at,
+    aud,
+    role
+) VALUES (
+    '00000000-0000-0000-0000-000000000030',
+    '00000000-0000-0000-0000-000000000000',
+    'first-case@example.com',
+    '{}'::jsonb,
+    '{"username":"Case_Name"}'::jsonb,
+    now(),
+    now(),
+    'authenticated',
+    'authenticated'
+), (
+    '00000000-0000-0000-0000-000000000031',
+    '00000000-0000-0000-0000-000000000000',
+    'second-case@example.com',
+    '{}'::jsonb,
+    '{}'::jsonb,
+    now(),
+    now(),
+    'authenticated',
+    'authenticated'
+), (
+    '00000000-0000-0000-0000-000000000032',
+    '00000000-0000-0000-0000-000000000000',
+    'reserved-signup@example.com',
+    '{}'::jsonb,
+    '{"username":"Admin"}'::jsonb,
+    now(),
+    now(),
+    'authenticated',
+    'authenticated'
+);
+
+-- Test 4: Usernames are unique regardless of case
+SELECT throws_ok(
+  $$ UPDATE public.user_profiles SET username = 'case_name'
+     WHERE user_id = '00000000-0000-0000-0000-000000000031' $$,
+  '23505',
+  NULL,
+  'A username differing only in case should violate uniqueness'
+);
+
+-- Test 5: Reserved usernames can't be taken
+SELECT throws_ok(
+  $$ UPDATE public.user_profiles SET username = 'Support'
+     WHERE user_id = '00000000-0000-0000-0000-000000000031' $$,
+  '23514',
+  'Username "Support" is reserved',
+  'Setting a reserved username should be refused'
+);
+
+-- Test 6: Other usernames still save
+SELECT lives_ok(
+  $$ UPDATE public.user_profiles SET username = 'supporter'
+     WHERE user_id = '00000000-0000-0000-0000-000000000031' $$,
+  'A username that is not reserved should save'
+);
+
+-- Test 7: A reserved username requested at signup falls back to a generated one
+SELECT matches(
+  (SELECT username FROM public.user_profiles WHERE user_id = '00000000-0000-0000-0000-000000000032'),
+  '^user_[a-f0-9]{8}$',
+  'Reserved username at signup should fall back to a generated username'
+);
+
+-- Test 8: Reserved names are stored lowercase
+SELECT throws_ok(
+  $$ INSERT INTO public.reserved_usernames (username) VALUES ('MixedCase') $$,
+  '23514',
+  NULL,
+  'Reserved usernames should be stored lowercase'
+);
+
+-- Test 9: A profile holding a name that became reserved can still be edited
+INSERT INTO public.reserved_usernames (username) VALUES ('supporter');
+
+SELECT lives_ok(
+  $$ UPDATE public.user_profiles
+     SET username = 'supporter', display_name = 'Still Editable'
+     WHERE user_id = '00000000-0000-0000-0000-000000000031' $$,
+  'Re-sending a grandfathered reserved username should not block other edits'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
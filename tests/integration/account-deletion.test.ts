@@ -0,0 +1,102 @@
+/**
+ * Integration tests for self-service account deletion
+ * Requires the delete-account Edge Function to be served (supabase start)
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import {
+  createWebTestClient,
+  createServiceRoleClient,
+} from '../utils/test-clients';
+import {
+  createTestUser,
+  signInTestUser,
+  waitForUserProfile,
+  TestData,
+} from '../utils/test-helpers';
+
+describe('Account Deletion Integration Tests', () => {
+  let supabase: SupabaseClient;
+  let admin: SupabaseClient;
+  let testUserId: string;
+  let otherUserId: string;
+
+  beforeAll(async () => {
+    supabase = createWebTestClient();
+    admin = createServiceRoleClient();
+
+    // A second user whose data must survive the deletion (signUp signs
+    // them in, so the upload goes into their own folder)
+    const other = await createTestUser(supabase, TestData.email());
+    otherUserId = other.userId;
+    await supabase.storage
+      .from('avatars')
+      .upload(`${otherUserId}/avatar.png`, new Blob(['other']), {
+        contentType: 'image/png',
+      });
+
+    const result = await createTestUser(supabase, TestData.email());
+    testUserId = result.userId;
+    await signInTestUser(supabase, result.email);
+    await waitForUserProfile(supabase, testUserId);
+
+    const { error: uploadError } = await supabase.storage
+      .from('avatars')
+      .upload(`${testUserId}/avatar.png`, new Blob(['avatar']), {
+        contentType: 'image/png',
+      });
+    expect(uploadError).toBeNull();
+  });
+
+  afterAll(async () => {
+    if (otherUserId) {
+      await admin.storage.from('avatars').remove([`${otherUserId}/avatar.png`]);
+      await admin.auth.admin.deleteUser(otherUserId);
+    }
+  });
+
+  it('should reject callers without a session', async () => {
+    const anonymous = createWebTestClient();
+    const { error } = await anonymous.functions.invoke('delete-account', {
+      method: 'POST',
+    });
+
+    expect(error).not.toBeNull();
+    const { data } = await admin.auth.admin.getUserById(testUserId);
+    expect(data.user?.id).toBe(testUserId);
+  });
+
+  it('should delete the calling user', async () => {
+    const { error } = await supabase.functions.invoke('delete-account', {
+      method: 'POST',
+    });
+    expect(error).toBeNull();
+
+    const { data, error: lookupError } =
+      await admin.auth.admin.getUserById(testUserId);
+    expect(lookupError).not.toBeNull();
+    expect(data.user).toBeNull();
+  });
+
+  it('should cascade the user profile', async () => {
+    const { data, error } = await admin
+      .from('user_profiles')
+      .select('id')
+      .eq('user_id', testUserId);
+
+    expect(error).toBeNull();
+    expect(data).toHaveLength(0);
+  });
+
+  it("should purge the user's avatar folder only", async () => {
+    const { data: ownFiles } = await admin.storage
+      .from('avatars')
+      .list(testUserId);
+    expect(ownFiles ?? []).toHaveLength(0);
+
+    const { data: otherFiles } = await admin.storage
+      .from('avatars')
+      .list(otherUserId);
+    expect(otherFiles?.map(file => file.name)).toContain('avatar.png');
+  });
+});
@@ -0,0 +1,103 @@
+/**
+ * Integration tests for the password reset flow
+ * Requires the local mail catcher (skipped when it is not running, e.g. in CI)
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { createWebTestClient } from '../utils/test-clients';
+import {
+  createTestUser,
+  signInTestUser,
+  signOutUser,
+  cleanupTestData,
+  TestData,
+} from '../utils/test-helpers';
+import {
+  isMailboxAvailable,
+  waitForLatestEmail,
+  extractOtpCode,
+} from '../utils/test-mailbox';
+
+describe('Password Reset Integration Tests', () => {
+  let supabase: SupabaseClient;
+  let mailboxAvailable = false;
+  let testEmail: string;
+  let testUserId: string;
+  const newPassword = 'NewPassword456!';
+
+  beforeAll(async () => {
+    supabase = createWebTestClient();
+    mailboxAvailable = await isMailboxAvailable();
+
+    const result = await createTestUser(supabase, TestData.email());
+    testEmail = result.email;
+    testUserId = result.userId;
+    await signOutUser(supabase);
+  });
+
+  afterAll(async () => {
+    if (testUserId) {
+      await cleanupTestData(supabase, testUserId);
+    }
+  });
+
+  it('should send a recovery email with a one-time code', async () => {
+    if (!mailboxAvailable) {
+      console.warn('Mail catcher not running - skipping password reset test');
+      return;
+    }
+
+    const { error } = await supabase.auth.resetPasswordForEmail(testEmail, {
+      redirectTo: 'http://localhost:5173/reset-password',
+    });
+    expect(error).toBeNull();
+
+    const message = await waitForLatestEmail(testEmail);
+    expect(message.Subject).toBe('Reset your password');
+    expect(extractOtpCode(message)).toMatch(/^\d{6}$/);
+  });
+
+  it('should start a recovery session and update the password', async () => {
+    if (!mailboxAvailable) {
+      return;
+    }
+
+    const code = extractOtpCode(await waitForLatestEmail(testEmail));
+    const events: string[] = [];
+    const {
+      data: { subscription },
+    } = supabase.auth.onAuthStateChange(event => {
+      events.push(event);
+    });
+
+    const { data, error } = await supabase.auth.verifyOtp({
+      email: testEmail,
+      token: code,
+      type: 'recovery',
+    });
+    subscription.unsubscribe();
+
+    expect(error).toBeNull();
+    expect(data.session?.user.id).toBe(testUserId);
+    expect(events).toContain('PASSWORD_RECOVERY');
+
+    const { error: updateError } = await supabase.auth.updateUser({
+      password: newPassword,
+    });
+    expect(updateError).toBeNull();
+  });
+
+  it('should sign in with the new password', async () => {
+    if (!mailboxAvailable) {
+      return;
+    }
+
+    await signOutUser(supabase);
+    await signInTestUser(supabase, testEmail, newPassword);
+
+    const {
+      data: { session },
+    } = await supabase.auth.getSession();
+    expect(session?.user.email).toBe(testEmail);
+  });
+});
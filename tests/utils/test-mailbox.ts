@@ -0,0 +1,83 @@
+/**
+ * Mail catcher helpers for integration tests
+ * Local Supabase delivers auth emails to the mail catcher configured under
+ * [inbucket] in supabase/config.toml (served by Mailpit in current CLI versions)
+ */
+
+import { sleep } from './test-helpers';
+
+interface MailSummary {
+  ID: string;
+  Created: string;
+}
+
+export interface MailMessage {
+  ID: string;
+  Subject: string;
+  Text: string;
+  HTML: string;
+}
+
+/**
+ * Base URL of the local mail catcher web UI / API
+ */
+export function getMailboxUrl(): string {
+  return process.env.SUPABASE_MAILBOX_URL || 'http://127.0.0.1:54324';
+}
+
+/**
+ * Check whether the mail catcher is running
+ * CI starts Supabase without it, so email-driven tests skip themselves there
+ */
+export async function isMailboxAvailable(): Promise<boolean> {
+  try {
+    const response = await fetch(`${getMailboxUrl()}/api/v1/messages?limit=1`);
+    return response.ok;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Wait for the most recent email sent to an address
+ */
+export async function waitForLatestEmail(
+  email: string,
+  timeout = 10000
+): Promise<MailMessage> {
+  const startTime = Date.now();
+  const query = encodeURIComponent(`to:"${email}"`);
+
+  while (Date.now() - startTime < timeout) {
+    const response = await fetch(
+      `${getMailboxUrl()}/api/v1/search?query=${query}&limit=1`
+    );
+    if (response.ok) {
+      const { messages } = (await response.json()) as {
+        messages: MailSummary[];
+      };
+      const [latest] = messages;
+      if (latest) {
+        const messageResponse = await fetch(
+          `${getMailboxUrl()}/api/v1/message/${latest.ID}`
+        );
+        return (await messageResponse.json()) as MailMessage;
+      }
+    }
+
+    await sleep(250);
+  }
+
+  throw new Error(`No email received for ${email} within ${timeout}ms`);
+}
+
+/**
+ * Extract the one-time code (otp_length = 6) from an auth email
+ */
+export function extractOtpCode(message: MailMessage): string {
+  const code = `${message.Text}\n${message.HTML}`.match(/\b(\d{6})\b/)?.[1];
+  if (!code) {
+    throw new Error(`No one-time code found in email "${message.Subject}"`);
+  }
+  return code;
+}